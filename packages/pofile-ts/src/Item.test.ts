@@ -4,6 +4,7 @@ import * as path from "node:path"
 import { createItem, stringifyItem } from "./Item"
 import { parsePo, createPoFile } from "./parse"
 import { stringifyPo } from "./stringify"
+import type { PoItem } from "./types"
 
 const FIXTURES_DIR = path.join(__dirname, "fixtures")
 
@@ -56,6 +57,15 @@ describe("stringifyItem", () => {
       const str = stringifyPo(po)
       assertDoesntHaveLine(str, "#, fuzzy")
     })
+
+    it("writes the range flag after other flags", () => {
+      const item = createItem()
+      item.msgid = "test"
+      item.flags["c-format"] = true
+      item.range = { min: 0, max: 10 }
+
+      assertHasLine(stringifyItem(item), "#, c-format,range: 0..10")
+    })
   })
 
   describe("msgid/msgstr", () => {
@@ -174,6 +184,78 @@ describe("stringifyItem", () => {
     })
   })
 
+  describe("previous fields", () => {
+    it("writes previous fields in GNU order after flags", () => {
+      const item = createItem()
+      item.flags.fuzzy = true
+      item.previousMsgid = "Old"
+      item.previousMsgidPlural = "Olds"
+      item.previousMsgctxt = "ctx"
+      item.msgid = "New"
+      item.msgid_plural = "News"
+
+      assertHasContiguousLines(stringifyItem(item), [
+        "#, fuzzy",
+        '#| msgctxt "ctx"',
+        '#| msgid "Old"',
+        '#| msgid_plural "Olds"',
+        'msgid "New"'
+      ])
+    })
+
+    it("writes multi-line previous fields", () => {
+      const item = createItem()
+      item.previousMsgid = "Line one\nLine two"
+      item.msgid = "New"
+
+      assertHasContiguousLines(stringifyItem(item), [
+        '#| msgid "Line one\\n"',
+        '#| "Line two"',
+        'msgid "New"'
+      ])
+    })
+
+    it("writes obsolete previous fields", () => {
+      const item = createItem()
+      item.obsolete = true
+      item.previousMsgid = "Old"
+      item.msgid = "New"
+
+      assertHasContiguousLines(stringifyItem(item), ['#~| msgid "Old"', '#~ msgid "New"'])
+    })
+
+    it("roundtrips previous fields", () => {
+      const po = parsePo(readFixture("previous.po"))
+      const reparsed = parsePo(stringifyPo(po))
+
+      expect(po.items.map((item) => item.previousMsgid)).toEqual([
+        "Open file",
+        "One file",
+        "Long previous text spanning lines",
+        "Old removed"
+      ])
+      expect(reparsed.items).toEqual(po.items)
+    })
+
+    it("writes items without range and previous fields", () => {
+      const item: PoItem = {
+        msgid: "New",
+        msgctxt: null,
+        references: [],
+        msgid_plural: null,
+        msgstr: ["Neu"],
+        comments: [],
+        extractedComments: [],
+        flags: { fuzzy: true },
+        metadata: {},
+        obsolete: false,
+        nplurals: 2
+      }
+
+      expect(stringifyItem(item)).toBe('#, fuzzy\nmsgid "New"\nmsgstr "Neu"')
+    })
+  })
+
   describe("msgctxt", () => {
     it("writes context field", () => {
       const po = parsePo(readFixture("big.po"))
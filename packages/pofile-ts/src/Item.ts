@@ -1,6 +1,7 @@
 import type { CreateItemOptions, PoItem, SerializeOptions } from "./types"
 import { formatKeyword, DEFAULT_SERIALIZE_OPTIONS } from "./internal/serialization"
 import { escapeString } from "./internal/utils"
+import { formatRangeFlag } from "./flags"
 
 /**
  * Creates a new translation item with default values.
@@ -18,7 +19,11 @@ export function createItem(options?: CreateItemOptions): PoItem {
     comments: [],
     extractedComments: [],
     flags: {},
+    range: null,
     metadata: {},
+    previousMsgctxt: null,
+    previousMsgid: null,
+    previousMsgidPlural: null,
     obsolete: false,
     nplurals: isNaN(npluralsNumber) ? 2 : npluralsNumber
   }
@@ -35,7 +40,7 @@ export function stringifyItem(item: PoItem, options?: SerializeOptions): string
   const lines: string[] = []
   const obsoletePrefix = item.obsolete ? "#~ " : ""
 
-  // Comments (order: translator, extracted, metadata, references, flags)
+  // Comments (order: translator, extracted, metadata, references, flags, previous)
   // Cast to allow undefined - handles incomplete items created manually
   const comments = item.comments as string[] | undefined
   const extractedComments = item.extractedComments as string[] | undefined
@@ -66,10 +71,15 @@ export function stringifyItem(item: PoItem, options?: SerializeOptions): string
       flagStr += (flagStr ? "," : "") + flag
     }
   }
+  if (item.range) {
+    flagStr += (flagStr ? "," : "") + formatRangeFlag(item.range)
+  }
   if (flagStr) {
     lines.push("#, " + flagStr)
   }
 
+  appendPrevious(lines, item, item.obsolete ? "#~| " : "#| ", options)
+
   // Message fields
   if (item.msgctxt != null) {
     appendKeyword(lines, "msgctxt", item.msgctxt, obsoletePrefix, options)
@@ -98,6 +108,24 @@ function appendKeyword(
   lines.push(prefix + formatted.join("\n" + prefix))
 }
 
+/** Appends previous (#|) fields in GNU order: msgctxt, msgid, msgid_plural */
+function appendPrevious(
+  lines: string[],
+  item: PoItem,
+  prefix: string,
+  options?: SerializeOptions
+): void {
+  if (item.previousMsgctxt != null) {
+    appendKeyword(lines, "msgctxt", item.previousMsgctxt, prefix, options)
+  }
+  if (item.previousMsgid != null) {
+    appendKeyword(lines, "msgid", item.previousMsgid, prefix, options)
+  }
+  if (item.previousMsgidPlural != null) {
+    appendKeyword(lines, "msgid_plural", item.previousMsgidPlural, prefix, options)
+  }
+}
+
 /** Appends msgstr line(s) to the output, handling plurals */
 function appendMsgstr(
   lines: string[],
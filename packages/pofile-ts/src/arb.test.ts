@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest"
+import { arbToPoFile, poFileToArb, type ArbFile } from "./arb"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+
+const TEMPLATE: ArbFile = {
+  "@@locale": "en",
+  helloUser: "Hello {name}!",
+  "@helloUser": {
+    description: "Greeting on the home page\nShown after login",
+    placeholders: { name: { type: "String", example: "Bob" } }
+  },
+  openMenu: "Open",
+  "@openMenu": { context: "menu" },
+  fileCount: "{count, plural, one {{count} file} other {{count} files}}",
+  wombats: "{n, plural, one{# wombat} other{# wombats}}",
+  pronoun: "{gender, select, female {she} other {they}}",
+  untranslated: "Later"
+}
+
+const GERMAN: ArbFile = {
+  "@@locale": "de",
+  helloUser: "Hallo {name}!",
+  openMenu: "Öffnen",
+  fileCount: "{count, plural, one {{count} Datei} other {{count} Dateien}}",
+  wombats: "{n, plural, one{# Wombat} other{# Wombats}}",
+  pronoun: "{gender, select, female {sie} other {they}}"
+}
+
+describe("arbToPoFile", () => {
+  it("maps messages and metadata with a template", () => {
+    const po = arbToPoFile(GERMAN, { template: TEMPLATE })
+
+    expect(po.headers.Language).toBe("de")
+    expect(po.headers["Plural-Forms"]).toBe("nplurals=2; plural=(n != 1);")
+    expect(stringifyPo(po)).toContain(`#. Greeting on the home page
+#. Shown after login
+#@ key: helloUser
+#@ placeholders: {"name":{"type":"String","example":"Bob"}}
+msgid "Hello {name}!"
+msgstr "Hallo {name}!"
+
+#@ key: openMenu
+msgctxt "menu"
+msgid "Open"
+msgstr "Öffnen"`)
+  })
+
+  it("converts plural messages to gettext plurals", () => {
+    const po = arbToPoFile(GERMAN, { template: TEMPLATE })
+    const [, , files, wombats, pronoun, untranslated] = po.items
+
+    expect(files).toMatchObject({
+      msgid: "{count} file",
+      msgid_plural: "{count} files",
+      msgstr: ["{count} Datei", "{count} Dateien"]
+    })
+    expect(wombats).toMatchObject({
+      msgid: "{n} wombat",
+      msgid_plural: "{n} wombats",
+      msgstr: ["{n} Wombat", "{n} Wombats"],
+      metadata: { key: "wombats", "plural-variable": "n" }
+    })
+    expect(pronoun).toMatchObject({
+      msgid: "{gender, select, female {she} other {they}}",
+      msgid_plural: null,
+      msgstr: ["{gender, select, female {sie} other {they}}"]
+    })
+    expect(untranslated).toMatchObject({ msgid: "Later", msgstr: [""] })
+  })
+
+  it("gives plurals the forms of the locale", () => {
+    const po = arbToPoFile({
+      "@@locale": "pl",
+      files: "{count, plural, one {plik} few {pliki} many {plików} other {pliku}}"
+    })
+
+    expect(po.items[0]?.msgstr).toEqual(["plik", "pliki", "plików"])
+  })
+
+  it("keeps plurals with exact matches as ICU", () => {
+    const po = arbToPoFile({
+      "@@locale": "en",
+      items: "{count, plural, =0 {none} one {one} other {many}}"
+    })
+
+    expect(po.items[0]?.msgid_plural).toBeNull()
+    expect(po.items[0]?.msgstr).toEqual(["{count, plural, =0 {none} one {one} other {many}}"])
+  })
+
+  it("requires a locale", () => {
+    expect(() => arbToPoFile({ hello: "Hello" })).toThrow(
+      "Cannot convert an ARB file without a locale"
+    )
+  })
+})
+
+describe("poFileToArb", () => {
+  it("writes back the translations of an ARB file", () => {
+    const arb = poFileToArb(arbToPoFile(GERMAN, { template: TEMPLATE }))
+
+    expect(arb).toEqual({
+      "@@locale": "de",
+      helloUser: "Hallo {name}!",
+      "@helloUser": {
+        description: "Greeting on the home page\nShown after login",
+        placeholders: { name: { type: "String", example: "Bob" } }
+      },
+      openMenu: "Öffnen",
+      "@openMenu": { context: "menu" },
+      fileCount: "{count, plural, one {{count} Datei} other {{count} Dateien}}",
+      "@fileCount": { placeholders: { count: { type: "num" } } },
+      wombats: "{n, plural, one {{n} Wombat} other {{n} Wombats}}",
+      "@wombats": { placeholders: { n: { type: "num" } } },
+      pronoun: "{gender, select, female {sie} other {they}}",
+      "@pronoun": { placeholders: { gender: { type: "String" } } }
+    })
+  })
+
+  it("writes an other clause for headers without a form for it", () => {
+    const russian: ArbFile = {
+      "@@locale": "ru",
+      fileCount:
+        "{count, plural, one {{count} файл} few {{count} файла} many {{count} файлов} other {{count} файла}}"
+    }
+    const po = arbToPoFile(russian, {
+      template: TEMPLATE,
+      pluralForms:
+        "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);"
+    })
+
+    expect(po.items[2]?.msgstr).toHaveLength(3)
+    expect(poFileToArb(po).fileCount).toBe(
+      "{count, plural, one {{count} файл} few {{count} файла} many {{count} файлов} other {{count} файлов}}"
+    )
+  })
+
+  it("writes the template ARB", () => {
+    const arb = poFileToArb(arbToPoFile(GERMAN, { template: TEMPLATE }), { template: true })
+
+    expect(arb["@@locale"]).toBe("en")
+    expect(arb.fileCount).toBe("{count, plural, one {{count} file} other {{count} files}}")
+    expect(arb.untranslated).toBe("Later")
+  })
+
+  it("creates keys and placeholders for PO entries", () => {
+    const po = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "Save changes"
+msgstr "Änderungen speichern"
+
+msgctxt "toolbar"
+msgid "Save changes"
+msgstr "Speichern"
+
+msgid "Total: {price, number, currency} on {day, date, short}"
+msgstr "Summe: {price, number, currency} am {day, date, short}"
+
+msgid "{count} item"
+msgid_plural "{count} items"
+msgstr[0] "{count} Artikel"
+msgstr[1] "{count} Artikel"
+
+#, fuzzy
+msgid "Draft"
+msgstr "Entwurf"
+
+msgid "Untranslated"
+msgstr ""
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`)
+
+    expect(poFileToArb(po)).toEqual({
+      "@@locale": "de",
+      saveChanges: "Änderungen speichern",
+      toolbarSaveChanges: "Speichern",
+      "@toolbarSaveChanges": { context: "toolbar" },
+      totalPriceNumberCurrencyOnDay: "Summe: {price, number, currency} am {day, date, short}",
+      "@totalPriceNumberCurrencyOnDay": {
+        placeholders: {
+          price: { type: "num", format: "currency" },
+          day: { type: "DateTime", format: "short" }
+        }
+      },
+      countItem: "{count, plural, one {{count} Artikel} other {{count} Artikel}}",
+      "@countItem": { placeholders: { count: { type: "num" } } }
+    })
+    expect(Object.keys(poFileToArb(po, { includeFuzzy: true }))).toContain("draft")
+  })
+
+  it("requires a locale", () => {
+    expect(() => poFileToArb(parsePo('msgid "a"\nmsgstr "b"\n'))).toThrow(
+      "Cannot convert a PO file without a locale"
+    )
+  })
+})
@@ -0,0 +1,380 @@
+/**
+ * Flutter ARB (Application Resource Bundle) import and export.
+ *
+ * ARB messages are ICU MessageFormat, keyed by Dart identifiers. PO fields
+ * map to ARB as follows:
+ *
+ * - `@@locale` → Language header
+ * - key → `#@ key:` metadata
+ * - `@key.description` → extracted comments (#.), one per line
+ * - `@key.context` → msgctxt
+ * - `@key.placeholders` → `#@ placeholders:` metadata as JSON; on export,
+ *   placeholders not listed there get their type from `extractVariableInfo`
+ *
+ * A message that is a single ICU plural becomes a gettext plural: the
+ * source through `icuToGettextSource`, the translation with a msgstr per
+ * plural form. `gettextToIcu` turns it back into an ICU plural.
+ *
+ * @see https://github.com/google/app-resource-bundle/wiki/ApplicationResourceBundleSpecification
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { createItem } from "./Item"
+import { createPoFile } from "./parse"
+import { getPluralFormsCategories, getPluralFormsHeader } from "./headers"
+import { getPluralFormsMapping, parsePluralForms } from "./plurals"
+import { parseIcu } from "./icu/parser"
+import { gettextToIcu, icuToGettextSource, splitIcuPlural, type PluralCase } from "./icu/conversion"
+import type { IcuPluralNode } from "./icu/types"
+import { extractVariableInfo, type IcuVariable } from "./icu/utils"
+
+/**
+ * A placeholder of an ARB message.
+ */
+export interface ArbPlaceholder {
+  /** Dart type, e.g. "String", "int", "num" or "DateTime" */
+  type?: string
+  /** Number or date format, e.g. "compact" or "yMd" */
+  format?: string
+  example?: string
+  description?: string
+  [field: string]: unknown
+}
+
+/**
+ * The `@key` metadata of an ARB message.
+ */
+export interface ArbMessageMetadata {
+  description?: string
+  context?: string
+  placeholders?: Record<string, ArbPlaceholder>
+  [field: string]: unknown
+}
+
+/**
+ * An ARB file: messages by key, `@key` metadata and `@@` global attributes.
+ */
+export type ArbFile = Record<string, string | ArbMessageMetadata>
+
+/**
+ * Options for `arbToPoFile`.
+ */
+export interface ArbToPoFileOptions {
+  /**
+   * The template ARB with the source messages and their metadata. Without
+   * it, the file's messages are both source and translation.
+   */
+  template?: ArbFile
+
+  /** Locale of the translations (default: `@@locale`) */
+  locale?: string
+
+  /** Plural-Forms header of the file (default: from `getPluralFormsHeader` for the locale) */
+  pluralForms?: string
+}
+
+/**
+ * Options for `poFileToArb`.
+ */
+export interface PoFileToArbOptions {
+  /** Write the source messages (msgid) instead of the translations, for the template ARB (default: false) */
+  template?: boolean
+
+  /** Locale of the messages, as `@@locale` (default: the Language header, or "en" for templates) */
+  locale?: string
+
+  /** Include fuzzy translations (default: false) */
+  includeFuzzy?: boolean
+}
+
+/** Metadata names of ARB data kept in PO files */
+const METADATA_KEY = "key"
+const METADATA_PLACEHOLDERS = "placeholders"
+const METADATA_PLURAL_VARIABLE = "plural-variable"
+
+/** The plural variable of `gettextToIcu` */
+const DEFAULT_PLURAL_VARIABLE = "count"
+
+/** CLDR plural categories; other plural selectors like `=0` have no gettext form */
+const PLURAL_CATEGORIES = new Set(["zero", "one", "two", "few", "many", "other"])
+
+/** Dart types of ICU variable types */
+const PLACEHOLDER_TYPES: Record<IcuVariable["type"], string> = {
+  argument: "String",
+  number: "num",
+  date: "DateTime",
+  time: "DateTime",
+  plural: "num",
+  select: "String"
+}
+
+/** Returns the metadata of a message, if it has any */
+function getMessageMetadata(arb: ArbFile | undefined, key: string): ArbMessageMetadata | undefined {
+  const metadata = arb?.[`@${key}`]
+  return typeof metadata === "object" ? metadata : undefined
+}
+
+/** Returns a message or global attribute, or "" if there is none */
+function getText(arb: ArbFile, key: string): string {
+  const text = arb[key]
+  return typeof text === "string" ? text : ""
+}
+
+/** Returns the keys of the messages of a file, without metadata and global attributes */
+function getMessageKeys(arb: ArbFile): string[] {
+  return Object.keys(arb).filter((key) => !key.startsWith("@") && typeof arb[key] === "string")
+}
+
+/** Whether a plural has gettext forms: cardinal, without offset and with CLDR categories only */
+function isPlainPlural(node: IcuPluralNode, cases: PluralCase[]): boolean {
+  const categories = Object.keys(node.options)
+  return (
+    node.pluralType === "cardinal" &&
+    node.offset === 0 &&
+    categories.every((category) => PLURAL_CATEGORIES.has(category)) &&
+    // The cases were found by the parser and by splitIcuPlural alike
+    cases.map((pluralCase) => pluralCase.category).join() === categories.join()
+  )
+}
+
+/**
+ * Returns the cases of a message that is a single plural over CLDR
+ * categories, with `#` written as the variable; null for other messages.
+ */
+function getPluralCases(
+  message: string
+): { pluralVariable: string; cases: Map<string, string> } | null {
+  const result = parseIcu(message, { requiresOtherClause: false })
+  const [node] = result.success ? result.ast : []
+  const plural = splitIcuPlural(message)
+  if (result.ast?.length !== 1 || node?.type !== "plural" || !plural) {
+    return null
+  }
+  const isPlain = isPlainPlural(node, plural.cases)
+  const variable = `{${plural.pluralVariable}}`
+  const cases = plural.cases.map((c): [string, string] => [
+    c.category,
+    c.text.replace(/#/g, variable)
+  ])
+  return isPlain ? { pluralVariable: plural.pluralVariable, cases: new Map(cases) } : null
+}
+
+/** Sets the messages of an item: a gettext plural for plural messages, else msgid and msgstr */
+function setMessages(
+  item: PoItem,
+  source: string,
+  translation: string,
+  categories: readonly string[]
+): void {
+  const gettext = icuToGettextSource(source)
+  const sourceCases = getPluralCases(source)
+  const cases = translation ? getPluralCases(translation) : null
+  const isPlural =
+    gettext !== null &&
+    sourceCases !== null &&
+    (!translation || cases?.pluralVariable === gettext.pluralVariable)
+  if (!isPlural) {
+    item.msgid = source
+    item.msgstr = [translation]
+    return
+  }
+  item.msgid = gettext.msgid
+  item.msgid_plural = gettext.msgid_plural
+  item.msgstr = categories.map(
+    (category) => cases?.cases.get(category) ?? cases?.cases.get("other") ?? ""
+  )
+  if (gettext.pluralVariable !== DEFAULT_PLURAL_VARIABLE) {
+    item.metadata[METADATA_PLURAL_VARIABLE] = gettext.pluralVariable
+  }
+}
+
+/** Sets the fields of an item from the `@key` metadata of its message */
+function setMetadata(item: PoItem, key: string, metadata: ArbMessageMetadata | undefined): void {
+  item.metadata[METADATA_KEY] = key
+  if (typeof metadata?.context === "string") {
+    item.msgctxt = metadata.context
+  }
+  if (typeof metadata?.description === "string" && metadata.description) {
+    item.extractedComments = metadata.description.split("\n")
+  }
+  if (metadata?.placeholders) {
+    item.metadata[METADATA_PLACEHOLDERS] = JSON.stringify(metadata.placeholders)
+  }
+}
+
+/** Returns the Plural-Forms header of a locale and the plural category of each msgstr index */
+function getPluralSettings(
+  locale: string,
+  pluralForms: string | undefined
+): { pluralForms: string; categories: readonly string[] } {
+  return pluralForms
+    ? { pluralForms, categories: getPluralFormsMapping(pluralForms, locale).categories }
+    : { pluralForms: getPluralFormsHeader(locale), categories: getPluralFormsCategories(locale) }
+}
+
+/**
+ * Converts a Flutter ARB file to a PO file.
+ *
+ * Each message becomes an entry; the key is kept as `#@ key:` metadata, so
+ * `poFileToArb` writes it back. With a `template`, its messages are the
+ * msgids and the file's messages the translations; messages missing from
+ * the file are untranslated. Metadata comes from the template, or the file
+ * itself.
+ *
+ * Messages that are a single plural over CLDR categories, in source and
+ * translation, become gettext plurals with a msgstr per plural form of
+ * the Plural-Forms header. Other messages are kept as ICU.
+ *
+ * @throws Error if there is no locale
+ *
+ * @example
+ * const po = arbToPoFile(JSON.parse(fs.readFileSync("lib/l10n/app_de.arb", "utf8")), {
+ *   template: JSON.parse(fs.readFileSync("lib/l10n/app_en.arb", "utf8"))
+ * })
+ */
+export function arbToPoFile(arb: ArbFile, options: ArbToPoFileOptions = {}): PoFile {
+  const locale = options.locale ?? getText(arb, "@@locale")
+  if (!locale) {
+    throw new Error("Cannot convert an ARB file without a locale: set @@locale or `locale`")
+  }
+  const { pluralForms, categories } = getPluralSettings(locale, options.pluralForms)
+  const nplurals = Number(parsePluralForms(pluralForms).nplurals) || categories.length
+
+  const po = createPoFile()
+  po.headers.Language = locale
+  po.headers["Plural-Forms"] = pluralForms
+  const { template } = options
+  for (const key of getMessageKeys(template ?? arb)) {
+    const item = createItem({ nplurals })
+    setMessages(item, getText(template ?? arb, key), getText(arb, key), categories)
+    setMetadata(item, key, getMessageMetadata(template, key) ?? getMessageMetadata(arb, key))
+    po.items.push(item)
+  }
+  return po
+}
+
+/** Returns a Dart identifier for an entry without a key, from its context and msgid */
+function createKey(item: PoItem, keys: Set<string>): string {
+  const words = `${item.msgctxt ?? ""} ${item.msgid}`.match(/[A-Za-z0-9]+/g) ?? []
+  const name = words
+    .slice(0, 6)
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join("")
+  const base = /^[a-z]/.test(name) ? name : `message${name.charAt(0).toUpperCase()}${name.slice(1)}`
+  let key = base
+  for (let n = 2; keys.has(key); n++) {
+    key = `${base}${n}`
+  }
+  return key
+}
+
+/** Returns the message of an entry: its translation, or its source for templates */
+function getMessage(
+  item: PoItem,
+  locale: string,
+  options: PoFileToArbOptions,
+  pluralForms?: string
+): string {
+  const texts = options.template ? [item.msgid, item.msgid_plural ?? ""] : item.msgstr
+  if (item.msgid_plural === null) {
+    return texts[0] ?? ""
+  }
+  const pluralVariable = item.metadata[METADATA_PLURAL_VARIABLE] ?? DEFAULT_PLURAL_VARIABLE
+  const icu = gettextToIcu(
+    { ...item, msgstr: texts },
+    { locale, pluralForms: options.template ? undefined : pluralForms, pluralVariable }
+  )
+  return icu ?? `{${pluralVariable}, plural, other {${texts[0] ?? ""}}}`
+}
+
+/** Returns the placeholders of a message: those kept from the ARB file, then typed by `extractVariableInfo` */
+function getPlaceholders(item: PoItem, message: string): Record<string, ArbPlaceholder> {
+  let placeholders: Record<string, ArbPlaceholder> = {}
+  try {
+    placeholders = JSON.parse(item.metadata[METADATA_PLACEHOLDERS] ?? "{}") as typeof placeholders
+  } catch {
+    // Edited by hand: derive the placeholders instead
+  }
+  for (const variable of extractVariableInfo(message)) {
+    placeholders[variable.name] ??= {
+      type: PLACEHOLDER_TYPES[variable.type],
+      ...(variable.style ? { format: variable.style } : {})
+    }
+  }
+  return placeholders
+}
+
+/** Returns the `@key` metadata of an entry, or null if it has none */
+function createMetadata(item: PoItem, message: string): ArbMessageMetadata | null {
+  const metadata: ArbMessageMetadata = {}
+  if (item.extractedComments.length > 0) {
+    metadata.description = item.extractedComments.join("\n")
+  }
+  if (item.msgctxt !== null) {
+    metadata.context = item.msgctxt
+  }
+  const placeholders = getPlaceholders(item, message)
+  if (Object.keys(placeholders).length > 0) {
+    metadata.placeholders = placeholders
+  }
+  return Object.keys(metadata).length > 0 ? metadata : null
+}
+
+/** Whether an entry is written: active, and translated unless writing the template */
+function isWritten(item: PoItem, options: PoFileToArbOptions): boolean {
+  if (item.msgid === "" || item.obsolete) {
+    return false
+  }
+  if (options.template) {
+    return true
+  }
+  const translated = item.msgstr.length > 0 && item.msgstr.every((msgstr) => msgstr !== "")
+  return translated && (options.includeFuzzy === true || !item.flags.fuzzy)
+}
+
+/**
+ * Converts a PO file to a Flutter ARB file, with `@@locale` from the
+ * Language header.
+ *
+ * Entries keep the key of their `#@ key:` metadata; others get a Dart
+ * identifier made from msgctxt and msgid. Extracted comments become the
+ * description and msgctxt the context. Placeholders kept from the ARB file
+ * are written back, and the other variables of the message are added with
+ * a type from `extractVariableInfo`. Gettext plurals become ICU plurals
+ * through `gettextToIcu`, with the categories of the Plural-Forms header.
+ *
+ * Obsolete, untranslated and fuzzy entries are left out. With `template`,
+ * the source messages are written instead, for the template ARB.
+ *
+ * @throws Error if there is no locale
+ *
+ * @example
+ * fs.writeFileSync("lib/l10n/app_de.arb", JSON.stringify(poFileToArb(po), null, 2))
+ */
+export function poFileToArb(po: PoFile, options: PoFileToArbOptions = {}): ArbFile {
+  const locale = options.locale ?? (options.template ? "en" : po.headers.Language)
+  if (!locale) {
+    throw new Error(
+      "Cannot convert a PO file without a locale: set the Language header or `locale`"
+    )
+  }
+  const header = po.headers["Plural-Forms"]
+  const pluralForms = header && parsePluralForms(header).plural ? header : undefined
+  const items = po.items.filter((item) => isWritten(item, options))
+  const keys = new Set(items.map((item) => item.metadata[METADATA_KEY] ?? ""))
+  const arb: ArbFile = { "@@locale": locale }
+  for (const item of items) {
+    let key = item.metadata[METADATA_KEY]
+    if (key === undefined) {
+      key = createKey(item, keys)
+      keys.add(key)
+    }
+    const message = getMessage(item, locale, options, pluralForms)
+    arb[key] = message
+    const metadata = createMetadata(item, message)
+    if (metadata) {
+      arb[`@${key}`] = metadata
+    }
+  }
+  return arb
+}
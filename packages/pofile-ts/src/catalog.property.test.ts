@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest"
+import { catalogToPoFile, poFileToCatalog, type CatalogFile } from "./catalog"
+import { createItem } from "./Item"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+import type { PoFile, PoItem } from "./types"
+
+/** Deterministic PRNG, so that failures are reproducible from the seed */
+function createRandom(seed: number) {
+  let state = seed
+  const next = (): number => {
+    // LCG
+    state = (1103515245 * state + 12345) & 0x7fffffff
+    return state
+  }
+  const int = (max: number): number => next() % max
+  const chance = (percent: number): boolean => int(100) < percent
+  const pick = <T>(values: readonly T[]): T => values[int(values.length)] as T
+  const list = <T>(max: number, create: () => T): T[] =>
+    Array.from({ length: int(max + 1) }, create)
+  return { int, chance, pick, list }
+}
+
+type Random = ReturnType<typeof createRandom>
+
+const TEXTS = [
+  "",
+  "Hello",
+  "Hello {name}",
+  "{count, plural, one {# item} other {# items}}",
+  'Say "hi"',
+  "Back\\slash",
+  "Line\nbreak",
+  "\ttab",
+  "  padded  ",
+  "Größe",
+  "日本語",
+  "👍🏽",
+  "42"
+]
+
+const REFERENCES = [
+  "src/App.tsx:42",
+  "src/App.tsx",
+  "lib/utils.ts:1",
+  "C:\\src\\app.ts:3",
+  "a.ts:1 b.ts:2",
+  "file.ts:0"
+]
+
+const FLAGS = ["fuzzy", "c-format", "no-c-format", "javascript-format", "no-wrap"]
+
+const METADATA_KEYS = ["origin", "confidence", "modified"]
+
+const PLURAL_FORMS: Record<number, string> = {
+  1: "nplurals=1; plural=0;",
+  2: "nplurals=2; plural=(n != 1);",
+  3: "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+  6: "nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);"
+}
+
+/** A text without line breaks, for values written on a single line */
+function singleLine(random: Random): string {
+  return random.pick(TEXTS).replace(/\n/g, " ")
+}
+
+/** Sets random previous msgids, as written by `msgmerge --previous` */
+function setRandomPrevious(random: Random, item: PoItem): void {
+  item.previousMsgid = random.pick(TEXTS)
+  item.previousMsgctxt = random.chance(50) ? random.pick(TEXTS) : null
+  item.previousMsgidPlural = random.chance(50) ? random.pick(TEXTS) : null
+}
+
+/** Creates a random item; `index` keeps msgids unique and not integer-like */
+function createRandomItem(random: Random, index: number, nplurals: number): PoItem {
+  const item = createItem({ nplurals: random.chance(10) ? random.pick([1, 2, 3, 6]) : nplurals })
+  const shared = Math.floor(index / 2)
+  item.msgid = `${random.pick(TEXTS)} #${shared}`
+  // Odd items share the msgid of the item before, in another context
+  item.msgctxt = index % 2 === 1 ? random.pick(["", "menu", random.pick(TEXTS)]) : null
+  if (random.chance(30)) {
+    item.msgid_plural = random.pick(TEXTS)
+  }
+  const forms = item.msgid_plural === null ? random.pick([1, 1, 1, 0, 2]) : random.int(8)
+  item.msgstr = Array.from({ length: forms }, () => random.pick(TEXTS))
+  item.references = random.list(3, () => random.pick(REFERENCES))
+  item.comments = random.list(2, () => singleLine(random))
+  item.extractedComments = random.list(2, () => singleLine(random))
+  for (const flag of random.list(2, () => random.pick(FLAGS))) {
+    item.flags[flag] = true
+  }
+  if (random.chance(15)) {
+    item.range = { min: random.int(5), max: 5 + random.int(100) }
+  }
+  for (const key of random.list(2, () => random.pick(METADATA_KEYS))) {
+    item.metadata[key] = `${key} ${random.int(100)}`
+  }
+  if (random.chance(20)) {
+    setRandomPrevious(random, item)
+  }
+  item.obsolete = random.chance(15)
+  return item
+}
+
+/** Creates a random PO file */
+function createRandomPoFile(seed: number): PoFile {
+  const random = createRandom(seed)
+  const nplurals = random.pick([1, 2, 3, 6])
+  const headers: PoFile["headers"] = {}
+  if (random.chance(80)) {
+    headers["Plural-Forms"] = PLURAL_FORMS[nplurals]
+  }
+  for (const name of random.list(3, () =>
+    random.pick(["Language", "X-Generator", "Project-Id-Version"])
+  )) {
+    headers[name] = singleLine(random)
+  }
+  const items = Array.from({ length: random.int(12) }, (_, index) =>
+    createRandomItem(random, index, headers["Plural-Forms"] ? nplurals : 2)
+  )
+  return {
+    comments: random.list(2, () => singleLine(random)),
+    extractedComments: random.list(1, () => singleLine(random)),
+    headers,
+    headerOrder: Object.keys(headers),
+    items
+  }
+}
+
+const SEEDS = Array.from({ length: 300 }, (_, i) => i + 1)
+
+describe("PoFile ↔ Catalog round-trip (property-based)", () => {
+  it("gives back every field of generated PO files", () => {
+    for (const seed of SEEDS) {
+      const po = createRandomPoFile(seed)
+
+      expect(catalogToPoFile(poFileToCatalog(po)), `seed ${seed}`).toStrictEqual(po)
+    }
+  })
+
+  it("gives back every field of parsed PO files", () => {
+    for (const seed of SEEDS) {
+      const po = parsePo(stringifyPo(createRandomPoFile(seed)))
+
+      expect(catalogToPoFile(poFileToCatalog(po)), `seed ${seed}`).toStrictEqual(po)
+    }
+  })
+
+  it("serializes to the same PO text", () => {
+    for (const seed of SEEDS) {
+      const po = parsePo(stringifyPo(createRandomPoFile(seed)))
+
+      expect(stringifyPo(catalogToPoFile(poFileToCatalog(po))), `seed ${seed}`).toBe(
+        stringifyPo(po)
+      )
+    }
+  })
+
+  it("survives JSON serialization of the catalog", () => {
+    for (const seed of SEEDS) {
+      const po = createRandomPoFile(seed)
+      const file = JSON.parse(JSON.stringify(poFileToCatalog(po))) as CatalogFile
+
+      expect(catalogToPoFile(file), `seed ${seed}`).toStrictEqual(po)
+    }
+  })
+})
@@ -1,6 +1,19 @@
 import { describe, it, expect } from "vitest"
-import { catalogToItems, itemsToCatalog, mergeCatalogs, type Catalog } from "./catalog"
+import {
+  catalogToItems,
+  itemsToCatalog,
+  mergeCatalogs,
+  poFileToCatalog,
+  catalogToPoFile,
+  createCatalogKey,
+  parseCatalogKey,
+  CatalogKeyError,
+  type Catalog
+} from "./catalog"
+import { compileCatalog } from "./compile"
 import { createItem } from "./Item"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
 
 describe("catalogToItems", () => {
   it("converts simple catalog to items", () => {
@@ -347,6 +360,178 @@ describe("itemsToCatalog", () => {
     expect(catalog.Hello?.translation).toBe("Hallo")
     expect(catalog.Hello?.comments).toBeUndefined()
   })
+
+  it("keeps the last of items with the same msgid in different contexts", () => {
+    const open = { ...createItem(), msgid: "Open", msgstr: ["Öffnen"] }
+    const menuOpen = { ...open, msgctxt: "menu", msgstr: ["Öffnen…"] }
+
+    expect(itemsToCatalog([open, menuOpen]).Open).toEqual({
+      translation: "Öffnen…",
+      context: "menu"
+    })
+    expect(() => itemsToCatalog([open, menuOpen], { throwOnDuplicate: true })).toThrow(
+      CatalogKeyError
+    )
+    expect(() => itemsToCatalog([open, menuOpen], { throwOnDuplicate: true })).toThrow(
+      'Duplicate catalog key "Open"'
+    )
+  })
+
+  it("reports replaced duplicates to onDuplicate", () => {
+    const open = { ...createItem(), msgid: "Open", msgstr: ["Öffnen"] }
+    const menuOpen = { ...open, msgctxt: "menu", msgstr: ["Öffnen…"] }
+    const duplicates: unknown[] = []
+
+    const catalog = itemsToCatalog([menuOpen, open], {
+      onDuplicate: (duplicate) => duplicates.push(duplicate)
+    })
+
+    expect(catalog.Open?.translation).toBe("Öffnen")
+    expect(duplicates).toEqual([{ key: "Open", message: "Open", context: "menu" }])
+  })
+
+  it("lets active items replace obsolete ones without reporting", () => {
+    const old = { ...createItem(), msgid: "Open", msgstr: ["Auf"], obsolete: true }
+    const open = { ...createItem(), msgid: "Open", msgstr: ["Öffnen"] }
+
+    expect(itemsToCatalog([old, open]).Open).toEqual({ translation: "Öffnen" })
+    expect(itemsToCatalog([open, old]).Open).toEqual({ translation: "Öffnen" })
+  })
+
+  it("keys items with a context by msgctxt and msgid with contextKeys", () => {
+    const open = { ...createItem(), msgid: "Open", msgstr: ["Öffnen"] }
+    const menuOpen = { ...open, msgctxt: "menu", msgstr: ["Öffnen…"] }
+
+    const catalog = itemsToCatalog([open, menuOpen], { contextKeys: true })
+
+    expect(catalog).toEqual({
+      Open: { translation: "Öffnen" },
+      "menu\u0004Open": { translation: "Öffnen…", context: "menu" }
+    })
+    expect(catalogToItems(catalog).map((item) => [item.msgctxt, item.msgid])).toEqual([
+      [null, "Open"],
+      ["menu", "Open"]
+    ])
+  })
+})
+
+describe("PO fields", () => {
+  it("keeps metadata, range and previous msgids", () => {
+    const item = {
+      ...createItem(),
+      msgid: "{count} file",
+      msgid_plural: "{count} files",
+      msgstr: ["{count} Datei", "{count} Dateien"],
+      range: { min: 1, max: 10 },
+      metadata: { origin: "LLM", confidence: "0.95" },
+      previousMsgid: "{count} document",
+      flags: { fuzzy: true }
+    }
+
+    const catalog = itemsToCatalog([item])
+
+    expect(catalog["{count} file"]).toMatchObject({
+      range: { min: 1, max: 10 },
+      metadata: { origin: "LLM", confidence: "0.95" },
+      previousMessage: "{count} document"
+    })
+    expect(catalogToItems(catalog)).toEqual([item])
+  })
+
+  it("records nplurals that differ from the catalog's", () => {
+    const item = { ...createItem({ nplurals: 3 }), msgid: "a", msgid_plural: "as" }
+    item.msgstr = ["", "", ""]
+
+    expect(itemsToCatalog([item]).a?.nplurals).toBe(3)
+    expect(itemsToCatalog([item], { nplurals: 3 }).a?.nplurals).toBeUndefined()
+    expect(catalogToItems(itemsToCatalog([item]))[0]?.nplurals).toBe(3)
+  })
+
+  it("creates nplurals empty msgstr for untranslated plurals", () => {
+    const [item] = catalogToItems({ a: { pluralSource: "as" } }, { nplurals: 3 })
+
+    expect(item?.msgstr).toEqual(["", "", ""])
+  })
+
+  it("keeps empty contexts and singular entries without one msgstr", () => {
+    const item = { ...createItem(), msgid: "a", msgctxt: "", msgstr: [] }
+
+    const catalog = itemsToCatalog([item])
+
+    expect(catalog.a).toEqual({ translation: "", translations: [], context: "" })
+    expect(catalogToItems(catalog)).toEqual([item])
+
+    const two = { ...createItem(), msgid: "b", msgstr: ["x", "y"] }
+    expect(catalogToItems(itemsToCatalog([two]))).toEqual([two])
+  })
+
+  it("writes a string translation for singular entries without msgstr", () => {
+    const catalog = itemsToCatalog([{ ...createItem(), msgid: "Hello", msgstr: [] }])
+
+    expect(catalog.Hello?.translation).toBe("")
+    expect(compileCatalog(catalog, { locale: "de", useMessageId: false }).format("Hello")).toBe("")
+  })
+
+  it("keeps references that origins cannot reproduce", () => {
+    const item = { ...createItem(), msgid: "a", references: ["src\\a.ts:1", "b.ts:2 c.ts:3"] }
+
+    const catalog = itemsToCatalog([item])
+
+    expect(catalog.a?.origins).toBeUndefined()
+    expect(catalogToItems(catalog)[0]?.references).toEqual(item.references)
+  })
+})
+
+describe("poFileToCatalog", () => {
+  const content = `# Project translations
+msgid ""
+msgstr ""
+"Language: pl\\n"
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 ? 1 : 2);\\n"
+
+#@ origin: LLM
+msgctxt "menu"
+msgid "Open"
+msgstr "Otwórz"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} plik"
+msgstr[1] "{count} pliki"
+msgstr[2] "{count} plików"
+`
+
+  it("keys entries by context and takes nplurals from the header", () => {
+    const file = poFileToCatalog(parsePo(content))
+
+    expect(file.headers.Language).toBe("pl")
+    expect(file.comments).toEqual(["Project translations"])
+    expect(Object.keys(file.catalog)).toEqual([createCatalogKey("Open", "menu"), "{count} file"])
+    expect(file.catalog["{count} file"]?.nplurals).toBeUndefined()
+  })
+
+  it("converts back to the same PO file", () => {
+    const po = parsePo(content)
+
+    expect(catalogToPoFile(poFileToCatalog(po))).toEqual(po)
+    expect(stringifyPo(catalogToPoFile(poFileToCatalog(po)))).toBe(stringifyPo(po))
+  })
+})
+
+describe("catalog keys", () => {
+  it("creates and parses context keys", () => {
+    expect(createCatalogKey("Open", "menu")).toBe("menu\u0004Open")
+    expect(createCatalogKey("Open")).toBe("Open")
+    expect(createCatalogKey("Open", null)).toBe("Open")
+    expect(parseCatalogKey("menu\u0004Open")).toEqual({ message: "Open", context: "menu" })
+    expect(parseCatalogKey("Open")).toEqual({ message: "Open" })
+  })
+
+  it("are understood by catalogToItems", () => {
+    const items = catalogToItems({ [createCatalogKey("Open", "menu")]: { translation: "Öffnen…" } })
+
+    expect(items[0]).toMatchObject({ msgctxt: "menu", msgid: "Open", msgstr: ["Öffnen…"] })
+  })
 })
 
 describe("mergeCatalogs", () => {
@@ -1,11 +1,13 @@
 /**
  * Catalog conversion helpers for working with simple key-value formats.
  *
- * Provides utilities to convert between a simple catalog format and PO items.
+ * Provides utilities to convert between a simple catalog format and PO items
+ * or whole PO files.
  */
 
-import type { PoItem } from "./types"
+import type { Headers, PoFile, PoItem, PoRange } from "./types"
 import { createItem } from "./Item"
+import { parsePluralForms } from "./plurals"
 import { parseReference, formatReference, type SourceReference } from "./references"
 
 /** Checks if an object has any own properties (faster than Object.keys().length) */
@@ -33,6 +35,12 @@ export interface CatalogEntry {
    */
   translation?: string | string[]
 
+  /**
+   * All msgstr of a singular message that does not have exactly one.
+   * Used by `catalogToItems` while `translation` is still the first of them.
+   */
+  translations?: string[]
+
   /**
    * Source string for plural forms (msgid_plural).
    * Required when translation is an array.
@@ -59,6 +67,13 @@ export interface CatalogEntry {
    */
   origins?: SourceReference[]
 
+  /**
+   * Source references exactly as written in the PO file.
+   * Only set when `origins` cannot reproduce them, e.g. for Windows paths;
+   * takes precedence over `origins` in `catalogToItems`.
+   */
+  references?: string[]
+
   /**
    * Whether this entry is obsolete.
    */
@@ -68,6 +83,36 @@ export interface CatalogEntry {
    * Flags like "fuzzy".
    */
   flags?: Record<string, boolean>
+
+  /**
+   * Allowed range of a plural message's argument (`#, range: 1..12`).
+   */
+  range?: PoRange
+
+  /**
+   * Custom metadata (`#@ key: value`).
+   */
+  metadata?: Record<string, string>
+
+  /**
+   * Previous source message of a fuzzy entry (`#| msgid`).
+   */
+  previousMessage?: string
+
+  /**
+   * Previous context of a fuzzy entry (`#| msgctxt`).
+   */
+  previousContext?: string
+
+  /**
+   * Previous plural source of a fuzzy entry (`#| msgid_plural`).
+   */
+  previousPluralSource?: string
+
+  /**
+   * Number of plural forms, when it differs from the catalog's default.
+   */
+  nplurals?: number
 }
 
 /**
@@ -75,6 +120,89 @@ export interface CatalogEntry {
  */
 export type Catalog = Record<string, CatalogEntry>
 
+/**
+ * Two entries that map to the same key.
+ */
+export interface CatalogDuplicate {
+  /** The key both entries map to */
+  key: string
+  /** Source message of the entry that was replaced */
+  message: string
+  /** Context of the entry that was replaced */
+  context?: string
+}
+
+/**
+ * Error thrown when entries map to the same key and `throwOnDuplicate` is
+ * set.
+ */
+export class CatalogKeyError extends Error {
+  constructor(public readonly duplicates: CatalogDuplicate[]) {
+    const first = duplicates[0]
+    const more = duplicates.length > 1 ? ` (and ${duplicates.length - 1} more)` : ""
+    super(`Duplicate catalog key ${JSON.stringify(first?.key ?? "")}${more}`)
+    this.name = "CatalogKeyError"
+  }
+}
+
+/** Separator between context and message in catalog keys, as in GNU gettext */
+const CONTEXT_SEPARATOR = "\u0004"
+
+/**
+ * Creates a catalog key that includes the context, gettext style:
+ * `context\u0004message`, or just the message without context.
+ *
+ * @example
+ * createCatalogKey("Open", "menu") // → "menu\u0004Open"
+ * createCatalogKey("Open")         // → "Open"
+ */
+export function createCatalogKey(message: string, context?: string | null): string {
+  return context == null ? message : context + CONTEXT_SEPARATOR + message
+}
+
+/**
+ * Splits a key created by `createCatalogKey` into message and context.
+ * Keys without a context separator are returned as the message.
+ *
+ * @example
+ * parseCatalogKey("menu\u0004Open") // → { message: "Open", context: "menu" }
+ */
+export function parseCatalogKey(key: string): { message: string; context?: string } {
+  const index = key.indexOf(CONTEXT_SEPARATOR)
+  if (index === -1) {
+    return { message: key }
+  }
+  return { message: key.substring(index + 1), context: key.substring(0, index) }
+}
+
+/**
+ * Returns the source message and context of a catalog entry, from its
+ * fields or, if they are not set, from its key.
+ */
+export function getEntrySource(
+  key: string,
+  entry: CatalogEntry
+): { message: string; context?: string } {
+  const parsed = parseCatalogKey(key)
+  return { message: entry.message ?? parsed.message, context: entry.context ?? parsed.context }
+}
+
+/**
+ * Throws a `CatalogKeyError` for duplicates if `throwOnDuplicate` is set,
+ * and passes them to `onDuplicate` otherwise.
+ */
+export function reportDuplicates(
+  duplicates: CatalogDuplicate[],
+  options: Pick<ItemsToCatalogOptions, "onDuplicate" | "throwOnDuplicate">
+): void {
+  if (options.throwOnDuplicate && duplicates.length > 0) {
+    throw new CatalogKeyError(duplicates)
+  }
+  if (options.onDuplicate) {
+    duplicates.forEach(options.onDuplicate)
+  }
+}
+
 /**
  * Options for converting catalog to items.
  */
@@ -108,53 +236,95 @@ export interface ItemsToCatalogOptions {
    */
   useMsgidAsKey?: boolean
 
+  /**
+   * Key entries with a context by `createCatalogKey` (`msgctxt\u0004msgid`)
+   * instead of by msgid alone, so that messages that differ only in context
+   * do not collide. Only used when useMsgidAsKey is true.
+   * @default false
+   */
+  contextKeys?: boolean
+
   /**
    * Custom function to generate catalog keys from items.
    * Only used when useMsgidAsKey is false.
    */
   keyGenerator?: (item: PoItem) => string
 
+  /**
+   * Called for each entry that is replaced by a later entry with the same
+   * key. Obsolete entries never replace active ones and are not reported.
+   */
+  onDuplicate?: (duplicate: CatalogDuplicate) => void
+
+  /**
+   * Throw a `CatalogKeyError` if two active entries map to the same key,
+   * instead of keeping the last one.
+   * @default false
+   */
+  throwOnDuplicate?: boolean
+
   /**
    * Include origins in the catalog entries.
    * @default true
    */
   includeOrigins?: boolean
+
+  /**
+   * Number of plural forms of the catalog's language. Entries of items with
+   * a different `nplurals` record their own.
+   * @default 2
+   */
+  nplurals?: number
 }
 
 /** Applies translation to an item */
 function applyTranslation(item: PoItem, entry: CatalogEntry): void {
+  if (entry.pluralSource !== undefined) {
+    item.msgid_plural = entry.pluralSource
+  }
   if (entry.translation === undefined) {
     // No translation yet (extraction workflow)
-    item.msgstr = entry.pluralSource ? ["", ""] : [""]
-    if (entry.pluralSource) {
-      item.msgid_plural = entry.pluralSource
-    }
+    item.msgstr = new Array<string>(entry.pluralSource === undefined ? 1 : item.nplurals).fill("")
   } else if (Array.isArray(entry.translation)) {
-    item.msgstr = entry.translation
-    if (entry.pluralSource) {
-      item.msgid_plural = entry.pluralSource
-    }
+    item.msgstr = [...entry.translation]
+  } else if (entry.translations && (entry.translations[0] ?? "") === entry.translation) {
+    item.msgstr = [...entry.translations]
   } else {
     item.msgstr = [entry.translation]
   }
 }
 
+/** Applies the fields that only exist for round-trips from PO files */
+function applyPoFields(item: PoItem, entry: CatalogEntry): void {
+  if (entry.range) {
+    item.range = { ...entry.range }
+  }
+  if (entry.metadata) {
+    item.metadata = { ...entry.metadata }
+  }
+  item.previousMsgctxt = entry.previousContext ?? null
+  item.previousMsgid = entry.previousMessage ?? null
+  item.previousMsgidPlural = entry.previousPluralSource ?? null
+}
+
 /** Applies optional fields from entry to item */
 function applyOptionalFields(
   item: PoItem,
   entry: CatalogEntry,
   options: { includeOrigins: boolean; includeLineNumbers: boolean }
 ): void {
-  if (entry.context) {
+  if (entry.context !== undefined) {
     item.msgctxt = entry.context
   }
   if (entry.comments) {
-    item.comments = entry.comments
+    item.comments = [...entry.comments]
   }
   if (entry.extractedComments) {
-    item.extractedComments = entry.extractedComments
+    item.extractedComments = [...entry.extractedComments]
   }
-  if (options.includeOrigins && entry.origins) {
+  if (options.includeOrigins && entry.references) {
+    item.references = [...entry.references]
+  } else if (options.includeOrigins && entry.origins) {
     item.references = entry.origins.map((ref) =>
       formatReference(ref, { includeLineNumbers: options.includeLineNumbers })
     )
@@ -165,6 +335,7 @@ function applyOptionalFields(
   if (entry.flags) {
     item.flags = { ...entry.flags }
   }
+  applyPoFields(item, entry)
 }
 
 /**
@@ -188,10 +359,11 @@ export function catalogToItems(catalog: Catalog, options: CatalogToItemsOptions
   const { includeOrigins = true, includeLineNumbers = true, nplurals = 2 } = options
 
   return Object.entries(catalog).map(([key, entry]) => {
-    const item = createItem({ nplurals })
-    item.msgid = entry.message ?? key
+    const item = createItem({ nplurals: entry.nplurals ?? nplurals })
+    const { message, context } = getEntrySource(key, entry)
+    item.msgid = message
     applyTranslation(item, entry)
-    applyOptionalFields(item, entry, { includeOrigins, includeLineNumbers })
+    applyOptionalFields(item, { ...entry, context }, { includeOrigins, includeLineNumbers })
     return item
   })
 }
@@ -200,10 +372,11 @@ export function catalogToItems(catalog: Catalog, options: CatalogToItemsOptions
 function getCatalogKey(
   item: PoItem,
   useMsgidAsKey: boolean,
+  contextKeys: boolean,
   keyGenerator?: (item: PoItem) => string
 ): string {
   if (useMsgidAsKey) {
-    return item.msgid
+    return contextKeys ? createCatalogKey(item.msgid, item.msgctxt) : item.msgid
   }
   if (keyGenerator) {
     return keyGenerator(item)
@@ -211,6 +384,23 @@ function getCatalogKey(
   return item.msgid
 }
 
+/**
+ * Whether an item may take a key that is already in use.
+ * Active entries replace obsolete ones; other collisions are duplicates.
+ */
+function getCollision(
+  existing: CatalogEntry | undefined,
+  item: PoItem
+): "none" | "replace" | "skip" | "duplicate" {
+  if (!existing) {
+    return "none"
+  }
+  if (existing.obsolete && !item.obsolete) {
+    return "replace"
+  }
+  return existing.obsolete || item.obsolete ? "skip" : "duplicate"
+}
+
 /** Adds message field if key differs from msgid */
 function addMessageField(
   entry: CatalogEntry,
@@ -221,10 +411,10 @@ function addMessageField(
   if (!useMsgidAsKey && item.msgid !== key) {
     entry.message = item.msgid
   }
-  if (item.msgid_plural) {
+  if (item.msgid_plural != null) {
     entry.pluralSource = item.msgid_plural
   }
-  if (item.msgctxt) {
+  if (item.msgctxt != null) {
     entry.context = item.msgctxt
   }
 }
@@ -234,10 +424,51 @@ function addCommentsFields(entry: CatalogEntry, item: PoItem): void {
   const comments = item.comments as string[] | undefined
   const extractedComments = item.extractedComments as string[] | undefined
   if (comments && comments.length > 0) {
-    entry.comments = comments
+    entry.comments = [...comments]
   }
   if (extractedComments && extractedComments.length > 0) {
-    entry.extractedComments = extractedComments
+    entry.extractedComments = [...extractedComments]
+  }
+}
+
+/** Whether parsing and formatting a reference gives it back unchanged */
+function isPortableReference(reference: string): boolean {
+  return reference.trim() !== "" && formatReference(parseReference(reference)) === reference
+}
+
+/**
+ * Adds references as origins, and as written if origins cannot reproduce
+ * them (Windows paths, several references on one line).
+ */
+function addReferences(entry: CatalogEntry, item: PoItem): void {
+  const references = item.references as string[] | undefined
+  if (!references || references.length === 0) {
+    return
+  }
+  if (references.every(isPortableReference)) {
+    entry.origins = references.map((ref) => parseReference(ref))
+  } else {
+    entry.references = [...references]
+  }
+}
+
+/** Adds the fields that only exist in PO files (handles incomplete items) */
+function addPoFields(entry: CatalogEntry, item: PoItem): void {
+  const metadata = item.metadata as Record<string, string> | undefined
+  if (item.range) {
+    entry.range = { ...item.range }
+  }
+  if (metadata && hasOwnProperties(metadata)) {
+    entry.metadata = { ...metadata }
+  }
+  if (item.previousMsgctxt != null) {
+    entry.previousContext = item.previousMsgctxt
+  }
+  if (item.previousMsgid != null) {
+    entry.previousMessage = item.previousMsgid
+  }
+  if (item.previousMsgidPlural != null) {
+    entry.previousPluralSource = item.previousMsgidPlural
   }
 }
 
@@ -245,9 +476,8 @@ function addCommentsFields(entry: CatalogEntry, item: PoItem): void {
 function addMetadataFields(entry: CatalogEntry, item: PoItem, includeOrigins: boolean): void {
   addCommentsFields(entry, item)
 
-  const references = item.references as string[] | undefined
-  if (includeOrigins && references && references.length > 0) {
-    entry.origins = references.map((ref) => parseReference(ref))
+  if (includeOrigins) {
+    addReferences(entry, item)
   }
 
   if (item.obsolete) {
@@ -258,38 +488,175 @@ function addMetadataFields(entry: CatalogEntry, item: PoItem, includeOrigins: bo
   if (flags && hasOwnProperties(flags)) {
     entry.flags = { ...flags }
   }
+
+  addPoFields(entry, item)
+}
+
+/**
+ * Sets the translation of an entry: a string for singular messages, an
+ * array for plurals. Singular messages without exactly one msgstr also
+ * keep all of them.
+ */
+function addTranslation(entry: CatalogEntry, item: PoItem): void {
+  const msgstr = (item.msgstr as string[] | undefined) ?? []
+  if (item.msgid_plural != null) {
+    entry.translation = [...msgstr]
+    return
+  }
+  entry.translation = msgstr[0] ?? ""
+  if (msgstr.length !== 1) {
+    entry.translations = [...msgstr]
+  }
+}
+
+/** Options of `createEntry` */
+interface EntryOptions {
+  useMsgidAsKey: boolean
+  includeOrigins: boolean
+  nplurals: number
+}
+
+/** Applies the defaults of `itemsToCatalog` to the options of `createEntry` */
+function resolveEntryOptions(options: ItemsToCatalogOptions): EntryOptions {
+  return {
+    useMsgidAsKey: options.useMsgidAsKey ?? true,
+    includeOrigins: options.includeOrigins ?? true,
+    nplurals: options.nplurals ?? 2
+  }
+}
+
+/** Creates the catalog entry of an item */
+function createEntry(item: PoItem, key: string, options: EntryOptions): CatalogEntry {
+  const entry: CatalogEntry = {}
+
+  addTranslation(entry, item)
+  addMessageField(entry, item, key, options.useMsgidAsKey)
+  addMetadataFields(entry, item, options.includeOrigins)
+
+  const nplurals = item.nplurals as number | undefined
+  if (nplurals !== undefined && nplurals !== options.nplurals) {
+    entry.nplurals = nplurals
+  }
+  return entry
 }
 
 /**
  * Converts PO items to a catalog.
  *
+ * Of items that map to the same key, the last is kept and the others are
+ * reported through `onDuplicate`, or throw a `CatalogKeyError` with
+ * `throwOnDuplicate`. Use `contextKeys` when the same msgid occurs with
+ * different contexts.
+ *
+ * @throws CatalogKeyError if two active items map to the same key and `throwOnDuplicate` is set
+ *
  * @example
  * const catalog = itemsToCatalog(items)
  * // → { "Hello": { translation: "Hallo", ... } }
+ *
+ * @example
+ * const catalog = itemsToCatalog(items, { contextKeys: true })
+ * // → { "Open": { ... }, "menu\u0004Open": { context: "menu", ... } }
  */
 export function itemsToCatalog(items: PoItem[], options: ItemsToCatalogOptions = {}): Catalog {
-  const { useMsgidAsKey = true, keyGenerator, includeOrigins = true } = options
+  const { useMsgidAsKey = true, contextKeys = false, keyGenerator } = options
+  const entryOptions = resolveEntryOptions(options)
   const catalog: Catalog = {}
+  const duplicates: CatalogDuplicate[] = []
 
   for (const item of items) {
     if (!item.msgid) {
       continue
     }
 
-    const key = getCatalogKey(item, useMsgidAsKey, keyGenerator)
-    const msgstr = item.msgstr as string[] | undefined
-    const entry: CatalogEntry = {
-      translation: item.msgid_plural ? (msgstr ?? []) : (msgstr?.[0] ?? "")
+    const key = getCatalogKey(item, useMsgidAsKey, contextKeys, keyGenerator)
+    const existing = catalog[key]
+    const collision = getCollision(existing, item)
+    if (collision === "duplicate" && existing) {
+      duplicates.push({ key, ...getEntrySource(key, existing) })
+    }
+    if (collision !== "skip") {
+      catalog[key] = createEntry(item, key, entryOptions)
     }
-
-    addMessageField(entry, item, key, useMsgidAsKey)
-    addMetadataFields(entry, item, includeOrigins)
-    catalog[key] = entry
   }
 
+  reportDuplicates(duplicates, options)
   return catalog
 }
 
+/**
+ * A catalog together with the file-level data of a PO file.
+ */
+export interface CatalogFile {
+  /** PO file headers */
+  headers: Partial<Headers>
+  /** Order of headers as they appeared in the source file */
+  headerOrder: string[]
+  /** Translator comments at the top of the file */
+  comments: string[]
+  /** Extracted comments at the top of the file */
+  extractedComments: string[]
+  /** The entries */
+  catalog: Catalog
+}
+
+/** Returns nplurals of the Plural-Forms header, as the parser does */
+function getHeaderNplurals(headers: Partial<Headers>): number {
+  const nplurals = Number(parsePluralForms(headers["Plural-Forms"]).nplurals)
+  return isNaN(nplurals) ? 2 : nplurals
+}
+
+/**
+ * Converts a PO file to a catalog, keeping headers and file comments.
+ *
+ * Unlike `itemsToCatalog`, `contextKeys` defaults to true and `nplurals` to
+ * the Plural-Forms header, so that `catalogToPoFile` gives back the same
+ * PO file. This holds for every field of the items except the parse-time
+ * `location` and `raw`, as long as no two items map to the same key, no
+ * item has an empty msgid and no key is an integer like "42" (JavaScript
+ * objects put those first).
+ *
+ * @throws CatalogKeyError if two active items map to the same key and `throwOnDuplicate` is set
+ *
+ * @example
+ * const file = poFileToCatalog(parsePo(content))
+ * file.catalog["Hello"].translation = "Hallo"
+ * const output = stringifyPo(catalogToPoFile(file))
+ */
+export function poFileToCatalog(po: PoFile, options: ItemsToCatalogOptions = {}): CatalogFile {
+  return {
+    headers: { ...po.headers },
+    headerOrder: [...po.headerOrder],
+    comments: [...po.comments],
+    extractedComments: [...po.extractedComments],
+    catalog: itemsToCatalog(po.items, {
+      ...options,
+      contextKeys: options.contextKeys ?? true,
+      nplurals: options.nplurals ?? getHeaderNplurals(po.headers)
+    })
+  }
+}
+
+/**
+ * Converts a catalog with file-level data back to a PO file.
+ * `nplurals` defaults to the Plural-Forms header.
+ *
+ * @example
+ * const po = catalogToPoFile(poFileToCatalog(parsePo(content)))
+ */
+export function catalogToPoFile(file: CatalogFile, options: CatalogToItemsOptions = {}): PoFile {
+  return {
+    comments: [...file.comments],
+    extractedComments: [...file.extractedComments],
+    headers: { ...file.headers },
+    headerOrder: [...file.headerOrder],
+    items: catalogToItems(file.catalog, {
+      ...options,
+      nplurals: options.nplurals ?? getHeaderNplurals(file.headers)
+    })
+  }
+}
+
 /**
  * Merges two catalogs, with the second catalog taking precedence.
  *
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest"
 import { compileCatalog, generateCompiledCode } from "./compile"
-import type { Catalog } from "./catalog"
+import { CatalogKeyError, createCatalogKey, itemsToCatalog, type Catalog } from "./catalog"
+import { generateMessageIdSync } from "./messageId"
+import { parsePo } from "./parse"
 
 describe("compileCatalog", () => {
   it("compiles simple messages", () => {
@@ -80,6 +82,51 @@ describe("compileCatalog", () => {
     expect(key).not.toBe(keyNoCtx)
   })
 
+  it("understands context keys", () => {
+    const catalog = itemsToCatalog(
+      parsePo('msgid "Open"\nmsgstr "Öffnen"\n\nmsgctxt "menu"\nmsgid "Open"\nmsgstr "Öffnen…"')
+        .items,
+      { contextKeys: true }
+    )
+
+    const byId = compileCatalog(catalog, { locale: "de" })
+    expect(byId.format(generateMessageIdSync("Open"))).toBe("Öffnen")
+    expect(byId.format(generateMessageIdSync("Open", "menu"))).toBe("Öffnen…")
+
+    const byKey = compileCatalog(catalog, { locale: "de", useMessageId: false })
+    expect(byKey.format(createCatalogKey("Open", "menu"))).toBe("Öffnen…")
+  })
+
+  it("hashes the key of catalogs keyed by generated IDs", () => {
+    const compiled = compileCatalog(
+      { "button.save": { message: "Save", translation: "Speichern" } },
+      { locale: "de" }
+    )
+
+    expect(compiled.keys()).toEqual([generateMessageIdSync("button.save")])
+    expect(compiled.format(generateMessageIdSync("button.save"))).toBe("Speichern")
+  })
+
+  it("reports entries that compile to the same key and keeps the last", () => {
+    const catalog: Catalog = {
+      [createCatalogKey("Open", "menu")]: { translation: "Öffnen…" },
+      Open: { context: "menu", translation: "Öffnen" }
+    }
+    const id = generateMessageIdSync("Open", "menu")
+
+    const duplicates: unknown[] = []
+    const compiled = compileCatalog(catalog, {
+      locale: "de",
+      onDuplicate: (duplicate) => duplicates.push(duplicate)
+    })
+    expect(duplicates).toEqual([{ key: id, message: "Open", context: "menu" }])
+    expect(compiled.format(id)).toBe("Öffnen")
+    expect(compileCatalog(catalog, { locale: "de" }).format(id)).toBe("Öffnen")
+    expect(() => compileCatalog(catalog, { locale: "de", throwOnDuplicate: true })).toThrow(
+      CatalogKeyError
+    )
+  })
+
   it("returns key for missing messages", () => {
     const catalog: Catalog = {}
     const compiled = compileCatalog(catalog, { locale: "de" })
@@ -220,6 +267,66 @@ describe("compileCatalog", () => {
 
       expect(compiled.format(key, {})).toBe("Artikel")
     })
+
+    it("selects forms with the Plural-Forms expression when given", () => {
+      const catalog: Catalog = {
+        "{count} item": {
+          translation: ["{count} Artikel (viele)", "{count} Artikel (einer)"],
+          pluralSource: "{count} items"
+        }
+      }
+
+      const compiled = compileCatalog(catalog, {
+        locale: "de",
+        pluralForms: "nplurals=2; plural=n == 1 ? 1 : 0;"
+      })
+      const key = compiled.keys()[0]!
+
+      expect(compiled.format(key, { count: 1 })).toBe("1 Artikel (einer)")
+      expect(compiled.format(key, { count: 5 })).toBe("5 Artikel (viele)")
+    })
+
+    it("evaluates the Plural-Forms expression when its mapping is ambiguous", () => {
+      const catalog: Catalog = {
+        "{count} item": {
+          translation: ["{count} Artikel (höchstens einer)", "{count} Artikel (viele)"],
+          pluralSource: "{count} items"
+        }
+      }
+
+      const reported: string[] = []
+      const compiled = compileCatalog(catalog, {
+        locale: "de",
+        pluralForms: "nplurals=2; plural=(n > 1);",
+        onAmbiguousPlural: (msgid) => reported.push(msgid)
+      })
+      const key = compiled.keys()[0]!
+
+      expect(reported).toEqual(["{count} item"])
+      expect(compiled.format(key, { count: 0 })).toBe("0 Artikel (höchstens einer)")
+      expect(compiled.format(key, { count: 2 })).toBe("2 Artikel (viele)")
+    })
+
+    it("uses the last form for categories the header has no form for", () => {
+      const catalog: Catalog = {
+        "{count} file": {
+          translation: ["{count} файл", "{count} файла", "{count} файлов"],
+          pluralSource: "{count} files"
+        }
+      }
+
+      const compiled = compileCatalog(catalog, {
+        locale: "ru",
+        pluralForms:
+          "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);"
+      })
+      const key = compiled.keys()[0]!
+
+      expect(compiled.format(key, { count: 21 })).toBe("21 файл")
+      expect(compiled.format(key, { count: 3 })).toBe("3 файла")
+      expect(compiled.format(key, { count: 11 })).toBe("11 файлов")
+      expect(compiled.format(key, { count: 1.5 })).toBe("1.5 файлов")
+    })
   })
 })
 
@@ -389,4 +496,75 @@ describe("generateCompiledCode", () => {
     // Should have plural index selection
     expect(code).toContain("_pf(_n)")
   })
+
+  it("reorders gettext plural forms into CLDR order for a Plural-Forms header", () => {
+    const catalog: Catalog = {
+      "One file": {
+        translation: ["Dateien", "Eine Datei"],
+        pluralSource: "Files"
+      }
+    }
+
+    const code = generateCompiledCode(catalog, {
+      locale: "de",
+      pluralForms: "nplurals=2; plural=n == 1 ? 1 : 0;"
+    })
+
+    expect(code).not.toContain("const _gf")
+    expect(code).toContain('_i === 0 ? "Eine Datei" : "Dateien"')
+  })
+
+  it("generates a header plural function when the mapping is ambiguous", () => {
+    const catalog: Catalog = {
+      "{count} item": {
+        translation: ["{count} Artikel", "{count} Artikel"],
+        pluralSource: "{count} items"
+      },
+      "{count, plural, one {# file} other {# files}}": {
+        translation: "{count, plural, one {# Datei} other {# Dateien}}"
+      }
+    }
+
+    // 0 selects the singular form, but is "other" in CLDR
+    const reported: string[] = []
+    const code = generateCompiledCode(catalog, {
+      locale: "de",
+      pluralForms: "nplurals=2; plural=(n > 1);",
+      onAmbiguousPlural: (msgid) => reported.push(msgid)
+    })
+
+    expect(reported).toEqual(["{count} item"])
+    expect(code).toContain("const _gf")
+    expect(code).toContain("_gf(_n)")
+    // ICU plurals keep using CLDR categories
+    expect(code).toContain("const _pf")
+  })
+
+  it("throws on an invalid Plural-Forms header", () => {
+    expect(() =>
+      generateCompiledCode({}, { locale: "de", pluralForms: "nplurals=2; plural=n +;" })
+    ).toThrow("Invalid plural expression")
+  })
+
+  it("understands context keys and reports duplicates", () => {
+    const catalog: Catalog = {
+      [createCatalogKey("Open", "menu")]: { translation: "Öffnen…" },
+      Open: { translation: "Öffnen" }
+    }
+
+    const code = generateCompiledCode(catalog, { locale: "de", includeSourceComments: true })
+    expect(code).toContain(`"${generateMessageIdSync("Open", "menu")}": () => "Öffnen…"`)
+    expect(code).toContain("// Open\n")
+    const duplicate: Catalog = {
+      [createCatalogKey("Open", "menu")]: { translation: "Öffnen…" },
+      Open: { context: "menu", translation: "Auf" }
+    }
+    const id = generateMessageIdSync("Open", "menu")
+    const output = generateCompiledCode(duplicate, { locale: "de" })
+    expect(output).toContain(`"${id}": () => "Auf"`)
+    expect(output).not.toContain("Öffnen…")
+    expect(() => generateCompiledCode(duplicate, { locale: "de", throwOnDuplicate: true })).toThrow(
+      `Duplicate catalog key "${id}"`
+    )
+  })
 })
@@ -15,17 +15,29 @@
  * // → "Hallo Sebastian!"
  */
 
-import type { Catalog } from "./catalog"
-import type { FormatterUsage } from "./types"
+import {
+  getEntrySource,
+  parseCatalogKey,
+  reportDuplicates,
+  type Catalog,
+  type CatalogDuplicate
+} from "./catalog"
+import type { FormatterUsage, PluralFormsMapping } from "./types"
 import type { CompiledMessageFunction, MessageValues, MessageResult } from "./icu/compile"
 import { compileIcu } from "./icu/compile"
 import { parseIcu } from "./icu/parser"
 import { generateMessageIdSync } from "./messageId"
-import { getPluralCategories, getPluralFunction } from "./plurals"
+import {
+  compilePluralFormsExpression,
+  getPluralCategories,
+  getPluralFormsMapping,
+  getPluralFunction
+} from "./plurals"
 import {
   createCodeGenContext,
   generateNodesCode,
   generatePluralFunctionCode,
+  generatePluralFormsFunctionCode,
   generateFormatterDeclarations,
   escapeComment,
   extractPluralVariable,
@@ -46,7 +58,7 @@ export interface CompileCatalogOptions {
 
   /**
    * Whether to use messageId (hash) as key.
-   * If false, uses msgid as key.
+   * If false, uses the catalog key (msgid, or `createCatalogKey` keys).
    * @default true
    */
   useMessageId?: boolean
@@ -57,6 +69,35 @@ export interface CompileCatalogOptions {
    * @default false
    */
   strict?: boolean
+
+  /**
+   * Plural-Forms header of the catalog, e.g. `po.headers["Plural-Forms"]`.
+   * When set, Gettext plural forms (`msgstr[]` arrays) follow its form order
+   * instead of assuming CLDR order: forms are mapped to CLDR categories with
+   * `getPluralFormsMapping`, or, if that mapping is ambiguous, selected by
+   * evaluating the `plural=` expression. ICU plural messages always use CLDR.
+   */
+  pluralForms?: string
+
+  /**
+   * Called for each Gettext plural entry whose msgstr indices the
+   * `pluralForms` header does not map unambiguously to CLDR categories.
+   * Such entries are selected by evaluating the header's expression.
+   */
+  onAmbiguousPlural?: (msgid: string, ambiguous: PluralFormsMapping["ambiguous"]) => void
+
+  /**
+   * Called for each entry that is replaced by a later entry with the same
+   * compiled key, e.g. the same message and context under two catalog keys.
+   */
+  onDuplicate?: (duplicate: CatalogDuplicate) => void
+
+  /**
+   * Throw a `CatalogKeyError` if two entries compile to the same key,
+   * instead of keeping the last one.
+   * @default false
+   */
+  throwOnDuplicate?: boolean
 }
 
 /**
@@ -103,26 +144,20 @@ export interface CompiledCatalog {
  * compiled.format("Xk9mLp", { name: "World" }) // → "Hallo World!"
  */
 export function compileCatalog(catalog: Catalog, options: CompileCatalogOptions): CompiledCatalog {
-  const { locale, useMessageId = true, strict = false } = options
+  const { locale, useMessageId = true, strict = false, pluralForms } = options
 
   const messages = new Map<string, CompiledMessageFunction>()
-  const pluralFn = getPluralFunction(locale)
-
-  for (const [msgid, entry] of Object.entries(catalog)) {
-    const translation = entry.translation
-
-    if (translation === undefined) {
-      continue
-    }
-
-    const key = useMessageId ? generateMessageIdSync(msgid, entry.context) : msgid
+  const { formOrder, pluralFn, ambiguous } = resolveGettextPlurals(locale, pluralForms)
+  const entries = resolveEntries(catalog, useMessageId, options)
+  reportAmbiguousPlurals(entries, ambiguous, options.onAmbiguousPlural)
 
+  for (const { key, msgid, translation, pluralSource } of entries) {
     if (Array.isArray(translation)) {
       // Gettext plural format - compile all forms and select at runtime
       const compiled = compileGettextPluralRuntime(
         msgid,
-        entry.pluralSource,
-        translation,
+        pluralSource,
+        formOrder ? reorderForms(translation, formOrder) : translation,
         locale,
         pluralFn,
         strict
@@ -163,6 +198,127 @@ export function compileCatalog(catalog: Catalog, options: CompileCatalogOptions)
   }
 }
 
+/**
+ * A translated catalog entry with its compiled key.
+ */
+interface ResolvedEntry {
+  key: string
+  msgid: string
+  context: string | undefined
+  translation: string | string[]
+  pluralSource: string | undefined
+}
+
+/**
+ * Resolves the compiled key and source message of each translated entry.
+ * Message IDs are generated from the catalog key, or from the message of a
+ * context key. Entries whose key is taken by a later entry are reported
+ * and left out.
+ */
+function resolveEntries(
+  catalog: Catalog,
+  useMessageId: boolean,
+  options: Pick<CompileCatalogOptions, "onDuplicate" | "throwOnDuplicate">
+): ResolvedEntry[] {
+  const resolved = new Map<string, ResolvedEntry>()
+  const duplicates: CatalogDuplicate[] = []
+
+  for (const [catalogKey, entry] of Object.entries(catalog)) {
+    const translation = entry.translation
+    if (translation === undefined) {
+      continue
+    }
+
+    const { message, context } = getEntrySource(catalogKey, entry)
+    const key = useMessageId
+      ? generateMessageIdSync(parseCatalogKey(catalogKey).message, context)
+      : catalogKey
+    const existing = resolved.get(key)
+    if (existing) {
+      duplicates.push({ key, message: existing.msgid, context: existing.context })
+    }
+    resolved.set(key, {
+      key,
+      msgid: message,
+      context,
+      translation,
+      pluralSource: entry.pluralSource
+    })
+  }
+
+  reportDuplicates(duplicates, options)
+  return [...resolved.values()]
+}
+
+/**
+ * Resolves how Gettext plural forms are selected for a Plural-Forms header.
+ *
+ * If every msgstr index maps to exactly one CLDR category, the forms can be
+ * reordered into CLDR order and selected with the CLDR plural function.
+ *
+ * @returns For each CLDR category, the msgstr index of its form (-1 if none),
+ *   or null if the header's expression has to be evaluated instead; and the
+ *   indices whose category is ambiguous
+ */
+function getCldrFormOrder(
+  pluralForms: string,
+  locale: string
+): { formOrder: number[] | null; ambiguous: PluralFormsMapping["ambiguous"] } {
+  const { categories, ambiguous } = getPluralFormsMapping(pluralForms, locale)
+  if (ambiguous.length > 0) {
+    return { formOrder: null, ambiguous }
+  }
+  const formOrder = getPluralCategories(locale).map((category) => categories.indexOf(category))
+  return { formOrder, ambiguous }
+}
+
+/**
+ * Resolves the form order and plural function for Gettext plural forms.
+ */
+function resolveGettextPlurals(
+  locale: string,
+  pluralForms: string | undefined
+): {
+  formOrder: number[] | null
+  pluralFn: (n: number) => number
+  ambiguous: PluralFormsMapping["ambiguous"]
+} {
+  if (pluralForms === undefined) {
+    return { formOrder: null, pluralFn: getPluralFunction(locale), ambiguous: [] }
+  }
+  const { formOrder, ambiguous } = getCldrFormOrder(pluralForms, locale)
+  return {
+    formOrder,
+    pluralFn: formOrder ? getPluralFunction(locale) : compilePluralFormsExpression(pluralForms),
+    ambiguous
+  }
+}
+
+/** Passes each Gettext plural entry to `onAmbiguousPlural` if the header's mapping is ambiguous */
+function reportAmbiguousPlurals(
+  entries: ResolvedEntry[],
+  ambiguous: PluralFormsMapping["ambiguous"],
+  onAmbiguousPlural: CompileCatalogOptions["onAmbiguousPlural"]
+): void {
+  if (!onAmbiguousPlural || ambiguous.length === 0) {
+    return
+  }
+  for (const entry of entries) {
+    if (Array.isArray(entry.translation)) {
+      onAmbiguousPlural(entry.msgid, ambiguous)
+    }
+  }
+}
+
+/**
+ * Reorders msgstr forms into CLDR order. Categories without a form
+ * (e.g. the decimal-only "other" in 3-form Russian files) use the last form.
+ */
+function reorderForms(translations: string[], order: number[]): string[] {
+  const last = translations[translations.length - 1] ?? ""
+  return order.map((index) => translations[index] ?? last)
+}
+
 /**
  * Compiles Gettext plural forms for runtime use.
  */
@@ -209,6 +365,7 @@ export interface GenerateCodeOptions {
 
   /**
    * Whether to use messageId (hash) as key.
+   * If false, uses the catalog key (msgid, or `createCatalogKey` keys).
    * @default true
    */
   useMessageId?: boolean
@@ -230,6 +387,35 @@ export interface GenerateCodeOptions {
    * @default false
    */
   includeSourceComments?: boolean
+
+  /**
+   * Plural-Forms header of the catalog, e.g. `po.headers["Plural-Forms"]`.
+   * When set, Gettext plural forms (`msgstr[]` arrays) follow its form order
+   * instead of assuming CLDR order: forms are mapped to CLDR categories with
+   * `getPluralFormsMapping`, or, if that mapping is ambiguous, selected by
+   * evaluating the `plural=` expression. ICU plural messages always use CLDR.
+   */
+  pluralForms?: string
+
+  /**
+   * Called for each Gettext plural entry whose msgstr indices the
+   * `pluralForms` header does not map unambiguously to CLDR categories.
+   * Such entries are selected by evaluating the header's expression.
+   */
+  onAmbiguousPlural?: (msgid: string, ambiguous: PluralFormsMapping["ambiguous"]) => void
+
+  /**
+   * Called for each entry that is replaced by a later entry with the same
+   * compiled key, e.g. the same message and context under two catalog keys.
+   */
+  onDuplicate?: (duplicate: CatalogDuplicate) => void
+
+  /**
+   * Throw a `CatalogKeyError` if two entries compile to the same key,
+   * instead of keeping the last one.
+   * @default false
+   */
+  throwOnDuplicate?: boolean
 }
 
 /**
@@ -264,17 +450,27 @@ export function generateCompiledCode(catalog: Catalog, options: GenerateCodeOpti
     useMessageId = true,
     exportName = "messages",
     format = "typescript",
-    includeSourceComments = false
+    includeSourceComments = false,
+    pluralForms
   } = options
 
   const pluralCategories = getPluralCategories(locale)
+  const { formOrder, ambiguous } =
+    pluralForms === undefined
+      ? { formOrder: null, ambiguous: [] }
+      : getCldrFormOrder(pluralForms, locale)
+  // Headers that don't map cleanly to CLDR categories are evaluated directly
+  const gettextPluralCode =
+    pluralForms === undefined || formOrder ? null : generatePluralFormsFunctionCode(pluralForms)
+  const resolved = resolveEntries(catalog, useMessageId, options)
+  reportAmbiguousPlurals(resolved, ambiguous, options.onAmbiguousPlural)
 
   // Process all catalog entries
-  const { entries, usedFormatters, needsPluralFn } = processCatalogEntries(
-    catalog,
+  const { entries, usedFormatters, needsPluralFn, needsGettextPluralFn } = processCatalogEntries(
+    resolved,
     locale,
     pluralCategories,
-    useMessageId
+    { formOrder, useHeaderFn: gettextPluralCode !== null }
   )
 
   // Build output
@@ -286,22 +482,34 @@ export function generateCompiledCode(catalog: Catalog, options: GenerateCodeOpti
     entries,
     usedFormatters,
     needsPluralFn,
+    gettextPluralCode: needsGettextPluralFn ? gettextPluralCode : null,
     pluralCategories
   })
 }
 
+/**
+ * How Gettext plural forms (msgstr[] arrays) are selected in generated code.
+ */
+interface GettextPluralMode {
+  /** Reorders forms into CLDR order before selecting them with `_pf` */
+  formOrder: number[] | null
+  /** Selects forms with the header's plural function (`_gf`) instead of `_pf` */
+  useHeaderFn: boolean
+}
+
 /**
  * Processes all catalog entries and generates code for each.
  */
 function processCatalogEntries(
-  catalog: Catalog,
+  catalogEntries: ResolvedEntry[],
   locale: string,
   pluralCategories: readonly string[],
-  useMessageId: boolean
+  gettextPlurals: GettextPluralMode
 ): {
   entries: CompiledEntry[]
   usedFormatters: FormatterUsage
   needsPluralFn: boolean
+  needsGettextPluralFn: boolean
 } {
   const entries: CompiledEntry[] = []
   const usedFormatters = {
@@ -313,27 +521,26 @@ function processCatalogEntries(
     name: new Set<string>()
   }
   let needsPluralFn = false
+  let needsGettextPluralFn = false
 
-  for (const [msgid, entry] of Object.entries(catalog)) {
-    const translation = entry.translation
-
-    if (translation === undefined) {
-      continue
-    }
-
-    const key = useMessageId ? generateMessageIdSync(msgid, entry.context) : msgid
-
+  for (const { key, msgid, translation, pluralSource } of catalogEntries) {
     let result: MessageCodeResult
 
     if (Array.isArray(translation)) {
       // Gettext plural format: msgstr[0], msgstr[1], ...
+      const { formOrder, useHeaderFn } = gettextPlurals
       result = generateGettextPluralCode(
         msgid,
-        entry.pluralSource,
-        translation,
+        pluralSource,
+        formOrder ? reorderForms(translation, formOrder) : translation,
         locale,
-        pluralCategories
+        pluralCategories,
+        useHeaderFn ? "_gf" : "_pf"
       )
+      if (useHeaderFn && result.needsPluralFn) {
+        needsGettextPluralFn = true
+        result.needsPluralFn = false
+      }
     } else {
       // Single string (may contain ICU syntax)
       result = generateMessageCodeFromString(translation, locale, pluralCategories)
@@ -348,7 +555,7 @@ function processCatalogEntries(
     entries.push({ key, msgid, code: result.code })
   }
 
-  return { entries, usedFormatters, needsPluralFn }
+  return { entries, usedFormatters, needsPluralFn, needsGettextPluralFn }
 }
 
 /**
@@ -359,7 +566,8 @@ function generateGettextPluralCode(
   pluralSource: string | undefined,
   translations: string[],
   locale: string,
-  pluralCategories: readonly string[]
+  pluralCategories: readonly string[],
+  pluralFnName: string
 ): MessageCodeResult {
   const formatters = {
     number: new Set<string>(),
@@ -391,7 +599,7 @@ function generateGettextPluralCode(
   }
 
   // Build plural switch expression
-  const code = buildGettextPluralSwitch(varName, compiledForms)
+  const code = buildGettextPluralSwitch(varName, compiledForms, pluralFnName)
 
   return { code, formatters, needsPluralFn: true, hasTags: false }
 }
@@ -419,8 +627,12 @@ function compileGettextForms(
 /**
  * Builds the plural switch expression for Gettext format.
  */
-function buildGettextPluralSwitch(varName: string, compiledForms: string[]): string {
-  let code = `(v) => { const _n = v?.${varName} ?? 0; const _i = _pf(_n); return `
+function buildGettextPluralSwitch(
+  varName: string,
+  compiledForms: string[],
+  pluralFnName: string
+): string {
+  let code = `(v) => { const _n = v?.${varName} ?? 0; const _i = ${pluralFnName}(_n); return `
 
   // Regex to extract body from arrow function: (v) => body OR () => body
   const fnBodyRegex = /^\([^)]*\) => (.+)$/
@@ -521,6 +733,8 @@ interface BuildOutputOptions {
   entries: CompiledEntry[]
   usedFormatters: FormatterUsage
   needsPluralFn: boolean
+  /** Header plural function for Gettext plural forms, if used */
+  gettextPluralCode: string | null
   pluralCategories: readonly string[]
 }
 
@@ -536,6 +750,7 @@ function buildOutput(options: BuildOutputOptions): string {
     entries,
     usedFormatters,
     needsPluralFn,
+    gettextPluralCode,
     pluralCategories
   } = options
 
@@ -554,6 +769,10 @@ function buildOutput(options: BuildOutputOptions): string {
     lines.push(generatePluralFunctionCode(locale, pluralCategories))
     lines.push("")
   }
+  if (gettextPluralCode) {
+    lines.push(gettextPluralCode)
+    lines.push("")
+  }
 
   // Formatter declarations
   const formatterDecls = generateFormatterDeclarations(locale, usedFormatters)
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest"
+import { diffCatalogs, diffPoFiles, formatCatalogDiff } from "./diff"
+import { parsePo } from "./parse"
+
+const BEFORE = parsePo(`#: src/a.ts:1
+msgid "Hello"
+msgstr "Hallo"
+
+#, fuzzy
+msgid "Save"
+msgstr "Sichern"
+
+msgctxt "menu"
+msgid "Print"
+msgstr "Drucken"
+
+msgid "Goodbye"
+msgstr "Tschüss"
+
+#~ msgid "Back"
+#~ msgstr "Zurück"
+
+msgid "Cancel"
+msgstr "Abbrechen"
+`)
+
+const AFTER = parsePo(`#: src/a.ts:2
+# Informal
+msgid "Hello"
+msgstr "Hallo"
+
+msgid "Save"
+msgstr "Speichern"
+
+msgctxt "menu"
+msgid "Print"
+msgstr "Drucken"
+
+msgctxt "toolbar"
+msgid "Print"
+msgstr "Drucken"
+
+msgid "Back"
+msgstr "Zurück"
+
+#~ msgid "Cancel"
+#~ msgstr "Abbrechen"
+`)
+
+describe("diffPoFiles", () => {
+  const diff = diffPoFiles(BEFORE, AFTER)
+  const summarize = (entries: typeof diff.added) =>
+    entries.map((entry) => [entry.msgctxt, entry.msgid, entry.changes])
+
+  it("lists added and removed entries by msgctxt and msgid", () => {
+    expect(summarize(diff.added)).toEqual([["toolbar", "Print", []]])
+    expect(summarize(diff.removed)).toEqual([[null, "Goodbye", []]])
+    expect(diff.removed[0]?.before?.msgstr).toEqual(["Tschüss"])
+    expect(diff.removed[0]?.after).toBeNull()
+  })
+
+  it("lists obsoleted and revived entries", () => {
+    expect(summarize(diff.obsoleted)).toEqual([[null, "Cancel", []]])
+    expect(summarize(diff.revived)).toEqual([[null, "Back", []]])
+  })
+
+  it("lists changed fields", () => {
+    expect(summarize(diff.changed)).toEqual([
+      [null, "Hello", ["references", "comments"]],
+      [null, "Save", ["translation", "flags"]]
+    ])
+  })
+
+  it("detects plural source, extracted comment and range changes", () => {
+    const result = diffPoFiles(
+      parsePo('msgid "a"\nmsgid_plural "as"\nmsgstr[0] ""\nmsgstr[1] ""'),
+      parsePo('#. Note\n#, range: 0..5\nmsgid "a"\nmsgid_plural "a\'s"\nmsgstr[0] ""\nmsgstr[1] ""')
+    )
+
+    expect(result.changed[0]?.changes).toEqual(["source", "flags", "extractedComments"])
+  })
+
+  it("returns an empty diff for identical files", () => {
+    expect(diffPoFiles(BEFORE, BEFORE)).toEqual({
+      added: [],
+      removed: [],
+      obsoleted: [],
+      revived: [],
+      changed: []
+    })
+  })
+})
+
+describe("diffCatalogs", () => {
+  it("matches entries by source message when keys are message IDs", () => {
+    const diff = diffCatalogs(
+      { abc123: { message: "Hello", translation: "Hallo" } },
+      { xyz789: { message: "Hello", translation: "Servus" } }
+    )
+
+    expect(diff.added).toEqual([])
+    expect(diff.removed).toEqual([])
+    expect(diff.changed.map((entry) => [entry.msgid, entry.changes])).toEqual([
+      ["Hello", ["translation"]]
+    ])
+  })
+
+  it("keeps entries with different contexts apart", () => {
+    const diff = diffCatalogs(
+      { "menu.print": { message: "Print", context: "menu", translation: "Drucken" } },
+      { "toolbar.print": { message: "Print", context: "toolbar", translation: "Drucken" } }
+    )
+
+    expect(diff.added.map((entry) => entry.msgctxt)).toEqual(["toolbar"])
+    expect(diff.removed.map((entry) => entry.msgctxt)).toEqual(["menu"])
+  })
+
+  it("compares catalogs keyed by msgid", () => {
+    const diff = diffCatalogs(
+      { Hello: { translation: "Hallo", flags: { fuzzy: true } } },
+      { Hello: { translation: "Hallo" } }
+    )
+
+    expect(diff.changed[0]?.changes).toEqual(["flags"])
+  })
+})
+
+describe("formatCatalogDiff", () => {
+  const diff = diffPoFiles(BEFORE, AFTER)
+
+  it("renders plain text", () => {
+    expect(formatCatalogDiff(diff)).toBe(`Added (1)
+  + "Print" (context "toolbar")
+Removed (1)
+  - "Goodbye"
+Obsoleted (1)
+  ~ "Cancel"
+Revived (1)
+  ^ "Back"
+Changed (2)
+  * "Hello"
+      references: +src/a.ts:2 -src/a.ts:1
+      comments: +"Informal"
+  * "Save"
+      translation: "Sichern" → "Speichern"
+      flags: -fuzzy
+`)
+  })
+
+  it("renders Markdown", () => {
+    const markdown = formatCatalogDiff(diff, { format: "markdown" })
+
+    expect(markdown).toContain("### Added (1)\n\n- `Print` (context `toolbar`)\n\n### Removed (1)")
+    expect(markdown).toContain(
+      '### Changed (2)\n\n- `Hello`\n  - `references: +src/a.ts:2 -src/a.ts:1`\n  - `comments: +"Informal"`'
+    )
+  })
+
+  it("escapes backticks in Markdown code spans", () => {
+    const markdown = formatCatalogDiff(
+      diffPoFiles(parsePo(""), parsePo('msgid "Run `npm i`"\nmsgstr ""')),
+      { format: "markdown" }
+    )
+
+    expect(markdown).toBe("### Added (1)\n\n- `` Run `npm i` ``\n")
+  })
+
+  it("reports reordered lists and empty diffs", () => {
+    const reordered = diffPoFiles(
+      parsePo('#: a.ts\n#: b.ts\nmsgid "x"\nmsgstr ""'),
+      parsePo('#: b.ts\n#: a.ts\nmsgid "x"\nmsgstr ""')
+    )
+
+    expect(formatCatalogDiff(reordered)).toContain("references: reordered")
+    expect(formatCatalogDiff(diffPoFiles(BEFORE, BEFORE))).toBe("No changes\n")
+    expect(formatCatalogDiff(diffPoFiles(BEFORE, BEFORE), { format: "markdown" })).toBe(
+      "No changes\n"
+    )
+  })
+})
@@ -0,0 +1,313 @@
+/**
+ * Diffing translations, for reviewing changes to PO files and catalogs.
+ *
+ * Entries are matched by msgctxt and msgid, so catalogs keyed by generated
+ * IDs are compared by their source message, not by key.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { catalogToItems, type Catalog } from "./catalog"
+import { formatRangeFlag } from "./flags"
+import { indexItems } from "./internal/itemKey"
+
+/**
+ * A field that differs between two versions of an entry.
+ *
+ * - "translation": msgstr
+ * - "source": msgid_plural
+ * - "flags": flags, including `range:`
+ * - "references": source references (#:)
+ * - "comments": translator comments (#)
+ * - "extractedComments": extracted comments (#.)
+ */
+export type CatalogDiffChange =
+  | "translation"
+  | "source"
+  | "flags"
+  | "references"
+  | "comments"
+  | "extractedComments"
+
+/**
+ * An entry that was added, removed or modified.
+ */
+export interface CatalogDiffEntry {
+  msgctxt: string | null
+  msgid: string
+  /** The entry in the old version, null if added */
+  before: PoItem | null
+  /** The entry in the new version, null if removed */
+  after: PoItem | null
+  /** Fields that differ; empty for added and removed entries */
+  changes: CatalogDiffChange[]
+}
+
+/**
+ * Differences between two versions of a PO file or catalog.
+ */
+export interface CatalogDiff {
+  /** Entries only in the new version */
+  added: CatalogDiffEntry[]
+  /** Entries only in the old version */
+  removed: CatalogDiffEntry[]
+  /** Entries that became obsolete */
+  obsoleted: CatalogDiffEntry[]
+  /** Obsolete entries that became active again */
+  revived: CatalogDiffEntry[]
+  /** Entries with other changes */
+  changed: CatalogDiffEntry[]
+}
+
+/**
+ * Options for `formatCatalogDiff`.
+ */
+export interface FormatCatalogDiffOptions {
+  /**
+   * Output format: plain text for terminals, or Markdown for review comments.
+   * @default "text"
+   */
+  format?: "text" | "markdown"
+}
+
+/** Sections of the formatted output in order, with title and marker */
+const SECTIONS: readonly [keyof CatalogDiff, string, string][] = [
+  ["added", "Added", "+"],
+  ["removed", "Removed", "-"],
+  ["obsoleted", "Obsoleted", "~"],
+  ["revived", "Revived", "^"],
+  ["changed", "Changed", "*"]
+]
+
+/** Returns the set flags of an item, with the range as a flag */
+function getFlagNames(item: PoItem): string[] {
+  const names = Object.keys(item.flags).filter((flag) => item.flags[flag])
+  if (item.range) {
+    names.push(formatRangeFlag(item.range))
+  }
+  return names
+}
+
+/** Whether two string lists have the same items in the same order */
+function sameList(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i])
+}
+
+/** Returns the fields that differ between two versions of an entry */
+function getChanges(before: PoItem, after: PoItem): CatalogDiffChange[] {
+  const changes: CatalogDiffChange[] = []
+  if (!sameList(before.msgstr, after.msgstr)) {
+    changes.push("translation")
+  }
+  if (before.msgid_plural !== after.msgid_plural) {
+    changes.push("source")
+  }
+  if (!sameList(getFlagNames(before).sort(), getFlagNames(after).sort())) {
+    changes.push("flags")
+  }
+  if (!sameList(before.references, after.references)) {
+    changes.push("references")
+  }
+  if (!sameList(before.comments, after.comments)) {
+    changes.push("comments")
+  }
+  if (!sameList(before.extractedComments, after.extractedComments)) {
+    changes.push("extractedComments")
+  }
+  return changes
+}
+
+/** Creates a diff entry */
+function createEntry(before: PoItem | null, after: PoItem | null): CatalogDiffEntry {
+  const item = after ?? before
+  return {
+    msgctxt: item?.msgctxt ?? null,
+    msgid: item?.msgid ?? "",
+    before,
+    after,
+    changes: before && after ? getChanges(before, after) : []
+  }
+}
+
+/** Returns the section an entry present in both versions belongs to, if any */
+function classifyEntry(entry: CatalogDiffEntry): keyof CatalogDiff | null {
+  const wasObsolete = entry.before?.obsolete === true
+  const isObsolete = entry.after?.obsolete === true
+  if (wasObsolete !== isObsolete) {
+    return isObsolete ? "obsoleted" : "revived"
+  }
+  return entry.changes.length > 0 ? "changed" : null
+}
+
+/** Compares two lists of items */
+function diffItems(before: PoItem[], after: PoItem[]): CatalogDiff {
+  const diff: CatalogDiff = { added: [], removed: [], obsoleted: [], revived: [], changed: [] }
+  const beforeIndex = indexItems(before)
+  const afterIndex = indexItems(after)
+
+  for (const [key, item] of afterIndex) {
+    const old = beforeIndex.get(key)
+    const entry = createEntry(old ?? null, item)
+    const section = old ? classifyEntry(entry) : "added"
+    if (section) {
+      diff[section].push(entry)
+    }
+  }
+  for (const [key, old] of beforeIndex) {
+    if (!afterIndex.has(key)) {
+      diff.removed.push(createEntry(old, null))
+    }
+  }
+  return diff
+}
+
+/**
+ * Compares two versions of a PO file.
+ *
+ * Entries are matched by msgctxt and msgid. Entries whose translation, plural
+ * source, flags, references or comments differ are listed in `changed`, or in
+ * `obsoleted`/`revived` if their obsolete state changed as well.
+ *
+ * @example
+ * const diff = diffPoFiles(parsePo(oldContent), parsePo(newContent))
+ * diff.changed.filter((entry) => entry.changes.includes("flags"))
+ */
+export function diffPoFiles(before: PoFile, after: PoFile): CatalogDiff {
+  return diffItems(before.items, after.items)
+}
+
+/**
+ * Compares two versions of a catalog.
+ *
+ * Entries are matched by context and source message (`message`, or the key
+ * when the key is the message), whether or not the keys are message IDs.
+ * `before` and `after` of each diff entry are the entries converted to PO items.
+ *
+ * @example
+ * const diff = diffCatalogs(oldCatalog, newCatalog)
+ * console.log(formatCatalogDiff(diff))
+ */
+export function diffCatalogs(before: Catalog, after: Catalog): CatalogDiff {
+  return diffItems(catalogToItems(before), catalogToItems(after))
+}
+
+/** Formats a list of added and removed values, like "+a -b" */
+function formatListChange(before: string[], after: string[], quote: boolean): string {
+  const format = (value: string): string => (quote ? JSON.stringify(value) : value)
+  const changes = [
+    ...after.filter((value) => !before.includes(value)).map((value) => "+" + format(value)),
+    ...before.filter((value) => !after.includes(value)).map((value) => "-" + format(value))
+  ]
+  return changes.length > 0 ? changes.join(" ") : "reordered"
+}
+
+/** Formats the translation of an item */
+function formatTranslation(item: PoItem): string {
+  return item.msgstr.length === 1 ? JSON.stringify(item.msgstr[0]) : JSON.stringify(item.msgstr)
+}
+
+/** Describes one changed field, like `translation: "a" → "b"` */
+function describeChange(change: CatalogDiffChange, before: PoItem, after: PoItem): string {
+  switch (change) {
+    case "translation":
+      return `translation: ${formatTranslation(before)} → ${formatTranslation(after)}`
+    case "source":
+      return `msgid_plural: ${JSON.stringify(before.msgid_plural)} → ${JSON.stringify(after.msgid_plural)}`
+    case "flags":
+      return `flags: ${formatListChange(getFlagNames(before), getFlagNames(after), false)}`
+    case "references":
+      return `references: ${formatListChange(before.references, after.references, false)}`
+    case "comments":
+      return `comments: ${formatListChange(before.comments, after.comments, true)}`
+    case "extractedComments":
+      return `extracted comments: ${formatListChange(before.extractedComments, after.extractedComments, true)}`
+  }
+}
+
+/** Describes all changed fields of an entry */
+function describeChanges(entry: CatalogDiffEntry): string[] {
+  const { before, after } = entry
+  if (!before || !after) {
+    return []
+  }
+  return entry.changes.map((change) => describeChange(change, before, after))
+}
+
+/** Wraps text in a Markdown code span */
+function toCodeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const fence = "`".repeat(longestRun + 1)
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : ""
+  return fence + padding + text + padding + fence
+}
+
+/** Formats the message of an entry as plain text */
+function formatTextLabel(entry: CatalogDiffEntry): string {
+  const context = entry.msgctxt === null ? "" : ` (context ${JSON.stringify(entry.msgctxt)})`
+  return JSON.stringify(entry.msgid) + context
+}
+
+/** Formats the message of an entry as Markdown */
+function formatMarkdownLabel(entry: CatalogDiffEntry): string {
+  const context = entry.msgctxt === null ? "" : ` (context ${toCodeSpan(entry.msgctxt)})`
+  return toCodeSpan(entry.msgid) + context
+}
+
+/** Renders a diff as plain text */
+function formatText(diff: CatalogDiff): string {
+  const lines: string[] = []
+  for (const [section, title, marker] of SECTIONS) {
+    const entries = diff[section]
+    if (entries.length === 0) {
+      continue
+    }
+    lines.push(`${title} (${entries.length})`)
+    for (const entry of entries) {
+      lines.push(`  ${marker} ${formatTextLabel(entry)}`)
+      for (const description of describeChanges(entry)) {
+        lines.push(`      ${description}`)
+      }
+    }
+  }
+  return lines.length > 0 ? lines.join("\n") + "\n" : "No changes\n"
+}
+
+/** Renders a diff as Markdown */
+function formatMarkdown(diff: CatalogDiff): string {
+  const blocks: string[] = []
+  for (const [section, title] of SECTIONS) {
+    const entries = diff[section]
+    if (entries.length === 0) {
+      continue
+    }
+    const lines = [`### ${title} (${entries.length})`, ""]
+    for (const entry of entries) {
+      lines.push(`- ${formatMarkdownLabel(entry)}`)
+      for (const description of describeChanges(entry)) {
+        lines.push(`  - ${toCodeSpan(description)}`)
+      }
+    }
+    blocks.push(lines.join("\n"))
+  }
+  return blocks.length > 0 ? blocks.join("\n\n") + "\n" : "No changes\n"
+}
+
+/**
+ * Renders a diff for humans, as plain text or Markdown.
+ *
+ * Sections are written in the order added, removed, obsoleted, revived,
+ * changed; empty sections are left out. Each changed field is listed below
+ * its entry.
+ *
+ * @example
+ * formatCatalogDiff(diffPoFiles(before, after))
+ * // Changed (1)
+ * //   * "Save"
+ * //       translation: "Sichern" → "Speichern"
+ * //       flags: -fuzzy
+ */
+export function formatCatalogDiff(
+  diff: CatalogDiff,
+  options: FormatCatalogDiffOptions = {}
+): string {
+  return options.format === "markdown" ? formatMarkdown(diff) : formatText(diff)
+}
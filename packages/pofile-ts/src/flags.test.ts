@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest"
+import { createItem } from "./Item"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+import {
+  formatRangeFlag,
+  getFormatFlags,
+  getMessageFormat,
+  parseRangeFlag,
+  setFormatFlag
+} from "./flags"
+
+describe("getFormatFlags", () => {
+  it("returns format flags with their state", () => {
+    const po = parsePo(`#, fuzzy, c-format, no-python-format, possible-javascript-format
+msgid "%s"
+msgstr ""`)
+    const item = po.items[0]
+    if (!item) {
+      throw new Error("Expected item")
+    }
+
+    expect(getFormatFlags(item)).toEqual([
+      { format: "c", state: "yes" },
+      { format: "python", state: "no" },
+      { format: "javascript", state: "possible" }
+    ])
+  })
+
+  it("ignores flags that are not set", () => {
+    const item = createItem()
+    item.flags["c-format"] = false
+
+    expect(getFormatFlags(item)).toEqual([])
+  })
+})
+
+describe("getMessageFormat", () => {
+  it("returns the format of the message", () => {
+    const item = createItem()
+    item.flags["no-c-format"] = true
+    item.flags["icu-format"] = true
+
+    expect(getMessageFormat(item)).toBe("icu")
+  })
+
+  it("returns null without a positive format flag", () => {
+    const item = createItem()
+    item.flags["no-c-format"] = true
+
+    expect(getMessageFormat(item)).toBeNull()
+  })
+})
+
+describe("setFormatFlag", () => {
+  it("replaces other flags for the same format", () => {
+    const item = createItem()
+    item.flags["c-format"] = true
+    item.flags.fuzzy = true
+
+    setFormatFlag(item, "c", "no")
+
+    expect(item.flags).toEqual({ fuzzy: true, "no-c-format": true })
+  })
+
+  it("removes the flag for null", () => {
+    const item = createItem()
+    item.flags["possible-icu-format"] = true
+
+    setFormatFlag(item, "icu", null)
+
+    expect(item.flags).toEqual({})
+  })
+
+  it("writes the flag to the PO file", () => {
+    const item = createItem()
+    item.msgid = "{count} items"
+    setFormatFlag(item, "icu", "yes")
+
+    expect(stringifyPo({ items: [item] })).toContain("#, icu-format\n")
+  })
+})
+
+describe("range flag", () => {
+  it("parses bounds", () => {
+    expect(parseRangeFlag("range: 1..12")).toEqual({ min: 1, max: 12 })
+    expect(parseRangeFlag("range:0..5")).toEqual({ min: 0, max: 5 })
+  })
+
+  it("rejects invalid ranges", () => {
+    expect(parseRangeFlag("range: 5..1")).toBeNull()
+    expect(parseRangeFlag("range: -1..3")).toBeNull()
+    expect(parseRangeFlag("range: a..b")).toBeNull()
+    expect(parseRangeFlag("fuzzy")).toBeNull()
+  })
+
+  it("formats bounds", () => {
+    expect(formatRangeFlag({ min: 1, max: 12 })).toBe("range: 1..12")
+  })
+
+  it("roundtrips through parsePo and stringifyPo", () => {
+    const input = `#, fuzzy,range: 1..12
+msgid "one"
+msgstr "eins"`
+
+    const po = parsePo(input)
+
+    expect(po.items[0]?.range).toEqual({ min: 1, max: 12 })
+    expect(stringifyPo(po)).toContain(input)
+  })
+})
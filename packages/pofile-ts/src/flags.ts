@@ -0,0 +1,124 @@
+/**
+ * Utilities for GNU gettext format flags.
+ *
+ * Format flags (`c-format`, `no-python-format`, `icu-format`, ...) state which
+ * format string language a message uses. They are stored as regular entries
+ * in `PoItem.flags`; the helpers here interpret them. The `range:` flag is
+ * parsed into `PoItem.range`.
+ *
+ * @see https://www.gnu.org/software/gettext/manual/html_node/PO-Files.html
+ */
+
+import type { PoItem, PoRange } from "./types"
+
+/** Matches a format flag, capturing the negation/"possible" prefix and language */
+const RE_FORMAT_FLAG = /^(no-|possible-)?([a-z][a-z0-9-]*)-format$/
+
+/** Matches the value of a `range:` flag */
+const RE_RANGE = /^range:\s*(\d+)\s*\.\.\s*(\d+)$/
+
+/**
+ * A format flag on an item.
+ */
+export interface PoFormatFlag {
+  /** Format language, e.g. "c", "python", "javascript" or "icu" */
+  format: string
+  /**
+   * - "yes": `<format>-format`, the message is in this format
+   * - "no": `no-<format>-format`, the message must not be treated as this format
+   * - "possible": `possible-<format>-format`, set by msgmerge when unsure
+   */
+  state: "yes" | "no" | "possible"
+}
+
+/**
+ * Returns all format flags of an item.
+ *
+ * @example
+ * getFormatFlags(item) // [{ format: "c", state: "yes" }]
+ */
+export function getFormatFlags(item: PoItem): PoFormatFlag[] {
+  const result: PoFormatFlag[] = []
+  for (const flag in item.flags) {
+    const match = item.flags[flag] ? RE_FORMAT_FLAG.exec(flag) : null
+    if (match?.[2]) {
+      const prefix = match[1]
+      const state = prefix === "no-" ? "no" : prefix === "possible-" ? "possible" : "yes"
+      result.push({ format: match[2], state })
+    }
+  }
+  return result
+}
+
+/**
+ * Returns the format language of an item's messages, or null if no
+ * `<format>-format` flag is set.
+ *
+ * Use this to decide whether to treat a msgstr as ICU or as printf-style.
+ *
+ * @example
+ * if (getMessageFormat(item) === "icu") {
+ *   validateIcu(item.msgstr[0] ?? "")
+ * }
+ */
+export function getMessageFormat(item: PoItem): string | null {
+  return getFormatFlags(item).find((flag) => flag.state === "yes")?.format ?? null
+}
+
+/**
+ * Sets the format flag of an item, replacing other flags for the same format.
+ *
+ * @param state - "yes", "no" or "possible"; null removes the flag
+ *
+ * @example
+ * setFormatFlag(item, "icu", "yes")      // #, icu-format
+ * setFormatFlag(item, "c", "no")         // #, no-c-format
+ */
+export function setFormatFlag(
+  item: PoItem,
+  format: string,
+  state: PoFormatFlag["state"] | null
+): void {
+  const names = [`${format}-format`, `no-${format}-format`, `possible-${format}-format`]
+  const flags: Record<string, boolean> = {}
+  for (const flag in item.flags) {
+    if (!names.includes(flag)) {
+      flags[flag] = item.flags[flag] ?? false
+    }
+  }
+
+  if (state === "yes") {
+    flags[`${format}-format`] = true
+  } else if (state !== null) {
+    flags[`${state}-${format}-format`] = true
+  }
+  item.flags = flags
+}
+
+/**
+ * Parses a `range: min..max` flag.
+ *
+ * @returns The range, or null if the flag is not a valid range
+ *
+ * @example
+ * parseRangeFlag("range: 1..12") // { min: 1, max: 12 }
+ */
+export function parseRangeFlag(flag: string): PoRange | null {
+  const match = RE_RANGE.exec(flag.trim())
+  if (!match?.[1] || !match[2]) {
+    return null
+  }
+  const min = parseInt(match[1], 10)
+  const max = parseInt(match[2], 10)
+  return min <= max ? { min, max } : null
+}
+
+/**
+ * Formats a range as a `range:` flag.
+ *
+ * @example
+ * formatRangeFlag({ min: 1, max: 12 }) // "range: 1..12"
+ */
+export function formatRangeFlag(range: PoRange): string {
+  return `range: ${range.min}..${range.max}`
+}
@@ -1,17 +1,38 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
-import { createDefaultHeaders, formatPoDate, getPluralFormsHeader } from "./headers"
+import {
+  createDefaultHeaders,
+  formatPoDate,
+  getPluralFormsCategories,
+  getPluralFormsHeader
+} from "./headers"
 
 describe("getPluralFormsHeader", () => {
   it("returns correct header for German (2 forms)", () => {
     expect(getPluralFormsHeader("de")).toBe("nplurals=2; plural=(n != 1);")
   })
 
-  it("returns correct header for Polish (4 forms)", () => {
-    expect(getPluralFormsHeader("pl")).toBe("nplurals=4; plural=(n != 1);")
+  it("returns correct header for Polish (3 forms)", () => {
+    expect(getPluralFormsHeader("pl")).toBe(
+      "nplurals=3; plural=(n == 1 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2);"
+    )
+  })
+
+  it("returns correct header for Russian (3 forms, other only for decimals)", () => {
+    expect(getPluralFormsHeader("ru")).toBe(
+      "nplurals=3; plural=(n % 10 == 1 && n % 100 != 11 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2);"
+    )
   })
 
   it("returns correct header for Arabic (6 forms)", () => {
-    expect(getPluralFormsHeader("ar")).toBe("nplurals=6; plural=(n != 1);")
+    expect(getPluralFormsHeader("ar")).toBe(
+      "nplurals=6; plural=(n == 0 ? 0 : n == 1 ? 1 : n == 2 ? 2 : n % 100 >= 3 && n % 100 <= 10 ? 3 : n % 100 >= 11 && n % 100 <= 99 ? 4 : 5);"
+    )
+  })
+
+  it("returns correct header for French (0 and 1 are singular)", () => {
+    expect(getPluralFormsHeader("fr")).toBe(
+      "nplurals=3; plural=(n == 0 || n == 1 ? 0 : n != 0 && n % 1000000 == 0 ? 1 : 2);"
+    )
   })
 
   it("returns correct header for Chinese (1 form)", () => {
@@ -19,13 +40,30 @@ describe("getPluralFormsHeader", () => {
   })
 
   it("handles locale with region", () => {
-    // pt-BR has 3 plural forms according to CLDR
-    expect(getPluralFormsHeader("pt-BR")).toBe("nplurals=3; plural=(n != 1);")
+    // pt-BR falls back to pt, pt-PT has its own rules
+    expect(getPluralFormsHeader("pt-BR")).toBe(
+      "nplurals=3; plural=(n <= 1 ? 0 : n != 0 && n % 1000000 == 0 ? 1 : 2);"
+    )
+    expect(getPluralFormsHeader("pt-PT")).toBe(
+      "nplurals=3; plural=(n == 1 ? 0 : n != 0 && n % 1000000 == 0 ? 1 : 2);"
+    )
   })
 
   it("handles underscore locale format", () => {
     // Underscores are normalized to hyphens
-    expect(getPluralFormsHeader("pt_BR")).toBe("nplurals=3; plural=(n != 1);")
+    expect(getPluralFormsHeader("pt_BR")).toBe(getPluralFormsHeader("pt-BR"))
+  })
+
+  it("falls back to Intl.PluralRules for unknown locales", () => {
+    expect(getPluralFormsHeader("xx")).toBe("nplurals=2; plural=(n != 1);")
+  })
+})
+
+describe("getPluralFormsCategories", () => {
+  it("returns the CLDR category of each msgstr index", () => {
+    expect(getPluralFormsCategories("de")).toEqual(["one", "other"])
+    expect(getPluralFormsCategories("ru")).toEqual(["one", "few", "many"])
+    expect(getPluralFormsCategories("cy")).toEqual(["zero", "one", "two", "few", "many", "other"])
   })
 })
 
@@ -131,7 +169,7 @@ describe("createDefaultHeaders", () => {
   })
 
   it("auto-generates correct nplurals for complex languages", () => {
-    expect(createDefaultHeaders({ language: "pl" })["Plural-Forms"]).toMatch(/^nplurals=4;/)
+    expect(createDefaultHeaders({ language: "pl" })["Plural-Forms"]).toMatch(/^nplurals=3;/)
     expect(createDefaultHeaders({ language: "ar" })["Plural-Forms"]).toMatch(/^nplurals=6;/)
     expect(createDefaultHeaders({ language: "zh" })["Plural-Forms"]).toBe("nplurals=1; plural=0;")
   })
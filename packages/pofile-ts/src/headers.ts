@@ -2,7 +2,8 @@
  * Default headers helper for creating PO files.
  */
 
-import { getPluralCount } from "./plurals"
+import { getPluralCategories, getPluralCount } from "./plurals"
+import { findPluralFormsRule } from "./internal/pluralFormsTable"
 import type { Headers } from "./types"
 
 /**
@@ -101,23 +102,48 @@ function buildBaseHeaders(options: CreateHeadersOptions, now: string): Partial<H
 /**
  * Generates a Plural-Forms header string for a locale.
  *
- * Uses CLDR data via Intl.PluralRules to determine nplurals.
- * The plural expression is a simple fallback - for accurate runtime
- * plural selection, use `getPluralFunction(locale)` instead.
+ * Uses a built-in table of gettext expressions derived from the CLDR plural
+ * rules, so `nplurals` and the expression always agree. Form N is the N-th
+ * CLDR category as returned by `getPluralFormsCategories(language)`.
+ * Locales missing from the table fall back to Intl.PluralRules for nplurals
+ * with a simple `(n != 1)` expression.
+ *
+ * French, Spanish, Italian, Catalan and Portuguese get nplurals=3, where
+ * the GNU gettext headers have 2: msgstr[1] is the CLDR "many" form for
+ * exact millions, and the "other" form moves to msgstr[2]. Existing 2-form
+ * catalogs keep working with their own header; only a file whose header is
+ * replaced with this one needs a third msgstr per plural entry.
  *
  * @example
  * getPluralFormsHeader("de")  // → "nplurals=2; plural=(n != 1);"
- * getPluralFormsHeader("pl")  // → "nplurals=4; plural=(n != 1);"
- * getPluralFormsHeader("ar")  // → "nplurals=6; plural=(n != 1);"
+ * getPluralFormsHeader("pl")
+ * // → "nplurals=3; plural=(n == 1 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2);"
  */
 export function getPluralFormsHeader(language: string): string {
+  const rule = findPluralFormsRule(language)
+  if (rule) {
+    return `nplurals=${rule.categories.length}; plural=${rule.plural};`
+  }
   const nplurals = getPluralCount(language)
-  // Simple expression that works for 1-2 forms
-  // For 3+ forms, tools should use their own CLDR data
   const plural = nplurals === 1 ? "0" : "(n != 1)"
   return `nplurals=${nplurals}; plural=${plural};`
 }
 
+/**
+ * Returns the CLDR category of each `msgstr[N]` in files using the
+ * Plural-Forms header from `getPluralFormsHeader(language)`.
+ *
+ * Categories that only apply to decimals (like Russian "other") have no
+ * index, as the gettext expression could never select them.
+ *
+ * @example
+ * getPluralFormsCategories("ru")  // → ["one", "few", "many"]
+ * getPluralFormsCategories("ar")  // → ["zero", "one", "two", "few", "many", "other"]
+ */
+export function getPluralFormsCategories(language: string): readonly string[] {
+  return findPluralFormsRule(language)?.categories ?? getPluralCategories(language)
+}
+
 /**
  * Creates default PO file headers with sensible defaults.
  *
@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest"
+import {
+  catalogToI18next,
+  i18nextToCatalog,
+  i18nextToPoFile,
+  poFileToI18next,
+  I18nextConversionError,
+  type I18nextProblem
+} from "./i18next"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+
+describe("catalogToI18next", () => {
+  it("nests keys and adds plural and context suffixes", () => {
+    const json = catalogToI18next(
+      {
+        "cart.title": { translation: "Warenkorb von {name}" },
+        "cart.items": {
+          translation: ["{count} Artikel", "{count, number} Artikel"],
+          pluralSource: "{count} items"
+        },
+        "female\u0004cart.owner": { translation: "Besitzerin" },
+        "cart.guests": {
+          translation: ["{count} Gast", "{count} Gäste"],
+          pluralSource: "{count} guests",
+          context: "formal"
+        }
+      },
+      { locale: "de" }
+    )
+
+    expect(json).toEqual({
+      cart: {
+        title: "Warenkorb von {{name}}",
+        items_one: "{{count}} Artikel",
+        items_other: "{{count, number}} Artikel",
+        owner_female: "Besitzerin",
+        guests_formal_one: "{{count}} Gast",
+        guests_formal_other: "{{count}} Gäste"
+      }
+    })
+  })
+
+  it("splits a message that is an ICU plural over count", () => {
+    const json = catalogToI18next(
+      { files: { translation: "{count, plural, one {# Datei} other {# Dateien}}" } },
+      { locale: "de" }
+    )
+
+    expect(json).toEqual({ files_one: "{{count}} Datei", files_other: "{{count}} Dateien" })
+  })
+
+  it("maps msgstr indices with the Plural-Forms header", () => {
+    const json = catalogToI18next(
+      { files: { translation: ["plik", "pliki", "plików"], pluralSource: "files" } },
+      {
+        locale: "pl",
+        pluralForms:
+          "nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);"
+      }
+    )
+
+    expect(json).toEqual({
+      files_one: "plik",
+      files_few: "pliki",
+      files_many: "plików",
+      files_other: "plików"
+    })
+  })
+
+  it("leaves out obsolete, fuzzy and untranslated entries", () => {
+    const catalog = {
+      old: { translation: "Alt", obsolete: true },
+      draft: { translation: "Entwurf", flags: { fuzzy: true } },
+      todo: { translation: "" }
+    }
+
+    expect(catalogToI18next(catalog, { locale: "de" })).toEqual({})
+    expect(catalogToI18next(catalog, { locale: "de", includeFuzzy: true })).toEqual({
+      draft: "Entwurf"
+    })
+  })
+
+  it("reports messages it cannot represent", () => {
+    const catalog = {
+      invite: { translation: "{gender, select, female {Sie} other {Er}} lädt ein" },
+      menu: { translation: "Menü" },
+      "menu.open": { translation: "Öffnen" }
+    }
+    const problems: I18nextProblem[] = []
+
+    const json = catalogToI18next(catalog, {
+      locale: "de",
+      onProblem: (problem) => problems.push(problem)
+    })
+
+    expect(json).toEqual({
+      invite: "{gender, select, female {Sie} other {Er}} lädt ein",
+      menu: "Menü"
+    })
+    expect(problems).toEqual([
+      { key: "invite", message: "ICU select has no i18next equivalent; kept unchanged" },
+      { key: "menu.open", message: 'conflicts with the message at "menu"' }
+    ])
+    expect(() => catalogToI18next(catalog, { locale: "de" })).toThrow(I18nextConversionError)
+    expect(
+      catalogToI18next(catalog, { locale: "de", keySeparator: false, onProblem: () => undefined })
+    ).toMatchObject({ menu: "Menü", "menu.open": "Öffnen" })
+  })
+})
+
+describe("i18nextToCatalog", () => {
+  it("reads nested keys, plurals, contexts and interpolations", () => {
+    const catalog = i18nextToCatalog(
+      {
+        nav: { home: "Start", home_mobile: "Home" },
+        items_one: "{{count}} Artikel",
+        items_other: "{{count, number}} Artikel",
+        friend: "Freund",
+        friend_female_one: "{{count}} Freundin",
+        friend_female_other: "{{count}} Freundinnen",
+        quote: "It's '{literal}' at {{when, datetime}}"
+      },
+      { locale: "de" }
+    )
+
+    expect(catalog).toEqual({
+      "nav.home": { translation: "Start" },
+      "mobile\u0004nav.home": { translation: "Home", context: "mobile" },
+      items: { translation: ["{count} Artikel", "{count, number} Artikel"], pluralSource: "items" },
+      friend: { translation: "Freund" },
+      "female\u0004friend": {
+        translation: ["{count} Freundin", "{count} Freundinnen"],
+        pluralSource: "friend",
+        context: "female"
+      },
+      quote: { translation: "It's '''{'literal'}''' at {when, date}" }
+    })
+    expect(catalogToI18next({ quote: catalog.quote ?? {} }, { locale: "de" })).toEqual({
+      quote: "It's '{literal}' at {{when, datetime}}"
+    })
+  })
+
+  it("reports i18next features without an ICU equivalent", () => {
+    const problems: I18nextProblem[] = []
+
+    i18nextToCatalog(
+      {
+        see: "See $t(help)",
+        price: "{{price, currency(EUR)}}",
+        html: "<b>{{- html}}</b>",
+        list: ["a", "b"]
+      } as never,
+      { locale: "en", onProblem: (problem) => problems.push(problem) }
+    )
+
+    expect(problems).toEqual([
+      { key: "list", message: "only strings and nested objects can be converted" },
+      { key: "see", message: "nesting ($t) has no ICU equivalent; kept as text" },
+      { key: "price", message: 'format "currency(EUR)" has no ICU equivalent; left out' },
+      {
+        key: "html",
+        message: "unescaped interpolation ({{- }}) has no ICU equivalent; written back escaped"
+      }
+    ])
+    expect(() => i18nextToCatalog({ html: "{{- html}}" }, { locale: "en" })).toThrow(
+      I18nextConversionError
+    )
+  })
+})
+
+describe("PO files", () => {
+  const PO = `msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "Hello {name}"
+msgstr "Hallo {name}"
+
+msgid "Saved. Close the window?"
+msgstr "Gespeichert. Fenster schließen?"
+
+msgctxt "menu"
+msgid "Open"
+msgstr "Öffnen"
+
+msgid "Open"
+msgstr "Offen"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} Datei"
+msgstr[1] "{count} Dateien"
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`
+
+  it("converts the translations of a PO file", () => {
+    const json = poFileToI18next(parsePo(PO))
+
+    expect(json).toEqual({
+      "Hello {name}": "Hallo {{name}}",
+      "Saved. Close the window?": "Gespeichert. Fenster schließen?",
+      Open_menu: "Öffnen",
+      Open: "Offen",
+      "{count} file_one": "{{count}} Datei",
+      "{count} file_other": "{{count}} Dateien"
+    })
+  })
+
+  it("nests keys with a key separator", () => {
+    const po = parsePo(
+      'msgid ""\nmsgstr ""\n"Language: de\\n"\n\nmsgid "cart.title"\nmsgstr "Warenkorb"\n'
+    )
+
+    expect(poFileToI18next(po, { keySeparator: "." })).toEqual({ cart: { title: "Warenkorb" } })
+  })
+
+  it("converts i18next JSON to a PO file and back", () => {
+    const json = { Open: "Offen", Open_menu: "Öffnen", files_one: "Datei", files_other: "Dateien" }
+    const po = i18nextToPoFile(json, { locale: "de" })
+
+    expect(stringifyPo(po)).toContain(`msgctxt "menu"
+msgid "Open"
+msgstr "Öffnen"`)
+    expect(po.items[2]?.msgstr).toEqual(["Datei", "Dateien"])
+    expect(poFileToI18next(po)).toEqual(json)
+  })
+
+  it("requires a locale", () => {
+    expect(() => poFileToI18next(parsePo('msgid "a"\nmsgstr "b"\n'))).toThrow(
+      "Cannot convert a PO file without a locale"
+    )
+  })
+})
@@ -0,0 +1,562 @@
+/**
+ * i18next JSON v4 import and export.
+ *
+ * i18next keys become catalog keys; nested objects are flattened to dot
+ * paths. Plurals and contexts are key suffixes:
+ *
+ * - gettext plurals → `key_one`, `key_few`, `key_many`, `key_other`, … with
+ *   the CLDR categories of the locale
+ * - msgctxt → `key_context`, and `key_context_one` etc. for plurals
+ * - `{name}` → `{{name}}`, `{count, number}` → `{{count, number}}`,
+ *   `{day, date}` → `{{day, datetime}}`
+ *
+ * i18next JSON only holds translations: imported entries use their key as
+ * message, and plurals also as plural source.
+ *
+ * @see https://www.i18next.com/misc/json-format
+ */
+
+import type { PoFile } from "./types"
+import type { IcuNode, IcuPluralNode } from "./icu/types"
+import {
+  catalogToItems,
+  createCatalogKey,
+  itemsToCatalog,
+  parseCatalogKey,
+  type Catalog,
+  type CatalogEntry
+} from "./catalog"
+import { createPoFile } from "./parse"
+import { getPluralFormsCategories, getPluralFormsHeader } from "./headers"
+import { getPluralCategories, getPluralFormsMapping, parsePluralForms } from "./plurals"
+import { parseIcu } from "./icu/parser"
+import { escapeIcu } from "./internal/utils"
+
+/**
+ * An i18next JSON resource: translations by key, optionally nested.
+ */
+export interface I18nextResource {
+  [key: string]: string | I18nextResource
+}
+
+/**
+ * A message that cannot be converted exactly.
+ */
+export interface I18nextProblem {
+  /** The i18next key, as a flat path */
+  key: string
+  /** What cannot be represented */
+  message: string
+}
+
+/**
+ * Error thrown when messages cannot be converted exactly and no
+ * `onProblem` handler is given.
+ */
+export class I18nextConversionError extends Error {
+  constructor(public readonly problems: I18nextProblem[]) {
+    const first = problems[0]
+    const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : ""
+    super(`Cannot convert ${JSON.stringify(first?.key ?? "")}: ${first?.message ?? ""}${more}`)
+    this.name = "I18nextConversionError"
+  }
+}
+
+/**
+ * Options for converting between catalogs and i18next JSON.
+ */
+export interface I18nextOptions {
+  /** Locale of the translations, for the plural suffixes */
+  locale: string
+
+  /**
+   * Plural-Forms header of the translations, to map msgstr indices to
+   * plural categories (default: the order of `getPluralFormsCategories`)
+   */
+  pluralForms?: string
+
+  /** Separator of nested keys, or false for flat JSON (default: ".") */
+  keySeparator?: string | false
+
+  /** Separator before context suffixes (default: "_") */
+  contextSeparator?: string
+
+  /** Separator before plural suffixes (default: "_") */
+  pluralSeparator?: string
+
+  /**
+   * Called for each message that cannot be converted exactly; the message
+   * is converted as well as possible. Without a handler, an
+   * `I18nextConversionError` listing all of them is thrown.
+   */
+  onProblem?: (problem: I18nextProblem) => void
+}
+
+/**
+ * Options for `catalogToI18next`.
+ */
+export interface CatalogToI18nextOptions extends I18nextOptions {
+  /** Include fuzzy translations (default: false) */
+  includeFuzzy?: boolean
+}
+
+/**
+ * Options for `poFileToI18next`.
+ */
+export interface PoFileToI18nextOptions extends Omit<CatalogToI18nextOptions, "locale"> {
+  /** Locale of the translations (default: the Language header) */
+  locale?: string
+
+  /**
+   * Separator of nested keys, or false for flat JSON (default: false, as
+   * msgids are usually source text with dots of its own)
+   */
+  keySeparator?: string | false
+}
+
+/** Options with defaults, and the problems found so far */
+interface ConversionState {
+  locale: string
+  /** Plural category of each msgstr index */
+  categories: readonly string[]
+  keySeparator: string | false
+  contextSeparator: string
+  pluralSeparator: string
+  problems: I18nextProblem[]
+}
+
+/** Matches an interpolation: `{{name}}`, unescaped `{{- name}}`, or `{{name, format}}` */
+const RE_INTERPOLATION = /\{\{-?\s*([^{},]+?)\s*(?:,\s*([^{}]*?)\s*)?\}\}/g
+
+/** ICU formats of i18next formats */
+const ICU_FORMATS: Record<string, string> = { number: "number", datetime: "date" }
+
+/** Creates the conversion state of options */
+function createState(options: I18nextOptions): ConversionState {
+  const { locale, pluralForms } = options
+  return {
+    locale,
+    categories: pluralForms
+      ? getPluralFormsMapping(pluralForms, locale).categories
+      : getPluralFormsCategories(locale),
+    keySeparator: options.keySeparator ?? ".",
+    contextSeparator: options.contextSeparator ?? "_",
+    pluralSeparator: options.pluralSeparator ?? "_",
+    problems: []
+  }
+}
+
+/**
+ * Passes problems to `onProblem`, or throws an `I18nextConversionError` if
+ * there is no handler.
+ */
+function reportProblems(
+  problems: I18nextProblem[],
+  onProblem: ((problem: I18nextProblem) => void) | undefined
+): void {
+  if (onProblem) {
+    problems.forEach(onProblem)
+  } else if (problems.length > 0) {
+    throw new I18nextConversionError(problems)
+  }
+}
+
+/** Renders ICU nodes as i18next text, collecting the nodes i18next cannot represent */
+function renderNodes(nodes: IcuNode[], inPlural: boolean, unsupported: IcuNode[]): string {
+  let text = ""
+  for (const node of nodes) {
+    const rendered = renderNode(node, inPlural)
+    if (rendered === null) {
+      unsupported.push(node)
+    }
+    text += rendered ?? ""
+  }
+  return text
+}
+
+/** Renders an ICU node as i18next text; null if i18next cannot represent it */
+function renderNode(node: IcuNode, inPlural: boolean): string | null {
+  switch (node.type) {
+    case "literal":
+      return node.value
+    case "argument":
+      return `{{${node.value}}}`
+    case "number":
+      return node.style === null ? `{{${node.value}, number}}` : null
+    case "date":
+      return node.style === null ? `{{${node.value}, datetime}}` : null
+    case "pound":
+      return inPlural ? "{{count}}" : null
+    default:
+      return null
+  }
+}
+
+/** Returns the plural of a message that is a single cardinal plural over `count`, as i18next plurals are */
+function getWholePlural(nodes: IcuNode[], locale: string): IcuPluralNode | null {
+  const [node] = nodes
+  if (nodes.length !== 1 || node?.type !== "plural") {
+    return null
+  }
+  const categories = getPluralCategories(locale)
+  const isPlain = node.pluralType === "cardinal" && node.offset === 0 && node.value === "count"
+  const keys = Object.keys(node.options)
+  return isPlain && keys.every((key) => categories.includes(key)) ? node : null
+}
+
+/** Returns the i18next name of an ICU node type */
+function describeNode(node: IcuNode): string {
+  return node.type === "number" || node.type === "date" ? `${node.type} with a style` : node.type
+}
+
+/**
+ * Converts an ICU message to i18next texts by key suffix: "" for the
+ * message itself, or plural suffixes for a whole-message plural. Messages
+ * with unsupported parts are reported and kept unchanged.
+ */
+function convertMessage(
+  key: string,
+  message: string,
+  state: ConversionState,
+  allowPlural: boolean
+): [string, string][] {
+  const result = parseIcu(message, { ignoreTag: true, requiresOtherClause: false })
+  if (!result.success) {
+    state.problems.push({ key, message: "not a valid ICU message; kept unchanged" })
+    return [["", message]]
+  }
+  const plural = allowPlural ? getWholePlural(result.ast, state.locale) : null
+  const unsupported: IcuNode[] = []
+  const texts: [string, string][] = plural
+    ? Object.entries(plural.options).map(([category, option]) => [
+        state.pluralSeparator + category,
+        renderNodes(option.value, true, unsupported)
+      ])
+    : [["", renderNodes(result.ast, false, unsupported)]]
+  const [first] = unsupported
+  if (first) {
+    state.problems.push({
+      key,
+      message: `ICU ${describeNode(first)} has no i18next equivalent; kept unchanged`
+    })
+    return [["", message]]
+  }
+  return texts
+}
+
+/** Returns the i18next texts of a gettext plural by suffix, with "other" always set */
+function convertPlural(
+  key: string,
+  translations: string[],
+  state: ConversionState
+): [string, string][] {
+  const texts = new Map<string, string>()
+  translations.forEach((translation, index) => {
+    const category = state.categories[index]
+    if (category !== undefined && !texts.has(category)) {
+      const [[, text] = ["", translation]] = convertMessage(key, translation, state, false)
+      texts.set(category, text)
+    }
+  })
+  if (!texts.has("other")) {
+    texts.set("other", texts.get(state.categories.at(-1) ?? "") ?? "")
+  }
+  return [...texts].map(([category, text]) => [state.pluralSeparator + category, text])
+}
+
+/** Sets a key of a resource, creating nested objects along its path */
+function setKey(
+  resource: I18nextResource,
+  key: string,
+  text: string,
+  state: ConversionState
+): void {
+  const path = state.keySeparator === false ? [key] : key.split(state.keySeparator)
+  const last = path.pop() ?? ""
+  let node = resource
+  for (const part of path) {
+    const child = (node[part] ??= {})
+    if (typeof child === "string") {
+      state.problems.push({ key, message: `conflicts with the message at ${JSON.stringify(part)}` })
+      return
+    }
+    node = child
+  }
+  if (typeof node[last] === "object") {
+    state.problems.push({ key, message: "conflicts with nested keys at the same path" })
+    return
+  }
+  node[last] = text
+}
+
+/** Whether a catalog entry has a translation to export */
+function isExported(entry: CatalogEntry, includeFuzzy: boolean): boolean {
+  const translations = [entry.translation ?? ""].flat()
+  return (
+    !entry.obsolete &&
+    (includeFuzzy || !entry.flags?.fuzzy) &&
+    translations.some((translation) => translation !== "")
+  )
+}
+
+/**
+ * Converts a catalog to an i18next JSON v4 resource.
+ *
+ * Keys without their context become i18next keys, split into nested
+ * objects at `keySeparator`; contexts are appended with
+ * `contextSeparator`. Plural translations get a key per plural category,
+ * and a message that is a single ICU plural over `count` is split the same
+ * way. Obsolete, untranslated and fuzzy entries are left out.
+ *
+ * Arguments and unstyled numbers and dates become interpolations.
+ * Messages with other ICU syntax (selects, nested plurals, styles, …) are
+ * kept unchanged and reported, as are keys whose paths conflict.
+ *
+ * @throws I18nextConversionError if messages cannot be converted exactly and there is no `onProblem`
+ *
+ * @example
+ * catalogToI18next(
+ *   {
+ *     "cart.items": { translation: ["{count} Artikel", "{count} Artikel"], pluralSource: "{count} items" },
+ *     "greeting": { translation: "Hallo {name}!" }
+ *   },
+ *   { locale: "de" }
+ * )
+ * // → { cart: { items_one: "{{count}} Artikel", items_other: "{{count}} Artikel" }, greeting: "Hallo {{name}}!" }
+ */
+export function catalogToI18next(
+  catalog: Catalog,
+  options: CatalogToI18nextOptions
+): I18nextResource {
+  const state = createState(options)
+  const resource: I18nextResource = {}
+  for (const [catalogKey, entry] of Object.entries(catalog)) {
+    if (!isExported(entry, options.includeFuzzy ?? false)) {
+      continue
+    }
+    const parsed = parseCatalogKey(catalogKey)
+    const context = entry.context ?? parsed.context
+    const key =
+      context === undefined ? parsed.message : parsed.message + state.contextSeparator + context
+    const texts = Array.isArray(entry.translation)
+      ? convertPlural(key, entry.translation, state)
+      : convertMessage(key, entry.translation ?? "", state, true)
+    for (const [suffix, text] of texts) {
+      setKey(resource, key + suffix, text, state)
+    }
+  }
+  reportProblems(state.problems, options.onProblem)
+  return resource
+}
+
+/** Converts an i18next interpolation to an ICU argument */
+function convertInterpolation(
+  key: string,
+  name: string,
+  format: string | undefined,
+  state: ConversionState
+): string {
+  if (format === undefined) {
+    return `{${name}}`
+  }
+  const icuFormat = ICU_FORMATS[format]
+  if (icuFormat === undefined) {
+    state.problems.push({ key, message: `format "${format}" has no ICU equivalent; left out` })
+    return `{${name}}`
+  }
+  return `{${name}, ${icuFormat}}`
+}
+
+/** Converts i18next text to an ICU message */
+function convertText(key: string, text: string, state: ConversionState): string {
+  if (text.includes("$t(")) {
+    state.problems.push({ key, message: "nesting ($t) has no ICU equivalent; kept as text" })
+  }
+  let message = ""
+  let pos = 0
+  for (const match of text.matchAll(RE_INTERPOLATION)) {
+    if (match[0].startsWith("{{-")) {
+      const problem = "unescaped interpolation ({{- }}) has no ICU equivalent; written back escaped"
+      state.problems.push({ key, message: problem })
+    }
+    message += escapeIcu(text.slice(pos, match.index))
+    message += convertInterpolation(key, match[1] ?? "", match[2], state)
+    pos = match.index + match[0].length
+  }
+  return message + escapeIcu(text.slice(pos))
+}
+
+/** Flattens a resource into texts by key */
+function flattenResource(
+  resource: I18nextResource,
+  prefix: string,
+  texts: Map<string, string>,
+  state: ConversionState
+): void {
+  for (const [name, value] of Object.entries(resource)) {
+    const key = prefix + name
+    if (typeof value === "string") {
+      texts.set(key, value)
+    } else if (isResource(value) && state.keySeparator !== false) {
+      flattenResource(value, key + state.keySeparator, texts, state)
+    } else {
+      state.problems.push({ key, message: "only strings and nested objects can be converted" })
+    }
+  }
+}
+
+/** Whether a JSON value is a nested resource */
+function isResource(value: unknown): value is I18nextResource {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** A message of a resource: a text, or texts by plural category */
+interface I18nextMessage {
+  key: string
+  context?: string
+  text: string | Map<string, string>
+}
+
+/** Groups texts with plural suffixes into plural messages; groups need an "other" form */
+function groupPlurals(texts: Map<string, string>, state: ConversionState): I18nextMessage[] {
+  const categories = getPluralCategories(state.locale)
+  const plurals = new Map<string, Map<string, string>>()
+  for (const [key, text] of texts) {
+    const category = categories.find((name) => key.endsWith(state.pluralSeparator + name))
+    if (category !== undefined) {
+      const base = key.slice(0, -(state.pluralSeparator.length + category.length))
+      plurals.set(base, (plurals.get(base) ?? new Map<string, string>()).set(category, text))
+    }
+  }
+  const messages = new Map<string, I18nextMessage>()
+  for (const [key, text] of texts) {
+    const category = categories.find((name) => key.endsWith(state.pluralSeparator + name))
+    const base = category && key.slice(0, -(state.pluralSeparator.length + category.length))
+    const forms = base ? plurals.get(base) : undefined
+    if (base && forms?.has("other")) {
+      messages.set(base, { key: base, text: forms })
+    } else {
+      messages.set(key, { key, text })
+    }
+  }
+  return [...messages.values()]
+}
+
+/** Splits off the context of messages whose key without it is a message too */
+function splitContexts(messages: I18nextMessage[], state: ConversionState): void {
+  const keys = new Set(messages.map((message) => message.key))
+  for (const message of messages) {
+    let index = message.key.lastIndexOf(state.contextSeparator)
+    while (index > 0 && !keys.has(message.key.slice(0, index))) {
+      index = message.key.lastIndexOf(state.contextSeparator, index - 1)
+    }
+    if (index > 0) {
+      message.context = message.key.slice(index + state.contextSeparator.length)
+      message.key = message.key.slice(0, index)
+    }
+  }
+}
+
+/** Creates the catalog entry of a message */
+function createEntry(message: I18nextMessage, state: ConversionState): CatalogEntry {
+  const { key, context, text } = message
+  const entry: CatalogEntry =
+    typeof text === "string"
+      ? { translation: convertText(key, text, state) }
+      : {
+          translation: state.categories.map((category) =>
+            convertText(key, text.get(category) ?? text.get("other") ?? "", state)
+          ),
+          pluralSource: key
+        }
+  if (context !== undefined) {
+    entry.context = context
+  }
+  return entry
+}
+
+/**
+ * Converts an i18next JSON v4 resource to a catalog.
+ *
+ * Nested keys are joined with `keySeparator`. Keys with plural suffixes
+ * of the locale, including `_other`, become one plural entry with a
+ * translation per msgstr index. A suffix is read as a context if the key
+ * without it is a message too, as i18next falls back to it. Interpolations
+ * become ICU arguments, with the `number` and `datetime` formats.
+ *
+ * Catalog keys are created by `createCatalogKey` from the i18next key and
+ * context; plural entries use the key as plural source. Nesting (`$t()`),
+ * other formats and values that are not strings are reported.
+ *
+ * @throws I18nextConversionError if messages cannot be converted exactly and there is no `onProblem`
+ *
+ * @example
+ * i18nextToCatalog({ friend: "Freund", friend_female: "Freundin" }, { locale: "de" })
+ * // → { friend: { translation: "Freund" }, "female\u0004friend": { translation: "Freundin", context: "female" } }
+ */
+export function i18nextToCatalog(resource: I18nextResource, options: I18nextOptions): Catalog {
+  const state = createState(options)
+  const texts = new Map<string, string>()
+  flattenResource(resource, "", texts, state)
+  const messages = groupPlurals(texts, state)
+  splitContexts(messages, state)
+  const catalog: Catalog = {}
+  for (const message of messages) {
+    catalog[createCatalogKey(message.key, message.context)] = createEntry(message, state)
+  }
+  reportProblems(state.problems, options.onProblem)
+  return catalog
+}
+
+/** Returns the Plural-Forms header of a file, if it has a valid one */
+function getPluralFormsOption(po: PoFile): string | undefined {
+  const header = po.headers["Plural-Forms"]
+  return header && parsePluralForms(header).plural ? header : undefined
+}
+
+/**
+ * Converts the translations of a PO file to an i18next JSON v4 resource,
+ * keyed by msgid, like `catalogToI18next`. The plural categories of
+ * msgstr indices come from the Plural-Forms header. Keys are flat unless
+ * a `keySeparator` is given.
+ *
+ * @throws Error if there is no locale
+ * @throws I18nextConversionError if messages cannot be converted exactly and there is no `onProblem`
+ *
+ * @example
+ * const json = poFileToI18next(parsePo(content))
+ */
+export function poFileToI18next(po: PoFile, options: PoFileToI18nextOptions = {}): I18nextResource {
+  const locale = options.locale ?? po.headers.Language
+  if (!locale) {
+    throw new Error(
+      "Cannot convert a PO file without a locale: set the Language header or `locale`"
+    )
+  }
+  const items = po.items.filter((item) => item.msgid !== "" && !item.obsolete)
+  const pluralForms = options.pluralForms ?? getPluralFormsOption(po)
+  const nplurals = Number(parsePluralForms(pluralForms).nplurals) || 2
+  const catalog = itemsToCatalog(items, { contextKeys: true, includeOrigins: false, nplurals })
+  const keySeparator = options.keySeparator ?? false
+  return catalogToI18next(catalog, { ...options, locale, pluralForms, keySeparator })
+}
+
+/**
+ * Converts an i18next JSON v4 resource to a PO file, like
+ * `i18nextToCatalog`. The Language header is the locale and Plural-Forms
+ * the `pluralForms` option or `getPluralFormsHeader(locale)`.
+ *
+ * @throws I18nextConversionError if messages cannot be converted exactly and there is no `onProblem`
+ *
+ * @example
+ * const po = i18nextToPoFile(JSON.parse(fs.readFileSync("locales/de/common.json", "utf8")), { locale: "de" })
+ */
+export function i18nextToPoFile(resource: I18nextResource, options: I18nextOptions): PoFile {
+  const po = createPoFile()
+  const pluralForms = options.pluralForms ?? getPluralFormsHeader(options.locale)
+  po.headers.Language = options.locale
+  po.headers["Plural-Forms"] = pluralForms
+  const catalog = i18nextToCatalog(resource, { ...options, pluralForms })
+  po.items = catalogToItems(catalog, { nplurals: Number(parsePluralForms(pluralForms).nplurals) })
+  return po
+}
@@ -6,6 +6,7 @@ import {
   normalizeToIcu,
   icuToGettextSource
 } from "./conversion"
+import { validateIcu } from "./utils"
 import type { PoItem, PoFile } from "../types"
 import { createItem } from "../Item"
 import { createPoFile } from "../parse"
@@ -94,6 +95,69 @@ describe("gettextToIcu", () => {
 
     expect(result).toBe("{count, plural, one {# Artikel} other {# Artikel}}")
   })
+
+  it("maps forms with the Plural-Forms header when given", () => {
+    // Common Slovenian ordering with "other" first
+    const item = createPluralItem({
+      msgstr: ["datotek", "datoteka", "datoteki", "datoteke"]
+    })
+
+    const result = gettextToIcu(item, {
+      locale: "sl",
+      pluralForms:
+        "nplurals=4; plural=(n%100==1 ? 1 : n%100==2 ? 2 : n%100==3 || n%100==4 ? 3 : 0);"
+    })
+
+    expect(result).toBe(
+      "{count, plural, other {datotek} one {datoteka} two {datoteki} few {datoteke}}"
+    )
+  })
+
+  it("maps 3-form Russian headers to one/few/many and adds other", () => {
+    const item = createPluralItem({
+      msgstr: ["файл", "файла", "файлов"]
+    })
+
+    const result = gettextToIcu(item, {
+      locale: "ru",
+      pluralForms:
+        "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);"
+    })
+
+    expect(result).toBe("{count, plural, one {файл} few {файла} many {файлов} other {файлов}}")
+    expect(validateIcu(result ?? "").valid).toBe(true)
+    expect(gettextToIcu(item, { locale: "ru" })).toBe(result)
+  })
+
+  it("reports entries whose forms map ambiguously to categories", () => {
+    const reported: [string, unknown][] = []
+
+    gettextToIcu(createPluralItem(), {
+      locale: "de",
+      // 0 selects the first form, but is "other" in CLDR
+      pluralForms: "nplurals=2; plural=(n > 1);",
+      onAmbiguousPlural: (msgid, ambiguous) => reported.push([msgid, ambiguous])
+    })
+    gettextToIcu(createPluralItem(), {
+      locale: "de",
+      pluralForms: "nplurals=2; plural=(n != 1);",
+      onAmbiguousPlural: (msgid, ambiguous) => reported.push([msgid, ambiguous])
+    })
+
+    expect(reported).toEqual([
+      ["One item", expect.arrayContaining([{ index: 0, categories: ["other", "one"] }])]
+    ])
+  })
+
+  it("drops forms whose category is already used", () => {
+    const item = createPluralItem({
+      msgstr: ["Ein Artikel", "{count} Artikel", "{count} Artikel (alt)"]
+    })
+
+    expect(gettextToIcu(item, { locale: "de" })).toBe(
+      "{count, plural, one {Ein Artikel} other {{count} Artikel}}"
+    )
+  })
 })
 
 describe("isPluralItem", () => {
@@ -155,6 +219,34 @@ describe("normalizeToIcu", () => {
     expect(singularItem?.msgstr[0]).toBe("Hallo")
   })
 
+  it("maps forms with the file's Plural-Forms header", () => {
+    const po: PoFile = {
+      ...createPoFile(),
+      headers: {
+        "Plural-Forms":
+          "nplurals=4; plural=(n%100==1 ? 1 : n%100==2 ? 2 : n%100==3 || n%100==4 ? 3 : 0);"
+      },
+      items: [createPluralItem({ msgstr: ["datotek", "datoteka", "datoteki", "datoteke"] })]
+    }
+
+    expect(normalizeToIcu(po, { locale: "sl" }).items[0]?.msgstr).toEqual([
+      "{count, plural, other {datotek} one {datoteka} two {datoteki} few {datoteke}}"
+    ])
+  })
+
+  it("reports each entry whose forms map ambiguously to categories", () => {
+    const po: PoFile = {
+      ...createPoFile(),
+      headers: { "Plural-Forms": "nplurals=2; plural=(n > 1);" },
+      items: [createPluralItem(), createPluralItem({ msgid: "One file" })]
+    }
+    const reported: string[] = []
+
+    normalizeToIcu(po, { locale: "de", onAmbiguousPlural: (msgid) => reported.push(msgid) })
+
+    expect(reported).toEqual(["One item", "One file"])
+  })
+
   it("does not modify original when inPlace is false", () => {
     const item = createPluralItem()
     const po: PoFile = {
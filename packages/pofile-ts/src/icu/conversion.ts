@@ -4,8 +4,12 @@
  * Converts between Gettext plural format and ICU MessageFormat.
  */
 
-import type { PoItem, PoFile } from "../types"
-import { getPluralCategories } from "../plurals"
+import type { PoItem, PoFile, PluralFormsMapping } from "../types"
+import {
+  compilePluralFormsExpression,
+  getPluralCategories,
+  getPluralFormsMapping
+} from "../plurals"
 import { DEFAULT_PLURAL_VAR } from "../internal/codegen"
 
 /**
@@ -18,6 +22,21 @@ export interface GettextToIcuOptions {
    */
   locale: string
 
+  /**
+   * Plural-Forms header of the file, e.g. `po.headers["Plural-Forms"]`.
+   * When set, msgstr indices are mapped to categories by evaluating its
+   * expression (see `getPluralFormsMapping`) instead of assuming CLDR order.
+   * `normalizeToIcu` defaults to the file's header.
+   */
+  pluralForms?: string
+
+  /**
+   * Called for each converted entry whose msgstr indices the `pluralForms`
+   * header does not map unambiguously to CLDR categories. Such entries keep
+   * the first form of each category.
+   */
+  onAmbiguousPlural?: (msgid: string, ambiguous: PluralFormsMapping["ambiguous"]) => void
+
   /**
    * Variable name to use in the ICU plural expression.
    * @default "count"
@@ -45,11 +64,14 @@ export interface NormalizeToIcuOptions extends GettextToIcuOptions {
 
 /**
  * Maps msgstr indices to CLDR plural categories for a given locale.
- * Intl.PluralRules.pluralCategories already returns categories in index order.
+ * Without a Plural-Forms header, msgstr[i] is assumed to be the i-th category
+ * in canonical CLDR order.
  */
-function getMsgstrToCategory(locale: string): string[] {
-  // pluralCategories is ordered: index 0 → categories[0], index 1 → categories[1], etc.
-  return [...getPluralCategories(locale)]
+function getMsgstrToCategory(locale: string, pluralForms: string | undefined): PluralFormsMapping {
+  if (pluralForms !== undefined) {
+    return getPluralFormsMapping(pluralForms, locale)
+  }
+  return { categories: [...getPluralCategories(locale)], ambiguous: [] }
 }
 
 /**
@@ -66,38 +88,61 @@ function getMsgstrToCategory(locale: string): string[] {
  * // → "{count, plural, one {Ein Artikel} other {{count} Artikel}}"
  *
  * @example
- * // Polish with 4 plural forms
+ * // Polish with 3 plural forms; ICU requires `other`, which gets the last form
  * const plItem = {
  *   msgid: "One file",
  *   msgid_plural: "{count} files",
- *   msgstr: ["plik", "pliki", "plików", "pliki"]
+ *   msgstr: ["plik", "pliki", "plików"]
  * }
  *
  * gettextToIcu(plItem, { locale: "pl" })
- * // → "{count, plural, one {plik} few {pliki} many {plików} other {pliki}}"
+ * // → "{count, plural, one {plik} few {pliki} many {plików} other {plików}}"
  */
 export function gettextToIcu(item: PoItem, options: GettextToIcuOptions): string | null {
-  const { locale, pluralVariable = DEFAULT_PLURAL_VAR, expandOctothorpe = true } = options
-
   // Not a plural item
   if (!item.msgid_plural || item.msgstr.length <= 1) {
     return null
   }
 
-  // Get the category mapping for this locale
-  const categories = getMsgstrToCategory(locale)
+  return convertPlural(item, getMsgstrToCategory(options.locale, options.pluralForms), options)
+}
+
+/** Converts a Gettext plural item to ICU with the category mapping of its file */
+function convertPlural(
+  item: PoItem,
+  mapping: PluralFormsMapping,
+  options: GettextToIcuOptions
+): string {
+  const { pluralVariable = DEFAULT_PLURAL_VAR, expandOctothorpe = true } = options
+  const { categories, ambiguous } = mapping
+  if (ambiguous.length > 0) {
+    options.onAmbiguousPlural?.(item.msgid, ambiguous)
+  }
 
-  // Build ICU plural clauses
-  const clauses = item.msgstr
-    .map((translation, index) => {
-      const category = categories[index] ?? "other"
-      // Replace # with explicit variable reference for better TMS readability
-      const text = expandOctothorpe ? translation.replace(/#/g, `{${pluralVariable}}`) : translation
-      return `${category} {${text}}`
-    })
-    .join(" ")
+  // Replace # with explicit variable reference for better TMS readability
+  const formatText = (translation: string): string =>
+    expandOctothorpe ? translation.replace(/#/g, `{${pluralVariable}}`) : translation
+
+  // Build ICU plural clauses, keeping the first form of categories that
+  // several indices map to
+  const clauses: string[] = []
+  const seen = new Set<string>()
+  item.msgstr.forEach((translation, index) => {
+    const category = categories[index] ?? "other"
+    if (seen.has(category)) {
+      return
+    }
+    seen.add(category)
+    clauses.push(`${category} {${formatText(translation)}}`)
+  })
+
+  // ICU requires an `other` clause. Headers without a form for it (like the
+  // 3-form Russian one, where it only applies to decimals) use the last form
+  if (!seen.has("other")) {
+    clauses.push(`other {${formatText(item.msgstr.at(-1) ?? "")}}`)
+  }
 
-  return `{${pluralVariable}, plural, ${clauses}}`
+  return `{${pluralVariable}, plural, ${clauses.join(" ")}}`
 }
 
 /**
@@ -125,9 +170,27 @@ export function normalizeItemToIcu(item: PoItem, options: GettextToIcuOptions):
   return false
 }
 
+/** Returns the Plural-Forms header of a file if its expression is valid */
+function getFilePluralForms(po: PoFile): string | undefined {
+  const header = po.headers["Plural-Forms"]
+  if (header === undefined) {
+    return undefined
+  }
+  try {
+    compilePluralFormsExpression(header)
+    return header
+  } catch {
+    return undefined
+  }
+}
+
 /**
  * Normalizes all plural items in a PO file to ICU format.
  *
+ * msgstr indices are mapped to categories with the file's Plural-Forms
+ * header unless `pluralForms` is given; entries whose mapping is ambiguous
+ * are passed to `onAmbiguousPlural`.
+ *
  * @example
  * const po = parsePo(content)
  * const normalized = normalizeToIcu(po, { locale: "de" })
@@ -138,6 +201,8 @@ export function normalizeItemToIcu(item: PoItem, options: GettextToIcuOptions):
  */
 export function normalizeToIcu(po: PoFile, options: NormalizeToIcuOptions): PoFile {
   const { inPlace = false, ...gettextOptions } = options
+  const pluralForms = options.pluralForms ?? getFilePluralForms(po)
+  const mapping = getMsgstrToCategory(options.locale, pluralForms)
 
   const result = inPlace
     ? po
@@ -152,7 +217,10 @@ export function normalizeToIcu(po: PoFile, options: NormalizeToIcuOptions): PoFi
       }
 
   for (const item of result.items) {
-    normalizeItemToIcu(item, gettextOptions)
+    if (isPluralItem(item)) {
+      item.msgstr = [convertPlural(item, mapping, gettextOptions)]
+      item.msgid_plural = ""
+    }
   }
 
   return result
@@ -167,7 +235,10 @@ export interface IcuToGettextOptions {
   expandOctothorpe?: boolean
 }
 
-interface PluralCase {
+/**
+ * A case of an ICU plural, with its text as written.
+ */
+export interface PluralCase {
   category: string
   text: string
 }
@@ -191,6 +262,28 @@ function extractPluralCases(casesStr: string): PluralCase[] {
   return cases
 }
 
+/**
+ * Splits a message that is a single ICU plural into its variable and cases,
+ * keeping the text of each case as written.
+ *
+ * @example
+ * splitIcuPlural("{n, plural, one {# item} other {# items}}")
+ * // → { pluralVariable: "n", cases: [{ category: "one", text: "# item" }, { category: "other", text: "# items" }] }
+ */
+export function splitIcuPlural(
+  icu: string
+): { pluralVariable: string; cases: PluralCase[] } | null {
+  // Simple regex-based extraction (no full ICU parser needed)
+  const icuPluralRegex = /^\{(\w+),\s*plural,\s*(.+)\}$/s
+  const match = icuPluralRegex.exec(icu)
+
+  if (!match?.[1] || !match[2]) {
+    return null
+  }
+
+  return { pluralVariable: match[1], cases: extractPluralCases(match[2]) }
+}
+
 /**
  * Converts ICU plural back to source msgid/msgid_plural.
  * Extracts the first and last plural cases.
@@ -213,20 +306,12 @@ export function icuToGettextSource(
 } | null {
   const { expandOctothorpe = true } = options
 
-  // Simple regex-based extraction (no full ICU parser needed)
-  const icuPluralRegex = /^\{(\w+),\s*plural,\s*(.+)\}$/s
-  const match = icuPluralRegex.exec(icu)
-
-  if (!match?.[1] || !match[2]) {
+  const plural = splitIcuPlural(icu)
+  if (!plural || plural.cases.length < 2) {
     return null
   }
 
-  const pluralVariable = match[1]
-  const cases = extractPluralCases(match[2])
-
-  if (cases.length < 2) {
-    return null
-  }
+  const { pluralVariable, cases } = plural
 
   const first = cases[0]
   const last = cases[cases.length - 1]
@@ -1,10 +1,29 @@
 // Core API
-export { parsePo, createPoFile } from "./parse"
-export { stringifyPo } from "./stringify"
+export { parsePo, parsePoBytes, createPoFile, PoParseError } from "./parse"
+export { parsePoStream } from "./stream"
+export { getPoPosition, mapIcuLocation } from "./location"
+export { stringifyPo, stringifyPoBytes } from "./stringify"
+export { parseMo, stringifyMo } from "./mo"
+export { poToTmx, tmxToPo } from "./tmx"
+export { poToXliff, xliffToPo } from "./xliff"
+export {
+  catalogToI18next,
+  i18nextToCatalog,
+  poFileToI18next,
+  i18nextToPoFile,
+  I18nextConversionError
+} from "./i18next"
+export { arbToPoFile, poFileToArb } from "./arb"
+export { xcstringsToPoFile, poFileToXcstrings } from "./xcstrings"
 export { createItem, stringifyItem } from "./Item"
 
 // Header utilities
-export { createDefaultHeaders, formatPoDate, getPluralFormsHeader } from "./headers"
+export {
+  createDefaultHeaders,
+  formatPoDate,
+  getPluralFormsHeader,
+  getPluralFormsCategories
+} from "./headers"
 
 // Reference utilities
 export {
@@ -17,7 +36,23 @@ export {
 } from "./references"
 
 // Catalog utilities
-export { catalogToItems, itemsToCatalog, mergeCatalogs } from "./catalog"
+export {
+  catalogToItems,
+  itemsToCatalog,
+  mergeCatalogs,
+  poFileToCatalog,
+  catalogToPoFile,
+  createCatalogKey,
+  parseCatalogKey,
+  CatalogKeyError
+} from "./catalog"
+export { updatePoFile } from "./update"
+export { mergePoThreeWay } from "./merge"
+export { diffPoFiles, diffCatalogs, formatCatalogDiff } from "./diff"
+export { getStatistics } from "./statistics"
+export { pseudoLocalize, pseudoLocalizeMessage } from "./pseudo"
+export { lintPoFile } from "./lint"
+export { createTranslationMemory } from "./memory"
 
 // Compilation
 export { compileCatalog, generateCompiledCode } from "./compile"
@@ -25,8 +60,24 @@ export { compileCatalog, generateCompiledCode } from "./compile"
 // Message ID generation
 export { generateMessageId, generateMessageIdSync, generateMessageIds } from "./messageId"
 
+// Flag utilities
+export {
+  getFormatFlags,
+  getMessageFormat,
+  setFormatFlag,
+  parseRangeFlag,
+  formatRangeFlag
+} from "./flags"
+
 // Plural utilities
-export { parsePluralForms, getPluralCategories, getPluralCount, getPluralFunction } from "./plurals"
+export {
+  parsePluralForms,
+  getPluralCategories,
+  getPluralCount,
+  getPluralFunction,
+  compilePluralFormsExpression,
+  getPluralFormsMapping
+} from "./plurals"
 
 // Comment utilities
 export { splitMultilineComments } from "./comments"
@@ -72,6 +123,7 @@ export {
   escapeComment,
   getNumberOptionsForStyle,
   generatePluralFunctionCode,
+  generatePluralFormsFunctionCode,
   generateFormatterDeclarations,
   createCodeGenContext,
   generateNodesCode,
@@ -82,10 +134,22 @@ export {
 export type {
   Headers,
   ParsedPluralForms,
+  PluralFormsMapping,
   PoFile,
   PoItem,
   CreateItemOptions,
   SerializeOptions,
+  StringifyBytesOptions,
+  ParseOptions,
+  PoDiagnostic,
+  PoDiagnosticCode,
+  PoPosition,
+  PoLocation,
+  PoStringSegment,
+  PoStringLocation,
+  PoItemLocation,
+  PoRawText,
+  PoRange,
   ParserState
 } from "./types"
 
@@ -93,8 +157,76 @@ export type {
 export type { CodeGenContext, MessageCodeResult } from "./internal/codegen"
 
 export type { CreateHeadersOptions } from "./headers"
+export type {
+  PoStreamEntry,
+  PoStreamHeader,
+  PoStreamSource,
+  PoReadableStream,
+  PoStreamReader
+} from "./stream"
+export type { StringifyMoOptions } from "./mo"
+export type { PoToTmxOptions, TmxToPoOptions } from "./tmx"
+export type { PoToXliffOptions, XliffToPoOptions, XliffVersion } from "./xliff"
+export type {
+  I18nextResource,
+  I18nextProblem,
+  I18nextOptions,
+  CatalogToI18nextOptions,
+  PoFileToI18nextOptions
+} from "./i18next"
+export type {
+  ArbFile,
+  ArbMessageMetadata,
+  ArbPlaceholder,
+  ArbToPoFileOptions,
+  PoFileToArbOptions
+} from "./arb"
+export type {
+  XcstringsFile,
+  XcstringsEntry,
+  XcstringsLocalization,
+  XcstringsVariation,
+  XcstringsStringUnit,
+  XcstringsToPoFileOptions,
+  PoFileToXcstringsOptions
+} from "./xcstrings"
+export type { PoFormatFlag } from "./flags"
 export type { SourceReference, FormatReferenceOptions } from "./references"
-export type { Catalog, CatalogEntry, CatalogToItemsOptions, ItemsToCatalogOptions } from "./catalog"
+export type {
+  Catalog,
+  CatalogEntry,
+  CatalogFile,
+  CatalogDuplicate,
+  CatalogToItemsOptions,
+  ItemsToCatalogOptions
+} from "./catalog"
+export type { UpdatePoFileOptions } from "./update"
+export type { MergePoThreeWayOptions, PoMergeConflict, PoMergeResult } from "./merge"
+export type {
+  CatalogDiff,
+  CatalogDiffEntry,
+  CatalogDiffChange,
+  FormatCatalogDiffOptions
+} from "./diff"
+export type { PoStatistics, PoStatisticsCounts, GetStatisticsOptions } from "./statistics"
+export type { PseudoLocalizeOptions } from "./pseudo"
+export type {
+  LintContext,
+  LintFinding,
+  LintPoFileOptions,
+  LintProblem,
+  LintRule,
+  LintRuleSetting,
+  LintSeverity
+} from "./lint"
+export type {
+  TranslationMatch,
+  TranslationMemory,
+  TranslationMemoryAddOptions,
+  TranslationMemoryLookupOptions,
+  TranslationMemoryOptions,
+  TranslationMemoryPrefillOptions
+} from "./memory"
 export type { CompileCatalogOptions, CompiledCatalog, GenerateCodeOptions } from "./compile"
 export type { GenerateIdsOptions } from "./messageId"
 
@@ -0,0 +1,231 @@
+/**
+ * Charset detection, decoding and encoding for PO and MO files.
+ *
+ * Decoding relies on `TextDecoder`, so every WHATWG encoding is supported.
+ * Encoding supports UTF-8, UTF-16 and all single-byte charsets
+ * (ISO-8859-x, windows-125x, KOI8, ...).
+ */
+
+/** Matches the charset parameter of a Content-Type value */
+const RE_CHARSET = /charset=([^\s;"\\]+)/i
+
+/** Multi-byte encodings (WHATWG names) that cannot be encoded byte by byte */
+const MULTI_BYTE_ENCODINGS = new Set([
+  "big5",
+  "euc-jp",
+  "euc-kr",
+  "gb18030",
+  "gbk",
+  "iso-2022-jp",
+  "shift_jis"
+])
+
+/**
+ * windows-1252 characters for bytes 0x80-0x9F. Some runtimes (e.g. Node.js
+ * before v23) decode these as C1 controls like ISO-8859-1, so they are mapped
+ * here. Undefined bytes keep their C1 control, as in the WHATWG spec.
+ */
+const WINDOWS_1252_C1 =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178"
+
+/** Matches C1 control characters */
+const RE_C1_CONTROL = /[\u0080-\u009f]/g
+
+/** Cached char code → byte tables for single-byte charsets */
+const encodeTables = new Map<string, Map<number, number>>()
+
+/**
+ * Extracts the charset from a Content-Type value or header text.
+ */
+export function findCharset(text: string): string | undefined {
+  return RE_CHARSET.exec(text)?.[1]
+}
+
+/**
+ * Replaces (or adds) the charset parameter of a Content-Type value.
+ */
+export function setCharset(contentType: string | undefined, charset: string): string {
+  if (!contentType) {
+    return `text/plain; charset=${charset}`
+  }
+  if (findCharset(contentType) === undefined) {
+    return `${contentType}; charset=${charset}`
+  }
+  return contentType.replace(/charset=[^\s;]+/i, `charset=${charset}`)
+}
+
+/** Detects a Unicode encoding from a byte order mark */
+function detectByteOrderMark(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8"
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le"
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return "utf-16be"
+  }
+  return undefined
+}
+
+/** Detects UTF-16 without a byte order mark from the NUL byte of the first (ASCII) character */
+function detectUtf16(bytes: Uint8Array): string | undefined {
+  if (bytes.length < 2 || (bytes[0] === 0) === (bytes[1] === 0)) {
+    return undefined
+  }
+  return bytes[0] === 0 ? "utf-16be" : "utf-16le"
+}
+
+/**
+ * Detects the charset of raw PO data from its byte order mark, the NUL
+ * bytes of UTF-16 or, otherwise, from the Content-Type header.
+ */
+export function detectPoCharset(bytes: Uint8Array): string | undefined {
+  const unicode = detectByteOrderMark(bytes) ?? detectUtf16(bytes)
+  if (unicode) {
+    return unicode
+  }
+
+  // The header is ASCII, so latin1 is safe for finding the charset
+  const text = new TextDecoder("latin1").decode(bytes)
+  const headerStart = text.indexOf('msgid ""')
+  if (headerStart === -1) {
+    return undefined
+  }
+  const headerEnd = text.indexOf("\n\n", headerStart)
+  return findCharset(text.substring(headerStart, headerEnd === -1 ? undefined : headerEnd))
+}
+
+/**
+ * Creates a decode function for a charset, falling back to UTF-8 if the
+ * charset is missing or unsupported (e.g. the `CHARSET` placeholder in POT
+ * files). A byte order mark is stripped.
+ */
+export function createDecoder(charset: string | undefined): (bytes: Uint8Array) => string {
+  const decoder = createTextDecoder(charset)
+  if (decoder.encoding !== "windows-1252") {
+    return (bytes) => decoder.decode(bytes)
+  }
+  return (bytes) => fixWindows1252(decoder.decode(bytes))
+}
+
+/** Creates a TextDecoder, falling back to UTF-8 */
+function createTextDecoder(charset: string | undefined): TextDecoder {
+  if (charset) {
+    try {
+      return new TextDecoder(charset)
+    } catch {
+      // Unsupported charset, fall back to UTF-8
+    }
+  }
+  return new TextDecoder("utf-8")
+}
+
+/** Maps C1 controls left by a latin1-style decoder to windows-1252 characters */
+function fixWindows1252(text: string): string {
+  return text.replace(RE_C1_CONTROL, (char) => WINDOWS_1252_C1.charAt(char.charCodeAt(0) - 0x80))
+}
+
+/**
+ * Encodes a string to a charset.
+ *
+ * @throws Error if the charset is unsupported or a character cannot be encoded
+ */
+export function encodeString(text: string, charset: string): Uint8Array {
+  const encoding = getEncodingName(charset)
+  if (encoding === "utf-8") {
+    return new TextEncoder().encode(text)
+  }
+  if (encoding === "utf-16le" || encoding === "utf-16be") {
+    return encodeUtf16(text, encoding === "utf-16le")
+  }
+  if (MULTI_BYTE_ENCODINGS.has(encoding)) {
+    throw new Error(`Encoding to ${charset} is not supported`)
+  }
+
+  const table = getEncodeTable(encoding)
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    const byte = code < 0x80 ? code : table.get(code)
+    if (byte === undefined) {
+      throw new Error(`Character "${text.charAt(i)}" cannot be encoded in ${charset}`)
+    }
+    bytes[i] = byte
+  }
+  return bytes
+}
+
+/**
+ * Encodes a whole file to a charset. UTF-16 gets a byte order mark, as its
+ * Content-Type header cannot be found in the bytes without one.
+ *
+ * @throws Error if the charset is unsupported or a character cannot be encoded
+ */
+export function encodeFile(text: string, charset: string): Uint8Array {
+  const bom = getEncodingName(charset).startsWith("utf-16") ? "\ufeff" : ""
+  return encodeString(bom + text, charset)
+}
+
+/**
+ * Returns the canonical name of a charset that `encodeString` supports and
+ * that keeps ASCII bytes unchanged, as MO files require; undefined for
+ * other or unknown charsets.
+ */
+export function getAsciiCompatibleEncoding(charset: string): string | undefined {
+  let encoding: string
+  try {
+    encoding = getEncodingName(charset)
+  } catch {
+    return undefined
+  }
+  const unsupported = encoding.startsWith("utf-16") || MULTI_BYTE_ENCODINGS.has(encoding)
+  return unsupported ? undefined : encoding
+}
+
+/** Whether a charset label names an encoding, unlike the `CHARSET` placeholder */
+export function isKnownCharset(charset: string): boolean {
+  try {
+    getEncodingName(charset)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Resolves a charset label to its canonical WHATWG encoding name */
+function getEncodingName(charset: string): string {
+  try {
+    return new TextDecoder(charset).encoding
+  } catch {
+    throw new Error(`Unknown charset: ${charset}`)
+  }
+}
+
+/** Encodes a string as UTF-16 code units */
+function encodeUtf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2)
+  const view = new DataView(bytes.buffer)
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(i * 2, text.charCodeAt(i), littleEndian)
+  }
+  return bytes
+}
+
+/** Builds the reverse table of a single-byte charset by decoding every byte */
+function getEncodeTable(encoding: string): Map<number, number> {
+  let table = encodeTables.get(encoding)
+  if (!table) {
+    table = new Map()
+    const decode = createDecoder(encoding)
+    for (let byte = 0x80; byte <= 0xff; byte++) {
+      const char = decode(Uint8Array.of(byte))
+      if (char.length === 1 && char !== "\ufffd") {
+        table.set(char.charCodeAt(0), byte)
+      }
+    }
+    encodeTables.set(encoding, table)
+  }
+  return table
+}
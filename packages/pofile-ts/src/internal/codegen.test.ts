@@ -7,11 +7,13 @@ import {
   escapeComment,
   getNumberOptionsForStyle,
   generatePluralFunctionCode,
+  generatePluralFormsFunctionCode,
   generateFormatterDeclarations,
   createCodeGenContext,
   generateNodesCode,
   generateNodeCode
 } from "./codegen"
+import { compilePluralFormsExpression } from "../plurals"
 import type { IcuNode, IcuLiteralNode, IcuArgumentNode } from "../icu/types"
 
 describe("codegen", () => {
@@ -151,6 +153,32 @@ describe("codegen", () => {
     })
   })
 
+  describe("generatePluralFormsFunctionCode", () => {
+    const header =
+      "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);"
+
+    it("generates code that matches compilePluralFormsExpression", () => {
+      const code = generatePluralFormsFunctionCode(header)
+      // eslint-disable-next-line @typescript-eslint/no-implied-eval -- executes generated code
+      const factory = new Function(`${code}; return _gf`) as () => (n: number) => number
+      const fn = factory()
+      const expected = compilePluralFormsExpression(header)
+
+      for (let n = 0; n <= 200; n++) {
+        expect(fn(n)).toBe(expected(n))
+      }
+    })
+
+    it("uses a custom function name", () => {
+      expect(generatePluralFormsFunctionCode("n != 1", "_plural")).toMatch(/^const _plural = /)
+    })
+
+    it("bounds the index by nplurals", () => {
+      const code = generatePluralFormsFunctionCode("nplurals=2; plural=n;")
+      expect(code).toContain("i < 2")
+    })
+  })
+
   describe("generateFormatterDeclarations", () => {
     const emptyFormatters = {
       number: new Set<string>(),
@@ -6,6 +6,7 @@
 
 import type { IcuNode, IcuPluralNode, IcuSelectNode, IcuTagNode } from "../icu/types"
 import type { FormatterUsage } from "../types"
+import { parsePluralFormsHeader, pluralExpressionToCode } from "./pluralExpression"
 
 /** Default variable name for Gettext plurals when none can be extracted */
 export const DEFAULT_PLURAL_VAR = "count"
@@ -553,6 +554,19 @@ const _pc = _pr.resolvedOptions().pluralCategories
 const _pf = (n) => { const i = _pc.indexOf(_pr.select(n)); return i >= 0 ? i : _pc.length - 1 }`
 }
 
+/**
+ * Generates a plural function that evaluates a Plural-Forms expression.
+ * Used for Gettext plural forms when compiling with the catalog's own header.
+ *
+ * @throws Error if the header has no valid plural expression
+ */
+export function generatePluralFormsFunctionCode(header: string, name = "_gf"): string {
+  const { expression, nplurals } = parsePluralFormsHeader(header)
+  const body = pluralExpressionToCode(expression)
+  const bound = nplurals === Infinity ? "i >= 0" : `i >= 0 && i < ${nplurals}`
+  return `const ${name} = (v) => { const n = Math.floor(Math.abs(v)); const i = ${body}; return ${bound} ? i : 0 }`
+}
+
 /**
  * Gets Intl.ListFormat type from style.
  */
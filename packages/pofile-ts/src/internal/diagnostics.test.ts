@@ -0,0 +1,290 @@
+import { describe, it, expect } from "vitest"
+import { parsePo } from "../parse"
+import type { PoDiagnostic } from "../types"
+
+function diagnose(input: string): PoDiagnostic[] {
+  return parsePo(input, { diagnostics: true }).diagnostics ?? []
+}
+
+function codes(input: string): string[] {
+  return diagnose(input).map((d) => d.code)
+}
+
+describe("diagnostics", () => {
+  it("is not populated by default", () => {
+    const po = parsePo('msgid "a"\nfoo "b"')
+
+    expect(po.diagnostics).toBeUndefined()
+    expect(po.items).toHaveLength(1)
+  })
+
+  it("reports nothing for a valid file", () => {
+    const input = `msgid ""
+msgstr ""
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+#. Extracted
+#: src/app.ts:1
+#, fuzzy
+#| msgid "Opn"
+msgctxt "menu"
+msgid "Open"
+msgstr "Öffnen"
+
+msgid "file"
+msgid_plural "files"
+msgstr[0] "Datei"
+msgstr[1] "Dateien"
+
+#~| msgid "Older"
+#~ msgid "Old"
+#~ msgstr "Alt"`
+
+    expect(diagnose(input)).toEqual([])
+  })
+
+  it("does not change the parsed items", () => {
+    const input = 'msgid "a"\nmsgstr "b"\nbogus line\n\nmsgid "c"\nmsgstr[1] "d"'
+
+    expect(parsePo(input, { diagnostics: true }).items).toEqual(parsePo(input).items)
+  })
+
+  describe("positions", () => {
+    it("reports 1-based line numbers relative to the original file", () => {
+      const input = `# Header comment
+msgid ""
+msgstr ""
+"Language: de\\n"
+
+msgid "a"
+msgstr "b"
+
+unknown "x"`
+
+      expect(diagnose(input)).toEqual([
+        {
+          code: "UNKNOWN_KEYWORD",
+          severity: "error",
+          message: 'Unknown keyword "unknown"',
+          line: 9,
+          column: 1
+        }
+      ])
+    })
+
+    it("accounts for multiple blank lines between entries", () => {
+      const input = 'msgid "a"\nmsgstr "b"\n\n\n\nmsgid "c"\nbad'
+
+      expect(diagnose(input)).toContainEqual(
+        expect.objectContaining({ code: "UNKNOWN_KEYWORD", line: 7, column: 1 })
+      )
+    })
+
+    it("reports columns after leading whitespace and obsolete markers", () => {
+      const [diagnostic] = diagnose('msgid "a"\nmsgstr "b"\n\n#~   msgid "c\n#~ msgstr "d"')
+
+      expect(diagnostic).toMatchObject({ code: "UNTERMINATED_STRING", line: 4, column: 12 })
+    })
+
+    it("reports positions of CRLF files", () => {
+      const [diagnostic] = diagnose('msgid "a"\r\nmsgstr "b"\r\n\r\n  oops')
+
+      expect(diagnostic).toMatchObject({ line: 4, column: 3 })
+    })
+  })
+
+  describe("line checks", () => {
+    it("reports unknown keywords", () => {
+      expect(codes('msgid "a"\nmsgstrr "b"')).toEqual(["MISSING_MSGSTR", "UNKNOWN_KEYWORD"])
+      expect(codes('msgid "a"\nmsgstr "b"\nmsgfoo "c"')).toEqual(["UNKNOWN_KEYWORD"])
+    })
+
+    it("reports unknown comment types as warnings", () => {
+      const [diagnostic] = diagnose('#x whatever\nmsgid "a"\nmsgstr "b"')
+
+      expect(diagnostic).toMatchObject({
+        code: "UNKNOWN_COMMENT",
+        severity: "warning",
+        message: 'Unknown comment type "#x"',
+        line: 1
+      })
+    })
+
+    it("reports unterminated strings", () => {
+      expect(codes('msgid "a\nmsgstr "b"')).toEqual(["UNTERMINATED_STRING"])
+      expect(codes('msgid "a"\nmsgstr "b\\"')).toEqual(["UNTERMINATED_STRING"])
+    })
+
+    it("reports missing strings", () => {
+      expect(codes('msgid "x"\nmsgstr "y"\n\nmsgid a\nmsgstr "b"')).toEqual(["EXPECTED_STRING"])
+    })
+
+    it("reports trailing characters after the closing quote", () => {
+      expect(codes('msgid "a"\nmsgstr "b" "c"')).toEqual(["TRAILING_CHARACTERS"])
+    })
+
+    it("checks continuation lines", () => {
+      expect(codes('msgid "a"\nmsgstr ""\n"b')).toEqual(["UNTERMINATED_STRING"])
+    })
+
+    it("reports continuation lines without a keyword", () => {
+      expect(codes('# comment\n"orphan"\nmsgid "a"\nmsgstr "b"')).toEqual([
+        "UNEXPECTED_CONTINUATION"
+      ])
+    })
+
+    it("reports invalid plural indices", () => {
+      expect(codes('msgid "a"\nmsgid_plural "as"\nmsgstr[x] "b"')).toContain("INVALID_PLURAL_INDEX")
+    })
+  })
+
+  describe("item checks", () => {
+    it("reports entries without msgstr", () => {
+      expect(diagnose('msgid "a"\n\nmsgid "b"\nmsgstr "c"')).toEqual([
+        expect.objectContaining({ code: "MISSING_MSGSTR", line: 1 })
+      ])
+    })
+
+    it("reports msgid_plural without msgstr[N]", () => {
+      expect(codes('msgid "a"\nmsgid_plural "as"\nmsgstr "b"')).toEqual(["MISSING_PLURAL_MSGSTR"])
+      expect(codes('msgid "a"\nmsgid_plural "as"')).toEqual(["MISSING_PLURAL_MSGSTR"])
+    })
+
+    it("reports msgstr[N] without msgid_plural", () => {
+      expect(codes('msgid "a"\nmsgstr[0] "b"')).toEqual(["UNEXPECTED_PLURAL_INDEX"])
+    })
+
+    it("reports gaps in plural indices", () => {
+      const [diagnostic] = diagnose('msgid "a"\nmsgid_plural "as"\nmsgstr[0] "b"\nmsgstr[2] "c"')
+
+      expect(diagnostic).toMatchObject({
+        code: "PLURAL_INDEX_GAP",
+        severity: "error",
+        message: "Missing msgstr[1]",
+        line: 2
+      })
+    })
+
+    it("warns about out-of-order plural indices", () => {
+      const [diagnostic] = diagnose('msgid "a"\nmsgid_plural "as"\nmsgstr[1] "c"\nmsgstr[0] "b"')
+
+      expect(diagnostic).toMatchObject({ code: "PLURAL_INDEX_ORDER", severity: "warning", line: 4 })
+    })
+
+    it("reports duplicate plural indices", () => {
+      expect(codes('msgid "a"\nmsgid_plural "as"\nmsgstr[0] "b"\nmsgstr[0] "c"')).toEqual([
+        "DUPLICATE_PLURAL_INDEX"
+      ])
+    })
+
+    it("warns when the plural count disagrees with the header", () => {
+      const input = `msgid ""
+msgstr ""
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 ? 1 : 2);\\n"
+
+msgid "a"
+msgid_plural "as"
+msgstr[0] "b"
+msgstr[1] "c"`
+
+      expect(diagnose(input)).toEqual([
+        expect.objectContaining({
+          code: "PLURAL_COUNT_MISMATCH",
+          severity: "warning",
+          message: "Expected 3 plural forms, found 2",
+          line: 6
+        })
+      ])
+    })
+
+    it("reports plural indices beyond nplurals", () => {
+      const input = `msgid ""
+msgstr ""
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "a"
+msgid_plural "as"
+msgstr[0] "b"
+msgstr[2] "c"`
+
+      expect(diagnose(input)).toEqual([
+        expect.objectContaining({ code: "PLURAL_INDEX_GAP", line: 6 }),
+        expect.objectContaining({
+          code: "PLURAL_INDEX_OUT_OF_RANGE",
+          severity: "error",
+          message: "msgstr[2] exceeds nplurals=2",
+          line: 8,
+          column: 1
+        })
+      ])
+    })
+
+    it("sorts diagnostics by position", () => {
+      const input = 'msgid "a"\nmsgid_plural "as"\nmsgstr[0] "b"\nmsgstr[2] "c\nbogus'
+
+      expect(diagnose(input).map((d) => [d.line, d.code])).toEqual([
+        [2, "PLURAL_INDEX_GAP"],
+        [4, "UNTERMINATED_STRING"],
+        [5, "UNKNOWN_KEYWORD"]
+      ])
+    })
+
+    it("reports duplicate msgctxt + msgid", () => {
+      const input = 'msgid "a"\nmsgstr "1"\n\nmsgid "a"\nmsgstr "2"'
+
+      expect(diagnose(input)).toEqual([
+        expect.objectContaining({ code: "DUPLICATE_ENTRY", severity: "error", line: 4 })
+      ])
+    })
+
+    it("treats different contexts as distinct entries", () => {
+      const input = 'msgctxt "x"\nmsgid "a"\nmsgstr "1"\n\nmsgctxt "y"\nmsgid "a"\nmsgstr "2"'
+
+      expect(diagnose(input)).toEqual([])
+    })
+
+    it("reports broken lines in the header entry", () => {
+      const input = `# Header comment
+msgid ""
+msgstr ""
+"Language: de\\n"
+"Broken: value
+garbage
+
+msgid "a"
+msgstr "b"`
+
+      expect(diagnose(input)).toEqual([
+        expect.objectContaining({ code: "UNTERMINATED_STRING", line: 5, column: 1 }),
+        expect.objectContaining({ code: "UNKNOWN_KEYWORD", line: 6, column: 1 })
+      ])
+      expect(() => parsePo(input, { strict: true })).toThrow("line 5, column 1")
+    })
+
+    it("reports a second header entry", () => {
+      const input = `msgid ""
+msgstr ""
+"Language: de\\n"
+
+msgid "a"
+msgstr "b"
+
+msgid ""
+msgstr ""
+"Language: fr\\n"
+
+#~ msgid ""
+#~ msgstr ""`
+
+      expect(diagnose(input)).toEqual([
+        expect.objectContaining({ code: "DUPLICATE_HEADER", severity: "error", line: 8 })
+      ])
+    })
+
+    it("ignores obsolete duplicates", () => {
+      const input = '#~ msgid "a"\n#~ msgstr "2"\n\nmsgid "a"\nmsgstr "1"'
+
+      expect(diagnose(input)).toEqual([])
+    })
+  })
+})
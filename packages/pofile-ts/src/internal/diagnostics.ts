@@ -0,0 +1,359 @@
+/**
+ * Parser diagnostics.
+ *
+ * Internal module that inspects lines and finished items while the parser
+ * runs. Only active when diagnostics are requested, so the default parse
+ * path stays free of any extra work.
+ */
+
+import type { ParserState, PoDiagnostic, PoDiagnosticCode, PoItem, PoPosition } from "../types"
+
+/** Position of a msgstr line, with its plural index (null for plain msgstr) */
+interface MsgstrPosition extends PoPosition {
+  index: number | null
+}
+
+/**
+ * Keyword positions of the item currently being parsed.
+ */
+interface ItemTrace {
+  msgid: PoPosition | null
+  msgidPlural: PoPosition | null
+  msgstr: MsgstrPosition[]
+  /** Whether the msgid line is `msgid ""` outside an obsolete entry, like a header entry */
+  emptyMsgid: boolean
+}
+
+/** Creates the trace of an item starting at a msgid line, or of no item */
+function createTrace(msgid: PoPosition | null, emptyMsgid = false): ItemTrace {
+  return { msgid, msgidPlural: null, msgstr: [], emptyMsgid }
+}
+
+/** Whether a msgid line starts a header entry */
+function isHeaderMsgid(line: string, obsolete: boolean): boolean {
+  return !obsolete && /^msgid\s*""$/.test(line)
+}
+
+/**
+ * Collects diagnostics during a single parse run.
+ */
+export interface DiagnosticsCollector {
+  diagnostics: PoDiagnostic[]
+  /** Start of the trimmed line being parsed, updated by the parser */
+  position: PoPosition
+  /** nplurals from the Plural-Forms header, if any */
+  nplurals: number | null
+  trace: ItemTrace
+  /** Keys (msgctxt + msgid) of finished, non-obsolete items */
+  seenKeys: Set<string>
+}
+
+/**
+ * Creates a collector for a parse run.
+ */
+export function createDiagnosticsCollector(
+  nplurals: string | undefined,
+  position: PoPosition
+): DiagnosticsCollector {
+  const count = Number(nplurals)
+  return {
+    diagnostics: [],
+    position,
+    nplurals: nplurals === undefined || isNaN(count) ? null : count,
+    trace: createTrace(null),
+    seenKeys: new Set()
+  }
+}
+
+/** Adds a diagnostic at a position in the current line */
+function report(
+  collector: DiagnosticsCollector,
+  code: PoDiagnosticCode,
+  severity: PoDiagnostic["severity"],
+  message: string,
+  position: PoPosition = { ...collector.position }
+): void {
+  collector.diagnostics.push({
+    code,
+    severity,
+    message,
+    line: position.line,
+    column: position.column
+  })
+}
+
+/** Returns the position of an offset within the current (trimmed) line */
+function at(collector: DiagnosticsCollector, offset: number): PoPosition {
+  return { line: collector.position.line, column: collector.position.column + offset }
+}
+
+/**
+ * Checks that a quoted C string starts at or after `from` and is properly closed.
+ */
+function inspectString(collector: DiagnosticsCollector, line: string, from: number): void {
+  let start = from
+  while (line[start] === " " || line[start] === "\t") {
+    start++
+  }
+
+  if (line[start] !== '"') {
+    report(collector, "EXPECTED_STRING", "error", "Expected a quoted string", at(collector, start))
+    return
+  }
+
+  let end = start + 1
+  while (end < line.length && line[end] !== '"') {
+    end += line[end] === "\\" ? 2 : 1
+  }
+
+  if (end >= line.length) {
+    report(collector, "UNTERMINATED_STRING", "error", "Unterminated string", at(collector, start))
+  } else if (line.slice(end + 1).trim()) {
+    report(
+      collector,
+      "TRAILING_CHARACTERS",
+      "warning",
+      "Unexpected characters after closing quote",
+      at(collector, end + 1)
+    )
+  }
+}
+
+/** Parses the plural index of a `msgstr[N]` line, returning the offset after "]" */
+function inspectMsgstrIndex(
+  collector: DiagnosticsCollector,
+  line: string
+): { index: number | null; end: number } {
+  if (line[6] !== "[") {
+    return { index: null, end: 6 }
+  }
+
+  const closeBracket = line.indexOf("]", 7)
+  const raw = closeBracket === -1 ? "" : line.substring(7, closeBracket)
+  if (!/^\d+$/.test(raw)) {
+    report(collector, "INVALID_PLURAL_INDEX", "error", "Invalid plural index", at(collector, 6))
+    return { index: null, end: closeBracket === -1 ? line.length : closeBracket + 1 }
+  }
+
+  return { index: parseInt(raw, 10), end: closeBracket + 1 }
+}
+
+/** Matches the keyword at the start of a line and returns its length */
+function matchKeyword(line: string): "msgid_plural" | "msgid" | "msgstr" | "msgctxt" | null {
+  for (const keyword of ["msgid_plural", "msgid", "msgstr", "msgctxt"] as const) {
+    const next = line[keyword.length]
+    if (
+      line.startsWith(keyword) &&
+      (next === undefined || next === " " || next === "\t" || next === '"' || next === "[")
+    ) {
+      return keyword
+    }
+  }
+  return null
+}
+
+/**
+ * Inspects a keyword line after the parser has processed it.
+ */
+export function inspectKeywordLine(
+  collector: DiagnosticsCollector,
+  line: string,
+  obsolete = false
+): void {
+  const keyword = matchKeyword(line)
+  const position = at(collector, 0)
+
+  if (keyword === null || (keyword !== "msgstr" && line[keyword.length] === "[")) {
+    const name = /^\S*/.exec(line)?.[0] ?? line
+    report(collector, "UNKNOWN_KEYWORD", "error", `Unknown keyword "${name}"`, position)
+    return
+  }
+
+  let end: number = keyword.length
+  if (keyword === "msgid") {
+    // An unfinished item (e.g. empty msgid) must not leak into the next one
+    collector.trace = createTrace(position, isHeaderMsgid(line, obsolete))
+  } else if (keyword === "msgid_plural") {
+    collector.trace.msgidPlural = position
+  } else if (keyword === "msgstr") {
+    const parsed = inspectMsgstrIndex(collector, line)
+    end = parsed.end
+    collector.trace.msgstr.push({ ...position, index: parsed.index })
+  }
+
+  inspectString(collector, line, end)
+}
+
+/**
+ * Inspects a continuation line ("...") after the parser has processed it.
+ */
+export function inspectContinuationLine(
+  collector: DiagnosticsCollector,
+  line: string,
+  state: ParserState
+): void {
+  if (state.context === null) {
+    report(
+      collector,
+      "UNEXPECTED_CONTINUATION",
+      "warning",
+      "String continuation without a preceding keyword"
+    )
+  }
+  inspectString(collector, line, 0)
+}
+
+/**
+ * Reports a line the parser does not recognize.
+ */
+export function reportUnknownLine(collector: DiagnosticsCollector, line: string): void {
+  if (line.startsWith("#")) {
+    report(collector, "UNKNOWN_COMMENT", "warning", `Unknown comment type "${line.slice(0, 2)}"`)
+  } else {
+    const name = /^\S*/.exec(line)?.[0] ?? line
+    report(collector, "UNKNOWN_KEYWORD", "error", `Unknown keyword "${name}"`)
+  }
+}
+
+/** Validates msgstr plural indices of a plural item */
+function checkPluralIndices(
+  collector: DiagnosticsCollector,
+  anchor: PoPosition,
+  indexed: MsgstrPosition[]
+): void {
+  const seen = new Set<number>()
+  let previous = -1
+
+  for (const entry of indexed) {
+    const index = entry.index ?? 0
+    if (seen.has(index)) {
+      report(collector, "DUPLICATE_PLURAL_INDEX", "error", `Duplicate msgstr[${index}]`, entry)
+    } else if (collector.nplurals !== null && index >= collector.nplurals) {
+      const message = `msgstr[${index}] exceeds nplurals=${collector.nplurals}`
+      report(collector, "PLURAL_INDEX_OUT_OF_RANGE", "error", message, entry)
+    } else if (index < previous) {
+      report(collector, "PLURAL_INDEX_ORDER", "warning", `msgstr[${index}] out of order`, entry)
+    }
+    seen.add(index)
+    previous = Math.max(previous, index)
+  }
+
+  for (let i = 0; i < previous; i++) {
+    if (!seen.has(i)) {
+      report(collector, "PLURAL_INDEX_GAP", "error", `Missing msgstr[${i}]`, anchor)
+    }
+  }
+
+  checkPluralCount(collector, anchor, seen.size)
+}
+
+/** Warns when the number of plural forms disagrees with the header */
+function checkPluralCount(
+  collector: DiagnosticsCollector,
+  anchor: PoPosition,
+  count: number
+): void {
+  if (collector.nplurals !== null && count !== collector.nplurals) {
+    report(
+      collector,
+      "PLURAL_COUNT_MISMATCH",
+      "warning",
+      `Expected ${collector.nplurals} plural forms, found ${count}`,
+      anchor
+    )
+  }
+}
+
+/** Validates the msgstr lines of an item */
+function checkMsgstr(collector: DiagnosticsCollector, item: PoItem, anchor: PoPosition): void {
+  const { msgstr } = collector.trace
+  const indexed = msgstr.filter((entry) => entry.index !== null)
+  const plain = msgstr.filter((entry) => entry.index === null)
+
+  if (msgstr.length === 0) {
+    const code = item.msgid_plural === null ? "MISSING_MSGSTR" : "MISSING_PLURAL_MSGSTR"
+    report(collector, code, "error", "Entry has no msgstr", anchor)
+    return
+  }
+
+  if (item.msgid_plural === null) {
+    for (const entry of indexed) {
+      report(
+        collector,
+        "UNEXPECTED_PLURAL_INDEX",
+        "error",
+        `msgstr[${entry.index ?? 0}] without msgid_plural`,
+        entry
+      )
+    }
+    return
+  }
+
+  if (indexed.length === 0) {
+    report(
+      collector,
+      "MISSING_PLURAL_MSGSTR",
+      "error",
+      "msgid_plural requires msgstr[N] entries",
+      plain[0] ?? anchor
+    )
+    return
+  }
+
+  checkPluralIndices(collector, anchor, indexed)
+}
+
+/**
+ * Inspects the lines of the header section: its comments, the header
+ * entry and its continuation lines.
+ *
+ * @param lines - Lines of the header section, starting at line 1 of the file
+ */
+export function inspectHeaderLines(lines: string[]): PoDiagnostic[] {
+  const position: PoPosition = { line: 1, column: 1 }
+  const collector = createDiagnosticsCollector(undefined, position)
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trim()
+    position.line = i + 1
+    position.column = rawLine.indexOf(line) + 1
+    if (line.startsWith('"')) {
+      inspectString(collector, line, 0)
+    } else if (line.startsWith("m")) {
+      inspectKeywordLine(collector, line)
+    } else if (line && !line.startsWith("#")) {
+      reportUnknownLine(collector, line)
+    }
+  })
+  return collector.diagnostics
+}
+
+/**
+ * Checks an item the parser drops for its empty msgid: without msgctxt,
+ * it is a second header entry. Resets the trace.
+ */
+export function checkDroppedItem(collector: DiagnosticsCollector, item: PoItem): void {
+  const anchor = collector.trace.msgid
+  if (anchor && collector.trace.emptyMsgid && item.msgctxt === null) {
+    report(collector, "DUPLICATE_HEADER", "error", "Duplicate header entry", anchor)
+  }
+  collector.trace = createTrace(null)
+}
+
+/**
+ * Runs item-level checks on a finished item and resets the trace.
+ */
+export function checkFinishedItem(collector: DiagnosticsCollector, item: PoItem): void {
+  const anchor = collector.trace.msgid ?? { line: collector.position.line, column: 1 }
+
+  checkMsgstr(collector, item, collector.trace.msgidPlural ?? anchor)
+
+  if (!item.obsolete) {
+    const key = item.msgctxt === null ? item.msgid : `${item.msgctxt}\u0004${item.msgid}`
+    if (collector.seenKeys.has(key)) {
+      report(collector, "DUPLICATE_ENTRY", "error", "Duplicate message definition", anchor)
+    }
+    collector.seenKeys.add(key)
+  }
+
+  collector.trace = createTrace(null)
+}
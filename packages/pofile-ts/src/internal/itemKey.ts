@@ -0,0 +1,31 @@
+/**
+ * Identity of PO items across files.
+ *
+ * Internal module. Two items are the same message when their msgctxt and
+ * msgid are equal; `null` and empty contexts are different messages.
+ */
+
+import type { PoItem } from "../types"
+
+/**
+ * Returns a key identifying an item by msgctxt and msgid.
+ */
+export function getItemKey(item: PoItem): string {
+  return JSON.stringify([item.msgctxt, item.msgid])
+}
+
+/**
+ * Indexes items by key. When a key occurs more than once, the first active
+ * entry wins over obsolete ones.
+ */
+export function indexItems(items: PoItem[]): Map<string, PoItem> {
+  const index = new Map<string, PoItem>()
+  for (const item of items) {
+    const key = getItemKey(item)
+    const found = index.get(key)
+    if (!found || (found.obsolete && !item.obsolete)) {
+      index.set(key, item)
+    }
+  }
+  return index
+}
@@ -0,0 +1,140 @@
+/**
+ * Source location tracking.
+ *
+ * Internal module that records where each item and keyword came from while
+ * the parser runs. Only active when locations are requested.
+ */
+
+import type {
+  ParserState,
+  PoItem,
+  PoItemLocation,
+  PoPosition,
+  PoStringLocation,
+  PoStringSegment
+} from "../types"
+import { unescapeString } from "./utils"
+
+/** Keyword locations of the item currently being parsed */
+type PendingLocation = Omit<PoItemLocation, "startLine" | "endLine">
+
+/**
+ * Records locations during a single parse run.
+ */
+export interface LocationTracker {
+  /** Start of the trimmed line being parsed, updated by the parser */
+  position: PoPosition
+  /** First line of the current item, null until the item has content */
+  startLine: number | null
+  /** Last non-empty line seen */
+  lastLine: number
+  current: PendingLocation
+}
+
+/**
+ * Creates a tracker for a parse run.
+ */
+export function createLocationTracker(position: PoPosition): LocationTracker {
+  return { position, startLine: null, lastLine: position.line, current: { msgstr: [] } }
+}
+
+/** Builds the segment for the quoted string on a line, if any */
+function createSegment(
+  tracker: LocationTracker,
+  line: string,
+  previous: PoStringSegment | undefined
+): PoStringSegment | null {
+  const firstQuote = line.indexOf('"')
+  const lastQuote = line.lastIndexOf('"')
+  if (firstQuote === -1 || lastQuote <= firstQuote) {
+    return null
+  }
+
+  return {
+    line: tracker.position.line,
+    column: tracker.position.column + firstQuote + 1,
+    offset: previous ? previous.offset + unescapeString(previous.raw).length : 0,
+    raw: line.substring(firstQuote + 1, lastQuote)
+  }
+}
+
+/** Returns the location the parser context currently writes to */
+function getContextLocation(
+  tracker: LocationTracker,
+  state: ParserState
+): PoStringLocation | undefined {
+  const { current } = tracker
+  switch (state.context) {
+    case "msgctxt":
+      return current.msgctxt
+    case "msgid":
+      return current.msgid
+    case "msgid_plural":
+      return current.msgid_plural
+    case "msgstr":
+      return current.msgstr[state.plural]
+    default:
+      return undefined
+  }
+}
+
+/** Records a keyword line for the parser context it just switched to */
+function trackKeyword(tracker: LocationTracker, line: string, state: ParserState): void {
+  const location: PoStringLocation = { keyword: { ...tracker.position }, segments: [] }
+  const segment = createSegment(tracker, line, undefined)
+  if (segment) {
+    location.segments.push(segment)
+  }
+
+  const { current } = tracker
+  switch (state.context) {
+    case "msgctxt":
+      current.msgctxt = location
+      break
+    case "msgid":
+      // A msgid after an unfinished item (e.g. empty msgid) starts over
+      tracker.current = { msgctxt: current.msgctxt, msgid: location, msgstr: [] }
+      break
+    case "msgid_plural":
+      current.msgid_plural = location
+      break
+    case "msgstr":
+      current.msgstr[state.plural] = location
+      break
+  }
+}
+
+/**
+ * Records a line after the parser has processed it.
+ */
+export function trackLine(tracker: LocationTracker, line: string, state: ParserState): void {
+  if (line.length === 0) {
+    return
+  }
+
+  tracker.startLine ??= tracker.position.line
+  tracker.lastLine = tracker.position.line
+
+  if (line.startsWith('"')) {
+    const location = getContextLocation(tracker, state)
+    const segment = location && createSegment(tracker, line, location.segments.at(-1))
+    if (segment) {
+      location.segments.push(segment)
+    }
+  } else if (state.context !== null && line.startsWith(state.context)) {
+    trackKeyword(tracker, line, state)
+  }
+}
+
+/**
+ * Attaches the recorded location to a finished item and resets the tracker.
+ */
+export function attachLocation(tracker: LocationTracker, item: PoItem): void {
+  item.location = {
+    startLine: tracker.startLine ?? tracker.lastLine,
+    endLine: tracker.lastLine,
+    ...tracker.current
+  }
+  tracker.startLine = null
+  tracker.current = { msgstr: [] }
+}
@@ -0,0 +1,116 @@
+/**
+ * Lossless round-trip support.
+ *
+ * Internal module that slices the original text of the header and each item
+ * out of the parsed file, and snapshots their content so that `stringifyPo`
+ * can tell whether an entry was modified through the API.
+ */
+
+import type { Headers, PoFile, PoItem, PoRawText } from "../types"
+
+/** The entry (header or item) that preceded each item in the file it was parsed from */
+const predecessors = new WeakMap<PoRawText, PoRawText>()
+
+/**
+ * Whether an item directly followed another entry in the file it was parsed
+ * from, so that the original text between them can be kept as is.
+ */
+export function followsInSource(
+  item: PoRawText | undefined,
+  previous: PoRawText | undefined
+): boolean {
+  return item !== undefined && previous !== undefined && predecessors.get(item) === previous
+}
+
+/**
+ * Snapshots the content of an item (everything but its location and raw text).
+ */
+export function snapshotItem(item: PoItem): string {
+  const content: Partial<PoItem> = { ...item }
+  delete content.location
+  delete content.raw
+  return JSON.stringify(content)
+}
+
+/**
+ * Snapshots the header content of a PO file.
+ */
+export function snapshotHeader(po: Partial<PoFile>): string {
+  return JSON.stringify([po.comments, po.extractedComments, po.headers, po.headerOrder])
+}
+
+/**
+ * Returns the headers recorded in a header snapshot.
+ */
+export function getSnapshotHeaders(snapshot: string): Partial<Headers> {
+  const [, , headers] = JSON.parse(snapshot) as [unknown, unknown, Partial<Headers> | undefined]
+  return headers ?? {}
+}
+
+/** Splits a region of the file into its entry text and trailing line breaks */
+function splitTrailing(region: string, snapshot: string): PoRawText {
+  let end = region.length
+  while (end > 0 && region[end - 1] === "\n") {
+    end--
+  }
+  return { text: region.substring(0, end), trailing: region.substring(end), snapshot }
+}
+
+/** Returns the offset at which each line starts */
+function getLineStarts(data: string): number[] {
+  const starts = [0]
+  let index = data.indexOf("\n")
+  while (index !== -1) {
+    starts.push(index + 1)
+    index = data.indexOf("\n", index + 1)
+  }
+  return starts
+}
+
+/**
+ * Attaches the original text to the header and all items of a parsed file.
+ *
+ * Requires `item.location` on every item; it is removed again unless
+ * `keepLocations` is set.
+ *
+ * @param data - The parsed content, with line endings normalized to LF
+ */
+export function attachRawText(
+  data: string,
+  po: PoFile,
+  lineEnding: "\n" | "\r\n",
+  keepLocations: boolean
+): void {
+  const lineStarts = getLineStarts(data)
+  const offsetOf = (line: number | undefined): number =>
+    line === undefined ? data.length : (lineStarts[line - 1] ?? data.length)
+
+  const firstStart = offsetOf(po.items[0]?.location?.startLine)
+  po.raw = { ...splitTrailing(data.substring(0, firstStart), snapshotHeader(po)), lineEnding }
+
+  po.items.forEach((item, i) => {
+    const start = offsetOf(item.location?.startLine)
+    const next = offsetOf(po.items[i + 1]?.location?.startLine)
+    // The entry text ends before the line break of its last line
+    const endLine = item.location?.endLine
+    const lineBreak = endLine === undefined ? undefined : lineStarts[endLine]
+    const end = lineBreak === undefined ? next : Math.min(lineBreak - 1, next)
+
+    if (!keepLocations) {
+      delete item.location
+    }
+    item.raw = {
+      text: data.substring(start, end),
+      trailing: data.substring(end, next),
+      snapshot: snapshotItem(item)
+    }
+  })
+
+  let previous: PoRawText = po.raw
+  for (const item of po.items) {
+    if (item.raw) {
+      predecessors.set(item.raw, previous)
+      previous = item.raw
+    }
+  }
+}
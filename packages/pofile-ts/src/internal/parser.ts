@@ -1,44 +1,72 @@
-import type { ParserState, PoFile, PoItem } from "../types"
+import type { ParserState, PoDiagnostic, PoFile, PoItem, PoPosition } from "../types"
 import { createItem } from "../Item"
 import { extractString } from "./utils"
+import {
+  createDiagnosticsCollector,
+  checkDroppedItem,
+  checkFinishedItem,
+  inspectContinuationLine,
+  inspectKeywordLine,
+  reportUnknownLine,
+  type DiagnosticsCollector
+} from "./diagnostics"
+import { attachLocation, createLocationTracker, trackLine, type LocationTracker } from "./locations"
+import { parseRangeFlag } from "../flags"
 import { RE_HEADER_MSGID, RE_HEADER_CONTINUATION, RE_HEADER_COMPLETE } from "./constants"
 
+/**
+ * Decides how a leading "\n\n"-delimited section relates to the header.
+ *
+ * - "body": the section already holds a real msgid, so the file has no header entry
+ * - "last": the section holds the header entry and completes the header
+ * - "more": the section belongs to the header (e.g. file comments), keep collecting
+ */
+export function classifyHeaderSection(section: string): "body" | "last" | "more" {
+  if (RE_HEADER_MSGID.test(section)) {
+    return "body"
+  }
+  return section.includes('msgid ""') ? "last" : "more"
+}
+
 /**
  * Splits PO file content into header section and body lines.
  */
 export function splitHeaderAndBody(data: string): {
   headerSection: string
   bodyLines: string[]
+  /** 1-based line number of `bodyLines[0]` in the original content */
+  bodyStartLine: number
 } {
   const sections = data.split("\n\n")
   const headerParts: string[] = []
-  let foundHeaderMsgid = false
+  let bodyStartLine = 1
 
   // Collect sections until we find one with 'msgid ""'
   while (sections[0]) {
-    if (foundHeaderMsgid) {
+    const kind = classifyHeaderSection(sections[0])
+    if (kind === "body") {
+      // Found first real msgid, add dummy header marker
+      headerParts.push('msgid ""')
       break
     }
 
-    if (RE_HEADER_MSGID.test(sections[0])) {
-      // Found first real msgid, add dummy header marker
-      headerParts.push('msgid ""')
-      foundHeaderMsgid = true
-    } else {
-      const shifted = sections.shift()
-      if (shifted !== undefined) {
-        headerParts.push(shifted)
-        if (shifted.includes('msgid ""')) {
-          foundHeaderMsgid = true
-        }
-      }
+    headerParts.push(sections[0])
+    // Section lines plus the blank separator line
+    bodyStartLine += countLines(sections[0]) + 1
+    sections.shift()
+    if (kind === "last") {
+      break
     }
   }
 
-  // Flatten remaining sections into lines without intermediate join
+  // Flatten remaining sections into lines without intermediate join.
+  // Blank separator lines are kept so that indices map to original line numbers.
   const bodyLines: string[] = []
-  for (const section of sections) {
-    const lines = section.split("\n")
+  for (let i = 0; i < sections.length; i++) {
+    if (i > 0) {
+      bodyLines.push("")
+    }
+    const lines = (sections[i] ?? "").split("\n")
     for (const line of lines) {
       bodyLines.push(line)
     }
@@ -46,8 +74,20 @@ export function splitHeaderAndBody(data: string): {
 
   return {
     headerSection: headerParts.join("\n"),
-    bodyLines
+    bodyLines,
+    bodyStartLine
+  }
+}
+
+/** Counts the lines of a string */
+function countLines(text: string): number {
+  let count = 1
+  let index = text.indexOf("\n")
+  while (index !== -1) {
+    count++
+    index = text.indexOf("\n", index + 1)
   }
+  return count
 }
 
 /**
@@ -123,31 +163,122 @@ function parseHeaderLine(line: string, po: PoFile): void {
 }
 
 /**
- * Parses item lines and populates the PO file.
+ * Receives each item as soon as the parser has finished it.
  */
-export function parseItems(lines: string[], po: PoFile, nplurals: string | undefined): void {
-  const state: ParserState = {
+export type ItemSink = (item: PoItem) => void
+
+/**
+ * Settings shared by all item parser functions during a parse run.
+ */
+export interface ItemParserContext {
+  nplurals: string | undefined
+  emit: ItemSink
+  /** Start of the trimmed line being parsed, only set when positions are tracked */
+  position?: PoPosition
+  /** Only set when diagnostics are requested */
+  diagnostics?: DiagnosticsCollector
+  /** Only set when locations are requested */
+  locations?: LocationTracker
+}
+
+/**
+ * Creates a fresh parser state for item parsing.
+ */
+export function createParserState(nplurals: string | undefined): ParserState {
+  return {
     item: createItem({ nplurals }),
     context: null,
+    previousContext: null,
     plural: 0,
     obsoleteCount: 0,
     noCommentLineCount: 0
   }
+}
 
-  for (const rawLine of lines) {
-    let line = rawLine.trim()
-
-    // Handle obsolete markers inline to avoid object allocation
-    if (line.startsWith("#~")) {
-      line = line.substring(2).trim()
-      state.obsoleteCount++
+/**
+ * Parses item lines and populates the PO file.
+ */
+export function parseItems(lines: string[], po: PoFile, nplurals: string | undefined): void {
+  const state = createParserState(nplurals)
+  const ctx: ItemParserContext = {
+    nplurals,
+    emit: (item) => {
+      po.items.push(item)
     }
+  }
 
-    parseLine(line, state, po, nplurals)
+  for (const rawLine of lines) {
+    parseItemLine(rawLine, state, ctx)
   }
 
   // Finish last item
-  finishItem(state, po, nplurals)
+  finishItem(state, ctx)
+}
+
+/**
+ * Parses item lines like `parseItems`, but also tracks line positions to
+ * collect diagnostics and/or attach source locations to items.
+ *
+ * @param firstLine - 1-based line number of `lines[0]` in the original file
+ * @returns The collected diagnostics (empty unless requested)
+ */
+export function parseItemsTracked(
+  lines: string[],
+  po: PoFile,
+  nplurals: string | undefined,
+  firstLine: number,
+  options: { diagnostics?: boolean; locations?: boolean }
+): PoDiagnostic[] {
+  const state = createParserState(nplurals)
+  const position: PoPosition = { line: firstLine, column: 1 }
+  const ctx: ItemParserContext = {
+    nplurals,
+    emit: (item) => {
+      po.items.push(item)
+    },
+    position,
+    diagnostics: options.diagnostics ? createDiagnosticsCollector(nplurals, position) : undefined,
+    locations: options.locations ? createLocationTracker(position) : undefined
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    position.line = firstLine + i
+    parseItemLine(lines[i] ?? "", state, ctx)
+  }
+
+  finishItem(state, ctx)
+  return ctx.diagnostics?.diagnostics ?? []
+}
+
+/**
+ * Feeds a single raw body line into the parser state machine.
+ *
+ * Completed items are handed to `ctx.emit`. Call `finishItem` after the last
+ * line to flush the item that is still in progress.
+ */
+export function parseItemLine(rawLine: string, state: ParserState, ctx: ItemParserContext): void {
+  let line = rawLine.trim()
+
+  // Handle obsolete markers inline to avoid object allocation
+  const obsolete = line.startsWith("#~")
+  if (obsolete) {
+    line = line.substring(2).trim()
+  }
+
+  if (ctx.position) {
+    ctx.position.column = rawLine.indexOf(line) + 1
+  }
+
+  parseLine(line, state, ctx, obsolete)
+
+  // Counted after parsing, as the line may have finished the previous item
+  if (obsolete) {
+    state.obsoleteCount++
+  }
+
+  if (ctx.locations) {
+    trackLine(ctx.locations, line, state)
+  }
 }
 
 /**
@@ -161,8 +292,8 @@ export function parseItems(lines: string[], po: PoFile, nplurals: string | undef
 function parseLine(
   line: string,
   state: ParserState,
-  po: PoFile,
-  nplurals: string | undefined
+  ctx: ItemParserContext,
+  obsolete: boolean
 ): void {
   if (line.length === 0) {
     return
@@ -172,51 +303,67 @@ function parseLine(
 
   if (firstChar === '"') {
     appendMultilineValue(line, state)
+    if (ctx.diagnostics) {
+      inspectContinuationLine(ctx.diagnostics, line, state)
+    }
     return
   }
 
   if (firstChar === "#") {
-    parseCommentLine(line, state, po, nplurals)
+    parseCommentLine(line, state, ctx)
+    return
+  }
+
+  if (firstChar === "|") {
+    // Obsolete previous field: "#~|" with the "#~" already stripped
+    finishItem(state, ctx)
+    parsePreviousLine(line.slice(1).trim(), state, ctx)
     return
   }
 
   if (firstChar === "m") {
-    parseKeywordLine(line, state, po, nplurals)
+    parseKeywordLine(line, state, ctx)
+    if (ctx.diagnostics) {
+      inspectKeywordLine(ctx.diagnostics, line, obsolete)
+    }
+  } else if (ctx.diagnostics) {
+    reportUnknownLine(ctx.diagnostics, line)
   }
 }
 
 /**
- * Parses comment lines (#: #, # #. #@)
+ * Parses comment lines (#: #, # #. #@ #|)
  * Assumes line starts with '#' (checked by caller).
  */
-function parseCommentLine(
-  line: string,
-  state: ParserState,
-  po: PoFile,
-  nplurals: string | undefined
-): void {
+function parseCommentLine(line: string, state: ParserState, ctx: ItemParserContext): void {
   const secondChar = line[1]
 
   if (secondChar === ":") {
     // Reference comment: #:
-    finishItem(state, po, nplurals)
+    finishItem(state, ctx)
     state.item.references.push(line.slice(2).trim())
   } else if (secondChar === ",") {
     // Flags comment: #,
-    finishItem(state, po, nplurals)
+    finishItem(state, ctx)
     parseFlags(line, state.item)
   } else if (secondChar === ".") {
     // Extracted comment: #.
-    finishItem(state, po, nplurals)
+    finishItem(state, ctx)
     state.item.extractedComments.push(line.slice(2).trim())
   } else if (secondChar === "@") {
     // Metadata comment: #@ key: value
-    finishItem(state, po, nplurals)
+    finishItem(state, ctx)
     parseMetadata(line, state.item)
+  } else if (secondChar === "|") {
+    // Previous field: #| msgid "..."
+    finishItem(state, ctx)
+    parsePreviousLine(line.slice(2).trim(), state, ctx)
   } else if (secondChar === undefined || secondChar === " ") {
     // Translator comment: # or #<space>
-    finishItem(state, po, nplurals)
+    finishItem(state, ctx)
     state.item.comments.push(line.slice(1).trim())
+  } else if (ctx.diagnostics) {
+    reportUnknownLine(ctx.diagnostics, line)
   }
 }
 
@@ -228,18 +375,13 @@ function parseCommentLine(
  *
  * Note: msgid_plural checked before msgid (longer prefix match first).
  */
-function parseKeywordLine(
-  line: string,
-  state: ParserState,
-  po: PoFile,
-  nplurals: string | undefined
-): void {
+function parseKeywordLine(line: string, state: ParserState, ctx: ItemParserContext): void {
   if (line.startsWith("msgid_plural")) {
     state.item.msgid_plural = extractString(line)
     state.context = "msgid_plural"
     state.noCommentLineCount++
   } else if (line.startsWith("msgid")) {
-    finishItem(state, po, nplurals)
+    finishItem(state, ctx)
     state.item.msgid = extractString(line)
     state.context = "msgid"
     state.noCommentLineCount++
@@ -255,20 +397,68 @@ function parseKeywordLine(
     state.context = "msgstr"
     state.noCommentLineCount++
   } else if (line.startsWith("msgctxt")) {
-    finishItem(state, po, nplurals)
+    finishItem(state, ctx)
     state.item.msgctxt = extractString(line)
     state.context = "msgctxt"
     state.noCommentLineCount++
   }
 }
 
+/**
+ * Parses the content of a previous field line (#| msgctxt, #| msgid,
+ * #| msgid_plural or a #| "..." continuation).
+ */
+function parsePreviousLine(content: string, state: ParserState, ctx: ItemParserContext): void {
+  const { item } = state
+  if (content.startsWith('"')) {
+    appendPreviousValue(content, state)
+  } else if (content.startsWith("msgid_plural")) {
+    item.previousMsgidPlural = extractString(content)
+    state.previousContext = "msgid_plural"
+  } else if (content.startsWith("msgid")) {
+    item.previousMsgid = extractString(content)
+    state.previousContext = "msgid"
+  } else if (content.startsWith("msgctxt")) {
+    item.previousMsgctxt = extractString(content)
+    state.previousContext = "msgctxt"
+  } else if (ctx.diagnostics) {
+    reportUnknownLine(ctx.diagnostics, content)
+  }
+}
+
+/**
+ * Appends a #| "..." continuation to the current previous field.
+ */
+function appendPreviousValue(content: string, state: ParserState): void {
+  const value = extractString(content)
+
+  switch (state.previousContext) {
+    case "msgid":
+      state.item.previousMsgid = (state.item.previousMsgid ?? "") + value
+      break
+    case "msgid_plural":
+      state.item.previousMsgidPlural = (state.item.previousMsgidPlural ?? "") + value
+      break
+    case "msgctxt":
+      state.item.previousMsgctxt = (state.item.previousMsgctxt ?? "") + value
+      break
+  }
+}
+
 /**
  * Parses flag line and adds flags to item.
+ * A valid `range:` flag sets `item.range` instead.
  */
 function parseFlags(line: string, item: PoItem): void {
   const flags = line.slice(2).trim().split(",")
   for (const flag of flags) {
-    item.flags[flag.trim()] = true
+    const trimmed = flag.trim()
+    const range = trimmed.startsWith("range:") ? parseRangeFlag(trimmed) : null
+    if (range) {
+      item.range = range
+    } else {
+      item.flags[trimmed] = true
+    }
   }
 }
 
@@ -314,8 +504,11 @@ function appendMultilineValue(line: string, state: ParserState): void {
 /**
  * Finishes the current item and prepares for the next one.
  */
-function finishItem(state: ParserState, po: PoFile, nplurals: string | undefined): void {
+export function finishItem(state: ParserState, ctx: ItemParserContext): void {
   if (state.item.msgid.length === 0) {
+    if (ctx.diagnostics) {
+      checkDroppedItem(ctx.diagnostics, state.item)
+    }
     return
   }
 
@@ -323,11 +516,19 @@ function finishItem(state: ParserState, po: PoFile, nplurals: string | undefined
     state.item.obsolete = true
   }
 
-  po.items.push(state.item)
+  if (ctx.diagnostics) {
+    checkFinishedItem(ctx.diagnostics, state.item)
+  }
+  if (ctx.locations) {
+    attachLocation(ctx.locations, state.item)
+  }
+
+  ctx.emit(state.item)
 
   // Reset state for next item
-  state.item = createItem({ nplurals })
+  state.item = createItem({ nplurals: ctx.nplurals })
   state.context = null
+  state.previousContext = null
   state.plural = 0
   state.obsoleteCount = 0
   state.noCommentLineCount = 0
@@ -0,0 +1,297 @@
+/**
+ * Splitting ICU messages into text and placeholders, for exchange formats
+ * that mark placeholders as inline codes (TMX and XLIFF `<ph>`).
+ *
+ * Internal module. The parser decides what a placeholder is; the original
+ * text of each one is kept, so joining the parts restores the message
+ * exactly. Plurals and selects are split into their syntax, which is
+ * protected, and the text of their cases, which translators edit.
+ */
+
+import type { IcuNode } from "../icu/types"
+import { parseIcu } from "../icu/parser"
+
+/**
+ * A part of a message: text, an ICU placeholder, or an opening, closing or
+ * self-closing tag.
+ */
+export interface MessagePart {
+  kind: "text" | "placeholder" | "open" | "close" | "standalone"
+  text: string
+  /** The parsed node of a placeholder */
+  node: IcuNode | null
+}
+
+/**
+ * Options for `splitPlaceholders`.
+ */
+export interface SplitPlaceholdersOptions {
+  /** Split off tags like `<b>`, `</b>` and `<br/>` too (default: false) */
+  tags?: boolean
+}
+
+/** Matches a tag as the ICU parser reads it, capturing closing slash, name and self-closing slash */
+const RE_TAG = /<(\/?)([A-Za-z0-9][\w.:-]*)(\/?)>/y
+
+/** Matches a self-closing tag, which the ICU parser keeps as literal text */
+const RE_SELF_CLOSING_TAG = /^<[A-Za-z0-9][\w.:-]*\/>$/
+
+/** Characters that start a quoted run after an apostrophe */
+const QUOTE_STARTS = new Set(["{", "}", "<", ">", "#", "|"])
+
+/** Whether an apostrophe followed by `next` starts a quoted run */
+function startsQuote(next: string, depth: number): boolean {
+  // Outside arguments, # and | are plain text
+  return QUOTE_STARTS.has(next) && (depth > 0 || (next !== "#" && next !== "|"))
+}
+
+/** Returns the index after the quoted run or escaped apostrophe at `start`, or -1 if there is none */
+function skipQuote(message: string, start: number, depth: number): number {
+  const next = message[start + 1] ?? ""
+  if (next === "'") {
+    return start + 2
+  }
+  if (!startsQuote(next, depth)) {
+    return -1
+  }
+  let pos = start + 1
+  while (pos < message.length) {
+    if (message[pos] === "'" && message[pos + 1] !== "'") {
+      return pos + 1
+    }
+    pos += message[pos] === "'" ? 2 : 1
+  }
+  return pos
+}
+
+/** Returns the spans of the outermost `{…}` groups, outside quotes */
+function findArgumentSpans(message: string): [number, number][] {
+  const spans: [number, number][] = []
+  let depth = 0
+  let start = 0
+  let pos = 0
+  while (pos < message.length) {
+    const ch = message[pos]
+    const quoteEnd = ch === "'" ? skipQuote(message, pos, depth) : -1
+    if (quoteEnd !== -1) {
+      pos = quoteEnd
+      continue
+    }
+    if (ch === "{" && depth++ === 0) {
+      start = pos
+    } else if (ch === "}" && depth > 0 && --depth === 0) {
+      spans.push([start, pos + 1])
+    }
+    pos++
+  }
+  return spans
+}
+
+/** Collects the argument nodes of a message in order, looking into tags */
+function collectArguments(nodes: IcuNode[], result: IcuNode[]): IcuNode[] {
+  for (const node of nodes) {
+    if (node.type === "tag") {
+      collectArguments(node.children, result)
+    } else if (node.type !== "literal" && node.type !== "pound") {
+      result.push(node)
+    }
+  }
+  return result
+}
+
+/** Collects the tags of a message in order, outside arguments but in plural and select cases */
+function collectTags(nodes: IcuNode[], result: string[]): string[] {
+  for (const node of nodes) {
+    if (node.type === "tag") {
+      result.push(`<${node.value}>`)
+      collectTags(node.children, result)
+      result.push(`</${node.value}>`)
+    } else if (node.type === "plural" || node.type === "select") {
+      for (const option of Object.values(node.options)) {
+        collectTags(option.value, result)
+      }
+    } else if (node.type === "literal" && RE_SELF_CLOSING_TAG.test(node.value)) {
+      result.push(node.value)
+    }
+  }
+  return result
+}
+
+/** Splits a message at the spans of its arguments; null if they cannot be located */
+function splitArguments(message: string, nodes: IcuNode[]): MessagePart[] | null {
+  const spans = findArgumentSpans(message)
+  if (spans.length !== nodes.length) {
+    return null
+  }
+  const parts: MessagePart[] = []
+  let pos = 0
+  spans.forEach(([start, end], i) => {
+    if (start > pos) {
+      parts.push({ kind: "text", text: message.slice(pos, start), node: null })
+    }
+    parts.push({ kind: "placeholder", text: message.slice(start, end), node: nodes[i] ?? null })
+    pos = end
+  })
+  if (pos < message.length) {
+    parts.push({ kind: "text", text: message.slice(pos), node: null })
+  }
+  return parts
+}
+
+/** Returns the index of the `}` closing a case whose text starts at `start`, outside quotes */
+function findCaseEnd(message: string, start: number): number {
+  let depth = 1
+  let pos = start
+  while (pos < message.length) {
+    const ch = message[pos]
+    const quoteEnd = ch === "'" ? skipQuote(message, pos, depth) : -1
+    if (quoteEnd !== -1) {
+      pos = quoteEnd
+      continue
+    }
+    if (ch === "{") {
+      depth++
+    } else if (ch === "}" && --depth === 0) {
+      return pos
+    }
+    pos++
+  }
+  return pos
+}
+
+/** Splits the unquoted `#` of plural case text off as placeholders */
+function splitPounds(text: string): MessagePart[] {
+  const parts: MessagePart[] = []
+  let start = 0
+  let pos = 0
+  while (pos < text.length) {
+    const quoteEnd = text[pos] === "'" ? skipQuote(text, pos, 1) : -1
+    if (text[pos] === "#") {
+      if (pos > start) {
+        parts.push({ kind: "text", text: text.slice(start, pos), node: null })
+      }
+      parts.push({ kind: "placeholder", text: "#", node: { type: "pound" } })
+      start = pos + 1
+    }
+    pos = Math.max(quoteEnd, pos + 1)
+  }
+  if (pos > start) {
+    parts.push({ kind: "text", text: text.slice(start), node: null })
+  }
+  return parts
+}
+
+/** Splits the text of a case; null if its placeholders cannot be located */
+function splitCase(text: string, inPlural: boolean): MessagePart[] | null {
+  const result = parseIcu(text, { requiresOtherClause: false })
+  const parts = result.success ? splitArguments(text, collectArguments(result.ast, [])) : null
+  return (
+    parts?.flatMap((part) => {
+      if (part.kind === "text") {
+        return inPlural ? splitPounds(part.text) : [part]
+      }
+      return splitCases(part, inPlural)
+    }) ?? null
+  )
+}
+
+/**
+ * Splits a plural or select placeholder into its syntax (`{count, plural,
+ * one {`, `} other {`, `}}`) and the parts of its cases. Other placeholders,
+ * and plurals whose cases cannot be split, are returned as they are.
+ */
+function splitCases(part: MessagePart, inPlural: boolean): MessagePart[] {
+  const { text, node } = part
+  if (node?.type !== "plural" && node?.type !== "select") {
+    return [part]
+  }
+  const parts: MessagePart[] = []
+  let syntaxStart = 0
+  let open = text.indexOf("{", 1)
+  while (open !== -1) {
+    const end = findCaseEnd(text, open + 1)
+    const cases = splitCase(text.slice(open + 1, end), inPlural || node.type === "plural")
+    if (!cases) {
+      return [part]
+    }
+    parts.push({ kind: "placeholder", text: text.slice(syntaxStart, open + 1), node }, ...cases)
+    syntaxStart = end
+    open = text.indexOf("{", end)
+  }
+  parts.push({ kind: "placeholder", text: text.slice(syntaxStart), node })
+  return parts
+}
+
+/** Returns the kind of a matched tag */
+function getTagKind(match: RegExpExecArray): MessagePart["kind"] {
+  if (match[3]) {
+    return "standalone"
+  }
+  return match[1] ? "close" : "open"
+}
+
+/** Splits text outside arguments at its tags, outside quotes */
+function splitTags(text: string): MessagePart[] {
+  const parts: MessagePart[] = []
+  let start = 0
+  let pos = 0
+  while (pos < text.length) {
+    RE_TAG.lastIndex = pos
+    const quoteEnd = text[pos] === "'" ? skipQuote(text, pos, 0) : -1
+    const match = text[pos] === "<" ? RE_TAG.exec(text) : null
+    if (match) {
+      if (pos > start) {
+        parts.push({ kind: "text", text: text.slice(start, pos), node: null })
+      }
+      parts.push({ kind: getTagKind(match), text: match[0], node: null })
+      start = pos + match[0].length
+    }
+    pos = match ? start : Math.max(quoteEnd, pos + 1)
+  }
+  if (pos > start) {
+    parts.push({ kind: "text", text: text.slice(start), node: null })
+  }
+  return parts
+}
+
+/**
+ * Splits a message into text and ICU placeholders (arguments, formatted
+ * values and `#`), and optionally tags. Plurals and selects are split into
+ * placeholders for their syntax and the parts of their cases, so the text
+ * of the cases stays translatable. Joining the text of the parts restores
+ * the message.
+ *
+ * Messages that are not valid ICU, or whose placeholders or tags cannot be
+ * located, are returned as a single text part, or with tags as text.
+ *
+ * @example
+ * splitPlaceholders("Hi {name}!")
+ * // → [{ kind: "text", text: "Hi " }, { kind: "placeholder", text: "{name}" }, { kind: "text", text: "!" }]
+ *
+ * @example
+ * splitPlaceholders("{n, plural, one {# file} other {# files}}").map((part) => part.text)
+ * // → ["{n, plural, one {", "#", " file", "} other {", "#", " files", "}}"]
+ */
+export function splitPlaceholders(
+  message: string,
+  options: SplitPlaceholdersOptions = {}
+): MessagePart[] {
+  const result = parseIcu(message, { requiresOtherClause: false })
+  const parts = result.success
+    ? splitArguments(message, collectArguments(result.ast, []))?.flatMap((part) =>
+        splitCases(part, false)
+      )
+    : null
+  if (!parts || !result.success) {
+    return [{ kind: "text", text: message, node: null }]
+  }
+  if (!options.tags) {
+    return parts
+  }
+  const split = parts.flatMap((part) => (part.kind === "text" ? splitTags(part.text) : [part]))
+  const tags = split.filter((part) => part.kind !== "text" && part.kind !== "placeholder")
+  const expected = collectTags(result.ast, [])
+  const isMatch =
+    tags.length === expected.length && tags.every((tag, i) => tag.text === expected[i])
+  return isMatch ? split : parts
+}
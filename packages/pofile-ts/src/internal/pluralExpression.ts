@@ -0,0 +1,263 @@
+/**
+ * Parser and interpreter for Gettext Plural-Forms expressions.
+ *
+ * Implements the C-like grammar of GNU gettext (`plural.y`) without `eval`:
+ * the expression is parsed into a small tree, which is either evaluated
+ * directly or turned into JavaScript source for generated code.
+ *
+ * Operators, from lowest to highest precedence:
+ * `?:`, `||`, `&&`, `== !=`, `< > <= >=`, `+ -`, `* / %`, `!`
+ */
+
+type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | ">"
+  | "<="
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+
+/**
+ * A parsed plural expression.
+ */
+export type PluralExpression =
+  | { type: "variable" }
+  | { type: "number"; value: number }
+  | { type: "not"; operand: PluralExpression }
+  | { type: "binary"; operator: BinaryOperator; left: PluralExpression; right: PluralExpression }
+  | {
+      type: "conditional"
+      test: PluralExpression
+      consequent: PluralExpression
+      alternate: PluralExpression
+    }
+
+/** Binary operators grouped by precedence, lowest first */
+const BINARY_LEVELS: readonly (readonly BinaryOperator[])[] = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", ">", "<=", ">="],
+  ["+", "-"],
+  ["*", "/", "%"]
+]
+
+/** Matches the next token, skipping leading whitespace */
+const RE_TOKEN = /\s*(\d+|n|&&|\|\||[=!<>]=|[-+*/%<>!?:()])/y
+
+/** Matches trailing whitespace and an optional semicolon */
+const RE_END = /\s*;?\s*$/y
+
+/** Matches the plural= assignment of a Plural-Forms header */
+const RE_PLURAL_ASSIGNMENT = /(?:^|;)\s*plural\s*=([^;]*)/
+
+/** Matches the nplurals= assignment of a Plural-Forms header */
+const RE_NPLURALS_ASSIGNMENT = /(?:^|;)\s*nplurals\s*=\s*(\d+)/
+
+/** C semantics of each binary operator; division by zero yields 0 */
+const OPERATORS: Record<BinaryOperator, (a: number, b: number) => number> = {
+  "||": (a, b) => (a !== 0 || b !== 0 ? 1 : 0),
+  "&&": (a, b) => (a !== 0 && b !== 0 ? 1 : 0),
+  "==": (a, b) => (a === b ? 1 : 0),
+  "!=": (a, b) => (a !== b ? 1 : 0),
+  "<": (a, b) => (a < b ? 1 : 0),
+  ">": (a, b) => (a > b ? 1 : 0),
+  "<=": (a, b) => (a <= b ? 1 : 0),
+  ">=": (a, b) => (a >= b ? 1 : 0),
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "*": (a, b) => a * b,
+  "/": (a, b) => (b === 0 ? 0 : Math.trunc(a / b)),
+  "%": (a, b) => (b === 0 ? 0 : a % b)
+}
+
+/** JavaScript source for each binary operator, matching `OPERATORS` */
+const OPERATOR_CODE: Record<BinaryOperator, (a: string, b: string) => string> = {
+  "||": (a, b) => `(${a} || ${b} ? 1 : 0)`,
+  "&&": (a, b) => `(${a} && ${b} ? 1 : 0)`,
+  "==": (a, b) => `(${a} === ${b} ? 1 : 0)`,
+  "!=": (a, b) => `(${a} !== ${b} ? 1 : 0)`,
+  "<": (a, b) => `(${a} < ${b} ? 1 : 0)`,
+  ">": (a, b) => `(${a} > ${b} ? 1 : 0)`,
+  "<=": (a, b) => `(${a} <= ${b} ? 1 : 0)`,
+  ">=": (a, b) => `(${a} >= ${b} ? 1 : 0)`,
+  "+": (a, b) => `(${a} + ${b})`,
+  "-": (a, b) => `(${a} - ${b})`,
+  "*": (a, b) => `(${a} * ${b})`,
+  "/": (a, b) => `(${b} ? Math.trunc(${a} / ${b}) : 0)`,
+  "%": (a, b) => `(${b} ? ${a} % ${b} : 0)`
+}
+
+/** Splits an expression into tokens */
+function tokenize(source: string): string[] {
+  const tokens: string[] = []
+  RE_TOKEN.lastIndex = 0
+  let match = RE_TOKEN.exec(source)
+  while (match?.[1]) {
+    tokens.push(match[1])
+    RE_END.lastIndex = RE_TOKEN.lastIndex
+    if (RE_END.test(source)) {
+      return tokens
+    }
+    match = RE_TOKEN.exec(source)
+  }
+  throw new Error(`Invalid plural expression: unexpected input in "${source}"`)
+}
+
+/**
+ * Parses a Plural-Forms header value, or a bare expression like "n != 1".
+ *
+ * @returns The parsed expression and `nplurals` (Infinity if not declared)
+ * @throws Error if the header has no valid plural expression
+ */
+export function parsePluralFormsHeader(header: string): {
+  expression: PluralExpression
+  nplurals: number
+} {
+  const nplurals = RE_NPLURALS_ASSIGNMENT.exec(header)?.[1]
+  const plural = RE_PLURAL_ASSIGNMENT.exec(header)?.[1] ?? (nplurals ? undefined : header)
+  if (plural === undefined) {
+    throw new Error(`Plural-Forms header has no plural expression: "${header}"`)
+  }
+  const count = parseInt(nplurals ?? "", 10)
+  return {
+    expression: parsePluralExpression(plural),
+    nplurals: count > 0 ? count : Infinity
+  }
+}
+
+/**
+ * Parses a Plural-Forms `plural=` expression.
+ *
+ * @throws Error if the expression is not valid
+ *
+ * @example
+ * parsePluralExpression("n != 1")
+ */
+export function parsePluralExpression(source: string): PluralExpression {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = (): string | undefined => tokens[index]
+  const fail = (expected: string): never => {
+    const found = peek()
+    throw new Error(
+      `Invalid plural expression: expected ${expected} but found ${found === undefined ? "end of input" : `"${found}"`} in "${source}"`
+    )
+  }
+
+  const parsePrimary = (): PluralExpression => {
+    const token = tokens[index++]
+    if (token === "n") {
+      return { type: "variable" }
+    }
+    if (token !== undefined && /^\d+$/.test(token)) {
+      return { type: "number", value: parseInt(token, 10) }
+    }
+    if (token === "(") {
+      const inner = parseConditional()
+      if (tokens[index++] !== ")") {
+        index--
+        fail('")"')
+      }
+      return inner
+    }
+    index--
+    return fail("a number, n or (")
+  }
+
+  const parseUnary = (): PluralExpression => {
+    if (peek() === "!") {
+      index++
+      return { type: "not", operand: parseUnary() }
+    }
+    return parsePrimary()
+  }
+
+  const parseBinary = (level: number): PluralExpression => {
+    const operators = BINARY_LEVELS[level]
+    if (!operators) {
+      return parseUnary()
+    }
+    let left = parseBinary(level + 1)
+    let operator = peek()
+    while (operators.includes(operator as BinaryOperator)) {
+      index++
+      const right = parseBinary(level + 1)
+      left = { type: "binary", operator: operator as BinaryOperator, left, right }
+      operator = peek()
+    }
+    return left
+  }
+
+  const parseConditional = (): PluralExpression => {
+    const test = parseBinary(0)
+    if (peek() !== "?") {
+      return test
+    }
+    index++
+    const consequent = parseConditional()
+    if (peek() !== ":") {
+      fail('":"')
+    }
+    index++
+    return { type: "conditional", test, consequent, alternate: parseConditional() }
+  }
+
+  const expression = parseConditional()
+  if (index < tokens.length) {
+    fail("end of input")
+  }
+  return expression
+}
+
+/**
+ * Evaluates a parsed expression for a non-negative integer `n`.
+ */
+export function evaluatePluralExpression(expression: PluralExpression, n: number): number {
+  switch (expression.type) {
+    case "variable":
+      return n
+    case "number":
+      return expression.value
+    case "not":
+      return evaluatePluralExpression(expression.operand, n) === 0 ? 1 : 0
+    case "binary":
+      return OPERATORS[expression.operator](
+        evaluatePluralExpression(expression.left, n),
+        evaluatePluralExpression(expression.right, n)
+      )
+    case "conditional":
+      return evaluatePluralExpression(expression.test, n) !== 0
+        ? evaluatePluralExpression(expression.consequent, n)
+        : evaluatePluralExpression(expression.alternate, n)
+  }
+}
+
+/**
+ * Converts a parsed expression to JavaScript source reading the variable `n`.
+ */
+export function pluralExpressionToCode(expression: PluralExpression): string {
+  switch (expression.type) {
+    case "variable":
+      return "n"
+    case "number":
+      return String(expression.value)
+    case "not":
+      return `(${pluralExpressionToCode(expression.operand)} ? 0 : 1)`
+    case "binary":
+      return OPERATOR_CODE[expression.operator](
+        pluralExpressionToCode(expression.left),
+        pluralExpressionToCode(expression.right)
+      )
+    case "conditional":
+      return `(${pluralExpressionToCode(expression.test)} ? ${pluralExpressionToCode(expression.consequent)} : ${pluralExpressionToCode(expression.alternate)})`
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Canonical gettext Plural-Forms expressions for all CLDR locales.
+ *
+ * Generated from the CLDR 48 cardinal plural rules (cldr-core), evaluated for
+ * integer n. Indices follow the canonical CLDR category order, so msgstr[N]
+ * holds the N-th entry of `categories`. Categories that only apply to
+ * decimals (e.g. Russian "other") are left out, as gettext never selects
+ * them. For most locales this gives the nplurals of the GNU gettext
+ * headers. French, Spanish, Italian, Catalan and Portuguese have one more,
+ * nplurals=3 instead of 2, for the CLDR "many" form of exact millions.
+ */
+
+/**
+ * A Plural-Forms rule shared by one or more locales.
+ */
+export interface PluralFormsRule {
+  /** CLDR category of each msgstr index */
+  categories: readonly string[]
+  /** The plural= expression */
+  plural: string
+}
+
+/** Rules with the locales they apply to (space-separated) */
+const PLURAL_FORMS_TABLE: readonly (PluralFormsRule & { locales: string })[] = [
+  {
+    categories: ["other"],
+    plural: "0",
+    locales:
+      "bm bo dz hnj id ig ii ja jbo jv jw kde kea km ko lkt lo ms my nqo osa sah ses sg su th to tpi vi wo yo yue zh"
+  },
+  {
+    categories: ["one", "other"],
+    plural: "(n != 1)",
+    locales:
+      "af an asa ast az bal bem bez bg brx ce cgg chr ckb da de dv ee el en eo et eu fi fo fur fy gl gsw ha haw hu ia ie io jgo jmc ka kaj kcg kk kkj kl ks ksb ku ky lb lg lij mas mgo ml mn mr nah nb nd ne nl nn nnh no nr ny nyn om or os pap ps rm rof rwk saq sc sd sdh seh sn so sq ss ssy st sv sw syr ta te teo tig tk tn tr ts ug ur uz ve vo vun wae xh xog yi"
+  },
+  {
+    categories: ["one", "other"],
+    plural: "(n != 0 && n != 1)",
+    locales: "am as bn doi fa ff gu hi hy kab kn kok kok-Latn pcm si zu"
+  },
+  {
+    categories: ["one", "other"],
+    plural: "(n > 1)",
+    locales: "ak bho csw guw ln mg nso pa ti wa"
+  },
+  {
+    categories: ["one", "other"],
+    plural: "(n != 1 && n != 2 && n != 3 && (n % 10 == 4 || n % 10 == 6 || n % 10 == 9))",
+    locales: "ceb fil tl"
+  },
+  {
+    categories: ["one", "other"],
+    plural: "(n % 10 != 1 || n % 100 == 11)",
+    locales: "is mk"
+  },
+  {
+    categories: ["one", "other"],
+    plural: "(n > 1 && (n < 11 || n > 99))",
+    locales: "tzm"
+  },
+  {
+    categories: ["one", "two", "other"],
+    plural: "(n == 1 ? 0 : n == 2 ? 1 : 2)",
+    locales: "he iu naq sat se sma smi smj smn sms"
+  },
+  {
+    categories: ["one", "many", "other"],
+    plural: "(n == 1 ? 0 : n != 0 && n % 1000000 == 0 ? 1 : 2)",
+    locales: "ca es it lld pt-PT scn vec"
+  },
+  {
+    categories: ["one", "few", "other"],
+    plural:
+      "(n % 10 == 1 && n % 100 != 11 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2)",
+    locales: "bs hr sh sr"
+  },
+  {
+    categories: ["zero", "one", "other"],
+    plural: "(n == 0 ? 0 : n == 1 ? 1 : 2)",
+    locales: "blo cv ksh"
+  },
+  {
+    categories: ["zero", "one", "other"],
+    plural:
+      "(n % 10 == 0 || n % 100 >= 11 && n % 100 <= 19 ? 0 : n % 10 == 1 && n % 100 != 11 ? 1 : 2)",
+    locales: "lv prg"
+  },
+  {
+    categories: ["one", "few", "other"],
+    plural: "(n == 1 ? 0 : n == 0 || n != 1 && n % 100 >= 1 && n % 100 <= 19 ? 1 : 2)",
+    locales: "mo ro"
+  },
+  {
+    categories: ["one", "many", "other"],
+    plural: "(n == 0 || n == 1 ? 0 : n != 0 && n % 1000000 == 0 ? 1 : 2)",
+    locales: "fr"
+  },
+  {
+    categories: ["zero", "one", "other"],
+    plural: "(n == 0 ? 0 : (n == 0 || n == 1) && n != 0 ? 1 : 2)",
+    locales: "lag"
+  },
+  {
+    categories: ["one", "many", "other"],
+    plural: "(n <= 1 ? 0 : n != 0 && n % 1000000 == 0 ? 1 : 2)",
+    locales: "pt"
+  },
+  {
+    categories: ["one", "few", "other"],
+    plural: "(n == 0 || n == 1 ? 0 : n >= 2 && n <= 10 ? 1 : 2)",
+    locales: "shi"
+  },
+  {
+    categories: ["one", "few", "many"],
+    plural:
+      "(n % 10 == 1 && n % 100 != 11 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2)",
+    locales: "be ru uk"
+  },
+  {
+    categories: ["one", "two", "few", "other"],
+    plural: "(n % 100 == 1 ? 0 : n % 100 == 2 ? 1 : n % 100 >= 3 && n % 100 <= 4 ? 2 : 3)",
+    locales: "dsb hsb sl"
+  },
+  {
+    categories: ["one", "few", "other"],
+    plural: "(n == 1 ? 0 : n >= 2 && n <= 4 ? 1 : 2)",
+    locales: "cs sk"
+  },
+  {
+    categories: ["one", "two", "few", "other"],
+    plural:
+      "(n == 1 || n == 11 ? 0 : n == 2 || n == 12 ? 1 : n >= 3 && n <= 10 || n >= 13 && n <= 19 ? 2 : 3)",
+    locales: "gd"
+  },
+  {
+    categories: ["one", "few", "other"],
+    plural:
+      "(n % 10 == 1 && (n % 100 < 11 || n % 100 > 19) ? 0 : n % 10 >= 2 && n % 10 <= 9 && (n % 100 < 11 || n % 100 > 19) ? 1 : 2)",
+    locales: "lt"
+  },
+  {
+    categories: ["one", "few", "many"],
+    plural: "(n == 1 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2)",
+    locales: "pl"
+  },
+  {
+    categories: ["one", "two", "few", "many", "other"],
+    plural:
+      "(n % 10 == 1 && n % 100 != 11 && n % 100 != 71 && n % 100 != 91 ? 0 : n % 10 == 2 && n % 100 != 12 && n % 100 != 72 && n % 100 != 92 ? 1 : (n % 10 >= 3 && n % 10 <= 4 || n % 10 == 9) && (n % 100 < 10 || n % 100 > 19) && (n % 100 < 70 || n % 100 > 79) && (n % 100 < 90 || n % 100 > 99) ? 2 : n != 0 && n % 1000000 == 0 ? 3 : 4)",
+    locales: "br"
+  },
+  {
+    categories: ["one", "two", "few", "many", "other"],
+    plural: "(n == 1 ? 0 : n == 2 ? 1 : n >= 3 && n <= 6 ? 2 : n >= 7 && n <= 10 ? 3 : 4)",
+    locales: "ga"
+  },
+  {
+    categories: ["one", "two", "few", "other"],
+    plural:
+      "(n % 10 == 1 ? 0 : n % 10 == 2 ? 1 : n % 100 == 0 || n % 100 == 20 || n % 100 == 40 || n % 100 == 60 || n % 100 == 80 ? 2 : 3)",
+    locales: "gv"
+  },
+  {
+    categories: ["one", "two", "few", "many", "other"],
+    plural:
+      "(n == 1 ? 0 : n == 2 ? 1 : n == 0 || n % 100 >= 3 && n % 100 <= 10 ? 2 : n % 100 >= 11 && n % 100 <= 19 ? 3 : 4)",
+    locales: "mt"
+  },
+  {
+    categories: ["one", "two", "few", "other"],
+    plural:
+      "(n % 10 == 1 && n % 100 != 11 ? 0 : n == 2 ? 1 : n != 2 && n % 10 >= 2 && n % 10 <= 9 && (n % 100 < 11 || n % 100 > 19) ? 2 : 3)",
+    locales: "sgs"
+  },
+  {
+    categories: ["zero", "one", "two", "few", "many", "other"],
+    plural:
+      "(n == 0 ? 0 : n == 1 ? 1 : n == 2 ? 2 : n % 100 >= 3 && n % 100 <= 10 ? 3 : n % 100 >= 11 && n % 100 <= 99 ? 4 : 5)",
+    locales: "ar ars"
+  },
+  {
+    categories: ["zero", "one", "two", "few", "many", "other"],
+    plural: "(n == 0 ? 0 : n == 1 ? 1 : n == 2 ? 2 : n == 3 ? 3 : n == 6 ? 4 : 5)",
+    locales: "cy"
+  },
+  {
+    categories: ["zero", "one", "two", "few", "many", "other"],
+    plural:
+      "(n == 0 ? 0 : n == 1 ? 1 : n % 100 == 2 || n % 100 == 22 || n % 100 == 42 || n % 100 == 62 || n % 100 == 82 || n % 1000 == 0 && (n % 100000 >= 1000 && n % 100000 <= 20000 || n % 100000 == 40000 || n % 100000 == 60000 || n % 100000 == 80000) || n != 0 && n % 1000000 == 100000 ? 2 : n % 100 == 3 || n % 100 == 23 || n % 100 == 43 || n % 100 == 63 || n % 100 == 83 ? 3 : n != 1 && (n % 100 == 1 || n % 100 == 21 || n % 100 == 41 || n % 100 == 61 || n % 100 == 81) ? 4 : 5)",
+    locales: "kw"
+  }
+]
+
+/** Lazily built locale → rule lookup */
+let rulesByLocale: Map<string, PluralFormsRule> | undefined
+
+/**
+ * Finds the Plural-Forms rule for a locale, falling back from regional
+ * variants to the language (pt-PT → pt-PT, pt_BR → pt).
+ */
+export function findPluralFormsRule(locale: string): PluralFormsRule | undefined {
+  if (!rulesByLocale) {
+    rulesByLocale = new Map()
+    for (const rule of PLURAL_FORMS_TABLE) {
+      for (const name of rule.locales.split(" ")) {
+        rulesByLocale.set(name.toLowerCase(), rule)
+      }
+    }
+  }
+
+  const parts = locale.replace(/_/g, "-").toLowerCase().split("-")
+  while (parts.length > 0) {
+    const rule = rulesByLocale.get(parts.join("-"))
+    if (rule) {
+      return rule
+    }
+    parts.pop()
+  }
+  return undefined
+}
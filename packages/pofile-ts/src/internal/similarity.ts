@@ -0,0 +1,140 @@
+/**
+ * String similarity for fuzzy matching.
+ *
+ * Internal module. The measure follows GNU gettext's `fstrcmp`: twice the
+ * length of the longest common subsequence divided by the total length, so
+ * identical strings score 1 and strings without a common character score 0.
+ *
+ * Comparing a message with every other one is slow for large catalogs, so
+ * like msgmerge, candidates are first looked up in an index of character
+ * trigrams, and only the most promising ones are compared.
+ */
+
+/** Number of candidates `CandidateIndex.find` returns at most */
+const MAX_CANDIDATES = 50
+
+/**
+ * An index of texts by their character trigrams.
+ */
+export interface CandidateIndex<T> {
+  /** Adds an entry with the text it is compared by */
+  add: (entry: T, text: string) => void
+  /**
+   * Returns the entries most likely to reach a minimum similarity to a text,
+   * in the order they were added. Entries whose length rules out the
+   * minimum are left out.
+   */
+  find: (text: string, minimum: number) => T[]
+}
+
+/** Returns the distinct trigrams of a text */
+function getTrigrams(text: string): Set<string> {
+  const trigrams = new Set<string>()
+  for (let i = 0; i + 3 <= text.length; i++) {
+    trigrams.add(text.substring(i, i + 3))
+  }
+  return trigrams
+}
+
+/** Whether two lengths allow a similarity of at least `minimum` */
+function canReach(a: number, b: number, minimum: number): boolean {
+  return a + b === 0 || (2 * Math.min(a, b)) / (a + b) >= minimum
+}
+
+/**
+ * Creates an index for finding the candidates of fuzzy matches.
+ *
+ * Candidates are the entries sharing the most trigrams with the text,
+ * relative to their size. Short texts without trigrams are compared with
+ * all entries of a suitable length.
+ */
+export function createCandidateIndex<T>(): CandidateIndex<T> {
+  const entries: T[] = []
+  const lengths: number[] = []
+  const sizes: number[] = []
+  const postings = new Map<string, number[]>()
+
+  function add(entry: T, text: string): void {
+    const id = entries.length
+    const trigrams = getTrigrams(text)
+    entries.push(entry)
+    lengths.push(text.length)
+    sizes.push(trigrams.size)
+    for (const trigram of trigrams) {
+      const ids = postings.get(trigram)
+      if (ids) {
+        ids.push(id)
+      } else {
+        postings.set(trigram, [id])
+      }
+    }
+  }
+
+  /** Counts the trigrams each entry shares with a text */
+  function countShared(trigrams: Set<string>): Uint32Array {
+    const shared = new Uint32Array(entries.length)
+    for (const trigram of trigrams) {
+      for (const id of postings.get(trigram) ?? []) {
+        shared[id] = (shared[id] ?? 0) + 1
+      }
+    }
+    return shared
+  }
+
+  function find(text: string, minimum: number): T[] {
+    const trigrams = getTrigrams(text)
+    const shared = countShared(trigrams)
+    const scores: { id: number; score: number }[] = []
+    entries.forEach((_, id) => {
+      const count = shared[id] ?? 0
+      const size = sizes[id] ?? 0
+      const withoutTrigrams = trigrams.size === 0 || size === 0
+      if ((count > 0 || withoutTrigrams) && canReach(text.length, lengths[id] ?? 0, minimum)) {
+        scores.push({ id, score: (2 * count) / (trigrams.size + size || 1) })
+      }
+    })
+    return scores
+      .sort((a, b) => b.score - a.score || a.id - b.id)
+      .slice(0, MAX_CANDIDATES)
+      .map(({ id }) => id)
+      .sort((a, b) => a - b)
+      .map((id) => entries[id] as T)
+  }
+
+  return { add, find }
+}
+
+/**
+ * Returns the similarity of two strings, between 0 and 1.
+ *
+ * @param minimum - Pairs that cannot reach this score return 0 without a full comparison
+ *
+ * @example
+ * getSimilarity("Open file", "Open files") // 0.947...
+ */
+export function getSimilarity(a: string, b: string, minimum = 0): number {
+  if (a === b) {
+    return 1
+  }
+  const total = a.length + b.length
+  // The common subsequence is at most as long as the shorter string
+  if ((2 * Math.min(a.length, b.length)) / total < minimum) {
+    return 0
+  }
+  return (2 * getCommonSubsequenceLength(a, b)) / total
+}
+
+/** Length of the longest common subsequence, in O(a * b) time and O(b) memory */
+function getCommonSubsequenceLength(a: string, b: string): number {
+  const row = new Uint32Array(b.length + 1)
+  for (let i = 0; i < a.length; i++) {
+    const code = a.charCodeAt(i)
+    let diagonal = 0
+    for (let j = 0; j < b.length; j++) {
+      const above = row[j + 1] ?? 0
+      row[j + 1] = code === b.charCodeAt(j) ? diagonal + 1 : Math.max(above, row[j] ?? 0)
+      diagonal = above
+    }
+  }
+  return row[b.length] ?? 0
+}
@@ -64,3 +64,13 @@ export function extractString(line: string): string {
   const str = line.substring(firstQuote + 1, lastQuote)
   return unescapeString(str)
 }
+
+/**
+ * Escapes ICU syntax characters in literal text, for messages without tags
+ * or plurals: braces are quoted and apostrophes that would start or extend
+ * a quote are doubled.
+ */
+export function escapeIcu(text: string): string {
+  // Apostrophes next to braces, or before an apostrophe or argument, would start or extend a quote
+  return text.replace(/(?<=[{}])'|'(?=['{}]|$)/g, "''").replace(/[{}]+/g, (braces) => `'${braces}'`)
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest"
+import { escapeXml, parseXml } from "./xml"
+
+describe("parseXml", () => {
+  it("parses elements, attributes, text and references", () => {
+    expect(
+      parseXml(
+        `<?xml version="1.0"?>\r\n<a x='1' y="&quot;2&quot;"><b/>T&#233;&#x78;t<![CDATA[<c>]]></a>`
+      )
+    ).toEqual({
+      name: "a",
+      attributes: { x: "1", y: '"2"' },
+      children: [{ name: "b", attributes: {}, children: [] }, "Téxt<c>"]
+    })
+  })
+
+  it("keeps whitespace and normalizes line breaks", () => {
+    expect(parseXml("<a> x\r\n y </a>").children).toEqual([" x\n y "])
+  })
+
+  it("reports errors with their position", () => {
+    expect(() => parseXml("<a>\n  <b></a>")).toThrow(
+      "Invalid XML at line 2, column 9: expected </b>, found </a>"
+    )
+    expect(() => parseXml("<a>&nbsp;</a>")).toThrow(/unknown entity &nbsp;/)
+    expect(() => parseXml("<a/><b/>")).toThrow(/after the root element/)
+  })
+})
+
+describe("escapeXml", () => {
+  it("round-trips through parseXml", () => {
+    const text = "a < b && c > d\r\n\t\"quoted\" 'x'"
+
+    expect(parseXml(`<a v="${escapeXml(text, true)}">${escapeXml(text)}</a>`)).toMatchObject({
+      attributes: { v: text },
+      children: [text]
+    })
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Minimal XML support for translation exchange formats.
+ *
+ * Internal module. The parser builds a plain element tree, which is all
+ * TMX and XLIFF need: no namespaces, no DTD validation and no entities
+ * beyond the predefined and numeric ones. Whitespace is kept, since it is
+ * significant in segments.
+ */
+
+/**
+ * An XML element.
+ */
+export interface XmlElement {
+  /** Name as written, with any prefix */
+  name: string
+  attributes: Record<string, string>
+  /** Child elements and text, in document order; adjacent text is merged */
+  children: XmlNode[]
+}
+
+/**
+ * A node of the element tree: an element or text.
+ */
+export type XmlNode = XmlElement | string
+
+/** Parser position in the document */
+interface XmlState {
+  xml: string
+  pos: number
+}
+
+/** The predefined entities */
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'"
+}
+
+/** Matches the end of a name */
+const RE_NAME_END = /[\s/>=]/
+
+/** Throws an error at the current position */
+function fail(state: XmlState, message: string): never {
+  const before = state.xml.slice(0, state.pos).split("\n")
+  const line = before.length
+  const column = (before.at(-1)?.length ?? 0) + 1
+  throw new Error(`Invalid XML at line ${line}, column ${column}: ${message}`)
+}
+
+/** Decodes entity and character references */
+function decodeEntities(state: XmlState, text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g, (_, name: string) => {
+    if (name.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16))
+    }
+    if (name.startsWith("#")) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10))
+    }
+    return ENTITIES[name] ?? fail(state, `unknown entity &${name};`)
+  })
+}
+
+/** Advances past `end`, or fails */
+function skipPast(state: XmlState, end: string): void {
+  const index = state.xml.indexOf(end, state.pos)
+  if (index === -1) {
+    fail(state, `missing "${end}"`)
+  }
+  state.pos = index + end.length
+}
+
+/** Skips whitespace */
+function skipWhitespace(state: XmlState): void {
+  while (/\s/.test(state.xml[state.pos] ?? "")) {
+    state.pos++
+  }
+}
+
+/** Reads a name */
+function readName(state: XmlState): string {
+  const start = state.pos
+  while (state.pos < state.xml.length && !RE_NAME_END.test(state.xml[state.pos] ?? "")) {
+    state.pos++
+  }
+  if (state.pos === start) {
+    fail(state, "expected a name")
+  }
+  return state.xml.slice(start, state.pos)
+}
+
+/** Skips a document type declaration, including an internal subset */
+function skipDoctype(state: XmlState): void {
+  let depth = 0
+  while (state.pos < state.xml.length) {
+    const ch = state.xml[state.pos++]
+    if (ch === "[") {
+      depth++
+    } else if (ch === "]") {
+      depth--
+    } else if (ch === ">" && depth === 0) {
+      return
+    }
+  }
+  fail(state, "unterminated document type declaration")
+}
+
+/** Skips a comment, processing instruction or document type declaration; returns whether one was found */
+function skipMarkup(state: XmlState): boolean {
+  const { xml, pos } = state
+  if (xml.startsWith("<!--", pos)) {
+    skipPast(state, "-->")
+  } else if (xml.startsWith("<?", pos)) {
+    skipPast(state, "?>")
+  } else if (xml.startsWith("<!DOCTYPE", pos)) {
+    skipDoctype(state)
+  } else {
+    return false
+  }
+  return true
+}
+
+/** Reads an attribute value in quotes */
+function readAttributeValue(state: XmlState): string {
+  const quote = state.xml[state.pos]
+  if (quote !== '"' && quote !== "'") {
+    fail(state, "expected a quoted attribute value")
+  }
+  const end = state.xml.indexOf(quote, state.pos + 1)
+  if (end === -1) {
+    fail(state, "unterminated attribute value")
+  }
+  const value = state.xml.slice(state.pos + 1, end)
+  state.pos = end + 1
+  return decodeEntities(state, value)
+}
+
+/** Reads the attributes of a start tag; returns whether the element is empty */
+function readAttributes(state: XmlState, attributes: Record<string, string>): boolean {
+  for (;;) {
+    skipWhitespace(state)
+    if (state.xml.startsWith("/>", state.pos)) {
+      state.pos += 2
+      return true
+    }
+    if (state.xml[state.pos] === ">") {
+      state.pos++
+      return false
+    }
+    const name = readName(state)
+    skipWhitespace(state)
+    if (state.xml[state.pos] !== "=") {
+      fail(state, `expected "=" after attribute ${name}`)
+    }
+    state.pos++
+    skipWhitespace(state)
+    attributes[name] = readAttributeValue(state)
+  }
+}
+
+/** Adds text to the children of an element, merged with preceding text */
+function appendText(children: XmlNode[], text: string): void {
+  const last = children.at(-1)
+  if (typeof last === "string") {
+    children[children.length - 1] = last + text
+  } else if (text) {
+    children.push(text)
+  }
+}
+
+/** Reads an end tag, which must close `name` */
+function readEndTag(state: XmlState, name: string): void {
+  state.pos += 2
+  const end = readName(state)
+  if (end !== name) {
+    fail(state, `expected </${name}>, found </${end}>`)
+  }
+  skipWhitespace(state)
+  if (state.xml[state.pos] !== ">") {
+    fail(state, `expected ">" after </${end}`)
+  }
+  state.pos++
+}
+
+/** Reads a CDATA section */
+function readCdata(state: XmlState): string {
+  const start = state.pos + "<![CDATA[".length
+  skipPast(state, "]]>")
+  return state.xml.slice(start, state.pos - 3)
+}
+
+/** Reads the content of an element up to and including its end tag */
+function readContent(state: XmlState, element: XmlElement): void {
+  const { xml } = state
+  while (state.pos < xml.length) {
+    if (xml.startsWith("</", state.pos)) {
+      readEndTag(state, element.name)
+      return
+    }
+    if (xml.startsWith("<![CDATA[", state.pos)) {
+      appendText(element.children, readCdata(state))
+    } else if (xml[state.pos] === "<") {
+      if (!skipMarkup(state)) {
+        element.children.push(readElement(state))
+      }
+    } else {
+      const end = xml.indexOf("<", state.pos)
+      const text = xml.slice(state.pos, end === -1 ? xml.length : end)
+      state.pos += text.length
+      appendText(element.children, decodeEntities(state, text))
+    }
+  }
+  fail(state, `missing </${element.name}>`)
+}
+
+/** Reads an element */
+function readElement(state: XmlState): XmlElement {
+  state.pos++
+  const element: XmlElement = { name: readName(state), attributes: {}, children: [] }
+  if (!readAttributes(state, element.attributes)) {
+    readContent(state, element)
+  }
+  return element
+}
+
+/** Skips whitespace, comments and processing instructions outside the root element */
+function skipMisc(state: XmlState): void {
+  do {
+    skipWhitespace(state)
+  } while (skipMarkup(state))
+}
+
+/**
+ * Parses an XML document and returns its root element.
+ *
+ * @throws Error with line and column if the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+  const state: XmlState = { xml: xml.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n"), pos: 0 }
+  skipMisc(state)
+  if (state.xml[state.pos] !== "<") {
+    fail(state, "expected the root element")
+  }
+  const root = readElement(state)
+  skipMisc(state)
+  if (state.pos < state.xml.length) {
+    fail(state, "unexpected content after the root element")
+  }
+  return root
+}
+
+/**
+ * Escapes text for XML content, or for attribute values with `attribute`.
+ * Carriage returns, and in attributes tabs and line breaks, are written as
+ * character references so that XML parsers keep them.
+ */
+export function escapeXml(text: string, attribute = false): string {
+  const escaped = text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r/g, "&#13;")
+  return attribute
+    ? escaped.replace(/"/g, "&quot;").replace(/\n/g, "&#10;").replace(/\t/g, "&#9;")
+    : escaped
+}
+
+/** Returns the child elements of an element, optionally only those with a name */
+export function getChildElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== "string" && (name === undefined || child.name === name)
+  )
+}
+
+/** Returns the first child element with a name */
+export function getChildElement(element: XmlElement, name: string): XmlElement | undefined {
+  return getChildElements(element, name)[0]
+}
+
+/** Returns the text of an element and its descendants */
+export function getTextContent(element: XmlElement): string {
+  return element.children
+    .map((child) => (typeof child === "string" ? child : getTextContent(child)))
+    .join("")
+}
@@ -0,0 +1,245 @@
+import { describe, it, expect } from "vitest"
+import { lintPoFile, type LintRule } from "./lint"
+import { parsePo } from "./parse"
+
+const HEADER = `msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+`
+
+/** Parses entries after a German header */
+function parse(entries: string, header = HEADER) {
+  return parsePo(`${header}\n${entries}`)
+}
+
+/** Returns the rule ids of the findings for some entries */
+function lintRules(entries: string, header?: string) {
+  return lintPoFile(parse(entries, header)).map((finding) => finding.rule)
+}
+
+describe("lintPoFile", () => {
+  it("accepts good translations", () => {
+    const po = parse(`msgid "Hello {name}!"
+msgstr "Hallo {name}!"
+
+#, c-format
+msgid "%d file"
+msgid_plural "%d files"
+msgstr[0] "Eine Datei"
+msgstr[1] "%d Dateien"
+
+msgid "Read the <a>terms</a>."
+msgstr "Lies die <a>Bedingungen</a>."
+
+#, fuzzy
+msgid "New"
+msgstr ""
+
+#~ msgid "Old"
+#~ msgstr "Old"
+`)
+
+    expect(lintPoFile(po)).toEqual([])
+  })
+
+  it("checks ICU syntax and placeholders", () => {
+    const findings = lintPoFile(
+      parse(`msgid "Hello {name}"
+msgstr "Hallo {user}"
+
+msgid "{count, plural, one {# file} other {# files}}"
+msgstr "{count, plural, one {# Datei} other {# Dateien}"
+`)
+    )
+
+    expect(findings.map(({ rule, severity, msgid }) => ({ rule, severity, msgid }))).toEqual([
+      { rule: "icu-variables", severity: "error", msgid: "Hello {name}" },
+      {
+        rule: "icu-syntax",
+        severity: "error",
+        msgid: "{count, plural, one {# file} other {# files}}"
+      }
+    ])
+    expect(findings[0]?.suggestion).toBe("Add {name}, remove {user}")
+  })
+
+  it("checks printf conversions of c-format entries", () => {
+    const findings = lintPoFile(
+      parse(`#, c-format
+msgid "%s has %d files"
+msgstr "%s hat %s Dateien"
+
+#, c-format
+msgid "%1$s sent %2$d"
+msgstr "%2$d gesendet von %1$s"
+
+#, c-format
+msgid "Hello %s"
+msgstr "Hallo"
+`)
+    )
+
+    expect(findings.map(({ message, index }) => ({ message, index }))).toEqual([
+      { message: "%s (argument 2) should be %d", index: 0 },
+      { message: "%s (argument 1) is missing", index: 0 }
+    ])
+  })
+
+  it("checks whitespace, punctuation and line breaks", () => {
+    const findings = lintPoFile(
+      parse(`msgid "Name: "
+msgstr "Name:"
+
+msgid "Saved."
+msgstr "Gespeichert"
+
+msgid "Line one\\nLine two"
+msgstr "Zeile eins Zeile zwei"
+`)
+    )
+
+    expect(findings.map(({ rule, suggestion }) => [rule, suggestion])).toEqual([
+      ["whitespace", 'Let the translation end with " "'],
+      ["punctuation", 'End the translation with "." or its equivalent in this language'],
+      ["newlines", "Use 1 line breaks like the source"]
+    ])
+  })
+
+  it("allows equivalent punctuation", () => {
+    const entries = `msgid "Saved."
+msgstr "保存しました。"
+
+msgid "Really?"
+msgstr "本当に？"
+
+msgid "Loading..."
+msgstr "読み込み中…"
+`
+
+    expect(lintRules(entries)).toEqual([])
+  })
+
+  it("checks tags", () => {
+    const findings = lintPoFile(
+      parse(`msgid "Click <b>here</b><br/>"
+msgstr "Klicke <i>hier</i><br/>"
+`)
+    )
+
+    expect(findings).toMatchObject([
+      { rule: "tags", suggestion: "Add </b>, add <b>, remove </i>, remove <i>" }
+    ])
+  })
+
+  it("checks the number of plural forms against the header", () => {
+    const header = HEADER.replace(
+      "nplurals=2; plural=(n != 1)",
+      "nplurals=3; plural=(n%10==1 ? 0 : n%10>=2 ? 1 : 2)"
+    )
+
+    const findings = lintPoFile(
+      parse(
+        `msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} plik"
+msgstr[1] "{count} pliki"
+`,
+        header
+      )
+    )
+
+    expect(findings).toMatchObject([
+      {
+        rule: "plural-count",
+        message: "Has 2 plural forms, the language has 3",
+        suggestion: "Add 1 plural forms"
+      }
+    ])
+  })
+
+  it("reports untranslated entries that are not fuzzy and identical translations", () => {
+    expect(
+      lintRules(`msgid "Save"
+msgstr ""
+
+msgid "Cancel"
+msgstr "Cancel"
+
+msgid "OK"
+msgstr "OK"
+
+msgid "42"
+msgstr "42"
+`)
+    ).toEqual(["untranslated", "identical", "identical"])
+  })
+
+  it("configures rules globally and per locale", () => {
+    const po = parse(`msgid "Done."
+msgstr "Done"
+`)
+
+    expect(lintPoFile(po).map(({ rule, severity }) => [rule, severity])).toEqual([
+      ["punctuation", "warning"]
+    ])
+    expect(lintPoFile(po, { rules: { punctuation: "error" } })[0]?.severity).toBe("error")
+    expect(lintPoFile(po, { locales: { de: { punctuation: "off" } } })).toEqual([])
+    expect(
+      lintPoFile(po, {
+        locale: "de_AT",
+        rules: { punctuation: "off" },
+        locales: { de: { punctuation: "error" }, de_AT: { punctuation: "warning" } }
+      })[0]?.severity
+    ).toBe("warning")
+    expect(lintPoFile(po, { locale: "fr", locales: { de: { punctuation: "off" } } })).toHaveLength(
+      1
+    )
+  })
+
+  it("suppresses rules with lint-ignore flags", () => {
+    expect(
+      lintRules(`#, lint-ignore
+msgid "Hello {name}"
+msgstr "Hallo"
+
+#, lint-ignore:identical
+msgid "Version"
+msgstr "Version"
+
+#, lint-ignore:whitespace
+msgid "Name: "
+msgstr "Name"
+`)
+    ).toEqual(["punctuation"])
+  })
+
+  it("runs custom rules with the file context", () => {
+    const maxLength: LintRule = {
+      id: "max-length",
+      severity: "warning",
+      check: (item, context) =>
+        item.msgstr.some((msgstr) => msgstr.length > item.msgid.length * 2)
+          ? [{ message: `Too long for ${context.locale ?? "?"}`, suggestion: "Shorten it" }]
+          : []
+    }
+
+    const findings = lintPoFile(
+      parse(`msgid "Save"
+msgstr "Abspeichern"
+`),
+      { customRules: [maxLength], locales: { de: { "max-length": "error" } } }
+    )
+
+    expect(findings).toMatchObject([
+      {
+        rule: "max-length",
+        severity: "error",
+        msgctxt: null,
+        msgid: "Save",
+        message: "Too long for de"
+      }
+    ])
+    expect(findings[0]?.item.msgstr).toEqual(["Abspeichern"])
+  })
+})
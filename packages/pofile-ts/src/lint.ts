@@ -0,0 +1,496 @@
+/**
+ * Translation QA: checks translations against their source for problems
+ * that parse fine but break or degrade the UI.
+ *
+ * Rules are plain objects, so projects can add their own next to the
+ * built-in ones and configure them per locale.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { getMessageFormat } from "./flags"
+import { parsePluralForms } from "./plurals"
+import { compareVariables, hasIcuSyntax, validateIcu } from "./icu/utils"
+
+/**
+ * Severity of a finding.
+ */
+export type LintSeverity = "error" | "warning"
+
+/**
+ * Configured severity of a rule; "off" disables it.
+ */
+export type LintRuleSetting = LintSeverity | "off"
+
+/**
+ * A problem reported by a rule's `check`.
+ */
+export interface LintProblem {
+  /** What is wrong */
+  message: string
+  /** How to fix it */
+  suggestion: string
+  /** The msgstr index the problem is in, if it concerns a single msgstr */
+  index?: number
+}
+
+/**
+ * A problem found in an item.
+ */
+export interface LintFinding extends LintProblem {
+  /** Id of the rule that reported it */
+  rule: string
+  severity: LintSeverity
+  msgctxt: string | null
+  msgid: string
+  item: PoItem
+}
+
+/**
+ * Information about the file an item is checked in.
+ */
+export interface LintContext {
+  /** Locale the rules are configured for */
+  locale: string | undefined
+  /** nplurals of the Plural-Forms header, or of the item without one */
+  nplurals: number
+}
+
+/**
+ * A lint rule.
+ */
+export interface LintRule {
+  /** Unique id, used in configuration and `lint-ignore:<id>` flags */
+  id: string
+  /** Severity unless configured otherwise */
+  severity: LintSeverity
+  /** Checks an active item with a msgid; returns its problems */
+  check: (item: PoItem, context: LintContext) => LintProblem[]
+}
+
+/**
+ * Options for `lintPoFile`.
+ */
+export interface LintPoFileOptions {
+  /** Severity by rule id, e.g. `{ identical: "off", untranslated: "error" }` */
+  rules?: Record<string, LintRuleSetting>
+
+  /**
+   * Severity by rule id for specific locales, applied over `rules`. Keys are
+   * locales ("pt_BR") or languages ("pt"); both apply, the locale last.
+   */
+  locales?: Record<string, Record<string, LintRuleSetting>>
+
+  /** Rules to run in addition to the built-in ones */
+  customRules?: LintRule[]
+
+  /** Locale of the file (default: the Language header) */
+  locale?: string
+}
+
+/** Flag that suppresses all rules for an item; `lint-ignore:<id>` suppresses one */
+const IGNORE_FLAG = "lint-ignore"
+
+/** Matches a printf conversion specification, capturing position and conversion */
+const RE_PRINTF =
+  /%(?:(\d+)\$)?[-+ #0']*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|L|q|j|z|t|I64|I32|I)?([diouxXeEfFgGaAcspnCS%])/g
+
+/** Matches a tag (`<b>`, `</b>`, `<br/>`, `<0>`), capturing closing slash, name and self-closing slash */
+const RE_TAG = /<(\/?)([A-Za-z][\w.:-]*|\d+)(?:\s[^<>]*?)?\s*(\/?)>/g
+
+/** Characters considered end punctuation, mapped to a class shared by their equivalents */
+const END_PUNCTUATION: Record<string, string> = {
+  ".": ".",
+  "。": ".",
+  "।": ".",
+  "۔": ".",
+  "!": "!",
+  "！": "!",
+  "?": "?",
+  "？": "?",
+  "؟": "?",
+  ";": ";",
+  "；": ";",
+  ":": ":",
+  "：": ":",
+  "…": "…"
+}
+
+/** Returns the class of a text's final punctuation, or null */
+function getEndPunctuation(text: string): string | null {
+  const trimmed = text.trimEnd()
+  if (trimmed.endsWith("...")) {
+    return "…"
+  }
+  return END_PUNCTUATION[trimmed.slice(-1)] ?? null
+}
+
+/** Calls `check` for each non-empty msgstr with its source message */
+function checkTranslations(
+  item: PoItem,
+  check: (source: string, translation: string, index: number) => LintProblem | null
+): LintProblem[] {
+  const problems: LintProblem[] = []
+  item.msgstr.forEach((translation, index) => {
+    const source = index > 0 ? (item.msgid_plural ?? item.msgid) : item.msgid
+    const problem = translation ? check(source, translation, index) : null
+    if (problem) {
+      problems.push({ ...problem, index })
+    }
+  })
+  return problems
+}
+
+/** Whether an item's messages are ICU MessageFormat */
+function isIcuItem(item: PoItem): boolean {
+  const format = getMessageFormat(item)
+  return format === "icu" || (format === null && hasIcuSyntax(item.msgid))
+}
+
+/** Returns the printf conversions of a text by argument position */
+function getPrintfConversions(text: string): Map<number, string> {
+  const conversions = new Map<number, string>()
+  let next = 1
+  for (const match of text.matchAll(RE_PRINTF)) {
+    const conversion = match[2] ?? ""
+    if (conversion !== "%") {
+      conversions.set(match[1] ? Number(match[1]) : next++, conversion)
+    }
+  }
+  return conversions
+}
+
+/** Formats a printf argument for messages, like "%d (argument 1)" */
+function formatPrintfArgument(position: number, conversion: string): string {
+  return `%${conversion} (argument ${position})`
+}
+
+/** Compares the printf conversions of a translation with its source */
+function comparePrintf(source: string, translation: string, plural: boolean): LintProblem | null {
+  const expected = getPrintfConversions(source)
+  const actual = getPrintfConversions(translation)
+  for (const [position, conversion] of actual) {
+    const wanted = expected.get(position)
+    if (wanted !== conversion) {
+      const found = formatPrintfArgument(position, conversion)
+      return wanted === undefined
+        ? { message: `${found} is not in the source`, suggestion: `Remove ${found}` }
+        : {
+            message: `${found} should be %${wanted}`,
+            suggestion: `Use %${wanted} for argument ${position}`
+          }
+    }
+  }
+  // Plural forms may leave out the count, e.g. "One file" for "%d files"
+  const missing = [...expected].find(([position]) => !plural && !actual.has(position))
+  return missing
+    ? {
+        message: `${formatPrintfArgument(...missing)} is missing`,
+        suggestion: `Add %${missing[1]} to the translation`
+      }
+    : null
+}
+
+/** Returns the tags of a text, without attributes, sorted */
+function getTags(text: string): string[] {
+  return Array.from(text.matchAll(RE_TAG), ([, close, name, selfClosing]) =>
+    selfClosing ? `<${name}/>` : `<${close}${name}>`
+  ).sort()
+}
+
+/** Returns the elements of `a` that are not in `b`, respecting duplicates */
+function subtract(a: string[], b: string[]): string[] {
+  const rest = [...b]
+  return a.filter((value) => {
+    const index = rest.indexOf(value)
+    if (index === -1) {
+      return true
+    }
+    rest.splice(index, 1)
+    return false
+  })
+}
+
+/** Returns leading or trailing whitespace of a text */
+function getWhitespace(text: string, end: boolean): string {
+  return (end ? /\s*$/ : /^\s*/).exec(text)?.[0] ?? ""
+}
+
+/** Describes whitespace for messages */
+function describeWhitespace(whitespace: string): string {
+  return whitespace ? JSON.stringify(whitespace) : "no whitespace"
+}
+
+/** Compares the whitespace at one end of a translation with its source */
+function compareWhitespace(source: string, translation: string, end: boolean): LintProblem | null {
+  const expected = getWhitespace(source, end)
+  const actual = getWhitespace(translation, end)
+  if (expected === actual) {
+    return null
+  }
+  const [side, verb] = end ? ["trailing", "end"] : ["leading", "start"]
+  return {
+    message: `Source has ${side} ${describeWhitespace(expected)}, translation has ${describeWhitespace(actual)}`,
+    suggestion: expected
+      ? `Let the translation ${verb} with ${describeWhitespace(expected)}`
+      : `Remove the ${side} whitespace`
+  }
+}
+
+/** Counts the line breaks of a text */
+function countNewlines(text: string): number {
+  return text.split("\n").length - 1
+}
+
+/** Describes values to add and remove, like "Add {name}, remove {user}" */
+function describeChanges(missing: string[], extra: string[]): string {
+  const changes = [
+    ...missing.map((value) => `add ${value}`),
+    ...extra.map((value) => `remove ${value}`)
+  ].join(", ")
+  return changes.charAt(0).toUpperCase() + changes.slice(1)
+}
+
+/** Checks that ICU translations parse */
+function checkIcuSyntax(item: PoItem): LintProblem[] {
+  if (!isIcuItem(item)) {
+    return []
+  }
+  return checkTranslations(item, (_, translation) => {
+    const error = validateIcu(translation, { requiresOtherClause: false }).errors[0]
+    return error
+      ? { message: `Invalid ICU message: ${error.message}`, suggestion: "Fix the ICU syntax" }
+      : null
+  })
+}
+
+/** Checks that ICU translations use the placeholders of the source */
+function checkIcuVariables(item: PoItem): LintProblem[] {
+  if (!isIcuItem(item)) {
+    return []
+  }
+  return checkTranslations(item, (source, translation) => {
+    const { missing, extra, isMatch } = compareVariables(source, translation)
+    const format = (name: string): string => `{${name}}`
+    // Translations that do not parse are reported by icu-syntax
+    return isMatch || !validateIcu(translation, { requiresOtherClause: false }).valid
+      ? null
+      : {
+          message: "Placeholders differ from the source",
+          suggestion: describeChanges(missing.map(format), extra.map(format))
+        }
+  })
+}
+
+/** Checks that c-format translations use the conversions of the source */
+function checkPrintf(item: PoItem): LintProblem[] {
+  if (getMessageFormat(item) !== "c") {
+    return []
+  }
+  return checkTranslations(item, (source, translation) =>
+    comparePrintf(source, translation, item.msgid_plural !== null)
+  )
+}
+
+/** Checks that translations have the tags of the source */
+function checkTags(item: PoItem): LintProblem[] {
+  return checkTranslations(item, (source, translation) => {
+    const expected = getTags(source)
+    const actual = getTags(translation)
+    const missing = subtract(expected, actual)
+    const extra = subtract(actual, expected)
+    return missing.length === 0 && extra.length === 0
+      ? null
+      : { message: "Tags differ from the source", suggestion: describeChanges(missing, extra) }
+  })
+}
+
+/** Checks that plural entries have one msgstr per plural form */
+function checkPluralCount(item: PoItem, context: LintContext): LintProblem[] {
+  const count = item.msgstr.length
+  const { nplurals } = context
+  if (item.msgid_plural === null || count === nplurals) {
+    return []
+  }
+  return [
+    {
+      message: `Has ${count} plural forms, the language has ${nplurals}`,
+      suggestion:
+        count < nplurals
+          ? `Add ${nplurals - count} plural forms`
+          : `Remove ${count - nplurals} plural forms`
+    }
+  ]
+}
+
+/** Checks that leading and trailing whitespace match the source */
+function checkWhitespace(item: PoItem): LintProblem[] {
+  return checkTranslations(
+    item,
+    (source, translation) =>
+      compareWhitespace(source, translation, false) ?? compareWhitespace(source, translation, true)
+  )
+}
+
+/** Checks that final punctuation matches the source */
+function checkPunctuation(item: PoItem): LintProblem[] {
+  return checkTranslations(item, (source, translation) => {
+    const expected = getEndPunctuation(source)
+    const actual = getEndPunctuation(translation)
+    if (expected === actual) {
+      return null
+    }
+    return expected
+      ? {
+          message: `Source ends with "${expected}", translation does not`,
+          suggestion: `End the translation with "${expected}" or its equivalent in this language`
+        }
+      : {
+          message: `Translation ends with "${actual ?? ""}", source does not`,
+          suggestion: "Remove the final punctuation"
+        }
+  })
+}
+
+/** Checks that translations have as many line breaks as the source */
+function checkNewlines(item: PoItem): LintProblem[] {
+  return checkTranslations(item, (source, translation) => {
+    const expected = countNewlines(source)
+    const actual = countNewlines(translation)
+    return expected === actual
+      ? null
+      : {
+          message: `Source has ${expected} line breaks, translation has ${actual}`,
+          suggestion: `Use ${expected} line breaks like the source`
+        }
+  })
+}
+
+/** Checks that untranslated entries are marked fuzzy */
+function checkUntranslated(item: PoItem): LintProblem[] {
+  if (item.flags.fuzzy || item.msgstr.every((msgstr) => msgstr !== "")) {
+    return []
+  }
+  return [
+    {
+      message: "Not translated and not marked fuzzy",
+      suggestion: "Translate the message, or mark it fuzzy until it is"
+    }
+  ]
+}
+
+/** Checks that translations differ from the source */
+function checkIdentical(item: PoItem): LintProblem[] {
+  return checkTranslations(item, (source, translation) =>
+    source === translation && /\p{L}/u.test(source)
+      ? {
+          message: "Translation is the same as the source",
+          suggestion: `Translate the message, or add "#, ${IGNORE_FLAG}:identical" if it is the same in this language`
+        }
+      : null
+  )
+}
+
+/** The built-in rules, in the order findings are reported */
+const BUILTIN_RULES: LintRule[] = [
+  { id: "icu-syntax", severity: "error", check: checkIcuSyntax },
+  { id: "icu-variables", severity: "error", check: checkIcuVariables },
+  { id: "printf", severity: "error", check: checkPrintf },
+  { id: "tags", severity: "error", check: checkTags },
+  { id: "plural-count", severity: "error", check: checkPluralCount },
+  { id: "whitespace", severity: "warning", check: checkWhitespace },
+  { id: "punctuation", severity: "warning", check: checkPunctuation },
+  { id: "newlines", severity: "warning", check: checkNewlines },
+  { id: "untranslated", severity: "warning", check: checkUntranslated },
+  { id: "identical", severity: "warning", check: checkIdentical }
+]
+
+/** Returns the nplurals of the Plural-Forms header, if valid */
+function getHeaderNplurals(po: PoFile): number | null {
+  const nplurals = parseInt(parsePluralForms(po.headers["Plural-Forms"]).nplurals ?? "", 10)
+  return nplurals > 0 ? nplurals : null
+}
+
+/** Returns the configured severity of each rule for a locale */
+function getSettings(
+  options: LintPoFileOptions,
+  locale: string | undefined
+): Record<string, LintRuleSetting> {
+  const language = locale?.split(/[-_@]/)[0]
+  const locales = options.locales ?? {}
+  return {
+    ...options.rules,
+    ...(language === undefined ? {} : locales[language]),
+    ...(locale === undefined || locale === language ? {} : locales[locale])
+  }
+}
+
+/** Whether an item suppresses a rule with a `lint-ignore` flag */
+function isIgnored(item: PoItem, rule: string): boolean {
+  return item.flags[IGNORE_FLAG] === true || item.flags[`${IGNORE_FLAG}:${rule}`] === true
+}
+
+/** Runs the enabled rules on an item */
+function lintItem(
+  item: PoItem,
+  rules: LintRule[],
+  settings: Record<string, LintRuleSetting>,
+  context: LintContext
+): LintFinding[] {
+  const findings: LintFinding[] = []
+  for (const rule of rules) {
+    const severity = settings[rule.id] ?? rule.severity
+    if (severity === "off" || isIgnored(item, rule.id)) {
+      continue
+    }
+    for (const problem of rule.check(item, context)) {
+      const { msgctxt, msgid } = item
+      findings.push({ rule: rule.id, severity, msgctxt, msgid, item, ...problem })
+    }
+  }
+  return findings
+}
+
+/**
+ * Checks the translations of a PO file.
+ *
+ * Built-in rules:
+ *
+ * - `icu-syntax` (error): ICU translations must parse
+ * - `icu-variables` (error): ICU translations must use the placeholders of the source
+ * - `printf` (error): `c-format` translations must use the conversions of the source
+ * - `tags` (error): translations must have the tags of the source
+ * - `plural-count` (error): plural entries need as many msgstr as the language has plural forms
+ * - `whitespace` (warning): leading and trailing whitespace must match the source
+ * - `punctuation` (warning): final punctuation must match the source, allowing
+ *   equivalents like "。" for "."
+ * - `newlines` (warning): translations must have as many line breaks as the source
+ * - `untranslated` (warning): untranslated entries should be marked fuzzy
+ * - `identical` (warning): translations should differ from the source
+ *
+ * Obsolete entries and the header are not checked. A `#, lint-ignore` flag
+ * suppresses all rules for an entry, `#, lint-ignore:<rule>` a single one.
+ *
+ * @example
+ * const findings = lintPoFile(po, {
+ *   rules: { identical: "off" },
+ *   locales: { ja: { punctuation: "off" } }
+ * })
+ * for (const finding of findings) {
+ *   console.log(`${finding.severity} ${finding.rule}: ${finding.msgid}: ${finding.message}`)
+ * }
+ */
+export function lintPoFile(po: PoFile, options: LintPoFileOptions = {}): LintFinding[] {
+  const locale = options.locale ?? po.headers.Language
+  const settings = getSettings(options, locale)
+  const nplurals = getHeaderNplurals(po)
+  const rules = [...BUILTIN_RULES, ...(options.customRules ?? [])]
+  const findings: LintFinding[] = []
+
+  for (const item of po.items) {
+    if (!item.obsolete && item.msgid) {
+      const context: LintContext = { locale, nplurals: nplurals ?? item.nplurals }
+      findings.push(...lintItem(item, rules, settings, context))
+    }
+  }
+  return findings
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest"
+import { parsePo } from "./parse"
+import { getPoPosition, mapIcuLocation } from "./location"
+import { validateIcu } from "./icu/index"
+import type { PoItemLocation, PoStringLocation } from "./types"
+
+function locate(input: string, index = 0): PoItemLocation {
+  const location = parsePo(input, { locations: true }).items[index]?.location
+  if (!location) {
+    throw new Error("Expected item location")
+  }
+  return location
+}
+
+function msgstrLocation(input: string): PoStringLocation {
+  const location = locate(input).msgstr[0]
+  if (!location) {
+    throw new Error("Expected msgstr location")
+  }
+  return location
+}
+
+describe("locations", () => {
+  it("are not attached by default", () => {
+    const po = parsePo('msgid "a"\nmsgstr "b"')
+
+    expect(po.items[0]?.location).toBeUndefined()
+    expect(po.diagnostics).toBeUndefined()
+  })
+
+  it("do not change the parsed items otherwise", () => {
+    const input = '# c\nmsgid "a"\nmsgstr "b"\n\nmsgid "c"\nmsgid_plural "d"\nmsgstr[0] "e"'
+    const items = parsePo(input, { locations: true }).items.map(({ location: _, ...rest }) => rest)
+
+    expect(items).toEqual(parsePo(input).items)
+  })
+
+  it("records item ranges including comments", () => {
+    const input = `msgid ""
+msgstr ""
+"Language: de\\n"
+
+# Translator comment
+#: src/app.ts:1
+msgid "Open"
+msgstr "Öffnen"
+
+
+msgid "Close"
+msgstr ""
+"Schließen"`
+
+    expect(locate(input, 0)).toMatchObject({ startLine: 5, endLine: 8 })
+    expect(locate(input, 1)).toMatchObject({ startLine: 11, endLine: 13 })
+  })
+
+  it("records keyword and string positions", () => {
+    const location = locate('msgctxt "menu"\nmsgid "Open"\n  msgstr "Öffnen"')
+
+    expect(location.msgctxt).toEqual({
+      keyword: { line: 1, column: 1 },
+      segments: [{ line: 1, column: 10, offset: 0, raw: "menu" }]
+    })
+    expect(location.msgid?.keyword).toEqual({ line: 2, column: 1 })
+    expect(location.msgstr[0]).toEqual({
+      keyword: { line: 3, column: 3 },
+      segments: [{ line: 3, column: 11, offset: 0, raw: "Öffnen" }]
+    })
+  })
+
+  it("records continuation segments with their offsets", () => {
+    const location = msgstrLocation('msgid "a"\nmsgstr ""\n"Line\\n"\n"two"')
+
+    expect(location.segments).toEqual([
+      { line: 2, column: 9, offset: 0, raw: "" },
+      { line: 3, column: 2, offset: 0, raw: "Line\\n" },
+      { line: 4, column: 2, offset: 5, raw: "two" }
+    ])
+  })
+
+  it("records plural forms by index", () => {
+    const location = locate(
+      'msgid "file"\nmsgid_plural "files"\nmsgstr[0] "Datei"\nmsgstr[1] "Dateien"'
+    )
+
+    expect(location.msgid_plural?.keyword).toEqual({ line: 2, column: 1 })
+    expect(location.msgstr.map((msgstr) => msgstr.keyword.line)).toEqual([3, 4])
+  })
+
+  it("records positions of obsolete items after the marker", () => {
+    const location = locate('msgid "a"\nmsgstr "b"\n\n#~ msgid "c"\n#~ msgstr "d"\n\nmsgid "e"', 1)
+
+    expect(location).toMatchObject({ startLine: 4, endLine: 5 })
+    expect(location.msgid?.segments[0]).toMatchObject({ line: 4, column: 11 })
+  })
+
+  it("works together with diagnostics", () => {
+    const po = parsePo('msgid "a"\nmsgstr "b"\n\nmsgid "a"\nmsgstr "c"', {
+      diagnostics: true,
+      locations: true
+    })
+
+    expect(po.diagnostics).toEqual([expect.objectContaining({ code: "DUPLICATE_ENTRY", line: 4 })])
+    expect(po.items[1]?.location?.startLine).toBe(4)
+  })
+})
+
+describe("getPoPosition", () => {
+  it("maps offsets within a single line", () => {
+    const location = msgstrLocation('msgid "a"\nmsgstr "Hallo Welt"')
+
+    expect(getPoPosition(location, 0)).toEqual({ line: 2, column: 9 })
+    expect(getPoPosition(location, 6)).toEqual({ line: 2, column: 15 })
+  })
+
+  it("accounts for escape sequences", () => {
+    const location = msgstrLocation('msgid "a"\nmsgstr "\\"x\\" \\101\\x42 y"')
+
+    // Value is: "x" AB y
+    expect(getPoPosition(location, 1)).toEqual({ line: 2, column: 11 })
+    expect(getPoPosition(location, 4)).toEqual({ line: 2, column: 15 })
+    expect(getPoPosition(location, 5)).toEqual({ line: 2, column: 19 })
+    expect(getPoPosition(location, 7)).toEqual({ line: 2, column: 24 })
+  })
+
+  it("maps offsets across continuation lines", () => {
+    const location = msgstrLocation('msgid "a"\nmsgstr ""\n"first "\n  "second"')
+
+    expect(getPoPosition(location, 0)).toEqual({ line: 3, column: 2 })
+    expect(getPoPosition(location, 6)).toEqual({ line: 4, column: 4 })
+    expect(getPoPosition(location, 9)).toEqual({ line: 4, column: 7 })
+  })
+
+  it("maps the end offset to the position after the last character", () => {
+    const location = msgstrLocation('msgid "a"\nmsgstr "abc"')
+
+    expect(getPoPosition(location, 3)).toEqual({ line: 2, column: 12 })
+    expect(getPoPosition(location, 99)).toEqual({ line: 2, column: 12 })
+  })
+
+  it("falls back to the keyword when there is no string", () => {
+    expect(getPoPosition({ keyword: { line: 3, column: 1 }, segments: [] }, 0)).toEqual({
+      line: 3,
+      column: 1
+    })
+  })
+})
+
+describe("mapIcuLocation", () => {
+  it("maps ICU validation errors to PO positions", () => {
+    const input = 'msgid "a"\nmsgstr ""\n"Hi {name} "\n"{count, foo}"'
+    const item = parsePo(input, { locations: true }).items[0]
+    const location = item?.location?.msgstr[0]
+    const [error] = validateIcu(item?.msgstr[0] ?? "").errors
+    if (!location || !error) {
+      throw new Error("Expected a location and a validation error")
+    }
+
+    expect(error.location.start.offset).toBe(10)
+    expect(mapIcuLocation(location, error.location)).toEqual({
+      start: { line: 4, column: 2 },
+      end: { line: 4, column: 2 }
+    })
+  })
+})
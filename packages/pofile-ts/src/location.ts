@@ -0,0 +1,82 @@
+/**
+ * Utilities for mapping offsets in parsed strings back to PO file positions.
+ *
+ * Works with the locations attached by `parsePo(content, { locations: true })`.
+ */
+
+import type { IcuLocation } from "./icu/types"
+import type { PoLocation, PoPosition, PoStringLocation, PoStringSegment } from "./types"
+import { RE_UNESCAPE } from "./internal/constants"
+import { unescapeString } from "./internal/utils"
+
+/** Sticky variant of the unescape regex, matches an escape at `lastIndex` */
+const RE_ESCAPE_AT = new RegExp(RE_UNESCAPE.source, "y")
+
+/** Finds the segment that contains an offset of the unescaped value */
+function findSegment(segments: PoStringSegment[], offset: number): PoStringSegment | undefined {
+  for (const segment of segments) {
+    if (offset < segment.offset + unescapeString(segment.raw).length) {
+      return segment
+    }
+  }
+  return segments.at(-1)
+}
+
+/**
+ * Converts an offset in an unescaped string value to a PO file position.
+ *
+ * Escape sequences are accounted for, so the column points at the escaped
+ * text as written in the file. Offsets past the end map to the position
+ * right after the last character.
+ *
+ * @param location - Location of a keyword, e.g. `item.location.msgstr[0]`
+ * @param offset - Offset in UTF-16 code units within the unescaped value
+ *
+ * @example
+ * const po = parsePo(content, { locations: true })
+ * const item = po.items[0]
+ * const pos = getPoPosition(item.location.msgid, 4)
+ * // { line: 12, column: 11 }
+ */
+export function getPoPosition(location: PoStringLocation, offset: number): PoPosition {
+  const segment = findSegment(location.segments, offset)
+  if (!segment) {
+    return { ...location.keyword }
+  }
+
+  let rawIndex = 0
+  let valueIndex = segment.offset
+  while (valueIndex < offset && rawIndex < segment.raw.length) {
+    RE_ESCAPE_AT.lastIndex = rawIndex
+    const escape = RE_ESCAPE_AT.exec(segment.raw)
+    rawIndex += escape ? escape[0].length : 1
+    valueIndex++
+  }
+
+  return { line: segment.line, column: segment.column + rawIndex }
+}
+
+/**
+ * Maps an ICU location (e.g. from a `validateIcu` error) to a PO file range.
+ *
+ * @param location - Location of the string the ICU message was parsed from
+ * @param icuLocation - Location reported by the ICU parser
+ *
+ * @example
+ * const po = parsePo(content, { locations: true })
+ * for (const item of po.items) {
+ *   const msgstr = item.location?.msgstr[0]
+ *   for (const error of validateIcu(item.msgstr[0] ?? "").errors) {
+ *     if (msgstr) {
+ *       const { start } = mapIcuLocation(msgstr, error.location)
+ *       console.log(`${start.line}:${start.column} ${error.message}`)
+ *     }
+ *   }
+ * }
+ */
+export function mapIcuLocation(location: PoStringLocation, icuLocation: IcuLocation): PoLocation {
+  return {
+    start: getPoPosition(location, icuLocation.start.offset),
+    end: getPoPosition(location, icuLocation.end.offset)
+  }
+}
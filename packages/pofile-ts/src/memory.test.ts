@@ -0,0 +1,213 @@
+import { describe, it, expect } from "vitest"
+import { createTranslationMemory } from "./memory"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+
+const GERMAN = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "Save changes"
+msgstr "Änderungen speichern"
+
+msgctxt "verb"
+msgid "Open"
+msgstr "Öffnen"
+
+msgctxt "adjective"
+msgid "Open"
+msgstr "Offen"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} Datei"
+msgstr[1] "{count} Dateien"
+
+#, fuzzy
+msgid "Delete"
+msgstr "Löschen"
+
+msgid "Cancel"
+msgstr ""
+
+#~ msgid "Close"
+#~ msgstr "Schließen"
+`)
+
+/** Creates a memory with the German file */
+function createMemory() {
+  const memory = createTranslationMemory()
+  memory.add(GERMAN)
+  return memory
+}
+
+describe("createTranslationMemory", () => {
+  it("indexes reviewed translations only", () => {
+    const memory = createMemory()
+
+    expect(memory.size).toBe(4)
+    expect(memory.lookup("Delete", { locale: "de" })).toEqual([])
+    expect(memory.lookup("Close", { locale: "de" })).toEqual([])
+  })
+
+  it("skips translations already in the memory", () => {
+    const memory = createMemory()
+    memory.add(GERMAN)
+
+    expect(memory.size).toBe(4)
+  })
+
+  it("finds exact matches, the same context first", () => {
+    const memory = createMemory()
+
+    expect(
+      memory
+        .lookup("Open", { locale: "de", msgctxt: "adjective" })
+        .map(({ type, msgstr }) => [type, msgstr])
+    ).toEqual([
+      ["context", ["Offen"]],
+      ["exact", ["Öffnen"]]
+    ])
+  })
+
+  it("finds similar messages by score", () => {
+    const memory = createMemory()
+
+    const matches = memory.lookup("Save all changes", { locale: "de" })
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({
+      type: "fuzzy",
+      msgid: "Save changes",
+      msgstr: ["Änderungen speichern"]
+    })
+    expect(matches[0]?.score).toBeCloseTo(0.857, 3)
+    expect(memory.lookup("Save all changes", { locale: "de", minScore: 0.9 })).toEqual([])
+  })
+
+  it("finds similar messages in a large memory", () => {
+    const memory = createTranslationMemory()
+    const entries = Array.from(
+      { length: 2000 },
+      (_, i) => `msgid "Delete the file ${i} from the project"\nmsgstr "Datei ${i} löschen"`
+    )
+    memory.add(parsePo(`msgid ""\nmsgstr ""\n"Language: de\\n"\n\n${entries.join("\n\n")}`))
+    memory.add(GERMAN)
+
+    expect(memory.lookup("Save all changes", { locale: "de" })[0]?.msgid).toBe("Save changes")
+    expect(memory.lookup("Delete the file 7 from a project", { locale: "de" })).toHaveLength(5)
+  })
+
+  it("compares plural sources", () => {
+    const memory = createMemory()
+
+    expect(
+      memory.lookup("{count} file", { locale: "de", msgid_plural: "{count} files" })[0]?.type
+    ).toBe("context")
+    expect(memory.lookup("{count} file", { locale: "de", minScore: 0.5 })[0]?.type).toBe("fuzzy")
+    expect(memory.lookup("{count} file", { locale: "de" })).toEqual([])
+  })
+
+  it("keeps locale pairs apart", () => {
+    const memory = createTranslationMemory()
+    memory.add(GERMAN)
+    memory.add(GERMAN, { locale: "de-AT", sourceLocale: "en-US" })
+
+    expect(memory.size).toBe(8)
+    expect(memory.lookup("Save changes", { locale: "fr" })).toEqual([])
+    expect(memory.lookup("Save changes", { locale: "de_AT" })).toEqual([])
+    expect(memory.lookup("Save changes", { locale: "de_AT", sourceLocale: "en_US" })).toHaveLength(
+      1
+    )
+  })
+
+  it("requires a locale", () => {
+    const memory = createTranslationMemory()
+
+    expect(() => {
+      memory.add(parsePo('msgid "A"\nmsgstr "B"\n'))
+    }).toThrow(/without a locale/)
+  })
+
+  it("prefills untranslated entries as fuzzy suggestions", () => {
+    const memory = createMemory()
+    const po = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "Save changes"
+msgstr ""
+
+msgid "Save your changes"
+msgstr ""
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] ""
+msgstr[1] ""
+
+msgid "Cancel"
+msgstr "Abbrechen"
+
+msgid "Unknown"
+msgstr ""
+`)
+
+    const result = memory.prefill(po)
+
+    expect(stringifyPo(result)).toContain(`#@ origin: TM
+#@ score: 1.00
+#, fuzzy
+msgid "Save changes"
+msgstr "Änderungen speichern"
+
+#@ origin: TM
+#@ score: 0.83
+#, fuzzy
+#| msgid "Save changes"
+msgid "Save your changes"
+msgstr "Änderungen speichern"
+
+#@ origin: TM
+#@ score: 1.00
+#, fuzzy
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} Datei"
+msgstr[1] "{count} Dateien"
+
+msgid "Cancel"
+msgstr "Abbrechen"
+
+msgid "Unknown"
+msgstr ""
+`)
+    expect(po.items[0]?.msgstr).toEqual([""])
+
+    po.items[0]!.flags = { fuzzy: false }
+    expect(memory.prefill(po).items[0]?.flags).toEqual({ fuzzy: true })
+  })
+
+  it("fits plural translations to the plural forms of the file", () => {
+    const memory = createMemory()
+    const po = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n==2 ? 1 : 2);\\n"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] ""
+msgstr[1] ""
+msgstr[2] ""
+`)
+
+    expect(memory.prefill(po).items[0]?.msgstr).toEqual([
+      "{count} Datei",
+      "{count} Dateien",
+      "{count} Dateien"
+    ])
+  })
+})
@@ -0,0 +1,342 @@
+/**
+ * Translation memory: reuses translations from existing PO files for new
+ * messages, in-process.
+ *
+ * Translations are indexed per locale pair. Lookups return exact matches,
+ * with the same msgctxt first, then similar messages scored like
+ * `msgmerge` fuzzy matching.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { parsePluralForms } from "./plurals"
+import { createCandidateIndex, getSimilarity, type CandidateIndex } from "./internal/similarity"
+
+/**
+ * Options for `createTranslationMemory`.
+ */
+export interface TranslationMemoryOptions {
+  /** Locale of the source messages (msgid) of added files (default: "en") */
+  sourceLocale?: string
+}
+
+/**
+ * Options for `TranslationMemory.add`.
+ */
+export interface TranslationMemoryAddOptions {
+  /** Locale of the translations (default: the Language header) */
+  locale?: string
+  /** Locale of the source messages (default: the memory's `sourceLocale`) */
+  sourceLocale?: string
+}
+
+/**
+ * Options for `TranslationMemory.lookup`.
+ */
+export interface TranslationMemoryLookupOptions {
+  /** Locale to find translations in */
+  locale: string
+  /** Locale of the message (default: the memory's `sourceLocale`) */
+  sourceLocale?: string
+  /** Context of the message; exact matches with the same msgctxt come first */
+  msgctxt?: string | null
+  /** Plural source of the message */
+  msgid_plural?: string | null
+  /** Minimum similarity (0–1) of fuzzy matches (default: 0.75) */
+  minScore?: number
+  /** Maximum number of matches (default: 5) */
+  limit?: number
+}
+
+/**
+ * Options for `TranslationMemory.prefill`.
+ */
+export interface TranslationMemoryPrefillOptions {
+  /** Locale of the file (default: the Language header) */
+  locale?: string
+  /** Locale of the source messages (default: the memory's `sourceLocale`) */
+  sourceLocale?: string
+  /** Minimum similarity (0–1) of fuzzy matches (default: 0.75) */
+  minScore?: number
+  /** Record the msgctxt, msgid and msgid_plural of inexact matches (#|) (default: true) */
+  previous?: boolean
+}
+
+/**
+ * A translation found in the memory.
+ */
+export interface TranslationMatch {
+  /**
+   * - `"context"`: same msgid, msgid_plural and msgctxt
+   * - `"exact"`: same msgid and msgid_plural, different msgctxt
+   * - `"fuzzy"`: similar msgid and msgid_plural
+   */
+  type: "context" | "exact" | "fuzzy"
+  /** Similarity of the source messages, 1 for exact matches */
+  score: number
+  msgctxt: string | null
+  msgid: string
+  msgid_plural: string | null
+  msgstr: string[]
+}
+
+/**
+ * An in-process translation memory.
+ */
+export interface TranslationMemory {
+  /** Number of indexed translations */
+  readonly size: number
+
+  /**
+   * Indexes the translated entries of a PO file. Fuzzy, obsolete and
+   * incompletely translated entries are skipped, as are translations
+   * already in the memory.
+   */
+  add: (po: PoFile, options?: TranslationMemoryAddOptions) => void
+
+  /** Finds translations of a message, best first */
+  lookup: (msgid: string, options: TranslationMemoryLookupOptions) => TranslationMatch[]
+
+  /**
+   * Returns a copy of a PO file with its untranslated entries filled from
+   * the best match, marked `fuzzy` and with `origin` and `score` metadata.
+   */
+  prefill: (po: PoFile, options?: TranslationMemoryPrefillOptions) => PoFile
+}
+
+/** Metadata origin of prefilled translations */
+const ORIGIN = "TM"
+
+/** A translation in the memory */
+interface MemoryUnit {
+  msgctxt: string | null
+  msgid: string
+  msgid_plural: string | null
+  msgstr: string[]
+  /** The compared source text, msgid and msgid_plural */
+  text: string
+}
+
+/** The translations of a locale pair */
+interface MemoryIndex {
+  /** Units by source text */
+  bySource: Map<string, MemoryUnit[]>
+  /** Keys of the units, to skip duplicates */
+  keys: Set<string>
+  /** Units by trigrams of their source text, for fuzzy lookups */
+  candidates: CandidateIndex<MemoryUnit>
+}
+
+/** Returns a locale with underscores, so "pt-BR" and "pt_BR" are the same */
+function normalizeLocale(locale: string): string {
+  return locale.replace(/-/g, "_")
+}
+
+/** Returns the key of a locale pair */
+function getPairKey(sourceLocale: string, locale: string): string {
+  return `${normalizeLocale(sourceLocale)}\u0000${normalizeLocale(locale)}`
+}
+
+/** Returns the text compared in lookups */
+function getSourceText(msgid: string, plural: string | null): string {
+  return plural === null ? msgid : `${msgid}\u0000${plural}`
+}
+
+/** Whether an entry has a complete, reviewed translation */
+function isReusable(item: PoItem): boolean {
+  return (
+    !item.obsolete &&
+    !item.flags.fuzzy &&
+    item.msgid !== "" &&
+    item.msgstr.length > 0 &&
+    item.msgstr.every((msgstr) => msgstr !== "")
+  )
+}
+
+/** Creates a match of a unit */
+function createMatch(
+  unit: MemoryUnit,
+  type: TranslationMatch["type"],
+  score: number
+): TranslationMatch {
+  const { msgctxt, msgid, msgid_plural, msgstr } = unit
+  return { type, score, msgctxt, msgid, msgid_plural, msgstr: [...msgstr] }
+}
+
+/** Returns the exact matches of a source text, the same context first */
+function findExact(index: MemoryIndex, text: string, msgctxt: string | null): TranslationMatch[] {
+  const units = index.bySource.get(text) ?? []
+  return [
+    ...units
+      .filter((unit) => unit.msgctxt === msgctxt)
+      .map((unit) => createMatch(unit, "context", 1)),
+    ...units.filter((unit) => unit.msgctxt !== msgctxt).map((unit) => createMatch(unit, "exact", 1))
+  ]
+}
+
+/** Returns the fuzzy matches of a source text, best first; on equal scores, the same context first */
+function findFuzzy(
+  index: MemoryIndex,
+  text: string,
+  msgctxt: string | null,
+  minScore: number
+): TranslationMatch[] {
+  const matches: TranslationMatch[] = []
+  for (const unit of index.candidates.find(text, minScore)) {
+    const score = unit.text === text ? 0 : getSimilarity(text, unit.text, minScore)
+    if (score > 0 && score >= minScore) {
+      matches.push(createMatch(unit, "fuzzy", score))
+    }
+  }
+  const rank = (match: TranslationMatch): number => (match.msgctxt === msgctxt ? 0 : 1)
+  return matches.sort((a, b) => b.score - a.score || rank(a) - rank(b))
+}
+
+/** Returns the number of plural forms of a file, defaulting to 2 */
+function getFileNplurals(po: PoFile): number {
+  const nplurals = parseInt(parsePluralForms(po.headers["Plural-Forms"]).nplurals ?? "", 10)
+  return nplurals > 0 ? nplurals : 2
+}
+
+/** Fits a translation to the plural forms of an entry */
+function fitMsgstr(item: PoItem, msgstr: string[], nplurals: number): string[] {
+  if (item.msgid_plural === null) {
+    return [msgstr[0] ?? ""]
+  }
+  return Array.from({ length: nplurals }, (_, i) => msgstr[i] ?? msgstr.at(-1) ?? "")
+}
+
+/** Fills an untranslated entry from a match */
+function applyMatch(
+  item: PoItem,
+  match: TranslationMatch,
+  nplurals: number,
+  previous: boolean
+): PoItem {
+  const filled: PoItem = {
+    ...item,
+    msgstr: fitMsgstr(item, match.msgstr, nplurals),
+    flags: { ...item.flags, fuzzy: true },
+    metadata: { ...item.metadata, origin: ORIGIN, score: match.score.toFixed(2) }
+  }
+  if (previous && match.type !== "context") {
+    filled.previousMsgctxt = match.msgctxt
+    filled.previousMsgid = match.msgid
+    filled.previousMsgidPlural = match.msgid_plural
+  }
+  return filled
+}
+
+/**
+ * Creates an in-process translation memory, filled from existing PO files
+ * with `add`.
+ *
+ * Translations are kept per locale pair: the source locale of the msgid
+ * and the locale of the msgstr. Lookups compare msgid and msgid_plural;
+ * exact matches with the same msgctxt rank first, then exact matches with
+ * another msgctxt, then similar messages by score. Similarity is measured
+ * like `msgmerge` fuzzy matching, from 0 to 1.
+ *
+ * @example
+ * const memory = createTranslationMemory()
+ * for (const app of ["web", "admin", "mobile"]) {
+ *   memory.add(parsePo(fs.readFileSync(`apps/${app}/locales/de.po`, "utf8")))
+ * }
+ *
+ * memory.lookup("Save changes", { locale: "de" })
+ * // → [{ type: "exact", score: 1, msgid: "Save changes", msgstr: ["Änderungen speichern"], ... }]
+ *
+ * const draft = memory.prefill(parsePo(fs.readFileSync("apps/new/locales/de.po", "utf8")))
+ */
+export function createTranslationMemory(options: TranslationMemoryOptions = {}): TranslationMemory {
+  const defaultSourceLocale = options.sourceLocale ?? "en"
+  const indexes = new Map<string, MemoryIndex>()
+  let size = 0
+
+  function getIndex(sourceLocale: string | undefined, locale: string): MemoryIndex {
+    const key = getPairKey(sourceLocale ?? defaultSourceLocale, locale)
+    let index = indexes.get(key)
+    if (!index) {
+      index = { bySource: new Map(), keys: new Set(), candidates: createCandidateIndex() }
+      indexes.set(key, index)
+    }
+    return index
+  }
+
+  function addItem(index: MemoryIndex, item: PoItem): void {
+    const { msgctxt, msgid, msgid_plural } = item
+    const key = JSON.stringify([msgctxt, msgid, msgid_plural, item.msgstr])
+    if (index.keys.has(key)) {
+      return
+    }
+    const text = getSourceText(msgid, msgid_plural)
+    const unit: MemoryUnit = { msgctxt, msgid, msgid_plural, msgstr: [...item.msgstr], text }
+    index.keys.add(key)
+    index.candidates.add(unit, text)
+    index.bySource.set(text, [...(index.bySource.get(text) ?? []), unit])
+    size++
+  }
+
+  function add(po: PoFile, addOptions: TranslationMemoryAddOptions = {}): void {
+    const locale = addOptions.locale ?? po.headers.Language
+    if (!locale) {
+      throw new Error("Cannot add a PO file without a locale: set the Language header or `locale`")
+    }
+    const index = getIndex(addOptions.sourceLocale, locale)
+    for (const item of po.items) {
+      if (isReusable(item)) {
+        addItem(index, item)
+      }
+    }
+  }
+
+  function lookup(
+    msgid: string,
+    lookupOptions: TranslationMemoryLookupOptions
+  ): TranslationMatch[] {
+    const { locale, sourceLocale, msgctxt = null, minScore = 0.75, limit = 5 } = lookupOptions
+    const index = indexes.get(getPairKey(sourceLocale ?? defaultSourceLocale, locale))
+    if (!index) {
+      return []
+    }
+    const text = getSourceText(msgid, lookupOptions.msgid_plural ?? null)
+    const exact = findExact(index, text, msgctxt)
+    const fuzzy = exact.length < limit ? findFuzzy(index, text, msgctxt, minScore) : []
+    return [...exact, ...fuzzy].slice(0, limit)
+  }
+
+  function prefill(po: PoFile, prefillOptions: TranslationMemoryPrefillOptions = {}): PoFile {
+    const { sourceLocale, minScore, previous = true } = prefillOptions
+    const locale = prefillOptions.locale ?? po.headers.Language
+    if (!locale) {
+      throw new Error(
+        "Cannot prefill a PO file without a locale: set the Language header or `locale`"
+      )
+    }
+    const nplurals = getFileNplurals(po)
+    const items = po.items.map((item) => {
+      if (item.obsolete || !item.msgid || item.msgstr.some((msgstr) => msgstr !== "")) {
+        return item
+      }
+      const { msgctxt, msgid_plural } = item
+      const [match] = lookup(item.msgid, {
+        locale,
+        sourceLocale,
+        msgctxt,
+        msgid_plural,
+        minScore,
+        limit: 1
+      })
+      return match ? applyMatch(item, match, nplurals, previous) : item
+    })
+    return { ...po, items }
+  }
+
+  return {
+    get size() {
+      return size
+    },
+    add,
+    lookup,
+    prefill
+  }
+}
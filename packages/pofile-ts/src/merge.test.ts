@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest"
+import { mergePoThreeWay } from "./merge"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+
+const BASE = `msgid ""
+msgstr ""
+"Language: de\\n"
+"PO-Revision-Date: 2024-01-01 10:00+0000\\n"
+
+#: src/a.ts:1
+msgid "Hello"
+msgstr "Hallo"
+
+#, fuzzy
+msgid "Save"
+msgstr "Sichern"
+
+msgid "Cancel"
+msgstr "Abbrechen"
+
+msgid "Delete"
+msgstr "Löschen"
+`
+
+/** Parses BASE with some replacements applied */
+function edit(...replacements: [string, string][]) {
+  let content = BASE
+  for (const [search, replace] of replacements) {
+    content = content.replace(search, replace)
+  }
+  return parsePo(content)
+}
+
+describe("mergePoThreeWay", () => {
+  it("merges changes to different entries", () => {
+    const ours = edit(['msgstr "Hallo"', 'msgstr "Servus"'])
+    const theirs = edit(['msgstr "Abbrechen"', 'msgstr "Verwerfen"'])
+
+    const { po, conflicts } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(conflicts).toEqual([])
+    expect(po.items.map((item) => item.msgstr[0])).toEqual([
+      "Servus",
+      "Sichern",
+      "Verwerfen",
+      "Löschen"
+    ])
+  })
+
+  it("merges flags, references and metadata field by field", () => {
+    const ours = edit(["#, fuzzy\n", ""], ["#: src/a.ts:1\n", "#: src/a.ts:1\n#: src/b.ts:2\n"])
+    const theirs = edit(
+      ['#, fuzzy\nmsgid "Save"', '#@ origin: LLM\n#, fuzzy, c-format\nmsgid "Save"'],
+      ["#: src/a.ts:1\n", "#: src/c.ts:3\n"]
+    )
+
+    const { po, conflicts } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(conflicts).toEqual([])
+    expect(po.items[0]?.references).toEqual(["src/b.ts:2", "src/c.ts:3"])
+    expect(po.items[1]?.flags).toEqual({ "c-format": true })
+    expect(po.items[1]?.metadata).toEqual({ origin: "LLM" })
+  })
+
+  it("treats missing range and previous fields as unset", () => {
+    const ours = edit()
+    for (const item of ours.items) {
+      delete item.range
+      delete item.previousMsgid
+    }
+    const theirs = edit(['#, fuzzy\nmsgid "Save"', '#, fuzzy\n#| msgid "Store"\nmsgid "Save"'])
+
+    const { po } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(po.items[1]?.previousMsgid).toBe("Store")
+    expect(po.items[1]?.range).toBeNull()
+  })
+
+  it("reports translations changed differently on both sides", () => {
+    const ours = edit(['msgstr "Sichern"', 'msgstr "Speichern"'])
+    const theirs = edit(['msgstr "Sichern"', 'msgstr "Abspeichern"'])
+
+    const { po, conflicts } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(conflicts.map((conflict) => conflict.msgid)).toEqual(["Save"])
+    expect(conflicts[0]?.base?.msgstr).toEqual(["Sichern"])
+    expect(conflicts[0]?.theirs.msgstr).toEqual(["Abspeichern"])
+    expect(po.items[1]?.msgstr).toEqual(["Speichern"])
+    expect(po.items[1]?.comments).toEqual([])
+  })
+
+  it("does not report the same change on both sides", () => {
+    const ours = edit(['msgstr "Sichern"', 'msgstr "Speichern"'])
+    const theirs = edit(['msgstr "Sichern"', 'msgstr "Speichern"'], ["#, fuzzy\n", ""])
+
+    const { po, conflicts } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(conflicts).toEqual([])
+    expect(po.items[1]?.flags).toEqual({})
+  })
+
+  it("marks conflicts as fuzzy entries with both candidates", () => {
+    const ours = edit(['msgstr "Sichern"', 'msgstr "Speichern"'])
+    const theirs = edit(['msgstr "Sichern"', 'msgstr "Abspeichern"'])
+
+    const { po } = mergePoThreeWay(parsePo(BASE), ours, theirs, { markConflicts: true })
+    const output = stringifyPo(po)
+
+    expect(output).toContain(`# merge conflict, ours: "Speichern"
+# merge conflict, theirs: "Abspeichern"
+#, fuzzy
+msgid "Save"
+msgstr "Speichern"`)
+    expect(parsePo(output).items).toHaveLength(4)
+  })
+
+  it("adds and deletes entries", () => {
+    const ours = edit(['msgid "Delete"\nmsgstr "Löschen"\n', 'msgid "Open"\nmsgstr "Öffnen"\n'])
+    const theirs = edit([
+      'msgid "Cancel"\nmsgstr "Abbrechen"\n',
+      'msgid "Close"\nmsgstr "Schließen"\n'
+    ])
+
+    const { po } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(po.items.map((item) => item.msgid)).toEqual(["Hello", "Save", "Open", "Close"])
+  })
+
+  it("keeps entries deleted on one side but changed on the other", () => {
+    const ours = edit(['msgid "Delete"\nmsgstr "Löschen"\n', ""])
+    const theirs = edit(['msgstr "Löschen"', 'msgstr "Entfernen"'])
+
+    const { po } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(po.items.at(-1)?.msgstr).toEqual(["Entfernen"])
+  })
+
+  it("reports entries added on both sides with different translations", () => {
+    const ours = edit(['msgid "Delete"', 'msgid "Open"\nmsgstr "Öffnen"\n\nmsgid "Delete"'])
+    const theirs = edit(['msgid "Delete"', 'msgid "Open"\nmsgstr "Aufmachen"\n\nmsgid "Delete"'])
+
+    const { conflicts } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(conflicts.map((conflict) => [conflict.msgid, conflict.base])).toEqual([["Open", null]])
+  })
+
+  it("keeps and merges duplicate entries", () => {
+    const duplicate = 'msgid "Delete"\nmsgstr "Löschen"\n\nmsgid "Delete"\nmsgstr "Entfernen"\n'
+    const base = edit(['msgid "Delete"\nmsgstr "Löschen"\n', duplicate])
+    const ours = edit([
+      'msgid "Delete"\nmsgstr "Löschen"\n',
+      duplicate.replace('"Entfernen"', '"Beseitigen"')
+    ])
+    const theirs = edit([
+      'msgid "Delete"\nmsgstr "Löschen"\n',
+      duplicate.replace('"Löschen"', '"Tilgen"') + '\nmsgid "Delete"\nmsgstr "Streichen"\n'
+    ])
+
+    const { po, conflicts } = mergePoThreeWay(base, ours, theirs)
+
+    expect(po.items.filter((item) => item.msgid === "Delete").map((item) => item.msgstr)).toEqual([
+      ["Tilgen"],
+      ["Beseitigen"],
+      ["Streichen"]
+    ])
+    expect(conflicts).toEqual([])
+  })
+
+  it("merges headers", () => {
+    const ours = edit(["2024-01-01 10:00", "2024-02-01 10:00"])
+    const theirs = edit(['"Language: de\\n"\n', '"Language: de\\n"\n"X-Generator: Poedit\\n"\n'])
+
+    const { po } = mergePoThreeWay(parsePo(BASE), ours, theirs)
+
+    expect(po.headers).toMatchObject({
+      "PO-Revision-Date": "2024-02-01 10:00+0000",
+      "X-Generator": "Poedit"
+    })
+  })
+
+  it("keeps the original text of entries changed on one side only", () => {
+    const base = parsePo(BASE, { preserveSource: true })
+    const ours = parsePo(BASE.replace('msgstr "Hallo"', 'msgstr ""\n"Hal"\n"lo!"'), {
+      preserveSource: true
+    })
+    const theirs = parsePo(BASE.replace('msgstr "Löschen"', 'msgstr "Entfernen"'), {
+      preserveSource: true
+    })
+
+    const { po } = mergePoThreeWay(base, ours, theirs)
+
+    expect(stringifyPo(po)).toContain('msgstr ""\n"Hal"\n"lo!"')
+    expect(stringifyPo(po)).toContain('msgstr "Entfernen"')
+  })
+
+  it("separates our new entries from entries taken from theirs", () => {
+    const ours = parsePo(`${BASE}\nmsgid "Open"\nmsgstr "Öffnen"\n`, { preserveSource: true })
+    const theirs = parsePo(BASE.replace('msgstr "Löschen"', 'msgstr "Entfernen"'), {
+      preserveSource: true
+    })
+
+    const { po } = mergePoThreeWay(parsePo(BASE, { preserveSource: true }), ours, theirs)
+
+    expect(stringifyPo(po)).toContain('msgstr "Entfernen"\n\nmsgid "Open"\nmsgstr "Öffnen"\n')
+  })
+})
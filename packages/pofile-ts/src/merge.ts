@@ -0,0 +1,290 @@
+/**
+ * Three-way merging of PO files, for git merge drivers.
+ *
+ * Entries are matched by msgctxt and msgid and merged field by field, so
+ * changes to different entries, or to different fields of one entry, never
+ * conflict. Only translations changed differently on both sides do.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { createItem } from "./Item"
+import { getItemKey, indexItems } from "./internal/itemKey"
+import { snapshotItem } from "./internal/lossless"
+
+/**
+ * Options for `mergePoThreeWay`.
+ */
+export interface MergePoThreeWayOptions {
+  /**
+   * Mark conflicting entries in the merged file: they keep our translation,
+   * get both candidates as translator comments and are flagged fuzzy. The
+   * file stays valid PO, so translators can resolve conflicts in their
+   * editor (default: false)
+   */
+  markConflicts?: boolean
+}
+
+/**
+ * An entry whose translation was changed differently on both sides.
+ */
+export interface PoMergeConflict {
+  msgctxt: string | null
+  msgid: string
+  /** The entry in the common ancestor, null if added on both sides */
+  base: PoItem | null
+  ours: PoItem
+  theirs: PoItem
+}
+
+/**
+ * Result of `mergePoThreeWay`.
+ */
+export interface PoMergeResult {
+  /** The merged file; conflicting entries have our translation */
+  po: PoFile
+  /** Translation conflicts, in file order */
+  conflicts: PoMergeConflict[]
+}
+
+/** Whether two values have the same content */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Merges a value changed on either side; on conflict, ours wins */
+function mergeValue<T>(base: T, ours: T, theirs: T): T {
+  return isEqual(ours, base) ? theirs : ours
+}
+
+/** Merges an optional item field, treating a missing value as null */
+function mergeOptional<T>(
+  base: T | null | undefined,
+  ours: T | null | undefined,
+  theirs: T | null | undefined
+): T | null {
+  return mergeValue(base ?? null, ours ?? null, theirs ?? null)
+}
+
+/** Whether a value was changed differently on both sides */
+function isConflict<T>(base: T, ours: T, theirs: T): boolean {
+  return !isEqual(ours, base) && !isEqual(theirs, base) && !isEqual(ours, theirs)
+}
+
+/**
+ * Merges a list: values removed on either side are removed, values added by
+ * them are appended to ours.
+ */
+function mergeList(base: string[], ours: string[], theirs: string[]): string[] {
+  const merged = ours.filter((value) => !base.includes(value) || theirs.includes(value))
+  for (const value of theirs) {
+    if (!base.includes(value) && !merged.includes(value)) {
+      merged.push(value)
+    }
+  }
+  return merged
+}
+
+/** Merges a record key by key; keys removed on either side are removed */
+function mergeRecord<T>(
+  base: Partial<Record<string, T>>,
+  ours: Partial<Record<string, T>>,
+  theirs: Partial<Record<string, T>>
+): Record<string, T> {
+  const merged: Record<string, T> = {}
+  for (const key of new Set([...Object.keys(ours), ...Object.keys(theirs)])) {
+    const value = mergeValue(base[key], ours[key], theirs[key])
+    if (value !== undefined) {
+      merged[key] = value
+    }
+  }
+  return merged
+}
+
+/** Merges an entry present on both sides field by field */
+function mergeFields(base: PoItem, ours: PoItem, theirs: PoItem): PoItem {
+  return {
+    ...ours,
+    references: mergeList(base.references, ours.references, theirs.references),
+    msgid_plural: mergeValue(base.msgid_plural, ours.msgid_plural, theirs.msgid_plural),
+    msgstr: mergeValue(base.msgstr, ours.msgstr, theirs.msgstr),
+    comments: mergeList(base.comments, ours.comments, theirs.comments),
+    extractedComments: mergeList(
+      base.extractedComments,
+      ours.extractedComments,
+      theirs.extractedComments
+    ),
+    flags: mergeRecord(base.flags, ours.flags, theirs.flags),
+    range: mergeOptional(base.range, ours.range, theirs.range),
+    metadata: mergeRecord(base.metadata, ours.metadata, theirs.metadata),
+    previousMsgctxt: mergeOptional(
+      base.previousMsgctxt,
+      ours.previousMsgctxt,
+      theirs.previousMsgctxt
+    ),
+    previousMsgid: mergeOptional(base.previousMsgid, ours.previousMsgid, theirs.previousMsgid),
+    previousMsgidPlural: mergeOptional(
+      base.previousMsgidPlural,
+      ours.previousMsgidPlural,
+      theirs.previousMsgidPlural
+    ),
+    obsolete: mergeValue(base.obsolete, ours.obsolete, theirs.obsolete),
+    nplurals: mergeValue(base.nplurals, ours.nplurals, theirs.nplurals)
+  }
+}
+
+/** Formats a translation for a conflict comment */
+function formatTranslation(item: PoItem): string {
+  return item.msgstr.length === 1 ? JSON.stringify(item.msgstr[0]) : JSON.stringify(item.msgstr)
+}
+
+/** Marks a conflicting entry with both candidates */
+function markConflict(item: PoItem, conflict: PoMergeConflict): void {
+  item.comments = [
+    ...item.comments,
+    `merge conflict, ours: ${formatTranslation(conflict.ours)}`,
+    `merge conflict, theirs: ${formatTranslation(conflict.theirs)}`
+  ]
+  item.flags = { ...item.flags, fuzzy: true }
+}
+
+/**
+ * Merges an entry present on both sides.
+ * Unchanged sides are taken as they are, keeping their original text.
+ */
+function mergeEntry(
+  base: PoItem | undefined,
+  ours: PoItem,
+  theirs: PoItem,
+  options: MergePoThreeWayOptions,
+  conflicts: PoMergeConflict[]
+): PoItem {
+  const ancestor = base ?? createItem()
+  const snapshot = snapshotItem(ours)
+  if (snapshotItem(theirs) === snapshotItem(ancestor) || snapshotItem(theirs) === snapshot) {
+    return ours
+  }
+  if (snapshot === snapshotItem(ancestor)) {
+    return theirs
+  }
+  const item = mergeFields(ancestor, ours, theirs)
+  if (isConflict(ancestor.msgstr, ours.msgstr, theirs.msgstr)) {
+    const conflict = { msgctxt: ours.msgctxt, msgid: ours.msgid, base: base ?? null, ours, theirs }
+    conflicts.push(conflict)
+    if (options.markConflicts) {
+      markConflict(item, conflict)
+    }
+  }
+  return item
+}
+
+/**
+ * Returns an entry present on one side only, or undefined if it was deleted
+ * there and not changed on the other side.
+ */
+function keepEntry(base: PoItem | undefined, item: PoItem): PoItem | undefined {
+  return base && snapshotItem(base) === snapshotItem(item) ? undefined : item
+}
+
+/**
+ * Indexes items by key like `indexItems`, in file order. Further entries
+ * with the same key are indexed by their occurrence, so that duplicates are
+ * merged with the duplicates of the other sides instead of being dropped.
+ */
+function indexAllItems(items: PoItem[]): Map<string, PoItem> {
+  const first = new Set(indexItems(items).values())
+  const occurrences = new Map<string, number>()
+  const index = new Map<string, PoItem>()
+  for (const item of items) {
+    const key = getItemKey(item)
+    if (first.has(item)) {
+      index.set(key, item)
+    } else {
+      const occurrence = (occurrences.get(key) ?? 0) + 1
+      occurrences.set(key, occurrence)
+      index.set(`${key}#${occurrence}`, item)
+    }
+  }
+  return index
+}
+
+/** Merges the entries of both sides, in our order followed by new entries of theirs */
+function mergeItems(
+  base: PoFile,
+  ours: PoFile,
+  theirs: PoFile,
+  options: MergePoThreeWayOptions,
+  conflicts: PoMergeConflict[]
+): PoItem[] {
+  const baseIndex = indexAllItems(base.items)
+  const oursIndex = indexAllItems(ours.items)
+  const theirsIndex = indexAllItems(theirs.items)
+  const items: PoItem[] = []
+
+  for (const [key, item] of oursIndex) {
+    const other = theirsIndex.get(key)
+    const merged = other
+      ? mergeEntry(baseIndex.get(key), item, other, options, conflicts)
+      : keepEntry(baseIndex.get(key), item)
+    if (merged) {
+      items.push(merged)
+    }
+  }
+  for (const [key, item] of theirsIndex) {
+    const merged = oursIndex.has(key) ? undefined : keepEntry(baseIndex.get(key), item)
+    if (merged) {
+      items.push(merged)
+    }
+  }
+  return items
+}
+
+/** Merges headers and file comments */
+function mergeHeader(base: PoFile, ours: PoFile, theirs: PoFile): Omit<PoFile, "items"> {
+  return {
+    comments: mergeList(base.comments, ours.comments, theirs.comments),
+    extractedComments: mergeList(
+      base.extractedComments,
+      ours.extractedComments,
+      theirs.extractedComments
+    ),
+    headers: mergeRecord(base.headers, ours.headers, theirs.headers),
+    headerOrder: mergeList(base.headerOrder, ours.headerOrder, theirs.headerOrder)
+  }
+}
+
+/**
+ * Merges two versions of a PO file that were changed independently from a
+ * common ancestor, like a three-way merge in git, but entry by entry.
+ *
+ * Entries are matched by msgctxt and msgid, duplicates of an entry by
+ * their order. Entries added on one side are added; entries deleted on one side are deleted unless the other side
+ * changed them. Flags, references, comments, metadata and headers are merged
+ * value by value. A translation changed differently on both sides is a
+ * conflict: the merged entry keeps our translation and the conflict is
+ * returned, and marked in the file with `markConflicts`.
+ *
+ * Entries whose sides did not both change keep the original text of files
+ * parsed with `{ preserveSource: true }`.
+ *
+ * @example
+ * // git merge driver: node merge-po.js %O %A %B
+ * const [base, ours, theirs] = process.argv.slice(2).map((file) => parsePo(readFileSync(file, "utf8")))
+ * const { po, conflicts } = mergePoThreeWay(base, ours, theirs, { markConflicts: true })
+ * writeFileSync(process.argv[3], stringifyPo(po))
+ * process.exit(conflicts.length > 0 ? 1 : 0)
+ */
+export function mergePoThreeWay(
+  base: PoFile,
+  ours: PoFile,
+  theirs: PoFile,
+  options: MergePoThreeWayOptions = {}
+): PoMergeResult {
+  const conflicts: PoMergeConflict[] = []
+  const items = mergeItems(base, ours, theirs, options, conflicts)
+  const po: PoFile = { ...mergeHeader(base, ours, theirs), items }
+  if (ours.raw) {
+    // Keeps the header text and line endings of ours where they still apply
+    po.raw = ours.raw
+  }
+  return { po, conflicts }
+}
@@ -0,0 +1,286 @@
+import { describe, it, expect } from "vitest"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { parseMo, stringifyMo } from "./mo"
+import { parsePo } from "./parse"
+import type { PoItem } from "./types"
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures")
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), "utf8")
+}
+
+/** Key that identifies an item across PO and MO */
+function itemKey(item: PoItem): string {
+  return `${item.msgctxt ?? ""}\u0004${item.msgid}\u0000${item.msgid_plural ?? ""}`
+}
+
+/** Builds a minimal MO file by hand from (original, translation) byte pairs */
+function buildMo(pairs: [number[], number[]][], littleEndian: boolean): Uint8Array {
+  const count = pairs.length
+  const stringsStart = 28 + count * 16
+  const size = pairs.reduce((sum, [o, t]) => sum + o.length + t.length + 2, stringsStart)
+  const bytes = new Uint8Array(size)
+  const view = new DataView(bytes.buffer)
+  const header = [0x950412de, 0, count, 28, 28 + count * 8, 0, stringsStart]
+  header.forEach((value, i) => {
+    view.setUint32(i * 4, value, littleEndian)
+  })
+
+  let offset = stringsStart
+  pairs.forEach((pair, i) => {
+    pair.forEach((data, table) => {
+      const position = 28 + table * count * 8 + i * 8
+      view.setUint32(position, data.length, littleEndian)
+      view.setUint32(position + 4, offset, littleEndian)
+      bytes.set(data, offset)
+      offset += data.length + 1
+    })
+  })
+  return bytes
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0))
+}
+
+/** Looks up a key through the hash table like GNU libintl does */
+function hashLookup(bytes: Uint8Array, key: string): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const littleEndian = view.getUint32(0, true) === 0x950412de
+  const read = (offset: number): number => view.getUint32(offset, littleEndian)
+  const size = read(20)
+  const original = new TextEncoder().encode(key)
+
+  let hash = 0
+  for (const byte of original) {
+    hash = ((hash << 4) + byte) >>> 0
+    const high = hash & 0xf0000000
+    if (high) {
+      hash = (hash ^ (high >>> 24) ^ high) >>> 0
+    }
+  }
+
+  let index = hash % size
+  const increment = 1 + (hash % (size - 2))
+  for (;;) {
+    const entry = read(read(24) + index * 4)
+    if (entry === 0) {
+      return null
+    }
+    const position = read(12) + (entry - 1) * 8
+    const candidate = bytes.subarray(read(position + 4), read(position + 4) + original.length + 1)
+    if (candidate.subarray(0, -1).every((byte, i) => byte === original[i]) && !candidate.at(-1)) {
+      const translation = read(16) + (entry - 1) * 8
+      const start = read(translation + 4)
+      return new TextDecoder().decode(bytes.subarray(start, start + read(translation)))
+    }
+    index = index >= size - increment ? index - (size - increment) : index + increment
+  }
+}
+
+describe("parseMo", () => {
+  it("reads little- and big-endian files", () => {
+    for (const littleEndian of [true, false]) {
+      const bytes = buildMo(
+        [
+          [[], ascii("Language: de\n")],
+          [ascii("Hello"), ascii("Hallo")]
+        ],
+        littleEndian
+      )
+      const po = parseMo(bytes)
+
+      expect(po.headers.Language).toBe("de")
+      expect(po.headerOrder).toEqual(["Language"])
+      expect(po.items).toHaveLength(1)
+      expect(po.items[0]).toMatchObject({ msgid: "Hello", msgstr: ["Hallo"], msgctxt: null })
+    }
+  })
+
+  it("splits context and plural forms", () => {
+    const po = parseMo(
+      buildMo(
+        [
+          [ascii("file\0files"), ascii("Datei\0Dateien")],
+          [ascii("menu\u0004Open"), ascii("Offnen")]
+        ],
+        true
+      )
+    )
+
+    expect(po.items[0]).toMatchObject({
+      msgid: "file",
+      msgid_plural: "files",
+      msgstr: ["Datei", "Dateien"]
+    })
+    expect(po.items[1]).toMatchObject({ msgctxt: "menu", msgid: "Open", msgstr: ["Offnen"] })
+  })
+
+  it("decodes strings with the charset from the header", () => {
+    const po = parseMo(
+      buildMo(
+        [
+          [[], ascii("Content-Type: text/plain; charset=ISO-8859-1\n")],
+          [ascii("Size"), [0x47, 0x72, 0xf6, 0xdf, 0x65]]
+        ],
+        true
+      )
+    )
+
+    expect(po.items[0]?.msgstr).toEqual(["Größe"])
+  })
+
+  it("applies nplurals from the Plural-Forms header", () => {
+    const po = parseMo(
+      buildMo(
+        [
+          [[], ascii("Plural-Forms: nplurals=3; plural=0;\n")],
+          [ascii("a\0as"), ascii("x\0y\0z")]
+        ],
+        true
+      )
+    )
+
+    expect(po.items[0]?.nplurals).toBe(3)
+  })
+
+  it("rejects invalid data", () => {
+    expect(() => parseMo(new Uint8Array(4))).toThrow("too short")
+    expect(() => parseMo(new Uint8Array(28))).toThrow("bad magic number")
+
+    const truncated = buildMo([[ascii("a"), ascii("b")]], true).subarray(0, 40)
+    expect(() => parseMo(truncated)).toThrow("out of bounds")
+  })
+})
+
+describe("stringifyMo", () => {
+  const input = `msgid ""
+msgstr ""
+"Language: de\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "Hello"
+msgstr "Hallo"
+
+msgctxt "menu"
+msgid "Open"
+msgstr "Öffnen"
+
+msgid "file"
+msgid_plural "files"
+msgstr[0] "Datei"
+msgstr[1] "Dateien"
+
+#, fuzzy
+msgid "Fuzzy"
+msgstr "Unscharf"
+
+msgid "Untranslated"
+msgstr ""
+
+# Removed
+#~ msgid "Obsolete"
+#~ msgstr "Veraltet"
+`
+
+  it("writes the magic number in the requested byte order", () => {
+    const po = parsePo(input)
+
+    expect([...stringifyMo(po).subarray(0, 4)]).toEqual([0xde, 0x12, 0x04, 0x95])
+    expect([...stringifyMo(po, { littleEndian: false }).subarray(0, 4)]).toEqual([
+      0x95, 0x04, 0x12, 0xde
+    ])
+  })
+
+  it("round-trips translations, plural forms and contexts", () => {
+    const po = parsePo(input)
+
+    for (const littleEndian of [true, false]) {
+      const parsed = parseMo(stringifyMo(po, { littleEndian }))
+
+      expect(parsed.headers).toEqual(po.headers)
+      expect(parsed.headerOrder.slice(0, 3)).toEqual(po.headerOrder)
+      expect(parsed.items.map((item) => [itemKey(item), item.msgstr])).toEqual([
+        ["\u0004Hello\u0000", ["Hallo"]],
+        ["\u0004file\u0000files", ["Datei", "Dateien"]],
+        ["menu\u0004Open\u0000", ["Öffnen"]]
+      ])
+    }
+  })
+
+  it("encodes strings in the declared charset", () => {
+    const po = parsePo(`msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=ISO-8859-1\\n"
+
+msgid "Greetings"
+msgstr "Grüße"
+`)
+    const bytes = stringifyMo(po)
+
+    expect(bytes).toContain(0xfc)
+    expect(parseMo(bytes).items[0]?.msgstr).toEqual(["Grüße"])
+
+    po.headers["Content-Type"] = "text/plain; charset=UTF-16"
+    const utf8 = parseMo(stringifyMo(po))
+    expect(utf8.headers["Content-Type"]).toBe("text/plain; charset=UTF-8")
+    expect(utf8.items[0]?.msgstr).toEqual(["Grüße"])
+  })
+
+  it("leaves out fuzzy, untranslated and obsolete entries like msgfmt", () => {
+    const po = parsePo(input)
+    const msgids = (options?: Parameters<typeof stringifyMo>[1]): string[] =>
+      parseMo(stringifyMo(po, options)).items.map((item) => item.msgid)
+
+    expect(msgids()).not.toContain("Fuzzy")
+    expect(msgids()).not.toContain("Untranslated")
+    expect(msgids()).not.toContain("Obsolete")
+    expect(msgids({ includeFuzzy: true })).toContain("Fuzzy")
+  })
+
+  it("sorts originals by byte value", () => {
+    const po = parsePo('msgid "b"\nmsgstr "1"\n\nmsgid "ä"\nmsgstr "2"\n\nmsgid "B"\nmsgstr "3"')
+
+    expect(parseMo(stringifyMo(po)).items.map((item) => item.msgid)).toEqual(["B", "b", "ä"])
+  })
+
+  it("writes a hash table libintl can use for lookups", () => {
+    const po = parsePo(readFixture("big.po"))
+    const bytes = stringifyMo(po, { littleEndian: false })
+    const parsed = parseMo(bytes)
+
+    expect(parsed.items.length).toBeGreaterThan(10)
+    for (const item of parsed.items) {
+      const key = item.msgctxt === null ? item.msgid : `${item.msgctxt}\u0004${item.msgid}`
+      expect(hashLookup(bytes, key)).toBe(item.msgstr.join("\0"))
+    }
+    expect(hashLookup(bytes, "does not exist")).toBeNull()
+  })
+
+  it("omits the hash table on request", () => {
+    const po = parsePo(input)
+    const bytes = stringifyMo(po, { hashTable: false })
+    const view = new DataView(bytes.buffer)
+
+    expect(view.getUint32(20, true)).toBe(0)
+    expect(bytes.length).toBeLessThan(stringifyMo(po).length)
+    expect(parseMo(bytes).items).toEqual(parseMo(stringifyMo(po)).items)
+  })
+
+  it("round-trips every translated entry of the fixtures", () => {
+    for (const name of ["big.po", "c-strings.po", "plurals/nplurals-3.po", "previous.po"]) {
+      const po = parsePo(readFixture(name))
+      const parsed = parseMo(stringifyMo(po, { includeFuzzy: true }))
+      const expected = po.items
+        .filter((item) => !item.obsolete && item.msgstr.some(Boolean))
+        .map((item) => [itemKey(item), item.msgstr] as const)
+
+      expect(new Map(parsed.items.map((item) => [itemKey(item), item.msgstr]))).toEqual(
+        new Map(expected)
+      )
+    }
+  })
+})
@@ -0,0 +1,383 @@
+/**
+ * Binary MO file reader and writer.
+ *
+ * MO files are the compiled form of PO files read by GNU libintl
+ * (`gettext()` in C, C++, PHP, Python, ...). The layout follows the
+ * [GNU gettext specification](https://www.gnu.org/software/gettext/manual/html_node/MO-Files.html):
+ * a fixed header, two tables of (length, offset) pairs for the sorted
+ * original and translated strings, an optional hash table and the
+ * NUL-terminated strings themselves.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { createItem } from "./Item"
+import { createPoFile } from "./parse"
+import { getOrderedHeaderKeys } from "./stringify"
+import { parsePluralForms } from "./plurals"
+import {
+  createDecoder,
+  encodeString,
+  findCharset,
+  getAsciiCompatibleEncoding,
+  setCharset
+} from "./internal/charset"
+
+/** Magic number at the start of every MO file */
+const MO_MAGIC = 0x950412de
+
+/** Size of the fixed MO header in bytes */
+const MO_HEADER_SIZE = 28
+
+/** Separates msgctxt from msgid in original strings */
+const CONTEXT_SEPARATOR = "\u0004"
+
+/** Separates plural forms in original and translated strings */
+const PLURAL_SEPARATOR = "\0"
+
+/**
+ * Options for writing MO files.
+ */
+export interface StringifyMoOptions {
+  /**
+   * Write little-endian (true) or big-endian (false) byte order.
+   * GNU libintl reads both.
+   * @default true
+   */
+  littleEndian?: boolean
+
+  /**
+   * Write the hash table that libintl uses for fast lookups.
+   * Without it, lookups fall back to binary search.
+   * @default true
+   */
+  hashTable?: boolean
+
+  /**
+   * Include fuzzy entries, like `msgfmt --use-fuzzy`.
+   * @default false
+   */
+  includeFuzzy?: boolean
+}
+
+/** An original/translation string pair as stored in the MO file */
+interface MoEntry {
+  original: Uint8Array
+  translation: Uint8Array
+}
+
+/**
+ * Parses a binary MO file into a PoFile structure.
+ *
+ * Both byte orders are detected automatically. Strings are decoded with the
+ * charset from the header's Content-Type (UTF-8 if missing or unsupported).
+ * Items are returned in MO order, i.e. sorted by msgctxt + msgid.
+ *
+ * @throws Error if the data is not a valid MO file
+ *
+ * @example
+ * const po = parseMo(new Uint8Array(fs.readFileSync("messages.mo")))
+ */
+export function parseMo(bytes: Uint8Array): PoFile {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const littleEndian = detectByteOrder(view)
+
+  const revision = view.getUint32(4, littleEndian)
+  if (revision >> 16 > 1) {
+    throw new Error(`Unsupported MO file revision: ${revision >> 16}.${revision & 0xffff}`)
+  }
+
+  const count = view.getUint32(8, littleEndian)
+  const originalsOffset = view.getUint32(12, littleEndian)
+  const translationsOffset = view.getUint32(16, littleEndian)
+
+  const entries: MoEntry[] = []
+  for (let i = 0; i < count; i++) {
+    entries.push({
+      original: readString(bytes, view, originalsOffset + i * 8, littleEndian),
+      translation: readString(bytes, view, translationsOffset + i * 8, littleEndian)
+    })
+  }
+
+  const po = createPoFile()
+  const header = entries.find((entry) => entry.original.length === 0)
+  const decode = createHeaderDecoder(header?.translation)
+  if (header) {
+    parseMoHeader(decode(header.translation), po)
+  }
+
+  const nplurals = parsePluralForms(po.headers["Plural-Forms"]).nplurals
+  for (const entry of entries) {
+    if (entry !== header) {
+      po.items.push(createMoItem(decode(entry.original), decode(entry.translation), nplurals))
+    }
+  }
+
+  return po
+}
+
+/** Reads the magic number in either byte order, returns true for little-endian */
+function detectByteOrder(view: DataView): boolean {
+  if (view.byteLength < MO_HEADER_SIZE) {
+    throw new Error("Invalid MO file: too short")
+  }
+  if (view.getUint32(0, true) === MO_MAGIC) {
+    return true
+  }
+  if (view.getUint32(0, false) === MO_MAGIC) {
+    return false
+  }
+  throw new Error("Invalid MO file: bad magic number")
+}
+
+/** Reads the string described by the (length, offset) pair at `position` */
+function readString(
+  bytes: Uint8Array,
+  view: DataView,
+  position: number,
+  littleEndian: boolean
+): Uint8Array {
+  if (position + 8 > view.byteLength) {
+    throw new Error("Invalid MO file: string table out of bounds")
+  }
+  const length = view.getUint32(position, littleEndian)
+  const offset = view.getUint32(position + 4, littleEndian)
+  if (offset + length > bytes.byteLength) {
+    throw new Error("Invalid MO file: string out of bounds")
+  }
+  return bytes.subarray(offset, offset + length)
+}
+
+/** Creates a decoder for the charset declared in the raw header */
+function createHeaderDecoder(header: Uint8Array | undefined): (bytes: Uint8Array) => string {
+  // The header is ASCII, so latin1 is safe for reading the charset
+  const text = header ? new TextDecoder("latin1").decode(header) : ""
+  return createDecoder(findCharset(text))
+}
+
+/** Parses the "Name: value\n" lines of the header entry */
+function parseMoHeader(text: string, po: PoFile): void {
+  for (const line of text.split("\n")) {
+    const colonIndex = line.indexOf(":")
+    if (colonIndex === -1) {
+      continue
+    }
+    const name = line.substring(0, colonIndex).trim()
+    po.headers[name] = line.substring(colonIndex + 1).trim()
+    po.headerOrder.push(name)
+  }
+}
+
+/** Creates an item from a decoded original/translation pair */
+function createMoItem(original: string, translation: string, nplurals: string | undefined): PoItem {
+  const item = createItem({ nplurals })
+
+  let key = original
+  const contextEnd = key.indexOf(CONTEXT_SEPARATOR)
+  if (contextEnd !== -1) {
+    item.msgctxt = key.substring(0, contextEnd)
+    key = key.substring(contextEnd + 1)
+  }
+
+  const pluralStart = key.indexOf(PLURAL_SEPARATOR)
+  if (pluralStart === -1) {
+    item.msgid = key
+  } else {
+    item.msgid = key.substring(0, pluralStart)
+    item.msgid_plural = key.substring(pluralStart + 1)
+  }
+
+  item.msgstr = translation.split(PLURAL_SEPARATOR)
+  return item
+}
+
+/**
+ * Serializes a PoFile structure to a binary MO file.
+ *
+ * Like `msgfmt`, obsolete and untranslated entries are left out, and fuzzy
+ * entries unless `includeFuzzy` is set. Strings are encoded in the charset
+ * of the Content-Type header. Without one, they are written as UTF-8, and
+ * for charsets that cannot be written (UTF-16 and multi-byte legacy
+ * charsets) the header is changed to UTF-8.
+ *
+ * @throws Error if a character cannot be encoded in the declared charset
+ *
+ * @example
+ * fs.writeFileSync("messages.mo", stringifyMo(po))
+ *
+ * @example
+ * // Big-endian without hash table
+ * const bytes = stringifyMo(po, { littleEndian: false, hashTable: false })
+ */
+export function stringifyMo(po: PoFile, options: StringifyMoOptions = {}): Uint8Array {
+  const { littleEndian = true, hashTable = true, includeFuzzy = false } = options
+  const { header, charset } = getMoHeader(po)
+  const encode = (text: string): Uint8Array => encodeString(text, charset)
+
+  const entries: MoEntry[] = [{ original: new Uint8Array(0), translation: encode(header) }]
+  for (const item of po.items) {
+    if (isCompiled(item, includeFuzzy)) {
+      entries.push({
+        original: encode(getOriginal(item)),
+        translation: encode(item.msgstr.join(PLURAL_SEPARATOR))
+      })
+    }
+  }
+  entries.sort((a, b) => compareBytes(a.original, b.original))
+
+  return writeMo(entries, littleEndian, hashTable)
+}
+
+/** Whether msgfmt would include an item in the MO file */
+function isCompiled(item: PoItem, includeFuzzy: boolean): boolean {
+  if (item.obsolete || (item.flags.fuzzy && !includeFuzzy)) {
+    return false
+  }
+  return item.msgstr.some((msgstr) => msgstr.length > 0)
+}
+
+/** Builds the original string: [msgctxt EOT] msgid [NUL msgid_plural] */
+function getOriginal(item: PoItem): string {
+  let original = item.msgid
+  if (item.msgctxt !== null) {
+    original = item.msgctxt + CONTEXT_SEPARATOR + original
+  }
+  if (item.msgid_plural !== null) {
+    original += PLURAL_SEPARATOR + item.msgid_plural
+  }
+  return original
+}
+
+/**
+ * Builds the msgstr of the header entry and returns the charset of the
+ * strings: the declared one, or UTF-8 with the header changed to match if
+ * the declared one cannot be written
+ */
+function getMoHeader(po: PoFile): { header: string; charset: string } {
+  const contentType = po.headers["Content-Type"]
+  const declared = findCharset(contentType ?? "")
+  const charset = declared === undefined ? "utf-8" : getAsciiCompatibleEncoding(declared)
+  const headers =
+    charset === undefined
+      ? { ...po.headers, "Content-Type": setCharset(contentType, "UTF-8") }
+      : po.headers
+  let header = ""
+  for (const key of getOrderedHeaderKeys(po)) {
+    header += `${key}: ${headers[key] ?? ""}\n`
+  }
+  return { header, charset: charset ?? "utf-8" }
+}
+
+/** Compares two byte arrays like C `strcmp` */
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length)
+  for (let i = 0; i < length; i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return a.length - b.length
+}
+
+/** Lays out the header, string tables, hash table and strings */
+function writeMo(entries: MoEntry[], littleEndian: boolean, withHashTable: boolean): Uint8Array {
+  const count = entries.length
+  const originalsOffset = MO_HEADER_SIZE
+  const translationsOffset = originalsOffset + count * 8
+  const hashSize = withHashTable ? getHashSize(count) : 0
+  const hashOffset = translationsOffset + count * 8
+  let stringOffset = hashOffset + hashSize * 4
+
+  let totalSize = stringOffset
+  for (const entry of entries) {
+    totalSize += entry.original.length + entry.translation.length + 2
+  }
+
+  const bytes = new Uint8Array(totalSize)
+  const view = new DataView(bytes.buffer)
+  const header = [MO_MAGIC, 0, count, originalsOffset, translationsOffset, hashSize, hashOffset]
+  header.forEach((value, i) => {
+    view.setUint32(i * 4, value, littleEndian)
+  })
+
+  // Strings are NUL-terminated: all originals first, then all translations
+  for (const [table, field] of [
+    [originalsOffset, "original"],
+    [translationsOffset, "translation"]
+  ] as const) {
+    entries.forEach((entry, i) => {
+      const data = entry[field]
+      view.setUint32(table + i * 8, data.length, littleEndian)
+      view.setUint32(table + i * 8 + 4, stringOffset, littleEndian)
+      bytes.set(data, stringOffset)
+      stringOffset += data.length + 1
+    })
+  }
+
+  if (withHashTable) {
+    writeHashTable(view, hashOffset, hashSize, entries, littleEndian)
+  }
+
+  return bytes
+}
+
+/** Hash table size used by msgfmt: the next prime >= 4/3 of the entry count */
+function getHashSize(count: number): number {
+  let size = Math.floor((count * 4) / 3) | 1
+  while (!isPrime(size)) {
+    size += 2
+  }
+  return Math.max(size, 3)
+}
+
+function isPrime(value: number): boolean {
+  if (value < 2) {
+    return false
+  }
+  for (let divisor = 2; divisor * divisor <= value; divisor++) {
+    if (value % divisor === 0) {
+      return false
+    }
+  }
+  return true
+}
+
+/** The `hashpjw` string hash used by GNU gettext, up to the first NUL byte */
+function hashString(bytes: Uint8Array): number {
+  let hash = 0
+  for (const byte of bytes) {
+    if (byte === 0) {
+      break
+    }
+    hash = ((hash << 4) + byte) >>> 0
+    const high = hash & 0xf0000000
+    if (high !== 0) {
+      hash = (hash ^ (high >>> 24) ^ high) >>> 0
+    }
+  }
+  return hash
+}
+
+/** Fills the hash table with 1-based entry indices, using double hashing */
+function writeHashTable(
+  view: DataView,
+  offset: number,
+  size: number,
+  entries: MoEntry[],
+  littleEndian: boolean
+): void {
+  const table = new Uint32Array(size)
+  entries.forEach((entry, i) => {
+    const hash = hashString(entry.original)
+    const increment = 1 + (hash % (size - 2))
+    let index = hash % size
+    while (table[index] !== 0) {
+      index = index >= size - increment ? index - (size - increment) : index + increment
+    }
+    table[index] = i + 1
+  })
+
+  table.forEach((value, i) => {
+    view.setUint32(offset + i * 4, value, littleEndian)
+  })
+}
@@ -1,5 +1,16 @@
 import { describe, it, expect } from "vitest"
-import { parsePo, createPoFile } from "./parse"
+import { parsePo, parsePoBytes, createPoFile, PoParseError } from "./parse"
+
+/** Builds a PO file declaring a charset, with a translation as raw bytes */
+function poBytes(charset: string, translation: number[]): Uint8Array {
+  const encoder = new TextEncoder()
+  return Uint8Array.from([
+    ...encoder.encode(`msgid ""\nmsgstr ""\n"Content-Type: text/plain; charset=${charset}\\n"\n\n`),
+    ...encoder.encode('msgid "size"\nmsgstr "'),
+    ...translation,
+    ...encoder.encode('"\n')
+  ])
+}
 
 describe("parse", () => {
   describe("createPoFile", () => {
@@ -150,6 +161,57 @@ msgstr[1] "Elemente"`
       expect(po.items[0]?.msgid).toBe("old")
     })
 
+    it("parses obsolete entries directly after a regular entry", () => {
+      const po = parsePo('msgid "a"\nmsgstr "b"\n\n#~ msgid "old"\n#~ msgstr "Alt"')
+
+      expect(po.items.map((item) => item.obsolete)).toEqual([false, true])
+    })
+
+    it("parses previous fields (#|)", () => {
+      const input = `#, fuzzy
+#| msgctxt "menu"
+#| msgid "Open file"
+#| msgid_plural "Open files"
+msgctxt "toolbar"
+msgid "Open"
+msgid_plural "Open all"
+msgstr[0] "Öffnen"
+msgstr[1] "Alle öffnen"`
+
+      const item = parsePo(input).items[0]
+
+      expect(item?.previousMsgctxt).toBe("menu")
+      expect(item?.previousMsgid).toBe("Open file")
+      expect(item?.previousMsgidPlural).toBe("Open files")
+      expect(item?.msgctxt).toBe("toolbar")
+      expect(item?.msgid).toBe("Open")
+    })
+
+    it("parses multi-line and obsolete previous fields", () => {
+      const input = `msgid "a"
+msgstr "b"
+
+#| msgid ""
+#| "Old "
+#| "text"
+msgid "New text"
+msgstr "Neuer Text"
+
+#~| msgid "Old"
+#~| "er"
+#~ msgid "Removed"
+#~ msgstr "Entfernt"`
+
+      const po = parsePo(input)
+
+      expect(po.items[0]?.previousMsgid).toBeNull()
+      expect(po.items[1]?.previousMsgid).toBe("Old text")
+      expect(po.items[1]?.msgstr).toEqual(["Neuer Text"])
+      expect(po.items[2]?.previousMsgid).toBe("Older")
+      expect(po.items[2]?.msgid).toBe("Removed")
+      expect(po.items[2]?.obsolete).toBe(true)
+    })
+
     it("parses flags", () => {
       const input = `#, fuzzy, no-wrap
 msgid "test"
@@ -161,6 +223,26 @@ msgstr "Test"`
       expect(po.items[0]?.flags["no-wrap"]).toBe(true)
     })
 
+    it("parses the range flag into item.range", () => {
+      const input = `#, c-format, range: 1..12
+msgid "one"
+msgid_plural "%d"
+msgstr[0] ""
+msgstr[1] ""`
+
+      const po = parsePo(input)
+
+      expect(po.items[0]?.range).toEqual({ min: 1, max: 12 })
+      expect(po.items[0]?.flags).toEqual({ "c-format": true })
+    })
+
+    it("keeps an invalid range flag as a regular flag", () => {
+      const po = parsePo('#, range: 12..1\nmsgid "a"\nmsgstr ""')
+
+      expect(po.items[0]?.range).toBeNull()
+      expect(po.items[0]?.flags["range: 12..1"]).toBe(true)
+    })
+
     it("parses references", () => {
       const input = `#: src/app.ts:42
 #: src/utils.ts:10
@@ -204,4 +286,86 @@ msgstr ""
       expect(po.headerOrder).toEqual(["Content-Type", "Language", "Project-Id-Version"])
     })
   })
+  describe("strict mode", () => {
+    it("throws PoParseError with all diagnostics on errors", () => {
+      const input = 'msgid "a"\nmsgstr "b"\nbogus\n\nmsgid "c"\nmsgstr "d'
+
+      expect(() => parsePo(input, { strict: true })).toThrow(PoParseError)
+      try {
+        parsePo(input, { strict: true })
+      } catch (e) {
+        const error = e as PoParseError
+        expect(error.message).toBe(
+          'PO parse error at line 3, column 1: Unknown keyword "bogus" (and 1 more)'
+        )
+        expect(error.diagnostics.map((d) => d.code)).toEqual([
+          "UNKNOWN_KEYWORD",
+          "UNTERMINATED_STRING"
+        ])
+      }
+    })
+
+    it("does not throw on warnings", () => {
+      const po = parsePo('#x note\nmsgid "a"\nmsgstr "b"', { strict: true })
+
+      expect(po.items).toHaveLength(1)
+      expect(po.diagnostics).toHaveLength(1)
+    })
+
+    it("returns valid files unchanged", () => {
+      const input = 'msgid "a"\nmsgstr "b"'
+
+      expect(parsePo(input, { strict: true })).toEqual({ ...parsePo(input), diagnostics: [] })
+    })
+  })
+  describe("parsePoBytes", () => {
+    it("decodes ISO-8859-1 files", () => {
+      const po = parsePoBytes(poBytes("ISO-8859-1", [0x47, 0x72, 0xf6, 0xdf, 0x65]))
+
+      expect(po.items[0]?.msgstr).toEqual(["Größe"])
+      expect(po.headers["Content-Type"]).toBe("text/plain; charset=ISO-8859-1")
+    })
+
+    it("decodes windows-1252 files", () => {
+      expect(
+        parsePoBytes(poBytes("windows-1252", [0x80, 0x20, 0x93, 0x78, 0x94])).items[0]?.msgstr
+      ).toEqual(["€ “x”"])
+    })
+
+    it("decodes UTF-8 files", () => {
+      const bytes = poBytes("UTF-8", [...new TextEncoder().encode("サイズ")])
+
+      expect(parsePoBytes(bytes).items[0]?.msgstr).toEqual(["サイズ"])
+    })
+
+    it("strips a UTF-8 byte order mark", () => {
+      const bytes = poBytes("UTF-8", [0x78])
+      const po = parsePoBytes(Uint8Array.from([0xef, 0xbb, 0xbf, ...bytes]))
+
+      expect(po.headers["Content-Type"]).toBe("text/plain; charset=UTF-8")
+      expect(po.items[0]?.msgstr).toEqual(["x"])
+    })
+
+    it("prefers the byte order mark over the header", () => {
+      const bytes = poBytes("ISO-8859-1", [...new TextEncoder().encode("ö")])
+      const po = parsePoBytes(Uint8Array.from([0xef, 0xbb, 0xbf, ...bytes]))
+
+      expect(po.items[0]?.msgstr).toEqual(["ö"])
+    })
+
+    it("falls back to UTF-8 for unknown or placeholder charsets", () => {
+      const bytes = poBytes("CHARSET", [...new TextEncoder().encode("ö")])
+
+      expect(parsePoBytes(bytes).items[0]?.msgstr).toEqual(["ö"])
+      expect(
+        parsePoBytes(new TextEncoder().encode('msgid "a"\nmsgstr "ü"')).items[0]?.msgstr
+      ).toEqual(["ü"])
+    })
+
+    it("passes parse options through", () => {
+      const bytes = new TextEncoder().encode('msgid "a"\nmsgstr "b"\nbogus')
+
+      expect(parsePoBytes(bytes, { diagnostics: true }).diagnostics).toHaveLength(1)
+    })
+  })
 })
@@ -1,7 +1,24 @@
-import type { PoFile } from "./types"
+import type { ParseOptions, PoDiagnostic, PoFile } from "./types"
 import { DEFAULT_HEADERS } from "./internal/constants"
-import { splitHeaderAndBody, parseHeaders, parseItems } from "./internal/parser"
+import { splitHeaderAndBody, parseHeaders, parseItems, parseItemsTracked } from "./internal/parser"
 import { parsePluralForms } from "./plurals"
+import { createDecoder, detectPoCharset } from "./internal/charset"
+import { attachRawText } from "./internal/lossless"
+import { inspectHeaderLines } from "./internal/diagnostics"
+
+/**
+ * Error thrown by `parsePo` in strict mode when the file contains errors.
+ */
+export class PoParseError extends Error {
+  constructor(public readonly diagnostics: PoDiagnostic[]) {
+    const errors = diagnostics.filter((d) => d.severity === "error")
+    const first = errors[0]
+    const location = first ? `line ${first.line}, column ${first.column}: ${first.message}` : ""
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : ""
+    super(`PO parse error at ${location}${more}`)
+    this.name = "PoParseError"
+  }
+}
 
 /**
  * Creates a new empty PO file structure with default headers.
@@ -18,22 +35,76 @@ export function createPoFile(): PoFile {
 
 /**
  * Parses a PO file string into a PoFile structure.
+ *
+ * By default, lines the parser does not understand are skipped silently.
+ * Pass `{ diagnostics: true }` to collect them in `po.diagnostics`, or
+ * `{ strict: true }` to throw a `PoParseError` on any error.
+ * Pass `{ locations: true }` to attach source positions to each item, or
+ * `{ preserveSource: true }` to keep the original text for lossless round-trips.
+ *
+ * @example
+ * const po = parsePo(content, { diagnostics: true })
+ * for (const d of po.diagnostics ?? []) {
+ *   console.log(`${d.line}:${d.column} ${d.severity} ${d.code} ${d.message}`)
+ * }
  */
-export function parsePo(data: string): PoFile {
+export function parsePo(data: string, options: ParseOptions = {}): PoFile {
   // Normalize line endings (Windows CRLF to Unix LF)
-  if (data.includes("\r\n")) {
+  const lineEnding = data.includes("\r\n") ? "\r\n" : "\n"
+  if (lineEnding === "\r\n") {
     data = data.replaceAll("\r\n", "\n")
   }
 
   const po = createPoFile()
-  const { headerSection, bodyLines } = splitHeaderAndBody(data)
+  const { headerSection, bodyLines, bodyStartLine } = splitHeaderAndBody(data)
 
   // Parse headers
   parseHeaders(headerSection, po)
 
   // Parse items
   const nplurals = parsePluralForms(po.headers["Plural-Forms"]).nplurals
-  parseItems(bodyLines, po, nplurals)
+
+  const diagnostics = options.diagnostics === true || options.strict === true
+  const locations = options.locations === true || options.preserveSource === true
+  if (!diagnostics && !locations) {
+    parseItems(bodyLines, po, nplurals)
+    return po
+  }
+
+  const found = parseItemsTracked(bodyLines, po, nplurals, bodyStartLine, {
+    diagnostics,
+    locations
+  })
+  if (options.preserveSource) {
+    attachRawText(data, po, lineEnding, options.locations === true)
+  }
+  if (diagnostics) {
+    const headerLines = data.split("\n", bodyStartLine - 1)
+    reportDiagnostics(po, [...inspectHeaderLines(headerLines), ...found], options.strict === true)
+  }
 
   return po
 }
+
+/** Stores diagnostics on the file by position, throwing on errors in strict mode */
+function reportDiagnostics(po: PoFile, diagnostics: PoDiagnostic[], strict: boolean): void {
+  po.diagnostics = diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+  if (strict && diagnostics.some((d) => d.severity === "error")) {
+    throw new PoParseError(diagnostics)
+  }
+}
+
+/**
+ * Parses raw PO file bytes into a PoFile structure.
+ *
+ * The charset is taken from a byte order mark or, without one, from the
+ * Content-Type header. Files without a usable charset (including the
+ * `CHARSET` placeholder of POT files) are decoded as UTF-8.
+ *
+ * @example
+ * const po = parsePoBytes(fs.readFileSync("legacy.po"))
+ */
+export function parsePoBytes(bytes: Uint8Array, options: ParseOptions = {}): PoFile {
+  const decode = createDecoder(detectPoCharset(bytes))
+  return parsePo(decode(bytes), options)
+}
@@ -7,7 +7,8 @@
  */
 import { describe, it, expect } from "vitest"
 import pluralsData from "cldr-core/supplemental/plurals.json"
-import { getPluralCategories, getPluralFunction } from "./plurals"
+import { compilePluralFormsExpression, getPluralCategories, getPluralFunction } from "./plurals"
+import { getPluralFormsCategories, getPluralFormsHeader } from "./headers"
 
 interface CLDRPluralRules {
   supplemental: {
@@ -286,3 +287,75 @@ describe("CLDR Validation", () => {
     }
   })
 })
+
+/**
+ * Validates the built-in Plural-Forms table against every CLDR locale:
+ * each integer sample must select the msgstr index of its category.
+ */
+describe("Plural-Forms headers", () => {
+  // "root" and "und" (undetermined) are not real languages
+  const locales = Object.keys(pluralRules).filter((locale) => locale !== "root" && locale !== "und")
+
+  it("cover every CLDR locale with a form for each integer category", () => {
+    const errors: string[] = []
+    for (const locale of locales) {
+      const rules = pluralRules[locale] ?? {}
+      const categories = getPluralFormsCategories(locale)
+      // Categories that only have decimal samples get no form
+      const expected = Object.entries(rules)
+        .filter(([, rule]) => rule.includes("@integer"))
+        .map(([key]) => getCategoryFromKey(key))
+        .sort()
+      if ([...categories].sort().join() !== expected.join()) {
+        errors.push(`${locale}: ${categories.join(",")} vs CLDR ${expected.join(",")}`)
+      }
+      if (!getPluralFormsHeader(locale).startsWith(`nplurals=${categories.length};`)) {
+        errors.push(`${locale}: nplurals disagrees with categories`)
+      }
+    }
+    expect(errors).toEqual([])
+  })
+
+  it("select the CLDR category for all integer samples", () => {
+    const errors: string[] = []
+    for (const locale of locales) {
+      const select = compilePluralFormsExpression(getPluralFormsHeader(locale))
+      const categories = getPluralFormsCategories(locale)
+
+      for (const [key, rule] of Object.entries(pluralRules[locale] ?? {})) {
+        const category = getCategoryFromKey(key)
+        // Compact notation samples like "1c6" are parsed as 1, skip them
+        const integers = parseSamples(rule.replace(/\d+c\d+,?/g, "")).integers
+        for (const n of integers) {
+          const actual = categories[select(n)]
+          if (actual !== category) {
+            errors.push(`${locale} n=${n}: expected "${category}", got "${actual}"`)
+          }
+        }
+      }
+    }
+    expect(errors.slice(0, 10)).toEqual([])
+  })
+
+  it("agree with Intl.PluralRules for locales it supports", () => {
+    const errors: string[] = []
+    for (const locale of locales) {
+      const resolved = new Intl.PluralRules(locale).resolvedOptions().locale
+      if (resolved.split("-")[0] !== locale.split("-")[0]) {
+        continue
+      }
+
+      const categories = getPluralFormsCategories(locale)
+      expect(getPluralCategories(locale)).toEqual(expect.arrayContaining([...categories]))
+
+      const select = compilePluralFormsExpression(getPluralFormsHeader(locale))
+      const reference = new Intl.PluralRules(locale)
+      for (let n = 0; n <= 1000; n++) {
+        if (categories[select(n)] !== reference.select(n)) {
+          errors.push(`${locale} n=${n}: ${categories[select(n)]} vs ${reference.select(n)}`)
+        }
+      }
+    }
+    expect(errors.slice(0, 10)).toEqual([])
+  })
+})
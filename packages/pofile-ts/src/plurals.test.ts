@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest"
-import { getPluralCategories, getPluralCount, getPluralFunction } from "./plurals"
+import {
+  compilePluralFormsExpression,
+  getPluralCategories,
+  getPluralCount,
+  getPluralFormsMapping,
+  getPluralFunction
+} from "./plurals"
 
 describe("getPluralCategories", () => {
   it("returns 2 forms for German", () => {
@@ -115,3 +121,128 @@ describe("getPluralFunction", () => {
     expect(fn(2)).toBe(1)
   })
 })
+
+describe("compilePluralFormsExpression", () => {
+  it("evaluates the two-form Germanic rule", () => {
+    const fn = compilePluralFormsExpression("nplurals=2; plural=(n != 1);")
+    expect(fn(0)).toBe(1)
+    expect(fn(1)).toBe(0)
+    expect(fn(2)).toBe(1)
+  })
+
+  it("evaluates nested ternaries (Russian)", () => {
+    const fn = compilePluralFormsExpression(
+      "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);"
+    )
+    expect(fn(1)).toBe(0)
+    expect(fn(2)).toBe(1)
+    expect(fn(5)).toBe(2)
+    expect(fn(11)).toBe(2)
+    expect(fn(21)).toBe(0)
+    expect(fn(22)).toBe(1)
+    expect(fn(112)).toBe(2)
+  })
+
+  it("honours orderings that differ from CLDR", () => {
+    // Legacy catalog with the plural form first
+    const fn = compilePluralFormsExpression("nplurals=2; plural=n == 1 ? 1 : 0;")
+    expect(fn(1)).toBe(1)
+    expect(fn(5)).toBe(0)
+  })
+
+  it("evaluates comparisons as 0 or 1 (Arabic)", () => {
+    const fn = compilePluralFormsExpression(
+      "nplurals=6; plural=n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5;"
+    )
+    expect([0, 1, 2, 3, 11, 100].map(fn)).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it("supports negation, arithmetic and operator precedence", () => {
+    expect(compilePluralFormsExpression("!(n == 1)")(1)).toBe(0)
+    expect(compilePluralFormsExpression("!n")(0)).toBe(1)
+    expect(compilePluralFormsExpression("1 + 2 * 3 - n")(1)).toBe(6)
+    expect(compilePluralFormsExpression("n / 2 % 3")(9)).toBe(1)
+    expect(compilePluralFormsExpression("n == 1 || n == 2 && 0")(2)).toBe(0)
+    expect(compilePluralFormsExpression("n ? n > 1 ? 2 : 1 : 0")(5)).toBe(2)
+  })
+
+  it("accepts a bare expression", () => {
+    const fn = compilePluralFormsExpression("n != 1")
+    expect(fn(1)).toBe(0)
+    expect(fn(3)).toBe(1)
+  })
+
+  it("treats n as a non-negative integer", () => {
+    const fn = compilePluralFormsExpression("nplurals=2; plural=(n != 1);")
+    expect(fn(1.5)).toBe(0)
+    expect(fn(-1)).toBe(0)
+  })
+
+  it("selects form 0 for indices outside nplurals", () => {
+    const fn = compilePluralFormsExpression("nplurals=2; plural=n;")
+    expect(fn(1)).toBe(1)
+    expect(fn(2)).toBe(0)
+  })
+
+  it("evaluates division by zero as 0", () => {
+    expect(compilePluralFormsExpression("n / 0 + n % 0")(5)).toBe(0)
+  })
+
+  it("throws on invalid expressions", () => {
+    expect(() => compilePluralFormsExpression("nplurals=2;")).toThrow("no plural expression")
+    expect(() => compilePluralFormsExpression("n = 1")).toThrow("Invalid plural expression")
+    expect(() => compilePluralFormsExpression("(n != 1")).toThrow('expected ")"')
+    expect(() => compilePluralFormsExpression("n ? 1")).toThrow('expected ":"')
+    expect(() => compilePluralFormsExpression("n 1")).toThrow("expected end of input")
+    expect(() => compilePluralFormsExpression("alert(1)")).toThrow("Invalid plural expression")
+  })
+})
+
+describe("getPluralFormsMapping", () => {
+  it("maps CLDR-ordered headers to CLDR categories", () => {
+    expect(getPluralFormsMapping("nplurals=2; plural=(n != 1);", "de")).toEqual({
+      categories: ["one", "other"],
+      ambiguous: []
+    })
+  })
+
+  it("infers orderings that differ from CLDR", () => {
+    const mapping = getPluralFormsMapping(
+      "nplurals=4; plural=(n%100==1 ? 1 : n%100==2 ? 2 : n%100==3 || n%100==4 ? 3 : 0);",
+      "sl"
+    )
+    expect(mapping).toEqual({ categories: ["other", "one", "two", "few"], ambiguous: [] })
+  })
+
+  it("maps 3-form Russian headers to one/few/many", () => {
+    const mapping = getPluralFormsMapping(
+      "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+      "ru"
+    )
+    expect(mapping).toEqual({ categories: ["one", "few", "many"], ambiguous: [] })
+  })
+
+  it("gives unreached indices the remaining categories", () => {
+    const mapping = getPluralFormsMapping(
+      "nplurals=4; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<12 || n%100>14) ? 1 : 2);",
+      "ru"
+    )
+    expect(mapping.categories).toEqual(["one", "few", "many", "other"])
+    expect(mapping.ambiguous).toEqual([])
+  })
+
+  it("reports indices that span several categories", () => {
+    // Simplified header for Polish: index 1 covers few and many
+    const mapping = getPluralFormsMapping("nplurals=2; plural=(n != 1);", "pl")
+
+    expect(mapping.categories).toEqual(["one", "many"])
+    expect(mapping.ambiguous).toEqual([{ index: 1, categories: ["many", "few"] }])
+  })
+
+  it("reports indices that share a category", () => {
+    const mapping = getPluralFormsMapping("nplurals=3; plural=(n == 1 ? 0 : n < 5 ? 1 : 2);", "de")
+
+    expect(mapping.categories).toEqual(["one", "other", "other"])
+    expect(mapping.ambiguous.map((entry) => entry.index)).toEqual([1, 2])
+  })
+})
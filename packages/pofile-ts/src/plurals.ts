@@ -7,14 +7,16 @@
  * @see https://www.unicode.org/cldr/charts/latest/supplemental/language_plural_rules.html
  */
 
-import type { ParsedPluralForms } from "./types"
+import type { ParsedPluralForms, PluralFormsMapping } from "./types"
+import { evaluatePluralExpression, parsePluralFormsHeader } from "./internal/pluralExpression"
 
 /**
  * Parses the Plural-Forms header value from a PO file.
  * Example: "nplurals=2; plural=(n != 1);"
  *
  * Note: The plural expression is a legacy Gettext format.
- * For runtime plural selection, use `getPluralFunction(locale)` instead.
+ * For runtime plural selection, use `getPluralFunction(locale)` for CLDR rules
+ * or `compilePluralFormsExpression(header)` to evaluate the expression itself.
  */
 export function parsePluralForms(pluralFormsString: string | undefined): ParsedPluralForms {
   const parts = (pluralFormsString ?? "").split(";")
@@ -135,3 +137,113 @@ export function getPluralFunction(locale: string): (n: number) => number {
     return index >= 0 ? index : categories.length - 1
   }
 }
+
+/**
+ * Cache for compiled Plural-Forms expressions.
+ */
+const pluralFormsCache = new Map<string, (n: number) => number>()
+
+/**
+ * Compiles the `plural=` expression of a Plural-Forms header into a
+ * selector function, without using `eval`.
+ *
+ * Unlike `getPluralFunction`, this honours the catalog's own plural ordering,
+ * which may differ from CLDR in legacy catalogs. Like gettext, `n` is treated
+ * as a non-negative integer and indices outside `nplurals` select form 0.
+ *
+ * @param header - Plural-Forms header value, or a bare expression like "n != 1"
+ * @throws Error if the header has no valid plural expression
+ *
+ * @example
+ * const selectPlural = compilePluralFormsExpression(
+ *   "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);"
+ * )
+ * selectPlural(1)  // → 0
+ * selectPlural(3)  // → 1
+ * selectPlural(5)  // → 2
+ */
+export function compilePluralFormsExpression(header: string): (n: number) => number {
+  let fn = pluralFormsCache.get(header)
+  if (fn) {
+    return fn
+  }
+
+  const { expression, nplurals } = parsePluralFormsHeader(header)
+  fn = (n: number): number => {
+    const index = evaluatePluralExpression(expression, Math.floor(Math.abs(n)))
+    return index >= 0 && index < nplurals ? index : 0
+  }
+  pluralFormsCache.set(header, fn)
+  return fn
+}
+
+/** Integers used to relate Plural-Forms indices to CLDR categories */
+const MAPPING_SAMPLES: readonly number[] = [
+  ...Array.from({ length: 1001 }, (_, n) => n),
+  10000,
+  100000,
+  1000000,
+  1000001,
+  2000000,
+  10000000
+]
+
+/**
+ * Infers which CLDR category each `msgstr[N]` of a Plural-Forms header holds.
+ *
+ * Evaluates the header's expression and `Intl.PluralRules` over sample
+ * integers. An index is ambiguous if its samples span several categories or
+ * if it shares its category with another index; it then gets the category of
+ * most of its samples. Indices no sample reaches (e.g. the decimal-only
+ * "other" in Russian) get the remaining categories in CLDR order.
+ *
+ * @throws Error if the header has no valid plural expression
+ *
+ * @example
+ * // Russian with 3 forms instead of CLDR's 4
+ * getPluralFormsMapping("nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);", "ru")
+ * // → { categories: ["one", "few", "many"], ambiguous: [] }
+ */
+export function getPluralFormsMapping(header: string, locale: string): PluralFormsMapping {
+  const select = compilePluralFormsExpression(header)
+  const rules = getPluralRules(locale)
+  const { nplurals } = parsePluralFormsHeader(header)
+
+  // Sample counts per index and category
+  const counts: Map<string, number>[] = []
+  for (const n of MAPPING_SAMPLES) {
+    const index = select(n)
+    const category = rules.select(n)
+    const byCategory = (counts[index] ??= new Map())
+    byCategory.set(category, (byCategory.get(category) ?? 0) + 1)
+  }
+
+  const size = nplurals === Infinity ? counts.length : nplurals
+  const seen = Array.from({ length: size }, (_, index) => sortByCount(counts[index]))
+  const categories = assignCategories(seen, getPluralCategories(locale))
+
+  const ambiguous: PluralFormsMapping["ambiguous"] = []
+  categories.forEach((category, index) => {
+    const shared = categories.indexOf(category) !== categories.lastIndexOf(category)
+    const samples = seen[index] ?? []
+    if (samples.length > 1 || shared) {
+      ambiguous.push({ index, categories: samples.length > 0 ? samples : [category] })
+    }
+  })
+
+  return { categories, ambiguous }
+}
+
+/** Returns the categories of a count map, most frequent first */
+function sortByCount(counts: Map<string, number> | undefined): string[] {
+  return [...(counts ?? new Map<string, number>())]
+    .sort((a, b) => b[1] - a[1])
+    .map(([category]) => category)
+}
+
+/** Picks the main category of each index, giving unreached indices the unused ones */
+function assignCategories(seen: string[][], localeCategories: readonly string[]): string[] {
+  const used = new Set(seen.map((categories) => categories[0]))
+  const unused = localeCategories.filter((category) => !used.has(category))
+  return seen.map((categories) => categories[0] ?? unused.shift() ?? "other")
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest"
+import { pseudoLocalize, pseudoLocalizeMessage } from "./pseudo"
+import { parsePo } from "./parse"
+import { compareVariables, validateIcu } from "./icu/utils"
+import { parseIcu } from "./icu/parser"
+
+const MESSAGES = [
+  "Hello {name}!",
+  "{count, plural, =0 {No files} one {# file} other {# files}}",
+  "{rank, selectordinal, offset:1 one {#st} two {#nd} few {#rd} other {#th}}",
+  "{gender, select, female {She replied} male {He replied} other {They replied}}",
+  "Read the <link>terms</link> first.<br/>",
+  "Total: {price, number, ::currency/EUR} on {day, date, short}",
+  "It''s '{'literal'}' text",
+  "Progress: 50'#' {n, plural, other {'#' # done}}"
+]
+
+describe("pseudoLocalizeMessage", () => {
+  it("accents, lengthens and brackets literal text", () => {
+    expect(pseudoLocalizeMessage("Hello {name}!")).toBe("[Ĥéļļö~~ {name}!]")
+  })
+
+  it("keeps arguments, keywords, # and tags", () => {
+    expect(pseudoLocalizeMessage(MESSAGES[1] ?? "", { expansion: 0 })).toBe(
+      "[{count, plural, =0 {Ñö ƒîļéš} one {# ƒîļé} other {# ƒîļéš}}]"
+    )
+    expect(pseudoLocalizeMessage(MESSAGES[4] ?? "", { expansion: 0 })).toBe(
+      "[Ŕéåð ţĥé <link>ţéŕɱš</link> ƒîŕšţ.<br/>]"
+    )
+  })
+
+  it("produces valid ICU with the variables of the source", () => {
+    for (const message of MESSAGES) {
+      for (const rtl of [false, true]) {
+        const result = pseudoLocalizeMessage(message, { rtl })
+
+        expect(validateIcu(result), result).toEqual({ valid: true, errors: [] })
+        expect(compareVariables(message, result).isMatch).toBe(true)
+      }
+    }
+  })
+
+  it("keeps escaped special characters literal", () => {
+    const result = pseudoLocalizeMessage("It''s '{'literal'}' text", {
+      accents: false,
+      expansion: 0,
+      brackets: false
+    })
+
+    expect(parseIcu(result)).toMatchObject({
+      ast: [{ type: "literal", value: "It's {literal} text" }]
+    })
+  })
+
+  it("mirrors words for right-to-left layouts", () => {
+    expect(pseudoLocalizeMessage("Hi {name}", { rtl: true, brackets: false })).toBe(
+      "\u200f\u202eĤî~\u202c\u200f {name}"
+    )
+  })
+
+  it("uses custom brackets and escapes them", () => {
+    expect(pseudoLocalizeMessage("Hi", { brackets: ["{", "}"], expansion: 0 })).toBe("'{'Ĥî'}'")
+  })
+
+  it("returns messages that do not parse unchanged", () => {
+    expect(pseudoLocalizeMessage("Hello {name")).toBe("Hello {name")
+  })
+})
+
+describe("pseudoLocalize", () => {
+  it("fills every plural form of a PO file", () => {
+    const po = parsePo(`msgid ""
+msgstr ""
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 ? 1 : 2);\\n"
+
+#, fuzzy
+msgid "Save"
+msgstr "Zapisz"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] ""
+msgstr[1] ""
+msgstr[2] ""
+
+#~ msgid "Old"
+#~ msgstr "Stary"
+`)
+
+    const result = pseudoLocalize(po, { expansion: 0 })
+
+    expect(result.items.map((item) => item.msgstr)).toEqual([
+      ["[Šåṽé]"],
+      ["[{count} ƒîļé]", "[{count} ƒîļéš]", "[{count} ƒîļéš]"],
+      ["Stary"]
+    ])
+    expect(result.items[0]?.flags).toEqual({})
+    expect(po.items[0]?.msgstr).toEqual(["Zapisz"])
+  })
+
+  it("translates catalogs from their source message", () => {
+    const catalog = pseudoLocalize(
+      {
+        Save: { translation: "Speichern", flags: { fuzzy: true } },
+        "files.count": {
+          message: "{count} file",
+          pluralSource: "{count} files"
+        }
+      },
+      { expansion: 0, brackets: false }
+    )
+
+    expect(catalog.Save).toEqual({ translation: "Šåṽé", flags: {} })
+    expect(catalog["files.count"]?.translation).toEqual(["{count} ƒîļé", "{count} ƒîļéš"])
+  })
+})
@@ -0,0 +1,265 @@
+/**
+ * Pseudo-localization, for finding hard-coded strings and truncated
+ * layouts before real translations exist.
+ *
+ * Messages are parsed as ICU MessageFormat, so that only literal text is
+ * transformed: arguments, plural and select keywords, `#` and tag names
+ * stay untouched and the result compiles like the source.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import type { IcuNode, IcuPluralNode, IcuSelectNode } from "./icu/types"
+import { parseIcu } from "./icu/parser"
+import { getEntrySource, type Catalog, type CatalogEntry } from "./catalog"
+
+/**
+ * Options for `pseudoLocalize`.
+ */
+export interface PseudoLocalizeOptions {
+  /** Replace ASCII letters by accented look-alikes, e.g. "Save" → "Šåṽé" (default: true) */
+  accents?: boolean
+
+  /**
+   * Lengthen each text by this percentage with `~`, to find layouts that
+   * truncate longer translations (default: 30)
+   */
+  expansion?: number
+
+  /**
+   * Markers around each message, to find concatenated and cut-off strings,
+   * or false for none (default: ["[", "]"])
+   */
+  brackets?: readonly [string, string] | false
+
+  /**
+   * Mirror each word with the right-to-left override (U+202E … U+202C)
+   * between right-to-left marks, to test RTL layouts (default: false)
+   */
+  rtl?: boolean
+}
+
+/** Options with defaults applied */
+type ResolvedOptions = Required<PseudoLocalizeOptions>
+
+/** ASCII letters and their accented replacements */
+const ASCII_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+const ACCENTED_LETTERS = "ÅƁÇÐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽåƀçðéƒĝĥîĵķļɱñöþǫŕšţûṽŵẋýž"
+
+const ACCENTS = new Map(
+  Array.from(ASCII_LETTERS, (letter, i) => [letter, ACCENTED_LETTERS[i] ?? letter])
+)
+
+/** Right-to-left mark and override, and pop directional formatting and right-to-left mark */
+const RTL_OPEN = "\u200f\u202e"
+const RTL_CLOSE = "\u202c\u200f"
+
+/** A self-closing tag, which the ICU parser keeps as literal text */
+const RE_SELF_CLOSING_TAG = /^<[A-Za-z0-9][\w.:-]*\/>$/
+
+/** Splits text into leading whitespace, content and trailing whitespace */
+const RE_PADDED_TEXT = /^(\s*)([\s\S]*?)(\s*)$/
+
+/** Applies the defaults of `pseudoLocalize` */
+function resolveOptions(options: PseudoLocalizeOptions): ResolvedOptions {
+  const { accents = true, expansion = 30, brackets = ["[", "]"], rtl = false } = options
+  return { accents, expansion, brackets, rtl }
+}
+
+/** Transforms literal text */
+function transformText(text: string, options: ResolvedOptions): string {
+  const [, leading = "", content = "", trailing = ""] = RE_PADDED_TEXT.exec(text) ?? []
+  if (!content) {
+    return text
+  }
+  let result = options.accents
+    ? Array.from(content, (ch) => ACCENTS.get(ch) ?? ch).join("")
+    : content
+  result += "~".repeat(Math.round((content.length * options.expansion) / 100))
+  if (options.rtl) {
+    result = result.replace(/\S+/g, (word) => RTL_OPEN + word + RTL_CLOSE)
+  }
+  return leading + result + trailing
+}
+
+/** Whether a character has to be quoted in literal text */
+function isSpecial(ch: string, inPlural: boolean): boolean {
+  return ch === "{" || ch === "}" || ch === "<" || (ch === "#" && inPlural)
+}
+
+/**
+ * Escapes literal text for ICU MessageFormat. Runs of special characters
+ * are quoted; apostrophes are doubled, inside quotes and out.
+ */
+function escapeLiteral(text: string, inPlural: boolean): string {
+  let result = ""
+  let quoted = false
+  for (const ch of text) {
+    const special = isSpecial(ch, inPlural)
+    if (special && !quoted) {
+      result += "'"
+      quoted = true
+    } else if (!special && ch !== "'" && quoted) {
+      result += "'"
+      quoted = false
+    }
+    result += ch === "'" ? "''" : ch
+  }
+  return quoted ? result + "'" : result
+}
+
+/** Prints the options of a plural or select node */
+function printOptions(
+  node: IcuPluralNode | IcuSelectNode,
+  inPlural: boolean,
+  options: ResolvedOptions
+): string {
+  return Object.entries(node.options)
+    .map(([selector, option]) => ` ${selector} {${printNodes(option.value, inPlural, options)}}`)
+    .join("")
+}
+
+/** Prints literal text, transformed; self-closing tags are kept */
+function printLiteral(value: string, inPlural: boolean, options: ResolvedOptions): string {
+  return RE_SELF_CLOSING_TAG.test(value)
+    ? value
+    : escapeLiteral(transformText(value, options), inPlural)
+}
+
+/** Prints a plural or selectordinal node */
+function printPlural(node: IcuPluralNode, options: ResolvedOptions): string {
+  const type = node.pluralType === "ordinal" ? "selectordinal" : "plural"
+  const offset = node.offset ? ` offset:${node.offset}` : ""
+  return `{${node.value}, ${type},${offset}${printOptions(node, true, options)}}`
+}
+
+/** Prints a node, transforming its literal text */
+function printNode(node: IcuNode, inPlural: boolean, options: ResolvedOptions): string {
+  switch (node.type) {
+    case "literal":
+      return printLiteral(node.value, inPlural, options)
+    case "argument":
+      return `{${node.value}}`
+    case "pound":
+      return "#"
+    case "tag":
+      return `<${node.value}>${printNodes(node.children, inPlural, options)}</${node.value}>`
+    case "plural":
+      return printPlural(node, options)
+    case "select":
+      return `{${node.value}, select,${printOptions(node, false, options)}}`
+    default:
+      return `{${node.value}, ${node.type}${node.style === null ? "" : ", " + node.style}}`
+  }
+}
+
+/** Prints nodes, transforming their literal text */
+function printNodes(nodes: IcuNode[], inPlural: boolean, options: ResolvedOptions): string {
+  return nodes.map((node) => printNode(node, inPlural, options)).join("")
+}
+
+/** Pseudo-localizes a message with resolved options */
+function transformMessage(message: string, options: ResolvedOptions): string {
+  const result = parseIcu(message, { requiresOtherClause: false })
+  if (!result.success) {
+    return message
+  }
+  const text = printNodes(result.ast, false, options)
+  if (!options.brackets) {
+    return text
+  }
+  const [open, close] = options.brackets
+  return escapeLiteral(open, false) + text + escapeLiteral(close, false)
+}
+
+/**
+ * Pseudo-localizes a single ICU message.
+ *
+ * Only literal text is transformed. Messages that are not valid ICU
+ * MessageFormat are returned unchanged.
+ *
+ * @example
+ * pseudoLocalizeMessage("Hello {name}!")
+ * // → "[Ĥéļļö~~ {name}!]"
+ */
+export function pseudoLocalizeMessage(
+  message: string,
+  options: PseudoLocalizeOptions = {}
+): string {
+  return transformMessage(message, resolveOptions(options))
+}
+
+/** Returns the flags without fuzzy */
+function withoutFuzzy(flags: Record<string, boolean>): Record<string, boolean> {
+  const rest = { ...flags }
+  delete rest.fuzzy
+  return rest
+}
+
+/** Pseudo-localizes an item of a PO file */
+function transformItem(item: PoItem, options: ResolvedOptions): PoItem {
+  if (item.obsolete || !item.msgid) {
+    return item
+  }
+  const { msgid_plural: plural } = item
+  const msgstr =
+    plural === null
+      ? [transformMessage(item.msgid, options)]
+      : Array.from({ length: Math.max(item.nplurals, 1) }, (_, i) =>
+          transformMessage(i === 0 ? item.msgid : plural, options)
+        )
+  return { ...item, msgstr, flags: withoutFuzzy(item.flags) }
+}
+
+/** Pseudo-localizes a catalog entry */
+function transformEntry(key: string, entry: CatalogEntry, options: ResolvedOptions): CatalogEntry {
+  const { message } = getEntrySource(key, entry)
+  const { pluralSource } = entry
+  const translation =
+    pluralSource === undefined
+      ? transformMessage(message, options)
+      : Array.from({ length: entry.nplurals ?? 2 }, (_, i) =>
+          transformMessage(i === 0 ? message : pluralSource, options)
+        )
+  const result: CatalogEntry = { ...entry, translation }
+  if (entry.flags) {
+    result.flags = withoutFuzzy(entry.flags)
+  }
+  return result
+}
+
+/**
+ * Fills a PO file or catalog with pseudo-translations of the source
+ * messages: accented, lengthened and bracketed, and optionally mirrored.
+ *
+ * Source messages are parsed as ICU MessageFormat and only their literal
+ * text is transformed, so the results pass `validateIcu` and
+ * `compareVariables` against their source. Convert gettext plurals and
+ * printf-style placeholders with `normalizeToIcu` first. Messages that do
+ * not parse are copied unchanged. Gettext plurals get one msgstr per
+ * plural form, from msgid and msgid_plural. Fuzzy flags are removed;
+ * obsolete entries are left alone.
+ *
+ * @example
+ * const qa = pseudoLocalize(parsePo(template), { expansion: 40 })
+ * // msgid "Save {count} files" → msgstr "[Šåṽé~~ {count} ƒîļéš~~]"
+ *
+ * @example
+ * const catalog = pseudoLocalize({ Hello: {} }, { rtl: true, brackets: false })
+ */
+export function pseudoLocalize(po: PoFile, options?: PseudoLocalizeOptions): PoFile
+export function pseudoLocalize(catalog: Catalog, options?: PseudoLocalizeOptions): Catalog
+export function pseudoLocalize(
+  input: PoFile | Catalog,
+  options: PseudoLocalizeOptions = {}
+): PoFile | Catalog {
+  const resolved = resolveOptions(options)
+  if (Array.isArray(input.items)) {
+    const po = input as PoFile
+    return { ...po, items: po.items.map((item) => transformItem(item, resolved)) }
+  }
+  const catalog: Catalog = {}
+  for (const [key, entry] of Object.entries(input as Catalog)) {
+    catalog[key] = transformEntry(key, entry, resolved)
+  }
+  return catalog
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest"
+import { getStatistics } from "./statistics"
+import { parsePo } from "./parse"
+
+const PO = `msgid ""
+msgstr ""
+"Language: pl\\n"
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"
+
+#: src/checkout/cart/Cart.tsx:10
+msgid "Your cart"
+msgstr "Twój koszyk"
+
+#: src/checkout/Payment.tsx:4 src/account/Orders.tsx:8
+#, fuzzy
+msgid "Pay now"
+msgstr "Zapłać"
+
+#: src/checkout/cart/Cart.tsx:20
+msgid "One item"
+msgid_plural "{count} items"
+msgstr[0] "Jeden produkt"
+msgstr[1] "{count} produkty"
+msgstr[2] ""
+
+#: README.md
+msgid "Help"
+msgstr ""
+
+msgid "Cancel"
+msgstr "Anuluj"
+
+#~ msgid "Old"
+#~ msgstr "Stary"
+`
+
+describe("getStatistics", () => {
+  const stats = getStatistics(parsePo(PO))
+
+  it("counts entries by status", () => {
+    expect(stats).toMatchObject({
+      total: 5,
+      translated: 2,
+      fuzzy: 1,
+      untranslated: 2,
+      obsolete: 1
+    })
+  })
+
+  it("requires every plural form for a complete translation", () => {
+    const complete = parsePo(PO.replace('msgstr[2] ""', 'msgstr[2] "{count} produktów"'))
+
+    expect(getStatistics(complete)).toMatchObject({ translated: 3, untranslated: 1 })
+  })
+
+  it("counts fuzzy entries without translation as untranslated", () => {
+    const po = parsePo('#, fuzzy\nmsgid "a"\nmsgstr ""')
+
+    expect(getStatistics(po)).toMatchObject({ fuzzy: 0, untranslated: 1 })
+  })
+
+  it("counts source and target words and characters", () => {
+    // Your cart, Pay now, One item, {count} items, Help, Cancel
+    expect(stats.sourceWords).toBe(10)
+    expect(stats.sourceCharacters).toBe("Your cartPay nowOne item{count} itemsHelpCancel".length)
+    // Twój koszyk, Zapłać, Jeden produkt, {count} produkty, Anuluj
+    expect(stats.targetWords).toBe(8)
+    expect(stats.targetCharacters).toBe(
+      "Twój koszykZapłaćJeden produkt{count} produktyAnuluj".length
+    )
+  })
+
+  it("segments words of languages without spaces", () => {
+    const po = parsePo(
+      'msgid ""\nmsgstr ""\n"Language: ja\\n"\n\nmsgid "Save the file"\nmsgstr "ファイルを保存する"'
+    )
+
+    const result = getStatistics(po)
+    expect(result.sourceWords).toBe(3)
+    expect(result.targetWords).toBeGreaterThan(1)
+    expect(result.targetCharacters).toBe(9)
+  })
+
+  it("counts grapheme clusters as characters", () => {
+    const po = parsePo('msgid "👍🏽 ok"\nmsgstr "👨‍👩‍👧"')
+
+    expect(getStatistics(po)).toMatchObject({ sourceCharacters: 4, targetCharacters: 1 })
+  })
+
+  it("breaks counts down by reference directory", () => {
+    expect(Object.keys(stats.directories)).toEqual([
+      "src/checkout/cart",
+      "src/checkout",
+      "src/account",
+      ".",
+      ""
+    ])
+    expect(stats.directories["src/checkout/cart"]).toMatchObject({
+      total: 2,
+      translated: 1,
+      untranslated: 1
+    })
+    expect(stats.directories["src/account"]).toMatchObject({ total: 1, fuzzy: 1 })
+    expect(stats.directories["."]).toMatchObject({ total: 1, untranslated: 1 })
+    expect(stats.directories[""]).toMatchObject({ total: 1, translated: 1, obsolete: 1 })
+  })
+
+  it("groups directories by leading path segments", () => {
+    const grouped = getStatistics(parsePo(PO), { directoryDepth: 2 })
+
+    expect(grouped.directories["src/checkout"]).toMatchObject({
+      total: 3,
+      translated: 1,
+      fuzzy: 1,
+      untranslated: 1
+    })
+    expect(grouped.directories["src/checkout/cart"]).toBeUndefined()
+  })
+
+  it("accepts gettext locales and unknown languages", () => {
+    const po = parsePo('msgid ""\nmsgstr ""\n"Language: sr@latin\\n"\n\nmsgid "a"\nmsgstr "b"')
+
+    expect(getStatistics(po).targetWords).toBe(1)
+    expect(getStatistics(po, { locale: "not a locale" }).targetWords).toBe(1)
+  })
+})
@@ -0,0 +1,231 @@
+/**
+ * Translation statistics, like `msgfmt --statistics`.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { normalizeFilePath } from "./references"
+
+/**
+ * Entry, word and character counts.
+ *
+ * Obsolete entries only count towards `obsolete`.
+ */
+export interface PoStatisticsCounts {
+  /** Number of entries that are not obsolete */
+  total: number
+  /** Entries with every required msgstr filled and no fuzzy flag */
+  translated: number
+  /** Entries marked fuzzy that have a translation */
+  fuzzy: number
+  /** Entries without a (complete) translation */
+  untranslated: number
+  /** Obsolete entries (#~) */
+  obsolete: number
+  /** Words in msgid and msgid_plural */
+  sourceWords: number
+  /** Characters (grapheme clusters) in msgid and msgid_plural */
+  sourceCharacters: number
+  /** Words in all msgstr */
+  targetWords: number
+  /** Characters (grapheme clusters) in all msgstr */
+  targetCharacters: number
+}
+
+/**
+ * Statistics of a PO file.
+ */
+export interface PoStatistics extends PoStatisticsCounts {
+  /**
+   * Counts per directory of the entries' references, like "src/checkout".
+   * An entry counts once for each directory it is referenced from. Files in
+   * the root directory are grouped under ".", entries without references
+   * under "".
+   */
+  directories: Record<string, PoStatisticsCounts>
+}
+
+/**
+ * Options for `getStatistics`.
+ */
+export interface GetStatisticsOptions {
+  /**
+   * Locale for segmenting source words.
+   * @default "en"
+   */
+  sourceLocale?: string
+
+  /**
+   * Locale for segmenting translated words.
+   * @default the Language header
+   */
+  locale?: string
+
+  /**
+   * Number of leading path segments to group directories by, e.g. 2 groups
+   * "src/checkout/cart/Cart.tsx" under "src/checkout". By default, the full
+   * directory is used.
+   */
+  directoryDepth?: number
+}
+
+/** Status of an entry */
+type EntryStatus = "translated" | "fuzzy" | "untranslated" | "obsolete"
+
+/** Word and character counter for one locale */
+interface TextCounter {
+  words: (text: string) => number
+  characters: (text: string) => number
+}
+
+/** Matches the line number suffix of a reference */
+const RE_LINE_NUMBER = /:\d+$/
+
+/** Creates empty counts */
+function createCounts(): PoStatisticsCounts {
+  return {
+    total: 0,
+    translated: 0,
+    fuzzy: 0,
+    untranslated: 0,
+    obsolete: 0,
+    sourceWords: 0,
+    sourceCharacters: 0,
+    targetWords: 0,
+    targetCharacters: 0
+  }
+}
+
+/**
+ * Converts a gettext locale (pt_BR, sr@latin) to a BCP 47 tag.
+ * Returns undefined, the default locale, for tags Intl does not accept.
+ */
+function toIntlLocale(locale: string | undefined): string | undefined {
+  const tag = locale?.replace(/@.*$/, "").replace(/_/g, "-")
+  if (!tag) {
+    return undefined
+  }
+  try {
+    return Intl.getCanonicalLocales(tag)[0]
+  } catch {
+    return undefined
+  }
+}
+
+/** Creates a counter that segments words and graphemes with `Intl.Segmenter` */
+function createTextCounter(locale: string | undefined): TextCounter {
+  const tag = toIntlLocale(locale)
+  const words = new Intl.Segmenter(tag, { granularity: "word" })
+  const graphemes = new Intl.Segmenter(tag, { granularity: "grapheme" })
+  const count = (segmenter: Intl.Segmenter, text: string, wordsOnly: boolean): number => {
+    let n = 0
+    for (const segment of segmenter.segment(text)) {
+      if (!wordsOnly || segment.isWordLike) {
+        n++
+      }
+    }
+    return n
+  }
+  return {
+    words: (text) => count(words, text, true),
+    characters: (text) => count(graphemes, text, false)
+  }
+}
+
+/**
+ * Returns the status of an entry.
+ *
+ * Plural entries are complete only when all `nplurals` msgstr are filled.
+ */
+function getEntryStatus(item: PoItem): EntryStatus {
+  if (item.obsolete) {
+    return "obsolete"
+  }
+  const required = item.msgid_plural === null ? 1 : Math.max(item.nplurals, 1)
+  let filled = 0
+  for (let i = 0; i < required; i++) {
+    if (item.msgstr[i]) {
+      filled++
+    }
+  }
+  if (filled > 0 && item.flags.fuzzy) {
+    return "fuzzy"
+  }
+  return filled === required ? "translated" : "untranslated"
+}
+
+/** Returns the directories an entry is referenced from */
+function getDirectories(item: PoItem, depth: number | undefined): Set<string> {
+  const directories = new Set<string>()
+  for (const line of item.references) {
+    for (const reference of line.split(/\s+/)) {
+      if (!reference) {
+        continue
+      }
+      const segments = normalizeFilePath(reference.replace(RE_LINE_NUMBER, "")).split("/")
+      segments.pop()
+      const directory = segments.slice(0, depth).join("/")
+      directories.add(directory || ".")
+    }
+  }
+  if (directories.size === 0) {
+    directories.add("")
+  }
+  return directories
+}
+
+/** Counts a single entry */
+function countEntry(
+  item: PoItem,
+  text: { source: TextCounter; target: TextCounter }
+): PoStatisticsCounts {
+  const counts = createCounts()
+  const status = getEntryStatus(item)
+  counts[status] = 1
+  if (status === "obsolete") {
+    return counts
+  }
+  counts.total = 1
+  for (const source of [item.msgid, item.msgid_plural ?? ""]) {
+    counts.sourceWords += text.source.words(source)
+    counts.sourceCharacters += text.source.characters(source)
+  }
+  for (const target of item.msgstr) {
+    counts.targetWords += text.target.words(target)
+    counts.targetCharacters += text.target.characters(target)
+  }
+  return counts
+}
+
+/** Adds counts to a total */
+function addCounts(total: PoStatisticsCounts, counts: PoStatisticsCounts): void {
+  for (const key of Object.keys(counts) as (keyof PoStatisticsCounts)[]) {
+    total[key] += counts[key]
+  }
+}
+
+/**
+ * Counts translated, fuzzy, untranslated and obsolete entries, and the words
+ * and characters of source and translation, overall and per directory.
+ *
+ * Words are counted with `Intl.Segmenter`, so languages without spaces
+ * between words (Chinese, Japanese, Thai) are counted correctly.
+ *
+ * @example
+ * const stats = getStatistics(po, { directoryDepth: 2 })
+ * console.log(`${stats.translated} translated, ${stats.fuzzy} fuzzy, ${stats.untranslated} untranslated`)
+ * stats.directories["src/checkout"]?.untranslated
+ */
+export function getStatistics(po: PoFile, options: GetStatisticsOptions = {}): PoStatistics {
+  const { sourceLocale = "en", locale = po.headers.Language, directoryDepth } = options
+  const text = { source: createTextCounter(sourceLocale), target: createTextCounter(locale) }
+  const statistics: PoStatistics = { ...createCounts(), directories: {} }
+
+  for (const item of po.items) {
+    const counts = countEntry(item, text)
+    addCounts(statistics, counts)
+    for (const directory of getDirectories(item, directoryDepth)) {
+      addCounts((statistics.directories[directory] ??= createCounts()), counts)
+    }
+  }
+  return statistics
+}
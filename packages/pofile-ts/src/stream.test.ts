@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { Readable } from "node:stream"
+import { parsePo } from "./parse"
+import { parsePoStream, type PoStreamEntry, type PoStreamSource } from "./stream"
+import type { PoFile } from "./types"
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures")
+
+const FIXTURES = [
+  "big.po",
+  "c-strings.po",
+  "comment.po",
+  "commented.po",
+  "fuzzy.po",
+  "metadata.po",
+  "multi-line.po",
+  "no_header.po",
+  "no_header_extra_spaces.po",
+  "previous.po",
+  "reference.po",
+  "plurals/messages.po",
+  "plurals/nplurals-3.po"
+]
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), "utf8")
+}
+
+/** Splits a string into fixed-size chunks */
+function chunkString(data: string, size: number): string[] {
+  const chunks: string[] = []
+  for (let i = 0; i < data.length; i += size) {
+    chunks.push(data.slice(i, i + size))
+  }
+  return chunks
+}
+
+async function* fromArray<T>(chunks: T[]): AsyncGenerator<T> {
+  for (const chunk of chunks) {
+    yield await Promise.resolve(chunk)
+  }
+}
+
+async function collect(source: PoStreamSource): Promise<PoStreamEntry[]> {
+  const entries: PoStreamEntry[] = []
+  for await (const entry of parsePoStream(source)) {
+    entries.push(entry)
+  }
+  return entries
+}
+
+/** Reassembles a PoFile from stream entries */
+async function parseStreamToPoFile(source: PoStreamSource): Promise<PoFile> {
+  const entries = await collect(source)
+  const [first, ...rest] = entries
+  if (first?.type !== "header") {
+    throw new Error("Expected header entry first")
+  }
+  const items = rest.map((entry) => {
+    if (entry.type !== "item") {
+      throw new Error("Expected item entry")
+    }
+    return entry.item
+  })
+  return { ...first.header, items }
+}
+
+describe("parsePoStream", () => {
+  describe("equivalence with parsePo", () => {
+    for (const name of FIXTURES) {
+      it(`produces the same result for ${name}`, async () => {
+        const data = readFixture(name)
+        const expected = parsePo(data)
+
+        for (const size of [1, 7, 64, 4096]) {
+          const po = await parseStreamToPoFile(fromArray(chunkString(data, size)))
+          expect(po).toEqual(expected)
+        }
+      })
+    }
+  })
+
+  it("yields the header before any item", async () => {
+    const entries = await collect(
+      fromArray(['msgid ""\nmsgstr ""\n"Language: de\\n"\n\nmsgid "a"\nmsgstr "b"\n'])
+    )
+
+    expect(entries.map((e) => e.type)).toEqual(["header", "item"])
+    const header = entries[0]
+    expect(header?.type === "header" && header.header.headers.Language).toBe("de")
+  })
+
+  it("yields an empty header when the file has none", async () => {
+    const entries = await collect(fromArray(['msgid "a"\nmsgstr "b"']))
+
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toMatchObject({ type: "header", header: { headerOrder: [] } })
+  })
+
+  it("applies nplurals from the Plural-Forms header", async () => {
+    const data = `msgid ""
+msgstr ""
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 ? 1 : 2);\\n"
+
+msgid "file"
+msgid_plural "files"
+msgstr[0] ""`
+    const entries = await collect(fromArray(chunkString(data, 5)))
+
+    expect(entries[1]).toMatchObject({ type: "item", item: { nplurals: 3 } })
+  })
+
+  it("normalizes CRLF split across chunks", async () => {
+    const data = 'msgid "a"\r\nmsgstr "b"\r\n\r\nmsgid "c"\r\nmsgstr "d"\r\n'
+    const po = await parseStreamToPoFile(fromArray(chunkString(data, 1)))
+
+    expect(po).toEqual(parsePo(data))
+    expect(po.items.map((item) => item.msgstr[0])).toEqual(["b", "d"])
+  })
+
+  it("decodes UTF-8 bytes split inside multi-byte characters", async () => {
+    const data = 'msgid "Größe"\nmsgstr "サイズ"\n'
+    const bytes = new TextEncoder().encode(data)
+    const chunks = [...bytes].map((byte) => Uint8Array.of(byte))
+    const po = await parseStreamToPoFile(fromArray(chunks))
+
+    expect(po.items[0]?.msgid).toBe("Größe")
+    expect(po.items[0]?.msgstr).toEqual(["サイズ"])
+  })
+
+  it("reads from a web ReadableStream", async () => {
+    const data = readFixture("big.po")
+    const bytes = new TextEncoder().encode(data)
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 100) {
+          controller.enqueue(bytes.slice(i, i + 100))
+        }
+        controller.close()
+      }
+    })
+
+    const po = await parseStreamToPoFile(stream)
+    expect(po).toEqual(parsePo(data))
+  })
+
+  it("reads from a Node.js readable stream", async () => {
+    const data = readFixture("commented.po")
+    const po = await parseStreamToPoFile(
+      fs.createReadStream(path.join(FIXTURES_DIR, "commented.po"))
+    )
+
+    expect(po).toEqual(parsePo(data))
+  })
+
+  it("reads from a Node.js readable stream in string mode", async () => {
+    const data = readFixture("fuzzy.po")
+    const po = await parseStreamToPoFile(Readable.from(chunkString(data, 3)))
+
+    expect(po).toEqual(parsePo(data))
+  })
+
+  it("handles empty input", async () => {
+    const entries = await collect(fromArray<string>([]))
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]?.type).toBe("header")
+  })
+
+  it("yields items before the stream has ended", async () => {
+    const progress = { released: false }
+    async function* source(): AsyncGenerator<string> {
+      yield 'msgid "first"\nmsgstr "1"\n\nmsgid "second"\nmsgstr "2"\n\n'
+      await Promise.resolve()
+      progress.released = true
+      yield 'msgid "third"\nmsgstr "3"\n'
+    }
+
+    const seenBeforeRelease: string[] = []
+    for await (const entry of parsePoStream(source())) {
+      if (entry.type === "item" && !progress.released) {
+        seenBeforeRelease.push(entry.item.msgid)
+      }
+    }
+
+    expect(seenBeforeRelease).toEqual(["first"])
+  })
+})
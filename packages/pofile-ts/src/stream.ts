@@ -0,0 +1,247 @@
+/**
+ * Streaming PO parser.
+ *
+ * Parses PO content chunk by chunk and yields items as soon as they are
+ * complete, so memory use stays flat regardless of catalog size.
+ * Shares the line state machine with `parsePo` and produces identical items.
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { createPoFile } from "./parse"
+import { parsePluralForms } from "./plurals"
+import {
+  classifyHeaderSection,
+  createParserState,
+  finishItem,
+  parseHeaders,
+  parseItemLine,
+  type ItemParserContext
+} from "./internal/parser"
+import { RE_HEADER_MSGID } from "./internal/constants"
+
+/**
+ * File-level data that precedes the items (comments and headers).
+ */
+export type PoStreamHeader = Omit<PoFile, "items">
+
+/**
+ * A single entry yielded by `parsePoStream`.
+ * The header entry is always yielded first, followed by one entry per item.
+ */
+export type PoStreamEntry =
+  | { type: "header"; header: PoStreamHeader }
+  | { type: "item"; item: PoItem }
+
+/**
+ * Minimal reader shape of a web `ReadableStream`.
+ */
+export interface PoStreamReader {
+  read(): Promise<{ done: boolean; value?: Uint8Array | string }>
+  releaseLock(): void
+}
+
+/**
+ * Minimal shape of a web `ReadableStream<Uint8Array>`.
+ */
+export interface PoReadableStream {
+  getReader(): PoStreamReader
+}
+
+/**
+ * Input accepted by `parsePoStream`.
+ *
+ * Covers async iterables of strings or bytes (including Node.js readable
+ * streams) as well as web `ReadableStream`s. Bytes are decoded as UTF-8.
+ */
+export type PoStreamSource = AsyncIterable<string | Uint8Array> | PoReadableStream
+
+/** Iterates raw chunks of any supported source */
+async function* iterateSource(source: PoStreamSource): AsyncGenerator<string | Uint8Array> {
+  if ("getReader" in source) {
+    const reader = source.getReader()
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) {
+          return
+        }
+        if (value !== undefined) {
+          yield value
+        }
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  }
+
+  yield* source
+}
+
+/**
+ * Decodes chunks to text and normalizes CRLF line endings.
+ * A trailing "\r" is held back until the next chunk shows whether a "\n" follows.
+ */
+async function* readText(source: PoStreamSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let carry = ""
+
+  for await (const chunk of iterateSource(source)) {
+    let text = carry + (typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true }))
+    carry = ""
+
+    if (text.endsWith("\r")) {
+      carry = "\r"
+      text = text.slice(0, -1)
+    }
+    if (text) {
+      yield text.includes("\r\n") ? text.replaceAll("\r\n", "\n") : text
+    }
+  }
+
+  const rest = carry + decoder.decode()
+  if (rest) {
+    yield rest
+  }
+}
+
+/**
+ * Consumes the next header section from the buffer.
+ *
+ * Mirrors the section handling of `splitHeaderAndBody`. Returns the unconsumed
+ * rest of the buffer and whether the header is complete.
+ */
+function consumeHeaderSection(
+  buffer: string,
+  headerParts: string[]
+): { rest: string; done: boolean } {
+  const separator = buffer.indexOf("\n\n")
+  const section = separator === -1 ? buffer : buffer.slice(0, separator)
+  if (!section) {
+    return { rest: buffer, done: true }
+  }
+
+  const kind = classifyHeaderSection(section)
+  if (kind === "body") {
+    headerParts.push('msgid ""')
+    return { rest: buffer, done: true }
+  }
+
+  headerParts.push(section)
+  return { rest: separator === -1 ? "" : buffer.slice(separator + 2), done: kind === "last" }
+}
+
+/**
+ * Reads the header from the start of the text.
+ *
+ * Only buffers until the header is complete. Returns whatever was read
+ * beyond the header as the start of the body.
+ */
+async function readHeader(
+  text: AsyncIterator<string>
+): Promise<{ header: PoStreamHeader; rest: string }> {
+  const headerParts: string[] = []
+  let buffer = ""
+  let ended = false
+
+  for (;;) {
+    // A partial section can only be classified early when it already holds a real msgid
+    if (!ended && !buffer.includes("\n\n") && !RE_HEADER_MSGID.test(buffer)) {
+      const next = await text.next()
+      ended = next.done === true
+      buffer += next.done ? "" : next.value
+      continue
+    }
+
+    const { rest, done } = consumeHeaderSection(buffer, headerParts)
+    buffer = rest
+    if (done) {
+      break
+    }
+  }
+
+  const po = createPoFile()
+  parseHeaders(headerParts.join("\n"), po)
+
+  return {
+    header: {
+      comments: po.comments,
+      extractedComments: po.extractedComments,
+      headers: po.headers,
+      headerOrder: po.headerOrder
+    },
+    rest: buffer
+  }
+}
+
+/**
+ * Parses a PO file from a stream, yielding the header first and then each item.
+ *
+ * Only the header section and the item currently being parsed are held in
+ * memory, which makes this suitable for very large catalogs. The items are
+ * identical to those produced by `parsePo` for the same content.
+ *
+ * @example
+ * import { createReadStream } from "node:fs"
+ *
+ * for await (const entry of parsePoStream(createReadStream("messages.po"))) {
+ *   if (entry.type === "header") {
+ *     console.log(entry.header.headers.Language)
+ *   } else {
+ *     console.log(entry.item.msgid)
+ *   }
+ * }
+ *
+ * @example
+ * // Web streams (e.g. fetch response bodies)
+ * const response = await fetch("/locales/de.po")
+ * for await (const entry of parsePoStream(response.body)) {
+ *   // ...
+ * }
+ */
+export async function* parsePoStream(
+  source: PoStreamSource
+): AsyncGenerator<PoStreamEntry, void, undefined> {
+  const text = readText(source)
+  const { header, rest } = await readHeader(text)
+  yield { type: "header", header }
+
+  const nplurals = parsePluralForms(header.headers["Plural-Forms"]).nplurals
+  const state = createParserState(nplurals)
+  const completed: PoItem[] = []
+  const ctx: ItemParserContext = {
+    nplurals,
+    emit: (item) => {
+      completed.push(item)
+    }
+  }
+
+  let pending = rest
+  for (;;) {
+    let start = 0
+    let newline = pending.indexOf("\n")
+    while (newline !== -1) {
+      parseItemLine(pending.slice(start, newline), state, ctx)
+      start = newline + 1
+      newline = pending.indexOf("\n", start)
+    }
+    pending = pending.slice(start)
+
+    for (const item of completed.splice(0)) {
+      yield { type: "item", item }
+    }
+
+    const next = await text.next()
+    if (next.done) {
+      break
+    }
+    pending += next.value
+  }
+
+  // Last line has no trailing newline
+  parseItemLine(pending, state, ctx)
+  finishItem(state, ctx)
+
+  for (const item of completed) {
+    yield { type: "item", item }
+  }
+}
@@ -1,7 +1,9 @@
 import { describe, it, expect } from "vitest"
-import { stringifyPo } from "./stringify"
-import { createPoFile } from "./parse"
-import { createItem } from "./Item"
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { stringifyPo, stringifyPoBytes } from "./stringify"
+import { createPoFile, parsePo, parsePoBytes } from "./parse"
+import { createItem, stringifyItem } from "./Item"
 import type { PoFile } from "./types"
 
 describe("stringify", () => {
@@ -184,4 +186,263 @@ describe("stringify", () => {
       expect(compact).toContain('msgid "Line1')
     })
   })
+  describe("stringifyPoBytes", () => {
+    function createGermanPo(contentType: string): PoFile {
+      const po = createPoFile()
+      po.headers["Content-Type"] = contentType
+      const item = createItem()
+      item.msgid = "size"
+      item.msgstr = ["Größe"]
+      po.items.push(item)
+      return po
+    }
+
+    it("encodes to UTF-8 by default", () => {
+      const po = createGermanPo("")
+
+      expect(new TextDecoder().decode(stringifyPoBytes(po))).toBe(stringifyPo(po))
+    })
+
+    it("encodes to UTF-8 for the CHARSET placeholder and unknown charsets", () => {
+      for (const contentType of ["text/plain; charset=CHARSET", "text/plain; charset=x-unknown"]) {
+        const po = createGermanPo(contentType)
+
+        expect(new TextDecoder().decode(stringifyPoBytes(po))).toBe(stringifyPo(po))
+      }
+    })
+
+    it("encodes to the charset from the Content-Type header", () => {
+      const bytes = stringifyPoBytes(createGermanPo("text/plain; charset=ISO-8859-1"))
+
+      expect(bytes).toContain(0xf6)
+      expect(new TextDecoder("latin1").decode(bytes)).toContain('msgstr "Größe"')
+    })
+
+    it("encodes to a requested charset and updates the header", () => {
+      const po = createGermanPo("text/plain; charset=UTF-8")
+      const bytes = stringifyPoBytes(po, { charset: "windows-1252" })
+      const parsed = parsePoBytes(bytes)
+
+      expect(parsed.headers["Content-Type"]).toBe("text/plain; charset=windows-1252")
+      expect(parsed.items[0]?.msgstr).toEqual(["Größe"])
+      expect(po.headers["Content-Type"]).toBe("text/plain; charset=UTF-8")
+    })
+
+    it("adds a charset when the header has none", () => {
+      const parsed = parsePoBytes(stringifyPoBytes(createGermanPo(""), { charset: "ISO-8859-15" }))
+
+      expect(parsed.headers["Content-Type"]).toBe("text/plain; charset=ISO-8859-15")
+      expect(parsed.items[0]?.msgstr).toEqual(["Größe"])
+    })
+
+    it("writes a byte order mark for UTF-16", () => {
+      for (const charset of ["utf-16le", "utf-16be"]) {
+        const bytes = stringifyPoBytes(createGermanPo(""), { charset })
+        const parsed = parsePoBytes(bytes)
+
+        expect([...bytes.subarray(0, 2)]).toEqual(
+          charset === "utf-16le" ? [0xff, 0xfe] : [0xfe, 0xff]
+        )
+        expect(parsed.headers["Content-Type"]).toBe(`text/plain; charset=${charset}`)
+        expect(parsed.items[0]?.msgstr).toEqual(["Größe"])
+        expect(parsePoBytes(bytes.subarray(2)).items[0]?.msgstr).toEqual(["Größe"])
+      }
+    })
+
+    it("passes serialize options through", () => {
+      const po = createGermanPo("")
+      po.items[0]!.msgstr = ["a".repeat(50) + " " + "b".repeat(50)]
+
+      expect(new TextDecoder().decode(stringifyPoBytes(po, { foldLength: 0 }))).toBe(
+        stringifyPo(po, { foldLength: 0 })
+      )
+    })
+
+    it("throws for characters the charset cannot represent", () => {
+      const po = createGermanPo("")
+      po.items[0]!.msgstr = ["サイズ"]
+
+      expect(() => stringifyPoBytes(po, { charset: "ISO-8859-1" })).toThrow("cannot be encoded")
+    })
+
+    it("throws for unknown charsets", () => {
+      expect(() => stringifyPoBytes(createGermanPo(""), { charset: "nope" })).toThrow(
+        "Unknown charset"
+      )
+      expect(() => stringifyPoBytes(createGermanPo(""), { charset: "Shift_JIS" })).toThrow(
+        "not supported"
+      )
+    })
+  })
+  describe("lossless round-trip", () => {
+    const input = `# Project translations
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Language: de\\n"
+
+#:   src/app.ts:1    src/app.ts:2
+#,fuzzy
+#.  Extracted after flags
+msgid "A very long message that was folded"
+" by hand at an unusual position"
+msgstr "Eine sehr lange Nachricht, die von Hand an einer ungewöhnlichen Stelle umbrochen wurde"
+
+
+
+msgid "second"
+msgstr "zweite"
+#  Comment directly after the previous item
+msgid "third"
+msgstr "dritte"
+
+#~ msgid "obsolete"
+#~ msgstr "veraltet"
+`
+
+    function parseLossless(content: string): ReturnType<typeof parsePo> {
+      return parsePo(content, { preserveSource: true })
+    }
+
+    it("writes unmodified files back byte-for-byte", () => {
+      expect(stringifyPo(parseLossless(input))).toBe(input)
+      expect(stringifyPo(parseLossless(input.trimEnd()))).toBe(input.trimEnd())
+    })
+
+    it("writes all fixtures back byte-for-byte", () => {
+      const dir = path.join(__dirname, "fixtures")
+      for (const name of [
+        "big.po",
+        "c-strings.po",
+        "commented.po",
+        "no_header.po",
+        "previous.po"
+      ]) {
+        const content = fs.readFileSync(path.join(dir, name), "utf8")
+        expect(stringifyPo(parseLossless(content)), name).toBe(content)
+      }
+    })
+
+    it("preserves CRLF line endings", () => {
+      const crlf = input.replaceAll("\n", "\r\n")
+      const po = parseLossless(crlf)
+      po.items[1]!.msgstr = ["2."]
+
+      const output = stringifyPo(po)
+      expect(output).toBe(crlf.replace('msgstr "zweite"', 'msgstr "2."'))
+    })
+
+    it("only reserializes modified items", () => {
+      const po = parseLossless(input)
+      const item = po.items[0]!
+      const original = item.raw?.text ?? ""
+      item.msgstr = ["Neu"]
+
+      expect(original).toMatch(/^#: {3}src[^]*umbrochen wurde"$/)
+      expect(stringifyPo(po)).toBe(input.replace(original, stringifyItem(item)))
+    })
+
+    it("reserializes items with modified flags or comments", () => {
+      const po = parseLossless(input)
+      delete po.items[0]!.flags.fuzzy
+      po.items[2]!.comments.push("Another")
+
+      const output = stringifyPo(po)
+      expect(output).not.toContain("#,fuzzy")
+      expect(output).toContain(
+        'msgid "second"\nmsgstr "zweite"\n# Comment directly after the previous item\n# Another\n'
+      )
+    })
+
+    it("keeps the original text when a change is reverted", () => {
+      const po = parseLossless(input)
+      po.items[1]!.msgstr = ["temporary"]
+      po.items[1]!.msgstr = ["zweite"]
+
+      expect(stringifyPo(po)).toBe(input)
+    })
+
+    it("separates new items with a blank line", () => {
+      const po = parseLossless(input.trimEnd())
+      const item = createItem()
+      item.msgid = "new"
+      item.msgstr = ["neu"]
+      po.items.splice(1, 0, item)
+      po.items.push({ ...item, msgid: "last" })
+
+      const output = stringifyPo(po)
+      expect(output).toContain(
+        'umbrochen wurde"\n\n\n\nmsgid "new"\nmsgstr "neu"\n\nmsgid "second"'
+      )
+      expect(output.endsWith('#~ msgstr "veraltet"\n\nmsgid "last"\nmsgstr "neu"\n')).toBe(true)
+    })
+
+    it("drops removed items with their trailing lines", () => {
+      const po = parseLossless(input)
+      po.items.splice(0, 1)
+
+      expect(stringifyPo(po)).toBe(input.replace(/#: {3}[^]*?\n\n\n\n/, ""))
+    })
+
+    it("reserializes the header only when it changed", () => {
+      const po = parseLossless(input)
+      po.headers.Language = "fr"
+
+      const output = stringifyPo(po)
+      expect(output).toContain('"Language: fr\\n"')
+      expect(output).toContain("# Project translations\n")
+      expect(output.substring(output.indexOf("#:   src"))).toBe(
+        input.substring(input.indexOf("#:   src"))
+      )
+    })
+
+    it("writes only the original and the edited headers", () => {
+      const po = parseLossless(input)
+      po.headers.Language = "fr"
+      po.headers["Last-Translator"] = "Marie"
+      po.headers["X-Generator"] = "Tool"
+
+      const output = stringifyPo(po)
+      expect(output.substring(0, output.indexOf("#:   src"))).toBe(`# Project translations
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Language: fr\\n"
+"Last-Translator: Marie\\n"
+"X-Generator: Tool\\n"
+
+`)
+    })
+
+    it("separates reordered items and items from other files with a blank line", () => {
+      const po = parseLossless(input)
+      const other = parseLossless('msgid "other"\nmsgstr "andere"')
+      po.items = [po.items[2]!, po.items[1]!, other.items[0]!, po.items[3]!]
+
+      expect(stringifyPo(po).substring(input.indexOf("#:   src")))
+        .toBe(`#  Comment directly after the previous item
+msgid "third"
+msgstr "dritte"
+
+msgid "second"
+msgstr "zweite"
+
+msgid "other"
+msgstr "andere"
+
+#~ msgid "obsolete"
+#~ msgstr "veraltet"
+`)
+    })
+
+    it("does not attach locations unless requested", () => {
+      const po = parseLossless(input)
+
+      expect(po.items[0]?.location).toBeUndefined()
+      expect(po.items[0]?.raw?.text.startsWith("#:   src/app.ts:1")).toBe(true)
+      expect(
+        parsePo(input, { preserveSource: true, locations: true }).items[0]?.location
+      ).toBeDefined()
+    })
+  })
 })
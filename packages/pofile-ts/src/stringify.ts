@@ -1,5 +1,19 @@
-import type { Headers, PoFile, SerializeOptions } from "./types"
+import type {
+  Headers,
+  PoFile,
+  PoItem,
+  PoRawText,
+  SerializeOptions,
+  StringifyBytesOptions
+} from "./types"
 import { stringifyItem } from "./Item"
+import { encodeFile, findCharset, isKnownCharset, setCharset } from "./internal/charset"
+import {
+  followsInSource,
+  getSnapshotHeaders,
+  snapshotHeader,
+  snapshotItem
+} from "./internal/lossless"
 
 /** Appends file-level comments to lines array */
 function appendFileComments(lines: string[], po: Partial<PoFile>): void {
@@ -50,8 +64,18 @@ function appendHeaders(lines: string[], po: Partial<PoFile>): void {
  * @example
  * // No line folding
  * const output = stringifyPo(po, { foldLength: 0 })
+ *
+ * @example
+ * // Lossless: unmodified entries are written back byte-for-byte
+ * const po = parsePo(content, { preserveSource: true })
+ * po.items[0].msgstr = ["Neu"]
+ * const output = stringifyPo(po)
  */
 export function stringifyPo(po: Partial<PoFile>, options?: SerializeOptions): string {
+  if (po.raw) {
+    return stringifyPoLossless(po, po.raw, options)
+  }
+
   const lines: string[] = []
 
   appendFileComments(lines, po)
@@ -65,8 +89,110 @@ export function stringifyPo(po: Partial<PoFile>, options?: SerializeOptions): st
   return lines.join("\n")
 }
 
+/**
+ * Writes the original text of unmodified entries and reserializes the rest.
+ *
+ * Modified entries keep the blank lines that followed them. Items that no
+ * longer follow the entry they followed in the parsed file (new, reordered or
+ * taken from another file) are separated from it by a blank line.
+ */
+function stringifyPoLossless(
+  po: Partial<PoFile>,
+  raw: NonNullable<PoFile["raw"]>,
+  options?: SerializeOptions
+): string {
+  let output: string
+  let previous: PoRawText | undefined
+
+  if (snapshotHeader(po) === raw.snapshot) {
+    output = raw.text + raw.trailing
+    previous = raw
+  } else {
+    const lines: string[] = []
+    appendFileComments(lines, po)
+    appendHeaders(lines, { ...po, headers: getLosslessHeaders(po, raw.snapshot) })
+    output = lines.join("\n")
+  }
+
+  for (const item of po.items ?? []) {
+    if (!followsInSource(item.raw, previous)) {
+      output = ensureBlankLine(output)
+    }
+    output += stringifyLosslessItem(item, options)
+    previous = item.raw
+  }
+
+  return raw.lineEnding === "\n" ? output : output.replaceAll("\n", raw.lineEnding)
+}
+
+/**
+ * Returns the headers to write for a modified lossless header: those of the
+ * original file plus the ones set since, leaving out the defaults `parsePo` adds.
+ */
+function getLosslessHeaders(po: Partial<PoFile>, snapshot: string): Partial<Headers> {
+  const headers = po.headers ?? {}
+  const original = getSnapshotHeaders(snapshot)
+  const written = new Set(po.headerOrder)
+  return Object.fromEntries(
+    Object.entries(headers).filter(([key, value]) => written.has(key) || original[key] !== value)
+  )
+}
+
+/** Returns the original text of an unmodified item, or reserializes it */
+function stringifyLosslessItem(item: PoItem, options?: SerializeOptions): string {
+  if (!item.raw) {
+    return stringifyItem(item, options) + "\n"
+  }
+  if (snapshotItem(item) === item.raw.snapshot) {
+    return item.raw.text + item.raw.trailing
+  }
+  return stringifyItem(item, options) + item.raw.trailing
+}
+
+/** Appends line breaks until the output ends with a blank line */
+function ensureBlankLine(output: string): string {
+  if (output === "" || output.endsWith("\n\n")) {
+    return output
+  }
+  return output + (output.endsWith("\n") ? "\n" : "\n\n")
+}
+
+/**
+ * Serializes a PoFile structure to bytes.
+ *
+ * Encodes to the charset declared in the Content-Type header (UTF-8 if none
+ * or unknown, like the `CHARSET` placeholder of POT files), with a byte
+ * order mark for UTF-16. When `options.charset` is given, the output is encoded to that charset and
+ * its Content-Type header is updated to match; `po` itself is not modified.
+ *
+ * @throws Error if the charset is unsupported or a character cannot be encoded
+ *
+ * @example
+ * fs.writeFileSync("legacy.po", stringifyPoBytes(po, { charset: "ISO-8859-1" }))
+ */
+export function stringifyPoBytes(
+  po: Partial<PoFile>,
+  options: StringifyBytesOptions = {}
+): Uint8Array {
+  const contentType = po.headers?.["Content-Type"]
+  if (!options.charset) {
+    const declared = findCharset(contentType ?? "")
+    const charset = declared && isKnownCharset(declared) ? declared : "utf-8"
+    return encodeFile(stringifyPo(po, options), charset)
+  }
+
+  const headers = {
+    ...po.headers,
+    "Content-Type": setCharset(contentType, options.charset)
+  }
+  return encodeFile(stringifyPo({ ...po, headers }, options), options.charset)
+}
+
 /** Returns header keys in the correct order */
-function getOrderedHeaderKeys(po: { headers: Partial<Headers>; headerOrder: string[] }): string[] {
+export function getOrderedHeaderKeys(po: {
+  headers: Partial<Headers>
+  headerOrder: string[]
+}): string[] {
   const result: string[] = []
   const seen = new Set<string>()
 
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest"
+import { poToTmx, tmxToPo } from "./tmx"
+import { parsePo } from "./parse"
+
+const GERMAN = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+# Checked by legal
+#. Shown in the footer
+#: src/footer.tsx:12
+#, c-format
+msgctxt "footer"
+msgid "© %d <b>Example</b> & friends"
+msgstr "© %d <b>Beispiel</b> & Freunde"
+
+msgid "Hello {name}, you have {count, plural, one {# message} other {# messages}}"
+msgstr "Hallo {name}, du hast {count, plural, one {# Nachricht} other {# Nachrichten}}"
+
+msgid "It''s '{'{name}'}'"
+msgstr "Das ist '{'{name}'}'"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} Datei"
+msgstr[1] "{count} Dateien"
+
+#, fuzzy
+msgid "Draft"
+msgstr "Entwurf"
+
+msgid "Untranslated"
+msgstr ""
+`)
+
+const POLISH = parsePo(`msgid ""
+msgstr ""
+"Language: pl\\n"
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} plik"
+msgstr[1] "{count} pliki"
+msgstr[2] "{count} plików"
+`)
+
+describe("poToTmx", () => {
+  it("writes translation units with context, comments and flags", () => {
+    const tmx = poToTmx([GERMAN], { sourceLang: "en" })
+
+    expect(tmx).toContain(
+      `<header creationtool="pofile-ts" creationtoolversion="1" segtype="sentence" o-tmf="PO" adminlang="en" srclang="en" datatype="plaintext"/>`
+    )
+    expect(tmx).toContain(`    <tu>
+      <prop type="x-context">footer</prop>
+      <prop type="x-reference">src/footer.tsx:12</prop>
+      <note>Shown in the footer</note>
+      <tuv xml:lang="en">
+        <seg>© %d &lt;b&gt;Example&lt;/b&gt; &amp; friends</seg>
+      </tuv>
+      <tuv xml:lang="de">
+        <prop type="x-flags">c-format</prop>
+        <note>Checked by legal</note>
+        <seg>© %d &lt;b&gt;Beispiel&lt;/b&gt; &amp; Freunde</seg>
+      </tuv>
+    </tu>`)
+  })
+
+  it("marks ICU placeholders as inline codes numbered across variants", () => {
+    const tmx = poToTmx([GERMAN], { sourceLang: "en" })
+
+    expect(tmx).toContain(
+      '<seg>Hello <ph x="1" type="x-icu-argument">{name}</ph>, you have <ph x="2" type="x-icu-plural">{count, plural, one {</ph><ph x="3" type="x-icu-pound">#</ph> message<ph x="4" type="x-icu-plural">} other {</ph><ph x="3" type="x-icu-pound">#</ph> messages<ph x="5" type="x-icu-plural">}}</ph></seg>'
+    )
+    expect(tmx).toContain(
+      '<seg>Hallo <ph x="1" type="x-icu-argument">{name}</ph>, du hast <ph x="2" type="x-icu-plural">{count, plural, one {</ph><ph x="3" type="x-icu-pound">#</ph> Nachricht<ph x="4" type="x-icu-plural">} other {</ph><ph x="3" type="x-icu-pound">#</ph> Nachrichten<ph x="5" type="x-icu-plural">}}</ph></seg>'
+    )
+  })
+
+  it("keeps quoted ICU syntax as text", () => {
+    expect(poToTmx([GERMAN], { sourceLang: "en" })).toContain(
+      `<seg>It''s '{'<ph x="1" type="x-icu-argument">{name}</ph>'}'</seg>`
+    )
+  })
+
+  it("writes a unit per plural form and shares units between languages", () => {
+    const tmx = poToTmx([GERMAN, POLISH], { sourceLang: "en" })
+
+    expect(tmx).toContain(`    <tu>
+      <prop type="x-msgid">{count} file</prop>
+      <prop type="x-msgid-plural">{count} files</prop>
+      <prop type="x-plural-form">1</prop>
+      <tuv xml:lang="en">
+        <seg><ph x="1" type="x-icu-argument">{count}</ph> files</seg>
+      </tuv>
+      <tuv xml:lang="de">
+        <seg><ph x="1" type="x-icu-argument">{count}</ph> Dateien</seg>
+      </tuv>
+      <tuv xml:lang="pl">
+        <seg><ph x="1" type="x-icu-argument">{count}</ph> pliki</seg>
+      </tuv>
+    </tu>`)
+    expect(tmx.match(/<tu>/g)).toHaveLength(6)
+  })
+
+  it("leaves out fuzzy entries unless asked", () => {
+    expect(poToTmx([GERMAN], { sourceLang: "en" })).not.toContain("Entwurf")
+    expect(poToTmx([GERMAN], { sourceLang: "en", includeFuzzy: true })).toContain(
+      '<prop type="x-flags">fuzzy</prop>'
+    )
+  })
+
+  it("requires a Language header", () => {
+    expect(() => poToTmx([parsePo('msgid "A"\nmsgstr "B"\n')], { sourceLang: "en" })).toThrow(
+      /Language header/
+    )
+  })
+})
+
+describe("tmxToPo", () => {
+  it("reads back what poToTmx wrote", () => {
+    const tmx = poToTmx([GERMAN, POLISH], { sourceLang: "en", includeFuzzy: true })
+
+    for (const po of [GERMAN, POLISH]) {
+      const result = tmxToPo(tmx, {
+        targetLang: po.headers.Language ?? "",
+        pluralForms: po.headers["Plural-Forms"]
+      })
+      const translated = po.items.filter((item) => item.msgstr.some(Boolean))
+
+      expect(result.items.filter((item) => item.msgstr.some(Boolean))).toEqual(
+        translated.map((item) => ({ ...item, nplurals: result.items[0]?.nplurals }))
+      )
+    }
+  })
+
+  it("reads translation memories of other tools", () => {
+    const po = tmxToPo(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE tmx SYSTEM "tmx14.dtd">
+<tmx version="1.4">
+  <header creationtool="Other" creationtoolversion="2" segtype="sentence" o-tmf="x" adminlang="en-US" srclang="en-US" datatype="html"/>
+  <body>
+    <!-- exported -->
+    <tu tuid="1">
+      <tuv xml:lang="en-US"><seg>Click <bpt i="1">&lt;a href="#"&gt;</bpt>here<ept i="1">&lt;/a&gt;</ept></seg></tuv>
+      <tuv xml:lang="de-DE"><seg>Klicke <bpt i="1">&lt;a href="#"&gt;</bpt>hier<ept i="1">&lt;/a&gt;</ept></seg></tuv>
+    </tu>
+    <tu tuid="2">
+      <tuv lang="EN-US"><seg><![CDATA[Tom & Jerry]]></seg></tuv>
+      <tuv lang="FR-FR"><seg>Tom et Jerry</seg></tuv>
+    </tu>
+  </body>
+</tmx>`,
+      { targetLang: "de" }
+    )
+
+    expect(po.headers).toMatchObject({
+      Language: "de",
+      "Plural-Forms": "nplurals=2; plural=(n != 1);"
+    })
+    expect(po.items.map((item) => [item.msgid, item.msgstr])).toEqual([
+      ['Click <a href="#">here</a>', ['Klicke <a href="#">hier</a>']],
+      ["Tom & Jerry", [""]]
+    ])
+  })
+
+  it("rejects documents that are not TMX", () => {
+    expect(() => tmxToPo("<xliff/>", { targetLang: "de" })).toThrow(/Not a TMX document/)
+    expect(() => tmxToPo("<tmx><body>", { targetLang: "de" })).toThrow(/Invalid XML/)
+    expect(() => tmxToPo('<tmx><header srclang="*all*"/></tmx>', { targetLang: "de" })).toThrow(
+      /source language/
+    )
+  })
+})
@@ -0,0 +1,422 @@
+/**
+ * TMX 1.4b import and export, for exchanging translation memories with
+ * agencies and CAT tools.
+ *
+ * PO fields map to TMX as follows:
+ *
+ * - msgid → source `<seg>`, msgstr → target `<seg>` of the file's Language
+ * - msgctxt → `<prop type="x-context">`
+ * - references → `<prop type="x-reference">`, one per reference
+ * - extracted comments (#.) → `<note>` of the `<tu>`
+ * - translator comments (#) → `<note>` of the target `<tuv>`
+ * - flags (#,) → `<prop type="x-flags">` of the target `<tuv>`, comma-separated
+ *
+ * Plural entries become one `<tu>` per plural form, with
+ * `<prop type="x-plural-form">` holding the msgstr index and
+ * `x-msgid`/`x-msgid-plural` props holding both source messages. The source
+ * segment is msgid for form 0 and msgid_plural for the others, so CAT tools
+ * match each form against a natural sentence.
+ *
+ * ICU placeholders become `<ph>` inline codes with their original text, so
+ * CAT tools protect them and the messages read back unchanged. Of plurals
+ * and selects, only the syntax and `#` are codes; the text of each case is
+ * part of the segment, so it can be translated and matched.
+ *
+ * @see https://www.gala-global.org/tmx-14b
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { createItem } from "./Item"
+import { createPoFile } from "./parse"
+import { getPluralFormsHeader } from "./headers"
+import { parsePluralForms } from "./plurals"
+import { splitPlaceholders } from "./internal/placeholders"
+import {
+  escapeXml,
+  getChildElement,
+  getChildElements,
+  getTextContent,
+  parseXml,
+  type XmlElement
+} from "./internal/xml"
+
+/**
+ * Options for `poToTmx`.
+ */
+export interface PoToTmxOptions {
+  /** Language of the source messages (msgid), e.g. "en" or "en-US" */
+  sourceLang: string
+
+  /** Export translations of fuzzy entries, with their fuzzy flag (default: false) */
+  includeFuzzy?: boolean
+}
+
+/**
+ * Options for `tmxToPo`.
+ */
+export interface TmxToPoOptions {
+  /** Language of the translations to read; "de" also matches "de-DE" */
+  targetLang: string
+
+  /** Language of the source segments (default: the srclang of the header) */
+  sourceLang?: string
+
+  /** Plural-Forms header of the file (default: from `getPluralFormsHeader(targetLang)`) */
+  pluralForms?: string
+}
+
+/** Version of the PO ↔ TMX mapping, written as creationtoolversion */
+const MAPPING_VERSION = "1"
+
+/** Property types */
+const PROP_CONTEXT = "x-context"
+const PROP_REFERENCE = "x-reference"
+const PROP_FLAGS = "x-flags"
+const PROP_MSGID = "x-msgid"
+const PROP_MSGID_PLURAL = "x-msgid-plural"
+const PROP_PLURAL_FORM = "x-plural-form"
+
+/** Inline elements whose text is native code */
+const CODE_ELEMENTS = new Set(["ph", "bpt", "ept", "it", "ut"])
+
+/** A translation of a translation unit */
+interface TmxVariant {
+  lang: string
+  text: string
+  flags: string[]
+  comments: string[]
+}
+
+/** A translation unit being written */
+interface TmxUnit {
+  msgctxt: string | null
+  msgid: string
+  msgid_plural: string | null
+  /** Plural form, null for singular entries */
+  form: number | null
+  references: string[]
+  extractedComments: string[]
+  variants: TmxVariant[]
+}
+
+/** Returns the flags of an entry to export */
+function getFlags(item: PoItem): string[] {
+  return Object.keys(item.flags).filter((flag) => item.flags[flag])
+}
+
+/** Adds values to a list, skipping those already in it */
+function addUnique(list: string[], values: string[]): void {
+  for (const value of values) {
+    if (!list.includes(value)) {
+      list.push(value)
+    }
+  }
+}
+
+/** Returns the unit an entry's form is added to, creating it if needed */
+function getUnit(
+  units: Map<string, TmxUnit[]>,
+  item: PoItem,
+  form: number | null,
+  lang: string
+): TmxUnit {
+  const { msgctxt, msgid, msgid_plural } = item
+  const key = JSON.stringify([msgctxt, msgid, msgid_plural, form])
+  const candidates = units.get(key) ?? []
+  // Another file with the same language gets a unit of its own
+  let unit = candidates.find((candidate) => candidate.variants.every((v) => v.lang !== lang))
+  if (!unit) {
+    unit = {
+      msgctxt,
+      msgid,
+      msgid_plural,
+      form,
+      references: [],
+      extractedComments: [],
+      variants: []
+    }
+    units.set(key, [...candidates, unit])
+  }
+  return unit
+}
+
+/** Adds the translated forms of an entry to the units */
+function addItem(units: Map<string, TmxUnit[]>, item: PoItem, lang: string): void {
+  item.msgstr.forEach((text, index) => {
+    if (!text) {
+      return
+    }
+    const unit = getUnit(units, item, item.msgid_plural === null ? null : index, lang)
+    addUnique(unit.references, item.references)
+    addUnique(unit.extractedComments, item.extractedComments)
+    unit.variants.push({ lang, text, flags: getFlags(item), comments: [...item.comments] })
+  })
+}
+
+/** Formats a segment, with ICU placeholders as `<ph>` numbered by their text */
+function formatSegment(text: string, ids: Map<string, number>): string {
+  const content = splitPlaceholders(text)
+    .map((part) => {
+      if (!part.node) {
+        return escapeXml(part.text)
+      }
+      const id = ids.get(part.text) ?? ids.size + 1
+      ids.set(part.text, id)
+      return `<ph x="${id}" type="x-icu-${part.node.type}">${escapeXml(part.text)}</ph>`
+    })
+    .join("")
+  return `<seg>${content}</seg>`
+}
+
+/** Formats a property */
+function formatProp(type: string, value: string): string {
+  return `<prop type="${type}">${escapeXml(value)}</prop>`
+}
+
+/** Formats a note */
+function formatNote(note: string): string {
+  return `<note>${escapeXml(note)}</note>`
+}
+
+/** Returns the properties of a unit */
+function getUnitProps(unit: TmxUnit): string[] {
+  const props = unit.msgctxt === null ? [] : [formatProp(PROP_CONTEXT, unit.msgctxt)]
+  if (unit.msgid_plural !== null) {
+    props.push(
+      formatProp(PROP_MSGID, unit.msgid),
+      formatProp(PROP_MSGID_PLURAL, unit.msgid_plural),
+      formatProp(PROP_PLURAL_FORM, String(unit.form))
+    )
+  }
+  return [
+    ...props,
+    ...unit.references.map((reference) => formatProp(PROP_REFERENCE, reference)),
+    ...unit.extractedComments.map(formatNote)
+  ]
+}
+
+/** Formats a translation variant */
+function formatVariant(lang: string, segment: string, meta: string[]): string[] {
+  return [
+    `      <tuv xml:lang="${escapeXml(lang, true)}">`,
+    ...meta.map((line) => `        ${line}`),
+    `        ${segment}`,
+    "      </tuv>"
+  ]
+}
+
+/** Formats a translation unit */
+function formatUnit(unit: TmxUnit, sourceLang: string): string[] {
+  const ids = new Map<string, number>()
+  const source = unit.form !== null && unit.form > 0 ? (unit.msgid_plural ?? "") : unit.msgid
+  const lines = ["    <tu>", ...getUnitProps(unit).map((line) => `      ${line}`)]
+  lines.push(...formatVariant(sourceLang, formatSegment(source, ids), []))
+  for (const variant of unit.variants) {
+    const meta = [
+      ...(variant.flags.length > 0 ? [formatProp(PROP_FLAGS, variant.flags.join(","))] : []),
+      ...variant.comments.map(formatNote)
+    ]
+    lines.push(...formatVariant(variant.lang, formatSegment(variant.text, ids), meta))
+  }
+  lines.push("    </tu>")
+  return lines
+}
+
+/**
+ * Exports the translations of PO files as a TMX 1.4b translation memory.
+ *
+ * Each file contributes the translations of its Language header; entries
+ * with the same msgctxt, msgid and msgid_plural share a `<tu>`, so files of
+ * several languages make one multilingual memory. Untranslated, obsolete
+ * and (unless `includeFuzzy`) fuzzy entries are left out. See the module
+ * documentation for how PO fields and plural forms are encoded.
+ *
+ * @throws Error if a file has no Language header
+ *
+ * @example
+ * const tmx = poToTmx([parsePo(de), parsePo(fr)], { sourceLang: "en" })
+ * fs.writeFileSync("memory.tmx", tmx)
+ */
+export function poToTmx(pos: PoFile[], options: PoToTmxOptions): string {
+  const units = new Map<string, TmxUnit[]>()
+  for (const po of pos) {
+    const lang = po.headers.Language
+    if (!lang) {
+      throw new Error("Cannot export a PO file without a Language header to TMX")
+    }
+    for (const item of po.items) {
+      if (!item.obsolete && item.msgid && (options.includeFuzzy || !item.flags.fuzzy)) {
+        addItem(units, item, lang)
+      }
+    }
+  }
+
+  const sourceLang = escapeXml(options.sourceLang, true)
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="pofile-ts" creationtoolversion="${MAPPING_VERSION}" segtype="sentence" o-tmf="PO" adminlang="en" srclang="${sourceLang}" datatype="plaintext"/>`,
+    "  <body>"
+  ]
+  for (const unit of [...units.values()].flat()) {
+    lines.push(...formatUnit(unit, options.sourceLang))
+  }
+  lines.push("  </body>", "</tmx>", "")
+  return lines.join("\n")
+}
+
+/** Normalizes a language tag for comparison */
+function normalizeLang(lang: string): string {
+  return lang.toLowerCase().replace(/_/g, "-")
+}
+
+/** Returns the language of a variant; TMX before 1.4 used `lang` */
+function getVariantLang(tuv: XmlElement): string {
+  return normalizeLang(tuv.attributes["xml:lang"] ?? tuv.attributes.lang ?? "")
+}
+
+/** Finds the variant of a language, preferring an exact match over a regional one */
+function findVariant(tuvs: XmlElement[], lang: string): XmlElement | undefined {
+  const wanted = normalizeLang(lang)
+  return (
+    tuvs.find((tuv) => getVariantLang(tuv) === wanted) ??
+    tuvs.find((tuv) => !wanted.includes("-") && getVariantLang(tuv).startsWith(`${wanted}-`))
+  )
+}
+
+/** Returns the text of a segment; inline codes contribute their native code */
+function getSegmentText(element: XmlElement): string {
+  return element.children
+    .map((child) => {
+      if (typeof child === "string") {
+        return child
+      }
+      if (CODE_ELEMENTS.has(child.name)) {
+        // <sub> holds translatable text inside native code, not code itself
+        return child.children.filter((node) => typeof node === "string").join("")
+      }
+      return getSegmentText(child)
+    })
+    .join("")
+}
+
+/** Returns the values of the properties of a type */
+function getProps(element: XmlElement, type: string): string[] {
+  return getChildElements(element, "prop")
+    .filter((prop) => prop.attributes.type === type)
+    .map(getTextContent)
+}
+
+/** Returns the notes of an element */
+function getNotes(element: XmlElement): string[] {
+  return getChildElements(element, "note").map(getTextContent)
+}
+
+/** Returns the text of a variant's segment */
+function getVariantText(tuv: XmlElement | undefined): string {
+  const seg = tuv && getChildElement(tuv, "seg")
+  return seg ? getSegmentText(seg) : ""
+}
+
+/** Returns the entry a unit belongs to, creating it if needed */
+function getItem(
+  items: Map<string, PoItem>,
+  tu: XmlElement,
+  source: string,
+  nplurals: number
+): PoItem {
+  const msgctxt = getProps(tu, PROP_CONTEXT)[0] ?? null
+  const msgidPlural = getProps(tu, PROP_MSGID_PLURAL)[0] ?? null
+  const msgid = msgidPlural === null ? source : (getProps(tu, PROP_MSGID)[0] ?? source)
+  const key = JSON.stringify([msgctxt, msgid, msgidPlural])
+  let item = items.get(key)
+  if (!item) {
+    item = createItem({ nplurals })
+    item.msgctxt = msgctxt
+    item.msgid = msgid
+    item.msgid_plural = msgidPlural
+    item.msgstr = msgidPlural === null ? [""] : new Array<string>(nplurals).fill("")
+    items.set(key, item)
+  }
+  return item
+}
+
+/** Adds a translation unit to the entries */
+function readUnit(
+  items: Map<string, PoItem>,
+  tu: XmlElement,
+  languages: { source: string; target: string },
+  nplurals: number
+): void {
+  const tuvs = getChildElements(tu, "tuv")
+  const sourceTuv = findVariant(tuvs, languages.source)
+  if (!sourceTuv) {
+    return
+  }
+  const targetTuv = findVariant(
+    tuvs.filter((tuv) => tuv !== sourceTuv),
+    languages.target
+  )
+  const item = getItem(items, tu, getVariantText(sourceTuv), nplurals)
+  const index = parseInt(getProps(tu, PROP_PLURAL_FORM)[0] ?? "0", 10) || 0
+  const text = getVariantText(targetTuv)
+  if (text && !item.msgstr[index]) {
+    while (item.msgstr.length <= index) {
+      item.msgstr.push("")
+    }
+    item.msgstr[index] = text
+  }
+  addUnique(item.references, getProps(tu, PROP_REFERENCE))
+  addUnique(item.extractedComments, getNotes(tu))
+  if (targetTuv) {
+    addUnique(item.comments, getNotes(targetTuv))
+    for (const flags of getProps(targetTuv, PROP_FLAGS)) {
+      for (const flag of flags.split(",")) {
+        item.flags[flag.trim()] = true
+      }
+    }
+  }
+}
+
+/**
+ * Reads the translations of one language from a TMX document into a PO
+ * file.
+ *
+ * Every `<tu>` with a source segment becomes an entry, untranslated if it
+ * has no segment in `targetLang`. Inline codes (`<ph>`, `<bpt>`, `<ept>`,
+ * `<it>`) are replaced by their native code, which restores the ICU
+ * placeholders written by `poToTmx`. Plural forms, msgctxt, comments,
+ * references and flags written by `poToTmx` are read back; see the module
+ * documentation. The Language header is set to `targetLang`, and plural
+ * entries get as many msgstr as the Plural-Forms header declares.
+ *
+ * @throws Error if the document is not well-formed TMX, or its source
+ *   language is unknown
+ *
+ * @example
+ * const po = tmxToPo(fs.readFileSync("memory.tmx", "utf8"), { targetLang: "de" })
+ */
+export function tmxToPo(xml: string, options: TmxToPoOptions): PoFile {
+  const root = parseXml(xml)
+  if (root.name !== "tmx") {
+    throw new Error(`Not a TMX document: the root element is <${root.name}>`)
+  }
+  const header = getChildElement(root, "header")
+  const source = options.sourceLang ?? header?.attributes.srclang
+  if (!source || source === "*all*") {
+    throw new Error("The TMX source language is unknown: set `sourceLang`")
+  }
+
+  const po = createPoFile()
+  po.headers.Language = options.targetLang
+  po.headers["Plural-Forms"] = options.pluralForms ?? getPluralFormsHeader(options.targetLang)
+  const nplurals = Number(parsePluralForms(po.headers["Plural-Forms"]).nplurals)
+
+  const items = new Map<string, PoItem>()
+  const body = getChildElement(root, "body")
+  for (const tu of body ? getChildElements(body, "tu") : []) {
+    readUnit(items, tu, { source, target: options.targetLang }, nplurals)
+  }
+  po.items = [...items.values()]
+  return po
+}
@@ -23,6 +23,21 @@ export interface ParsedPluralForms {
   plural: string | undefined
 }
 
+/**
+ * Relation between the msgstr indices of a Plural-Forms header and CLDR categories
+ */
+export interface PluralFormsMapping {
+  /** CLDR category of each msgstr index */
+  categories: string[]
+
+  /** Indices whose category could not be determined unambiguously */
+  ambiguous: {
+    index: number
+    /** CLDR categories of the sample numbers that select this index */
+    categories: string[]
+  }[]
+}
+
 /**
  * Options for creating a new Item
  */
@@ -55,9 +70,18 @@ export interface PoItem {
   /** Automatically extracted comments (lines starting with #.) */
   extractedComments: string[]
 
-  /** Flags like "fuzzy", "no-wrap", etc. */
+  /**
+   * Flags like "fuzzy", "no-wrap", "c-format", etc.
+   * Use `getMessageFormat` and `getFormatFlags` to interpret format flags.
+   */
   flags: Record<string, boolean>
 
+  /**
+   * Allowed numeric range of a plural message's argument (#, range: 1..12).
+   * Optional, so items created before it existed stay valid.
+   */
+  range?: PoRange | null
+
   /**
    * Custom metadata as key-value pairs.
    *
@@ -73,11 +97,112 @@ export interface PoItem {
    */
   metadata: Record<string, string>
 
+  /**
+   * Previous msgctxt of a fuzzy entry (#| msgctxt), written by `msgmerge --previous`.
+   * The previous fields are optional, so items created before they existed stay valid.
+   */
+  previousMsgctxt?: string | null
+
+  /** Previous msgid of a fuzzy entry (#| msgid) */
+  previousMsgid?: string | null
+
+  /** Previous msgid_plural of a fuzzy entry (#| msgid_plural) */
+  previousMsgidPlural?: string | null
+
   /** Whether this entry is marked as obsolete (#~) */
   obsolete: boolean
 
   /** Number of plural forms for this item's language */
   nplurals: number
+
+  /**
+   * Where this item came from in the original file.
+   * Only set when parsing with `{ locations: true }`.
+   */
+  location?: PoItemLocation
+
+  /**
+   * Original text of this item.
+   * Only set when parsing with `{ preserveSource: true }`.
+   */
+  raw?: PoRawText
+}
+
+/**
+ * Bounds of a `range:` flag, both inclusive.
+ */
+export interface PoRange {
+  min: number
+  max: number
+}
+
+/**
+ * Original text of a parsed entry, kept for lossless round-trips.
+ */
+export interface PoRawText {
+  /** The entry's lines as written in the file, without the final line break */
+  text: string
+  /** Line breaks, blank lines and unparsed lines up to the next entry */
+  trailing: string
+  /** Snapshot of the parsed content, used to detect modifications */
+  snapshot: string
+}
+
+/**
+ * A position in a PO file.
+ */
+export interface PoPosition {
+  /** 1-based line number */
+  line: number
+  /** 1-based column (in UTF-16 code units) */
+  column: number
+}
+
+/**
+ * A range in a PO file. The PO-level counterpart of `IcuLocation`.
+ */
+export interface PoLocation {
+  start: PoPosition
+  end: PoPosition
+}
+
+/**
+ * One quoted string line that contributes to a keyword's value.
+ */
+export interface PoStringSegment {
+  /** 1-based line number */
+  line: number
+  /** 1-based column of the first character after the opening quote */
+  column: number
+  /** Offset of this segment's first character in the unescaped value */
+  offset: number
+  /** The escaped text between the quotes, as written in the file */
+  raw: string
+}
+
+/**
+ * Location of a keyword (msgid, msgstr[N], ...) and its string value.
+ */
+export interface PoStringLocation {
+  /** Position of the keyword itself */
+  keyword: PoPosition
+  /** Quoted string lines in order: the keyword line, then continuation lines */
+  segments: PoStringSegment[]
+}
+
+/**
+ * Source location of an item in the original PO file.
+ */
+export interface PoItemLocation {
+  /** First line of the entry, including its comments */
+  startLine: number
+  /** Last line of the entry */
+  endLine: number
+  msgctxt?: PoStringLocation
+  msgid?: PoStringLocation
+  msgid_plural?: PoStringLocation
+  /** Locations of msgstr lines, indexed by plural index */
+  msgstr: PoStringLocation[]
 }
 
 /**
@@ -98,6 +223,88 @@ export interface PoFile {
 
   /** Translation entries */
   items: PoItem[]
+
+  /**
+   * Problems found while parsing.
+   * Only populated when parsing with `{ diagnostics: true }` or `{ strict: true }`.
+   */
+  diagnostics?: PoDiagnostic[]
+
+  /**
+   * Original text of the header section and the file's line ending.
+   * Only set when parsing with `{ preserveSource: true }`.
+   */
+  raw?: PoRawText & { lineEnding: "\n" | "\r\n" }
+}
+
+/**
+ * Options for parsing PO files.
+ */
+export interface ParseOptions {
+  /**
+   * Collect warnings and errors into `PoFile.diagnostics` instead of
+   * silently skipping malformed lines.
+   * @default false
+   */
+  diagnostics?: boolean
+
+  /**
+   * Record where each item came from in `PoItem.location`.
+   * @default false
+   */
+  locations?: boolean
+
+  /**
+   * Keep the original text of the header and each item (`raw`), so that
+   * `stringifyPo` writes unmodified entries back byte-for-byte and only
+   * reserializes entries changed through the API.
+   * @default false
+   */
+  preserveSource?: boolean
+
+  /**
+   * Throw a `PoParseError` if any diagnostic with severity "error" is found.
+   * Implies `diagnostics: true`.
+   * @default false
+   */
+  strict?: boolean
+}
+
+/**
+ * Machine-readable codes for parser diagnostics.
+ */
+export type PoDiagnosticCode =
+  | "UNKNOWN_KEYWORD"
+  | "UNKNOWN_COMMENT"
+  | "EXPECTED_STRING"
+  | "UNTERMINATED_STRING"
+  | "TRAILING_CHARACTERS"
+  | "UNEXPECTED_CONTINUATION"
+  | "INVALID_PLURAL_INDEX"
+  | "MISSING_MSGSTR"
+  | "MISSING_PLURAL_MSGSTR"
+  | "UNEXPECTED_PLURAL_INDEX"
+  | "DUPLICATE_PLURAL_INDEX"
+  | "PLURAL_INDEX_GAP"
+  | "PLURAL_INDEX_ORDER"
+  | "PLURAL_INDEX_OUT_OF_RANGE"
+  | "PLURAL_COUNT_MISMATCH"
+  | "DUPLICATE_ENTRY"
+  | "DUPLICATE_HEADER"
+
+/**
+ * A warning or error found while parsing a PO file.
+ */
+export interface PoDiagnostic {
+  code: PoDiagnosticCode
+  /** Errors make the file invalid for GNU tools, warnings are suspicious but accepted */
+  severity: "error" | "warning"
+  /** Human-readable description */
+  message: string
+  /** 1-based line number in the original file */
+  line: number
+  /** 1-based column in the original line */
+  column: number
 }
 
 /**
@@ -106,6 +313,8 @@ export interface PoFile {
 export interface ParserState {
   item: PoItem
   context: "msgid" | "msgid_plural" | "msgstr" | "msgctxt" | null
+  /** Keyword of the last `#|` line, for `#| "..."` continuations */
+  previousContext: "msgid" | "msgid_plural" | "msgctxt" | null
   plural: number
   obsoleteCount: number
   noCommentLineCount: number
@@ -176,3 +385,15 @@ export interface SerializeOptions {
    */
   compactMultiline?: boolean
 }
+
+/**
+ * Options for serializing a PoFile to bytes.
+ */
+export interface StringifyBytesOptions extends SerializeOptions {
+  /**
+   * Charset to encode to, e.g. "ISO-8859-1" or "windows-1252".
+   * The Content-Type header of the output is updated to match.
+   * Defaults to the charset declared in the Content-Type header, or UTF-8.
+   */
+  charset?: string
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect } from "vitest"
+import { updatePoFile } from "./update"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+
+const POT = `msgid ""
+msgstr ""
+"POT-Creation-Date: 2026-02-01 12:00+0000\\n"
+
+#. Greeting on the start page
+#: src/home.ts:3
+msgid "Hello"
+msgstr ""
+
+#: src/files.ts:10
+#, c-format
+msgid "Open %s files"
+msgstr ""
+
+#: src/menu.ts:5
+msgctxt "menu"
+msgid "Print"
+msgstr ""
+
+#: src/cart.ts:7
+msgid "One item"
+msgid_plural "%d items"
+msgstr[0] ""
+msgstr[1] ""
+`
+
+const PO = `msgid ""
+msgstr ""
+"POT-Creation-Date: 2026-01-01 12:00+0000\\n"
+"Language: pl\\n"
+"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"
+
+# Checked by the team
+#: src/old-home.ts:1
+msgid "Hello"
+msgstr "Cześć"
+
+#: src/files.ts:9
+msgid "Open %s file"
+msgstr "Otwórz plik %s"
+
+msgid "Goodbye"
+msgstr "Do widzenia"
+
+msgid "Untranslated"
+msgstr ""
+`
+
+describe("updatePoFile", () => {
+  const updated = updatePoFile(parsePo(POT), parsePo(PO))
+  const find = (msgid: string) => updated.items.find((item) => item.msgid === msgid)
+
+  it("keeps exact matches with the template's sources and the translator's comments", () => {
+    expect(find("Hello")).toMatchObject({
+      msgstr: ["Cześć"],
+      comments: ["Checked by the team"],
+      extractedComments: ["Greeting on the start page"],
+      references: ["src/home.ts:3"],
+      flags: {}
+    })
+  })
+
+  it("fills changed messages from the most similar old translation as fuzzy", () => {
+    expect(find("Open %s files")).toMatchObject({
+      msgstr: ["Otwórz plik %s"],
+      flags: { fuzzy: true, "c-format": true },
+      previousMsgid: "Open %s file",
+      previousMsgctxt: null,
+      references: ["src/files.ts:10"]
+    })
+    expect(stringifyPo(updated)).toContain(
+      '#, fuzzy,c-format\n#| msgid "Open %s file"\nmsgid "Open %s files"'
+    )
+  })
+
+  it("creates new entries with the plural count of the existing file", () => {
+    expect(find("Print")).toMatchObject({ msgctxt: "menu", msgstr: [""], flags: {} })
+    expect(find("One item")?.msgstr).toEqual(["", "", ""])
+    expect(find("One item")?.nplurals).toBe(3)
+  })
+
+  it("makes translations no longer in the template obsolete and drops untranslated ones", () => {
+    expect(updated.items.map((item) => [item.msgid, item.obsolete])).toEqual([
+      ["Hello", false],
+      ["Open %s files", false],
+      ["Print", false],
+      ["One item", false],
+      ["Goodbye", true]
+    ])
+    expect(find("Goodbye")?.msgstr).toEqual(["Do widzenia"])
+  })
+
+  it("keeps the existing headers with the template's creation date", () => {
+    expect(updated.headers.Language).toBe("pl")
+    expect(updated.headers["POT-Creation-Date"]).toBe("2026-02-01 12:00+0000")
+    expect(updated.headerOrder).toEqual(["POT-Creation-Date", "Language", "Plural-Forms"])
+  })
+
+  it("does not modify its inputs", () => {
+    const template = parsePo(POT)
+    const existing = parsePo(PO)
+    updatePoFile(template, existing)
+
+    expect(template).toEqual(parsePo(POT))
+    expect(existing).toEqual(parsePo(PO))
+  })
+
+  it("revives obsolete entries with an exact match", () => {
+    const result = updatePoFile(
+      parsePo('msgid "Back"\nmsgstr ""'),
+      parsePo('#~ msgid "Back"\n#~ msgstr "Zurück"')
+    )
+
+    expect(result.items).toHaveLength(1)
+    expect(result.items[0]).toMatchObject({ msgstr: ["Zurück"], obsolete: false })
+  })
+
+  it("keeps the fuzzy state and previous fields of exact matches", () => {
+    const result = updatePoFile(
+      parsePo('msgid "Save"\nmsgstr ""'),
+      parsePo('#, fuzzy\n#| msgid "Save all"\nmsgid "Save"\nmsgstr "Alles speichern"')
+    )
+
+    expect(result.items[0]).toMatchObject({ flags: { fuzzy: true }, previousMsgid: "Save all" })
+  })
+
+  it("marks entries whose plural form changed as fuzzy", () => {
+    const result = updatePoFile(
+      parsePo('msgid "File"\nmsgid_plural "Files"\nmsgstr[0] ""\nmsgstr[1] ""'),
+      parsePo('msgid "File"\nmsgstr "Datei"')
+    )
+
+    expect(result.items[0]).toMatchObject({
+      msgstr: ["Datei", ""],
+      flags: { fuzzy: true },
+      previousMsgid: null
+    })
+  })
+
+  it("matches only by key when fuzzy matching is off", () => {
+    const result = updatePoFile(parsePo(POT), parsePo(PO), { fuzzyMatching: false })
+    const files = result.items.find((item) => item.msgid === "Open %s files")
+
+    expect(files?.msgstr).toEqual([""])
+    expect(result.items.find((item) => item.msgid === "Open %s file")?.obsolete).toBe(true)
+  })
+
+  it("applies the similarity threshold", () => {
+    const template = parsePo('msgid "Open the file"\nmsgstr ""')
+    const existing = parsePo('msgid "Open a folder"\nmsgstr "Ordner öffnen"')
+
+    expect(updatePoFile(template, existing).items[0]?.flags.fuzzy).toBe(true)
+    expect(updatePoFile(template, existing, { similarityThreshold: 0.9 }).items[0]?.msgstr).toEqual(
+      [""]
+    )
+  })
+
+  it("prefers matches with the same context", () => {
+    const result = updatePoFile(
+      parsePo('msgctxt "menu"\nmsgid "Print"\nmsgstr ""'),
+      parsePo(
+        'msgctxt "toolbar"\nmsgid "Prints"\nmsgstr "Drucke"\n\n' +
+          'msgctxt "menu"\nmsgid "Print…"\nmsgstr "Drucken…"'
+      )
+    )
+
+    expect(result.items[0]).toMatchObject({ msgstr: ["Drucken…"], previousMsgctxt: "menu" })
+  })
+
+  it("matches across contexts above the cross-context threshold", () => {
+    const template = parsePo('msgctxt "verb"\nmsgid "Open"\nmsgstr ""')
+    const existing = parsePo('msgid "Open"\nmsgstr "Öffnen"')
+
+    expect(updatePoFile(template, existing).items[0]).toMatchObject({
+      msgstr: ["Öffnen"],
+      flags: { fuzzy: true },
+      previousMsgctxt: null,
+      previousMsgid: "Open"
+    })
+    expect(updatePoFile(template, existing, { crossContextThreshold: 2 }).items[0]?.msgstr).toEqual(
+      [""]
+    )
+  })
+
+  it("finds similar messages in large files", () => {
+    const entries = Array.from(
+      { length: 2000 },
+      (_, i) => `msgid "Delete the file ${i} from the project"\nmsgstr "Datei ${i} löschen"`
+    )
+    entries.splice(1234, 0, 'msgid "Save the open file"\nmsgstr "Offene Datei speichern"')
+    entries.push('msgid "Ok!"\nmsgstr "In Ordnung!"')
+    const result = updatePoFile(
+      parsePo('msgid "Save the opened file"\nmsgstr ""\n\nmsgid "Ok"\nmsgstr ""'),
+      parsePo(entries.join("\n\n"))
+    )
+
+    expect(result.items[0]).toMatchObject({
+      msgstr: ["Offene Datei speichern"],
+      previousMsgid: "Save the open file"
+    })
+    expect(result.items[1]).toMatchObject({ msgstr: ["In Ordnung!"], previousMsgid: "Ok!" })
+  })
+
+  it("omits previous fields and obsolete entries on request", () => {
+    const result = updatePoFile(parsePo(POT), parsePo(PO), {
+      previous: false,
+      keepObsolete: false
+    })
+
+    expect(result.items.find((item) => item.msgid === "Open %s files")?.previousMsgid).toBeNull()
+    expect(result.items.some((item) => item.obsolete)).toBe(false)
+  })
+})
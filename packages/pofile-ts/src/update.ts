@@ -0,0 +1,281 @@
+/**
+ * Updating translations from a new template, like GNU `msgmerge`.
+ *
+ * @see https://www.gnu.org/software/gettext/manual/html_node/msgmerge-Invocation.html
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { createItem } from "./Item"
+import { parsePluralForms } from "./plurals"
+import { createCandidateIndex, getSimilarity, type CandidateIndex } from "./internal/similarity"
+import { getItemKey, indexItems } from "./internal/itemKey"
+
+/**
+ * Options for `updatePoFile`.
+ */
+export interface UpdatePoFileOptions {
+  /**
+   * Reuse the translation of a similar old message for a new or changed
+   * message, marked as fuzzy (default: true)
+   */
+  fuzzyMatching?: boolean
+
+  /**
+   * Minimum similarity (0–1) of a fuzzy match with the same msgctxt
+   * (default: 0.6, like msgmerge)
+   */
+  similarityThreshold?: number
+
+  /**
+   * Minimum similarity (0–1) of a fuzzy match with a different msgctxt
+   * (default: 0.8). Set it above 1 to match only within the same context.
+   */
+  crossContextThreshold?: number
+
+  /** Record the old msgctxt, msgid and msgid_plural of fuzzy matches (#|) (default: true) */
+  previous?: boolean
+
+  /** Keep translations no longer in the template as obsolete entries (default: true) */
+  keepObsolete?: boolean
+}
+
+/** Options with defaults applied */
+type ResolvedOptions = Required<UpdatePoFileOptions>
+
+/** Applies the defaults of `updatePoFile` */
+function resolveOptions(options: UpdatePoFileOptions): ResolvedOptions {
+  const {
+    fuzzyMatching = true,
+    similarityThreshold = 0.6,
+    crossContextThreshold = 0.8,
+    previous = true,
+    keepObsolete = true
+  } = options
+  return { fuzzyMatching, similarityThreshold, crossContextThreshold, previous, keepObsolete }
+}
+
+/** Whether any msgstr of an item is non-empty */
+function isTranslated(item: PoItem): boolean {
+  return item.msgstr.some((msgstr) => msgstr !== "")
+}
+
+/** Returns the number of plural forms declared by a file, defaulting to 2 */
+function getFileNplurals(po: PoFile): number {
+  const nplurals = parseInt(parsePluralForms(po.headers["Plural-Forms"]).nplurals ?? "", 10)
+  return nplurals > 0 ? nplurals : 2
+}
+
+/** Returns the flags of a template item, without `fuzzy` */
+function getTemplateFlags(ref: PoItem): Record<string, boolean> {
+  const flags: Record<string, boolean> = {}
+  for (const flag in ref.flags) {
+    if (flag !== "fuzzy") {
+      flags[flag] = ref.flags[flag] ?? false
+    }
+  }
+  return flags
+}
+
+/** Creates an untranslated item from a template item */
+function createFromTemplate(ref: PoItem, nplurals: number): PoItem {
+  const item = createItem({ nplurals })
+  item.msgid = ref.msgid
+  item.msgctxt = ref.msgctxt
+  item.msgid_plural = ref.msgid_plural
+  item.references = [...ref.references]
+  item.comments = [...ref.comments]
+  item.extractedComments = [...ref.extractedComments]
+  item.flags = getTemplateFlags(ref)
+  item.range = ref.range ?? null
+  item.msgstr = ref.msgid_plural === null ? [""] : new Array<string>(nplurals).fill("")
+  return item
+}
+
+/** Fits old translations to the plural forms of the new message */
+function fitMsgstr(old: PoItem, item: PoItem): string[] {
+  const first = old.msgstr[0] ?? ""
+  if (item.msgid_plural === null) {
+    return [first]
+  }
+  if (old.msgid_plural === null) {
+    return item.msgstr.map((_, i) => (i === 0 ? first : ""))
+  }
+  return item.msgstr.map((_, i) => old.msgstr[i] ?? "")
+}
+
+/**
+ * Carries the translation of an old entry over to a template item.
+ *
+ * @param fuzzyMatch - Whether `old` was found by similarity rather than by key
+ */
+function applyTranslation(
+  item: PoItem,
+  old: PoItem,
+  fuzzyMatch: boolean,
+  options: ResolvedOptions
+): void {
+  item.msgstr = fitMsgstr(old, item)
+  item.comments = [...old.comments]
+  item.metadata = { ...old.metadata }
+
+  const pluralChanged = (old.msgid_plural === null) !== (item.msgid_plural === null)
+  if (fuzzyMatch || pluralChanged || old.flags.fuzzy) {
+    item.flags = { fuzzy: true, ...item.flags }
+  }
+
+  if (fuzzyMatch && options.previous) {
+    item.previousMsgctxt = old.msgctxt
+    item.previousMsgid = old.msgid
+    item.previousMsgidPlural = old.msgid_plural
+  } else if (old.flags.fuzzy) {
+    item.previousMsgctxt = old.previousMsgctxt ?? null
+    item.previousMsgid = old.previousMsgid ?? null
+    item.previousMsgidPlural = old.previousMsgidPlural ?? null
+  }
+}
+
+/**
+ * Finds the old translation most similar to a template item.
+ *
+ * On equal similarity, a candidate with the same msgctxt wins.
+ */
+function findFuzzyMatch(
+  ref: PoItem,
+  candidates: CandidateIndex<PoItem>,
+  options: ResolvedOptions
+): PoItem | null {
+  let best: PoItem | null = null
+  let bestScore = 0
+  let bestSameContext = false
+
+  const minimum = Math.min(options.similarityThreshold, options.crossContextThreshold)
+  for (const candidate of candidates.find(ref.msgid, minimum)) {
+    const sameContext = candidate.msgctxt === ref.msgctxt
+    const threshold = sameContext ? options.similarityThreshold : options.crossContextThreshold
+    const score = getSimilarity(ref.msgid, candidate.msgid, Math.max(threshold, bestScore))
+    if (score < threshold || score < bestScore) {
+      continue
+    }
+    if (score > bestScore || (sameContext && !bestSameContext)) {
+      best = candidate
+      bestScore = score
+      bestSameContext = sameContext
+    }
+  }
+  return best
+}
+
+/** Turns an old entry that is no longer in the template into an obsolete entry */
+function toObsolete(old: PoItem): PoItem {
+  return {
+    msgid: old.msgid,
+    msgctxt: old.msgctxt,
+    references: [],
+    msgid_plural: old.msgid_plural,
+    msgstr: [...old.msgstr],
+    comments: [...old.comments],
+    extractedComments: [...old.extractedComments],
+    flags: { ...old.flags },
+    range: old.range ?? null,
+    metadata: { ...old.metadata },
+    previousMsgctxt: old.previousMsgctxt ?? null,
+    previousMsgid: old.previousMsgid ?? null,
+    previousMsgidPlural: old.previousMsgidPlural ?? null,
+    obsolete: true,
+    nplurals: old.nplurals
+  }
+}
+
+/**
+ * Updates a translated PO file from a new template (POT), like `msgmerge`.
+ *
+ * - Messages with the same msgctxt and msgid keep their translation
+ *   (obsolete entries are revived).
+ * - New or changed messages get the translation of the most similar old
+ *   message, marked `fuzzy` with the old message recorded in the previous
+ *   fields (`#|`).
+ * - Translations no longer in the template become obsolete (`#~`).
+ * - Other new messages are untranslated, with as many msgstr as the
+ *   `Plural-Forms` header of `existing` declares.
+ *
+ * Sources, extracted comments and format flags come from the template;
+ * translator comments and metadata from the existing file. The headers of
+ * `existing` are kept, except `POT-Creation-Date`, which is taken from the
+ * template. Neither input is modified.
+ *
+ * @example
+ * const updated = updatePoFile(parsePo(pot), parsePo(po))
+ * fs.writeFileSync("de.po", stringifyPo(updated))
+ */
+export function updatePoFile(
+  template: PoFile,
+  existing: PoFile,
+  options: UpdatePoFileOptions = {}
+): PoFile {
+  const resolved = resolveOptions(options)
+  const used = new Set<PoItem>()
+  const items = matchTemplateItems(template, existing, used, resolved)
+
+  if (resolved.keepObsolete) {
+    for (const old of existing.items) {
+      if (!used.has(old) && (old.obsolete || isTranslated(old))) {
+        items.push(toObsolete(old))
+      }
+    }
+  }
+
+  return {
+    comments: [...existing.comments],
+    extractedComments: [...existing.extractedComments],
+    headers: getUpdatedHeaders(template, existing),
+    headerOrder: [...existing.headerOrder],
+    items
+  }
+}
+
+/**
+ * Creates the entries of the template, translated from `existing` where possible.
+ *
+ * @param used - Receives the old entries that were carried over
+ */
+function matchTemplateItems(
+  template: PoFile,
+  existing: PoFile,
+  used: Set<PoItem>,
+  options: ResolvedOptions
+): PoItem[] {
+  const nplurals = getFileNplurals(existing)
+  const byKey = indexItems(existing.items)
+  const candidates = createCandidateIndex<PoItem>()
+  for (const item of existing.items) {
+    if (options.fuzzyMatching && !item.obsolete && isTranslated(item)) {
+      candidates.add(item, item.msgid)
+    }
+  }
+  const items: PoItem[] = []
+
+  for (const ref of template.items) {
+    if (ref.obsolete) {
+      continue
+    }
+    const item = createFromTemplate(ref, nplurals)
+    const exact = byKey.get(getItemKey(ref))
+    const old = exact ?? findFuzzyMatch(ref, candidates, options)
+    if (old) {
+      applyTranslation(item, old, !exact, options)
+      used.add(old)
+    }
+    items.push(item)
+  }
+  return items
+}
+
+/** Returns the headers of `existing` with the creation date of `template` */
+function getUpdatedHeaders(template: PoFile, existing: PoFile): PoFile["headers"] {
+  const headers = { ...existing.headers }
+  const created = template.headers["POT-Creation-Date"]
+  if (created) {
+    headers["POT-Creation-Date"] = created
+  }
+  return headers
+}
@@ -0,0 +1,391 @@
+import { describe, it, expect } from "vitest"
+import { poFileToXcstrings, xcstringsToPoFile, type XcstringsFile } from "./xcstrings"
+import { compareVariables } from "./icu/utils"
+import { parsePo } from "./parse"
+import { stringifyPo } from "./stringify"
+
+const CATALOG: XcstringsFile = {
+  sourceLanguage: "en",
+  strings: {
+    "Hello %@!": {
+      comment: "Greeting on the home screen\nShown after login",
+      localizations: {
+        de: { stringUnit: { state: "translated", value: "Hallo %@!" } }
+      }
+    },
+    "%1$@ sent %2$lld photos": {
+      extractionState: "manual",
+      localizations: {
+        de: { stringUnit: { state: "needs_review", value: "%2$lld Fotos von %1$@" } }
+      }
+    },
+    files: {
+      localizations: {
+        en: {
+          variations: {
+            plural: {
+              one: { stringUnit: { state: "translated", value: "%lld file" } },
+              other: { stringUnit: { state: "translated", value: "%lld files" } }
+            }
+          }
+        },
+        de: {
+          variations: {
+            plural: {
+              one: { stringUnit: { state: "translated", value: "%lld Datei" } },
+              other: { stringUnit: { state: "translated", value: "%lld Dateien" } }
+            }
+          }
+        }
+      }
+    },
+    Settings: {},
+    "100%% done, %#@files@ left": {
+      localizations: {
+        de: { stringUnit: { state: "translated", value: "100%% fertig, %#@files@ übrig" } }
+      }
+    },
+    "Old title": {
+      extractionState: "stale",
+      localizations: {
+        de: { stringUnit: { state: "translated", value: "Alter Titel" } }
+      }
+    },
+    "App Name": { shouldTranslate: false }
+  },
+  version: "1.0"
+}
+
+describe("xcstringsToPoFile", () => {
+  it("reads the strings of a language with comments and states", () => {
+    const po = xcstringsToPoFile(CATALOG, { locale: "de" })
+
+    expect(po.headers.Language).toBe("de")
+    expect(po.headers["X-Source-Language"]).toBe("en")
+    expect(po.headers["Plural-Forms"]).toBe("nplurals=2; plural=(n != 1);")
+    expect(stringifyPo(po)).toContain(`#. Greeting on the home screen
+#. Shown after login
+#@ key: Hello %@!
+#@ format-specifiers: {"1":"%@"}
+msgid "Hello {1}!"
+msgstr "Hallo {1}!"
+
+#@ key: %1$@ sent %2$lld photos
+#@ format-specifiers: {"1":"%1$@","2":"%2$lld"}
+#@ extraction-state: manual
+#, fuzzy
+msgid "{1} sent {2, number} photos"
+msgstr "{2, number} Fotos von {1}"`)
+    expect(po.items.map((item) => [item.msgid, item.obsolete])).toEqual([
+      ["Hello {1}!", false],
+      ["{1} sent {2, number} photos", false],
+      ["{1, number} file", false],
+      ["Settings", false],
+      ["100% done, %#@files@ left", false],
+      ["Old title", true]
+    ])
+    expect(po.items[3]?.msgstr).toEqual([""])
+  })
+
+  it("maps plural variations to the plural forms of the locale", () => {
+    const [, , files] = xcstringsToPoFile(CATALOG, { locale: "de" }).items
+
+    expect(files).toMatchObject({
+      msgid: "{1, number} file",
+      msgid_plural: "{1, number} files",
+      msgstr: ["{1, number} Datei", "{1, number} Dateien"]
+    })
+
+    const po = xcstringsToPoFile(
+      {
+        sourceLanguage: "en",
+        strings: {
+          "%lld files": {
+            localizations: {
+              pl: {
+                variations: {
+                  plural: {
+                    one: { stringUnit: { state: "translated", value: "%lld plik" } },
+                    few: { stringUnit: { state: "translated", value: "%lld pliki" } },
+                    other: { stringUnit: { state: "translated", value: "%lld pliku" } }
+                  }
+                }
+              }
+            }
+          }
+        },
+        version: "1.0"
+      },
+      { locale: "pl" }
+    )
+
+    expect(po.items[0]).toMatchObject({
+      msgid: "{1, number} files",
+      msgid_plural: "{1, number} files",
+      msgstr: ["{1, number} plik", "{1, number} pliki", "{1, number} pliku"]
+    })
+  })
+
+  it("turns format specifiers into ICU arguments that compareVariables checks", () => {
+    const po = xcstringsToPoFile(
+      {
+        sourceLanguage: "en",
+        strings: {
+          "%@ has %.1f%% of {space} – it's %ld": {
+            localizations: {
+              fr: { stringUnit: { state: "translated", value: "%@ a %.1f %% de {space}" } }
+            }
+          }
+        },
+        version: "1.0"
+      },
+      { locale: "fr" }
+    )
+    const [item] = po.items
+
+    expect(item?.msgid).toBe("{1} has {2, number}% of '{'space'}' – it's {3, number}")
+    expect(item?.msgstr).toEqual(["{1} a {2, number} % de '{'space'}'"])
+    expect(compareVariables(item?.msgid ?? "", item?.msgstr[0] ?? "")).toMatchObject({
+      missing: ["3"],
+      isMatch: false
+    })
+  })
+
+  it("reads a percent sign before a space as text", () => {
+    const po = xcstringsToPoFile(
+      {
+        sourceLanguage: "en",
+        strings: {
+          "100% sure, 50% done": {},
+          "% 5d points": {}
+        },
+        version: "1.0"
+      },
+      { locale: "de" }
+    )
+
+    expect(po.items.map((item) => item.msgid)).toEqual([
+      "100% sure, 50% done",
+      "{1, number} points"
+    ])
+  })
+})
+
+describe("poFileToXcstrings", () => {
+  it("writes back the catalog it was read from", () => {
+    const po = xcstringsToPoFile(CATALOG, { locale: "de" })
+
+    expect(poFileToXcstrings(po, { catalog: CATALOG })).toEqual(CATALOG)
+    expect(poFileToXcstrings(po)).toEqual({
+      ...CATALOG,
+      strings: Object.fromEntries(
+        Object.entries(CATALOG.strings).filter(([key]) => key !== "App Name")
+      )
+    })
+  })
+
+  it("updates one language and keeps the others", () => {
+    const catalog: XcstringsFile = {
+      sourceLanguage: "en",
+      strings: {
+        Save: {
+          localizations: {
+            de: { stringUnit: { state: "translated", value: "Speichern" } },
+            fr: { stringUnit: { state: "translated", value: "Enregistrer" } }
+          }
+        },
+        Cancel: {
+          localizations: { fr: { stringUnit: { state: "translated", value: "Annuler" } } }
+        }
+      },
+      version: "1.0"
+    }
+    const po = xcstringsToPoFile(catalog, { locale: "fr" })
+    po.items[0]!.msgstr = ["Sauvegarder"]
+    po.items[0]!.flags.fuzzy = true
+    po.items[1]!.msgstr = [""]
+
+    expect(poFileToXcstrings(po, { catalog }).strings).toEqual({
+      Save: {
+        localizations: {
+          de: { stringUnit: { state: "translated", value: "Speichern" } },
+          fr: { stringUnit: { state: "needs_review", value: "Sauvegarder" } }
+        }
+      },
+      Cancel: {
+        localizations: { fr: { stringUnit: { state: "translated", value: "Annuler" } } }
+      }
+    })
+  })
+
+  it("keeps variations by device and substitutions", () => {
+    const catalog: XcstringsFile = {
+      sourceLanguage: "en",
+      strings: {
+        "Tap to open": {
+          localizations: {
+            de: {
+              stringUnit: { state: "translated", value: "Tippen zum Öffnen" },
+              variations: {
+                device: {
+                  mac: { stringUnit: { state: "translated", value: "Klicken zum Öffnen" } }
+                }
+              }
+            }
+          }
+        },
+        "Press to open": {
+          localizations: {
+            de: {
+              variations: {
+                device: {
+                  iphone: { stringUnit: { state: "translated", value: "Drücken zum Öffnen" } }
+                }
+              }
+            }
+          }
+        },
+        "%#@files@ left": {
+          localizations: {
+            de: {
+              stringUnit: { state: "translated", value: "%#@files@ übrig" },
+              substitutions: {
+                files: {
+                  argNum: 1,
+                  formatSpecifier: "lld",
+                  variations: {
+                    plural: {
+                      one: { stringUnit: { state: "translated", value: "%arg Datei" } },
+                      other: { stringUnit: { state: "translated", value: "%arg Dateien" } }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      version: "1.0"
+    }
+    const po = xcstringsToPoFile(catalog, { locale: "de" })
+
+    expect(po.items.map((item) => item.msgstr)).toEqual([
+      ["Tippen zum Öffnen"],
+      [""],
+      ["%#@files@ übrig"]
+    ])
+    expect(poFileToXcstrings(po, { catalog })).toEqual(catalog)
+
+    po.items[0]!.msgstr = ["Antippen zum Öffnen"]
+    po.items[2]!.msgstr = ["Noch %#@files@"]
+    const expected = structuredClone(catalog)
+    expected.strings["Tap to open"]!.localizations!.de!.stringUnit!.value = "Antippen zum Öffnen"
+    expected.strings["%#@files@ left"]!.localizations!.de!.stringUnit!.value = "Noch %#@files@"
+    expect(poFileToXcstrings(po, { catalog })).toEqual(expected)
+  })
+
+  it("writes a percent sign in strings without format specifiers unchanged", () => {
+    const catalog: XcstringsFile = {
+      sourceLanguage: "en",
+      strings: {
+        "100% sure": {
+          localizations: { de: { stringUnit: { state: "translated", value: "100 % sicher" } } }
+        },
+        "%lld%% done": {
+          localizations: { de: { stringUnit: { state: "translated", value: "%lld %% fertig" } } }
+        }
+      },
+      version: "1.0"
+    }
+    const po = xcstringsToPoFile(catalog, { locale: "de" })
+
+    expect(po.items.map((item) => item.msgstr)).toEqual([
+      ["100 % sicher"],
+      ["{1, number} % fertig"]
+    ])
+    expect(poFileToXcstrings(po, { catalog })).toEqual(catalog)
+    expect(poFileToXcstrings(po)).toEqual(catalog)
+  })
+
+  it("creates keys and specifiers for PO entries", () => {
+    const po = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+#. Toolbar button
+msgid "Save 100% of {1}"
+msgstr "{1} zu 100% speichern"
+
+msgid "{1} of {2, number}"
+msgstr "{2, number} von {1}"
+
+msgid "{1, number} item"
+msgid_plural "{1, number} items"
+msgstr[0] "{1, number} Artikel"
+msgstr[1] "{1, number} Artikel"
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`)
+
+    expect(poFileToXcstrings(po)).toEqual({
+      sourceLanguage: "en",
+      strings: {
+        "Save 100%% of %@": {
+          comment: "Toolbar button",
+          localizations: {
+            de: { stringUnit: { state: "translated", value: "%@ zu 100%% speichern" } }
+          }
+        },
+        "%@ of %lld": {
+          localizations: {
+            de: { stringUnit: { state: "translated", value: "%2$lld von %1$@" } }
+          }
+        },
+        "%lld item": {
+          localizations: {
+            en: {
+              variations: {
+                plural: {
+                  one: { stringUnit: { state: "translated", value: "%lld item" } },
+                  other: { stringUnit: { state: "translated", value: "%lld items" } }
+                }
+              }
+            },
+            de: {
+              variations: {
+                plural: {
+                  one: { stringUnit: { state: "translated", value: "%lld Artikel" } },
+                  other: { stringUnit: { state: "translated", value: "%lld Artikel" } }
+                }
+              }
+            }
+          }
+        },
+        Old: {
+          extractionState: "stale",
+          localizations: { de: { stringUnit: { state: "translated", value: "Alt" } } }
+        }
+      },
+      version: "1.0"
+    })
+  })
+
+  it("rejects messages without format specifiers", () => {
+    const po = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+
+msgid "Hello {name}"
+msgstr "Hallo {name}"
+`)
+
+    expect(() => poFileToXcstrings(po)).toThrow(
+      'Cannot convert "Hello {name}" to a String Catalog string: only arguments named by position'
+    )
+    expect(() => poFileToXcstrings(parsePo('msgid "a"\nmsgstr "b"\n'))).toThrow(
+      "Cannot convert a PO file without a locale"
+    )
+  })
+})
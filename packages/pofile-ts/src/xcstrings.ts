@@ -0,0 +1,554 @@
+/**
+ * Apple String Catalog (.xcstrings) import and export.
+ *
+ * A String Catalog holds the strings of all languages; a PO file holds one
+ * of them. PO fields map to the catalog as follows:
+ *
+ * - key → `#@ key:` metadata
+ * - `comment` → extracted comments (#.), one per line
+ * - `stringUnit.state`: `translated` → translated, other states → fuzzy;
+ *   fuzzy entries are written back as `needs_review`
+ * - `extractionState: stale` → obsolete; other extraction states are kept
+ *   as `#@ extraction-state:` metadata
+ * - `variations.plural` → gettext plural, with a msgstr per plural form
+ *
+ * Format specifiers become ICU arguments named by their position, so
+ * `compareVariables` can check them: `%@` and `%1$@` → `{1}`, `%lld` and
+ * `%2$.2f` → `{2, number}`. The specifiers of the source are kept as
+ * `#@ format-specifiers:` metadata to write them back as they were.
+ *
+ * @see https://developer.apple.com/documentation/xcode/localizing-and-varying-text-with-a-string-catalog
+ */
+
+import type { PoFile, PoItem } from "./types"
+import type { IcuNode } from "./icu/types"
+import { createItem } from "./Item"
+import { createPoFile } from "./parse"
+import { getPluralFormsCategories, getPluralFormsHeader } from "./headers"
+import { getPluralFormsMapping, parsePluralForms } from "./plurals"
+import { parseIcu } from "./icu/parser"
+import { escapeIcu } from "./internal/utils"
+
+/**
+ * A string of a String Catalog in one language, with its review state.
+ */
+export interface XcstringsStringUnit {
+  /** "translated", "needs_review", "new" or "stale" */
+  state: string
+  value: string
+}
+
+/**
+ * A variation of a string, e.g. one plural category.
+ */
+export interface XcstringsVariation {
+  stringUnit?: XcstringsStringUnit
+  [field: string]: unknown
+}
+
+/**
+ * A string in one language: a single string unit, or variations by plural
+ * category or device.
+ */
+export interface XcstringsLocalization {
+  stringUnit?: XcstringsStringUnit
+  variations?: {
+    plural?: Record<string, XcstringsVariation>
+    [kind: string]: Record<string, XcstringsVariation> | undefined
+  }
+  [field: string]: unknown
+}
+
+/**
+ * A string of a String Catalog, with its localizations by language.
+ */
+export interface XcstringsEntry {
+  comment?: string
+  /** "manual", "extracted_with_value", "migrated" or "stale" */
+  extractionState?: string
+  shouldTranslate?: boolean
+  localizations?: Record<string, XcstringsLocalization>
+  [field: string]: unknown
+}
+
+/**
+ * An Apple String Catalog: the JSON of an `.xcstrings` file.
+ */
+export interface XcstringsFile {
+  sourceLanguage: string
+  strings: Record<string, XcstringsEntry>
+  version: string
+  [field: string]: unknown
+}
+
+/**
+ * Options for `xcstringsToPoFile`.
+ */
+export interface XcstringsToPoFileOptions {
+  /** Language of the translations to read */
+  locale: string
+
+  /** Plural-Forms header of the file (default: from `getPluralFormsHeader` for the locale) */
+  pluralForms?: string
+}
+
+/**
+ * Options for `poFileToXcstrings`.
+ */
+export interface PoFileToXcstringsOptions {
+  /**
+   * String Catalog to update. Its strings in other languages, and strings
+   * not in the PO file, are kept.
+   */
+  catalog?: XcstringsFile
+
+  /** Language of the translations (default: the Language header) */
+  locale?: string
+
+  /** Language of the source messages (default: the catalog's, the X-Source-Language header, or "en") */
+  sourceLanguage?: string
+}
+
+/** Metadata names of String Catalog data kept in PO files */
+const METADATA_KEY = "key"
+const METADATA_SPECIFIERS = "format-specifiers"
+const METADATA_EXTRACTION_STATE = "extraction-state"
+
+/**
+ * Matches `%%`, a plural substitution like `%#@files@`, or a format
+ * specifier, capturing position and conversion. The space flag needs a
+ * width or precision, so the `% s` of "100% sure" is text.
+ */
+const RE_SPECIFIER =
+  /%%|%#@\w+@|%(?:(\d+)\$)?((?:[-+#0']| (?=[-+#0' ]*[1-9.]))*\d*(?:\.\d+)?(?:hh|h|ll|l|q|z|t|j|L)?[@dDiuUxXoOfFeEgGaAcCsSp])/g
+
+/** Conversions of numbers, which become `{n, number}` */
+const RE_NUMBER_CONVERSION = /[dDiuUxXoOfFeEgGaA]$/
+
+/** Matches a literal `%` in ICU text, but not in a plural substitution */
+const RE_PERCENT = /%(?!#@\w+@)/g
+
+/** Matches a plural substitution like `%#@files@` */
+const RE_SUBSTITUTION = /%#@\w+@/
+
+/**
+ * Converts a String Catalog string to an ICU message. Specifiers are added
+ * to `specifiers` by position, unless a position is already there.
+ */
+function toIcu(text: string, specifiers: Map<number, string>): string {
+  let message = ""
+  let pos = 0
+  let next = 1
+  for (const match of text.matchAll(RE_SPECIFIER)) {
+    message += escapeIcu(text.slice(pos, match.index))
+    pos = match.index + match[0].length
+    const conversion = match[2]
+    if (conversion === undefined) {
+      message += escapeIcu(match[0] === "%%" ? "%" : match[0])
+      continue
+    }
+    const position = match[1] ? Number(match[1]) : next++
+    if (!specifiers.has(position)) {
+      specifiers.set(position, match[0])
+    }
+    message += RE_NUMBER_CONVERSION.test(conversion) ? `{${position}, number}` : `{${position}}`
+  }
+  return message + escapeIcu(text.slice(pos))
+}
+
+/**
+ * Returns the texts of a localization by plural category, or by "" for a
+ * single string unit, and whether any of them needs review; null if it has
+ * no text.
+ */
+function getTexts(
+  localization: XcstringsLocalization | undefined
+): { texts: Map<string, string>; fuzzy: boolean } | null {
+  const plural = localization?.variations?.plural
+  const units: [string, XcstringsStringUnit | undefined][] = plural
+    ? Object.entries(plural).map(([category, variation]) => [category, variation.stringUnit])
+    : [["", localization?.stringUnit]]
+  const texts = new Map<string, string>()
+  let fuzzy = false
+  for (const [category, unit] of units) {
+    if (unit) {
+      texts.set(category, unit.value)
+      fuzzy ||= unit.state !== "translated"
+    }
+  }
+  return texts.size > 0 ? { texts, fuzzy } : null
+}
+
+/** Returns the text of a plural category, falling back to "other" and then the single string */
+function getPluralText(texts: Map<string, string>, category: string): string | undefined {
+  return texts.get(category) ?? texts.get("other") ?? texts.get("")
+}
+
+/** Sets the messages of an item from the source and translated texts of its string */
+function setMessages(
+  item: PoItem,
+  key: string,
+  source: Map<string, string>,
+  translation: Map<string, string> | undefined,
+  categories: readonly string[]
+): void {
+  const specifiers = new Map<number, string>()
+  const isPlural = [...source.keys(), ...(translation?.keys() ?? [])].some((k) => k !== "")
+  if (!isPlural) {
+    item.msgid = toIcu(source.get("") ?? key, specifiers)
+    item.msgstr = [toIcu(translation?.get("") ?? "", new Map())]
+  } else {
+    item.msgid = toIcu(getPluralText(source, "one") ?? key, specifiers)
+    item.msgid_plural = toIcu(getPluralText(source, "other") ?? key, specifiers)
+    item.msgstr = categories.map((category) =>
+      toIcu(translation ? (getPluralText(translation, category) ?? "") : "", new Map())
+    )
+  }
+  if (specifiers.size > 0) {
+    const sorted = [...specifiers].sort(([a], [b]) => a - b)
+    item.metadata[METADATA_SPECIFIERS] = JSON.stringify(Object.fromEntries(sorted))
+  }
+}
+
+/** Sets the comments, state and metadata of an item from its string */
+function setEntryFields(item: PoItem, entry: XcstringsEntry): void {
+  if (entry.comment) {
+    item.extractedComments = entry.comment.split("\n")
+  }
+  if (entry.extractionState === "stale") {
+    item.obsolete = true
+  } else if (entry.extractionState) {
+    item.metadata[METADATA_EXTRACTION_STATE] = entry.extractionState
+  }
+}
+
+/** Returns the entry of a string in the language of the translations */
+function createEntryItem(
+  key: string,
+  entry: XcstringsEntry,
+  sourceLanguage: string,
+  locale: string,
+  categories: readonly string[]
+): PoItem {
+  const source = getTexts(entry.localizations?.[sourceLanguage])
+  const translation = getTexts(entry.localizations?.[locale])
+  const item = createItem({ nplurals: categories.length })
+  item.metadata[METADATA_KEY] = key
+  setMessages(item, key, source?.texts ?? new Map<string, string>(), translation?.texts, categories)
+  setEntryFields(item, entry)
+  if (translation?.fuzzy) {
+    item.flags.fuzzy = true
+  }
+  return item
+}
+
+/** Returns the Plural-Forms header of a locale and the plural category of each msgstr index */
+function getPluralSettings(
+  locale: string,
+  pluralForms: string | undefined
+): { pluralForms: string; categories: readonly string[] } {
+  return pluralForms
+    ? { pluralForms, categories: getPluralFormsMapping(pluralForms, locale).categories }
+    : { pluralForms: getPluralFormsHeader(locale), categories: getPluralFormsCategories(locale) }
+}
+
+/**
+ * Converts the strings of one language of an Apple String Catalog to a PO
+ * file.
+ *
+ * Each string becomes an entry; its key is kept as `#@ key:` metadata, so
+ * `poFileToXcstrings` writes it back. The msgid is the string in the
+ * source language, or the key if it has none. Strings without a
+ * translation in `locale` are untranslated; strings that should not be
+ * translated are left out.
+ *
+ * Plural variations become gettext plurals: `one` and `other` of the
+ * source are msgid and msgid_plural, and each msgstr is the translation
+ * of the plural category of its index in the Plural-Forms header.
+ * Variations by device and substitutions are not read.
+ *
+ * @example
+ * const po = xcstringsToPoFile(JSON.parse(fs.readFileSync("Localizable.xcstrings", "utf8")), {
+ *   locale: "de"
+ * })
+ */
+export function xcstringsToPoFile(
+  catalog: XcstringsFile,
+  options: XcstringsToPoFileOptions
+): PoFile {
+  const { locale } = options
+  const { pluralForms, categories } = getPluralSettings(locale, options.pluralForms)
+
+  const po = createPoFile()
+  po.headers.Language = locale
+  po.headers["X-Source-Language"] = catalog.sourceLanguage
+  po.headers["Plural-Forms"] = pluralForms
+  for (const [key, entry] of Object.entries(catalog.strings)) {
+    if (entry.shouldTranslate !== false) {
+      po.items.push(createEntryItem(key, entry, catalog.sourceLanguage, locale, categories))
+    }
+  }
+  return po
+}
+
+/** Returns the format specifiers kept for an entry, by position */
+function getSpecifiers(item: PoItem): Record<string, string> {
+  try {
+    return JSON.parse(item.metadata[METADATA_SPECIFIERS] ?? "{}") as Record<string, string>
+  } catch {
+    // Edited by hand: use the default specifiers instead
+    return {}
+  }
+}
+
+/** Returns the position of an ICU argument, for which it is named */
+function getPosition(node: IcuNode, message: string): number {
+  const position = Number(node.type === "argument" || node.type === "number" ? node.value : NaN)
+  if (!Number.isInteger(position) || position < 1 || (node.type === "number" && node.style)) {
+    throw new Error(
+      `Cannot convert "${message}" to a String Catalog string: only arguments named by position, like {1} or {2, number}, have format specifiers`
+    )
+  }
+  return position
+}
+
+/** Returns the format specifier of an ICU argument: the kept one, or `%@` or `%lld` */
+function formatSpecifier(
+  node: IcuNode,
+  message: string,
+  specifiers: Record<string, string>,
+  positional: boolean
+): string {
+  const position = getPosition(node, message)
+  const kept = specifiers[position]?.replace(/^%(?:\d+\$)?/, "")
+  const conversion = kept ?? (node.type === "number" ? "lld" : "@")
+  return positional ? `%${position}$${conversion}` : `%${conversion}`
+}
+
+/**
+ * Converts an ICU message to a String Catalog string, with the kept
+ * specifiers of its arguments. Specifiers have positions if the source had
+ * them or the arguments are not in order. A literal `%` is written as `%%`
+ * only in format strings: messages with arguments or substitutions, or
+ * strings of a key that is one.
+ */
+function toAppleString(
+  message: string,
+  specifiers: Record<string, string>,
+  format = false
+): string {
+  const result = parseIcu(message, { ignoreTag: true, requiresOtherClause: false })
+  if (!result.success) {
+    throw new Error(`Cannot convert "${message}" to a String Catalog string: invalid ICU message`)
+  }
+  const positions = result.ast
+    .filter((node) => node.type !== "literal")
+    .map((node) => getPosition(node, message))
+  const positional =
+    Object.values(specifiers).some((specifier) => specifier.includes("$")) ||
+    positions.some((position, i) => position !== i + 1)
+  const escape = format || positions.length > 0 || RE_SUBSTITUTION.test(message)
+  let text = ""
+  for (const node of result.ast) {
+    if (node.type !== "literal") {
+      text += formatSpecifier(node, message, specifiers, positional)
+    } else {
+      text += escape ? node.value.replace(RE_PERCENT, "%%") : node.value
+    }
+  }
+  return text
+}
+
+/** Returns a string unit */
+function createUnit(value: string, fuzzy = false): { stringUnit: XcstringsStringUnit } {
+  return { stringUnit: { state: fuzzy ? "needs_review" : "translated", value } }
+}
+
+/** Returns the localization of texts by plural category, or a single string unit */
+function createLocalization(
+  texts: [string, string][],
+  fuzzy: boolean,
+  plural: boolean
+): XcstringsLocalization {
+  if (!plural) {
+    return createUnit(texts[0]?.[1] ?? "", fuzzy)
+  }
+  const variations = new Map<string, XcstringsVariation>()
+  for (const [category, text] of texts) {
+    if (!variations.has(category)) {
+      variations.set(category, createUnit(text, fuzzy))
+    }
+  }
+  if (!variations.has("other")) {
+    variations.set("other", createUnit(texts.at(-1)?.[1] ?? "", fuzzy))
+  }
+  return { variations: { plural: Object.fromEntries(variations) } }
+}
+
+/**
+ * Merges a new localization into the existing one, keeping what was not
+ * read from it, like variations by device and substitutions
+ */
+function mergeLocalization(
+  existing: XcstringsLocalization | undefined,
+  created: XcstringsLocalization
+): XcstringsLocalization {
+  if (!existing) {
+    return created
+  }
+  const merged = { ...existing }
+  const variations = { ...existing.variations }
+  const plural = created.variations?.plural
+  if (plural) {
+    delete merged.stringUnit
+    variations.plural = Object.fromEntries(
+      Object.entries(plural).map(([category, variation]) => [
+        category,
+        { ...existing.variations?.plural?.[category], ...variation }
+      ])
+    )
+  } else {
+    merged.stringUnit = created.stringUnit
+    delete variations.plural
+  }
+  if (Object.keys(variations).length > 0) {
+    merged.variations = variations
+  } else {
+    delete merged.variations
+  }
+  return merged
+}
+
+/** Sets the comment and extraction state of a string from its entry */
+function setEntryState(entry: XcstringsEntry, item: PoItem): void {
+  if (item.extractedComments.length > 0) {
+    entry.comment = item.extractedComments.join("\n")
+  } else {
+    delete entry.comment
+  }
+  const extractionState = item.obsolete ? "stale" : item.metadata[METADATA_EXTRACTION_STATE]
+  if (extractionState) {
+    entry.extractionState = extractionState
+  } else {
+    delete entry.extractionState
+  }
+}
+
+/** The languages and plural categories of a conversion to a String Catalog */
+interface LocalizationSettings {
+  locale: string
+  sourceLanguage: string
+  categories: readonly string[]
+}
+
+/** Returns the languages of a PO file, and the plural categories of its Plural-Forms header */
+function getLocalizationSettings(
+  po: PoFile,
+  locale: string,
+  options: PoFileToXcstringsOptions
+): LocalizationSettings {
+  const header = po.headers["Plural-Forms"]
+  return {
+    locale,
+    sourceLanguage:
+      options.sourceLanguage ??
+      options.catalog?.sourceLanguage ??
+      po.headers["X-Source-Language"] ??
+      "en",
+    categories:
+      header && parsePluralForms(header).plural
+        ? getPluralFormsMapping(header, locale).categories
+        : getPluralFormsCategories(locale)
+  }
+}
+
+/**
+ * Sets the localizations of a string from its entry: the source if it
+ * differs from the key or has plurals, and the translation if the entry
+ * is translated. Other languages, and the parts of a localization that
+ * were not read, are kept.
+ */
+function setLocalizations(
+  entry: XcstringsEntry,
+  key: string,
+  item: PoItem,
+  settings: LocalizationSettings
+): void {
+  const specifiers = getSpecifiers(item)
+  const plural = item.msgid_plural !== null
+  const format = key.search(RE_SPECIFIER) !== -1
+  const localizations = new Map(Object.entries(entry.localizations ?? {}))
+  const source = toAppleString(item.msgid, specifiers, format)
+  if (plural || source !== key) {
+    const texts: [string, string][] = [["one", source]]
+    texts.push(["other", toAppleString(item.msgid_plural ?? item.msgid, specifiers, format)])
+    const localization = createLocalization(texts, false, plural)
+    localizations.set(
+      settings.sourceLanguage,
+      mergeLocalization(localizations.get(settings.sourceLanguage), localization)
+    )
+  }
+  const translated = item.msgstr.length > 0 && item.msgstr.every((msgstr) => msgstr !== "")
+  if (translated) {
+    const texts = item.msgstr.map((msgstr, i): [string, string] => [
+      settings.categories[i] ?? "other",
+      toAppleString(msgstr, specifiers, format)
+    ])
+    const localization = createLocalization(texts, !!item.flags.fuzzy, plural)
+    localizations.set(
+      settings.locale,
+      mergeLocalization(localizations.get(settings.locale), localization)
+    )
+  }
+  if (localizations.size > 0) {
+    entry.localizations = Object.fromEntries(localizations)
+  } else {
+    delete entry.localizations
+  }
+}
+
+/**
+ * Converts a PO file to an Apple String Catalog, or updates the strings of
+ * its language in `catalog`.
+ *
+ * Entries keep the key of their `#@ key:` metadata; others use their
+ * source message as key, as Xcode does. Extracted comments become the
+ * comment, obsolete entries are stale, and fuzzy translations need review.
+ * Untranslated entries leave the string in the language unchanged, and
+ * variations by device and substitutions are kept. ICU arguments
+ * named by position are written as the format specifiers kept from the
+ * catalog, or as `%@` and `%lld` (for `{n, number}`). Gettext plurals
+ * become plural variations with the categories of the Plural-Forms header.
+ *
+ * @throws Error if there is no locale, or a message has other ICU syntax
+ *
+ * @example
+ * const catalog = JSON.parse(fs.readFileSync("Localizable.xcstrings", "utf8"))
+ * const updated = poFileToXcstrings(parsePo(content), { catalog })
+ * fs.writeFileSync("Localizable.xcstrings", JSON.stringify(updated, null, 2))
+ */
+export function poFileToXcstrings(
+  po: PoFile,
+  options: PoFileToXcstringsOptions = {}
+): XcstringsFile {
+  const locale = options.locale ?? po.headers.Language
+  if (!locale) {
+    throw new Error(
+      "Cannot convert a PO file without a locale: set the Language header or `locale`"
+    )
+  }
+  const settings = getLocalizationSettings(po, locale, options)
+  const catalog = options.catalog
+    ? (JSON.parse(JSON.stringify(options.catalog)) as XcstringsFile)
+    : { sourceLanguage: settings.sourceLanguage, strings: {}, version: "1.0" }
+  for (const item of po.items) {
+    if (item.msgid === "") {
+      continue
+    }
+    const key = item.metadata[METADATA_KEY] ?? toAppleString(item.msgid, getSpecifiers(item))
+    const entry = (catalog.strings[key] ??= {})
+    setEntryState(entry, item)
+    setLocalizations(entry, key, item, settings)
+  }
+  return catalog
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect } from "vitest"
+import { poToXliff, xliffToPo } from "./xliff"
+import { parsePo } from "./parse"
+
+const GERMAN = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+# Checked by legal
+#. Shown in the footer
+#: src/footer.tsx:12
+#, c-format
+msgctxt "footer"
+msgid "© %d Example & friends"
+msgstr "© %d Beispiel & Freunde"
+
+msgid "Read the <link>terms</link>, {name}<br/>"
+msgstr "Lies die <link>AGB</link>, {name}<br/>"
+
+msgid "{count} file"
+msgid_plural "{count} files"
+msgstr[0] "{count} Datei"
+msgstr[1] "{count} Dateien"
+
+#, fuzzy
+msgid "Draft"
+msgstr "Entwurf"
+
+msgid "Untranslated"
+msgstr ""
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`)
+
+describe("poToXliff", () => {
+  it("writes XLIFF 1.2 trans-units with context groups and notes", () => {
+    const xliff = poToXliff(GERMAN)
+
+    expect(xliff).toContain(
+      '<file original="messages.po" source-language="en" target-language="de" datatype="po">'
+    )
+    expect(xliff).toContain(`      <trans-unit id="1" xml:space="preserve">
+        <source>© %d Example &amp; friends</source>
+        <target state="translated">© %d Beispiel &amp; Freunde</target>
+        <context-group name="po-entry" purpose="information">
+          <context context-type="x-po-msgctxt">footer</context>
+          <context context-type="x-po-flags">c-format</context>
+        </context-group>
+        <context-group name="po-reference" purpose="location">
+          <context context-type="sourcefile">src/footer.tsx</context>
+          <context context-type="linenumber">12</context>
+        </context-group>
+        <note from="developer">Shown in the footer</note>
+        <note from="translator">Checked by legal</note>
+      </trans-unit>`)
+  })
+
+  it("writes ICU arguments and tags as XLIFF 1.2 inline codes", () => {
+    const xliff = poToXliff(GERMAN)
+
+    expect(xliff).toContain(
+      '<target state="translated">Lies die <bpt id="1">&lt;link&gt;</bpt>AGB<ept id="1">&lt;/link&gt;</ept>, <ph id="2" ctype="x-icu-argument">{name}</ph><ph id="3">&lt;br/&gt;</ph></target>'
+    )
+  })
+
+  it("writes plural groups, states and obsolete entries in XLIFF 1.2", () => {
+    const xliff = poToXliff(GERMAN)
+
+    expect(xliff).toContain(`      <group id="3" restype="x-gettext-plurals" xml:space="preserve">
+        <trans-unit id="3[0]" xml:space="preserve">
+          <source><ph id="1" ctype="x-icu-argument">{count}</ph> file</source>
+          <target state="translated"><ph id="1" ctype="x-icu-argument">{count}</ph> Datei</target>
+        </trans-unit>
+        <trans-unit id="3[1]" xml:space="preserve">
+          <source><ph id="1" ctype="x-icu-argument">{count}</ph> files</source>
+          <target state="translated"><ph id="1" ctype="x-icu-argument">{count}</ph> Dateien</target>
+        </trans-unit>
+      </group>`)
+    expect(xliff).toContain('<target state="needs-review-translation">Entwurf</target>')
+    expect(xliff).toContain(`<trans-unit id="5" xml:space="preserve">
+        <source>Untranslated</source>
+      </trans-unit>`)
+    expect(xliff).toContain('<trans-unit id="6" xml:space="preserve" translate="no">')
+  })
+
+  it("writes XLIFF 2.0 units with notes, original data and pc/ph codes", () => {
+    const xliff = poToXliff(GERMAN, { version: "2.0", original: "de.po" })
+
+    expect(xliff).toContain(
+      '<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="de">'
+    )
+    expect(xliff).toContain(`    <unit id="1" xml:space="preserve">
+      <notes>
+        <note category="x-po-msgctxt">footer</note>
+        <note category="x-po-flags">c-format</note>
+        <note category="location">src/footer.tsx:12</note>
+        <note category="developer">Shown in the footer</note>
+        <note category="translator">Checked by legal</note>
+      </notes>
+      <segment state="final">`)
+    expect(xliff).toContain(`      <originalData>
+        <data id="d1">&lt;link&gt;</data>
+        <data id="d2">&lt;/link&gt;</data>
+        <data id="d3">{name}</data>
+        <data id="d4">&lt;br/&gt;</data>
+      </originalData>
+      <segment state="final">
+        <source>Read the <pc id="1" dataRefStart="d1" dataRefEnd="d2">terms</pc>, <ph id="2" dataRef="d3"/><ph id="3" dataRef="d4"/></source>
+        <target>Lies die <pc id="1" dataRefStart="d1" dataRefEnd="d2">AGB</pc>, <ph id="2" dataRef="d3"/><ph id="3" dataRef="d4"/></target>
+      </segment>`)
+    expect(xliff).toContain('<group id="3" type="x-gettext:plurals">')
+    expect(xliff).toContain('<unit id="3-1" xml:space="preserve">')
+    expect(xliff).toContain('<segment state="translated">')
+    expect(xliff).toContain('<segment state="initial">')
+    expect(xliff).toContain('<unit id="6" xml:space="preserve" translate="no">')
+  })
+
+  it("keeps the text of plural cases out of inline codes", () => {
+    const po = parsePo(`msgid ""
+msgstr ""
+"Language: de\\n"
+
+msgid "You have {count, plural, one {# message} other {# messages}}"
+msgstr "Du hast {count, plural, one {# Nachricht} other {# Nachrichten}}"
+`)
+
+    expect(poToXliff(po)).toContain(
+      '<target state="translated">Du hast <ph id="1" ctype="x-icu-plural">{count, plural, one {</ph><ph id="2" ctype="x-icu-pound">#</ph> Nachricht<ph id="3" ctype="x-icu-plural">} other {</ph><ph id="4" ctype="x-icu-pound">#</ph> Nachrichten<ph id="5" ctype="x-icu-plural">}}</ph></target>'
+    )
+    const xliff = poToXliff(po, { version: "2.0" })
+    expect(xliff).toContain(`      <originalData>
+        <data id="d1">{count, plural, one {</data>
+        <data id="d2">#</data>
+        <data id="d3">} other {</data>
+        <data id="d4">}}</data>
+      </originalData>
+      <segment state="final">
+        <source>You have <ph id="1" dataRef="d1"/><ph id="2" dataRef="d2"/> message<ph id="3" dataRef="d3"/><ph id="4" dataRef="d2"/> messages<ph id="5" dataRef="d4"/></source>
+        <target>Du hast <ph id="1" dataRef="d1"/><ph id="2" dataRef="d2"/> Nachricht<ph id="3" dataRef="d3"/><ph id="4" dataRef="d2"/> Nachrichten<ph id="5" dataRef="d4"/></target>`)
+    expect(xliffToPo(xliff).items).toEqual(po.items)
+  })
+})
+
+describe("xliffToPo", () => {
+  it.each(["1.2", "2.0"] as const)("reads back what poToXliff wrote in XLIFF %s", (version) => {
+    const xliff = poToXliff(GERMAN, { version })
+    const po = xliffToPo(xliff)
+
+    expect(po.headers.Language).toBe("de")
+    expect(po.headers["X-Source-Language"]).toBe("en")
+    expect(po.headers["Plural-Forms"]).toBe("nplurals=2; plural=(n != 1);")
+    expect(po.items).toEqual(GERMAN.items.filter((item) => item.msgid !== ""))
+    expect(poToXliff(po, { version })).toBe(xliff)
+  })
+
+  it("reads XLIFF 1.2 of other tools", () => {
+    const po = xliffToPo(`<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="app.json" source-language="en-US" target-language="fr" datatype="plaintext">
+    <header><tool tool-id="cat" tool-name="CAT"/></header>
+    <body>
+      <group id="buttons">
+        <trans-unit id="save">
+          <source>Save <g id="1" ctype="bold">all</g> <x id="2"/>changes</source>
+          <target state="final">Enregistrer <g id="1" ctype="bold">toutes</g> <x id="2"/>les modifications</target>
+          <note>Toolbar button</note>
+        </trans-unit>
+      </group>
+      <trans-unit id="hello">
+        <source>Hello <bpt id="1">&lt;b&gt;</bpt>{name}<ept id="1">&lt;/b&gt;</ept></source>
+        <target state="needs-translation">Bonjour <bpt id="1">&lt;b&gt;</bpt>{name}<ept id="1">&lt;/b&gt;</ept></target>
+      </trans-unit>
+      <trans-unit id="new">
+        <source>New</source>
+        <target/>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`)
+
+    expect(po.headers.Language).toBe("fr")
+    expect(po.headers["X-Source-Language"]).toBe("en-US")
+    expect(po.headers["Plural-Forms"]).toContain("nplurals=3;")
+    expect(
+      po.items.map(({ msgid, msgstr, flags, comments }) => ({ msgid, msgstr, flags, comments }))
+    ).toEqual([
+      {
+        msgid: "Save all changes",
+        msgstr: ["Enregistrer toutes les modifications"],
+        flags: {},
+        comments: ["Toolbar button"]
+      },
+      {
+        msgid: "Hello <b>{name}</b>",
+        msgstr: ["Bonjour <b>{name}</b>"],
+        flags: { fuzzy: true },
+        comments: []
+      },
+      { msgid: "New", msgstr: [""], flags: {}, comments: [] }
+    ])
+  })
+
+  it("reads XLIFF 2.0 of other tools", () => {
+    const po =
+      xliffToPo(`<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.1" srcLang="en" trgLang="ja">
+  <file id="f1">
+    <group id="g1">
+      <unit id="u1">
+        <originalData>
+          <data id="d1">&lt;a href="/help"&gt;</data>
+          <data id="d2">&lt;/a&gt;</data>
+          <data id="d3">%s</data>
+        </originalData>
+        <segment state="reviewed">
+          <source>See <pc id="1" dataRefStart="d1" dataRefEnd="d2">help</pc> for <ph id="2" dataRef="d3"/>.</source>
+          <target>詳しくは<pc id="1" dataRefStart="d1" dataRefEnd="d2">ヘルプ</pc>（<ph id="2" dataRef="d3"/>）</target>
+        </segment>
+        <ignorable>
+          <source> </source>
+        </ignorable>
+        <segment>
+          <source>Tab:<cp hex="0009"/><sc id="3" dataRef="d1"/>x<ec startRef="3" dataRef="d2"/></source>
+        </segment>
+      </unit>
+    </group>
+  </file>
+</xliff>`)
+
+    expect(po.headers.Language).toBe("ja")
+    expect(po.items).toHaveLength(1)
+    expect(po.items[0]?.msgid).toBe(
+      'See <a href="/help">help</a> for %s. Tab:\t<a href="/help">x</a>'
+    )
+    expect(po.items[0]?.msgstr).toEqual(['詳しくは<a href="/help">ヘルプ</a>（%s）'])
+    expect(po.items[0]?.flags).toEqual({})
+  })
+
+  it("uses the given Plural-Forms header", () => {
+    const po = xliffToPo(poToXliff(GERMAN), { pluralForms: "nplurals=1; plural=0;" })
+
+    expect(po.headers["Plural-Forms"]).toBe("nplurals=1; plural=0;")
+  })
+
+  it("rejects documents that are not XLIFF", () => {
+    expect(() => xliffToPo("<tmx version='1.4'/>")).toThrow(
+      "Not an XLIFF document: the root element is <tmx>"
+    )
+    expect(() => xliffToPo("<xliff><file>")).toThrow("Invalid XML")
+  })
+})
@@ -0,0 +1,657 @@
+/**
+ * XLIFF 1.2 and 2.0 import and export, for translation vendors and CAT
+ * tools.
+ *
+ * PO fields map to XLIFF 1.2 and 2.0 as follows:
+ *
+ * - msgctxt → `<context context-type="x-po-msgctxt">`, `<note category="x-po-msgctxt">`
+ * - flags (#,) → `<context context-type="x-po-flags">`, `<note category="x-po-flags">`
+ * - references (#:) → `<context-group purpose="location">`, `<note category="location">`
+ * - extracted comments (#.) → `<note from="developer">`, `<note category="developer">`
+ * - translator comments (#) → `<note from="translator">`, `<note category="translator">`
+ * - fuzzy → `state="needs-review-translation"`, `state="translated"`
+ * - translated → `state="translated"`, `state="final"`
+ * - obsolete (#~) → `translate="no"`
+ *
+ * Plural entries become a group with one unit per plural form,
+ * `<group restype="x-gettext-plurals">` in 1.2 and
+ * `<group type="x-gettext:plurals">` in 2.0. The source of form 0 is msgid,
+ * the source of the others msgid_plural. ICU
+ * placeholders and tags become inline codes holding their original text
+ * (`<ph>`, `<bpt>`/`<ept>` in 1.2; `<ph>`, `<pc>` with `<originalData>` in
+ * 2.0), so CAT tools protect them and the messages read back unchanged.
+ * Of plurals and selects, only the syntax and `#` become codes, so the
+ * text of each case stays translatable.
+ *
+ * @see https://docs.oasis-open.org/xliff/v1.2/os/xliff-core.html
+ * @see https://docs.oasis-open.org/xliff/xliff-core/v2.0/xliff-core-v2.0.html
+ */
+
+import type { PoFile, PoItem } from "./types"
+import { createItem } from "./Item"
+import { createPoFile } from "./parse"
+import { getPluralFormsHeader } from "./headers"
+import { parsePluralForms } from "./plurals"
+import { parseReference } from "./references"
+import { splitPlaceholders, type MessagePart } from "./internal/placeholders"
+import {
+  escapeXml,
+  getChildElement,
+  getChildElements,
+  getTextContent,
+  parseXml,
+  type XmlElement
+} from "./internal/xml"
+
+/**
+ * A supported XLIFF version.
+ */
+export type XliffVersion = "1.2" | "2.0"
+
+/**
+ * Options for `poToXliff`.
+ */
+export interface PoToXliffOptions {
+  /** XLIFF version to write (default: "1.2") */
+  version?: XliffVersion
+
+  /** Language of the source messages (default: the X-Source-Language header, or "en") */
+  sourceLang?: string
+
+  /** Name of the original file, as the `original` attribute (default: "messages.po") */
+  original?: string
+}
+
+/**
+ * Options for `xliffToPo`.
+ */
+export interface XliffToPoOptions {
+  /**
+   * Plural-Forms header of the file (default: from `getPluralFormsHeader`
+   * for the target language)
+   */
+  pluralForms?: string
+}
+
+/** Unit types and extension names */
+const PLURAL_GROUP_12 = "x-gettext-plurals"
+const PLURAL_GROUP_20 = "x-gettext:plurals"
+const CONTEXT_MSGCTXT = "x-po-msgctxt"
+const CONTEXT_FLAGS = "x-po-flags"
+
+/** XLIFF 1.2 states of reviewed translations; other states of translated units are fuzzy */
+const REVIEWED_STATES_12 = new Set(["translated", "final", "signed-off"])
+
+/** XLIFF 2.0 states of translations that still need review */
+const DRAFT_STATES_20 = new Set(["initial", "translated"])
+
+/** Inline elements of XLIFF 1.2 holding native code */
+const NATIVE_CODE_ELEMENTS = new Set(["ph", "bpt", "ept", "it", "ut"])
+
+/** Inline elements without text: references to codes and markers */
+const EMPTY_ELEMENTS = new Set(["x", "bx", "ex", "sm", "em"])
+
+/** Inline code ids of the parts of a text, and the part closing each opening tag */
+interface InlineCodes {
+  ids: (string | null)[]
+  closing: Map<number, number>
+}
+
+/** Numbers the inline codes of a text; codes with the same text share ids across source and target */
+function numberCodes(parts: MessagePart[], ids: Map<string, string>): InlineCodes {
+  const codes: InlineCodes = { ids: [], closing: new Map() }
+  const occurrences = new Map<string, number>()
+  const open: number[] = []
+  parts.forEach((part, index) => {
+    if (part.kind === "text") {
+      codes.ids.push(null)
+      return
+    }
+    const opening = part.kind === "close" ? open.pop() : undefined
+    if (opening !== undefined) {
+      codes.closing.set(opening, index)
+      codes.ids.push(codes.ids[opening] ?? null)
+      return
+    }
+    const occurrence = (occurrences.get(part.text) ?? 0) + 1
+    occurrences.set(part.text, occurrence)
+    const key = `${part.text}\u0000${occurrence}`
+    const id = ids.get(key) ?? String(ids.size + 1)
+    ids.set(key, id)
+    codes.ids.push(id)
+    if (part.kind === "open") {
+      open.push(index)
+    }
+  })
+  return codes
+}
+
+/** Formats a part of a text as XLIFF 1.2 inline content */
+function formatPart12(part: MessagePart, id: string | null): string {
+  const text = escapeXml(part.text)
+  if (id === null) {
+    return text
+  }
+  if (part.kind === "open") {
+    return `<bpt id="${id}">${text}</bpt>`
+  }
+  if (part.kind === "close") {
+    return `<ept id="${id}">${text}</ept>`
+  }
+  const ctype = part.node ? ` ctype="x-icu-${part.node.type}"` : ""
+  return `<ph id="${id}"${ctype}>${text}</ph>`
+}
+
+/** Formats a text as XLIFF 1.2 inline content */
+function formatText12(text: string, ids: Map<string, string>): string {
+  const parts = splitPlaceholders(text, { tags: true })
+  const codes = numberCodes(parts, ids)
+  return parts.map((part, i) => formatPart12(part, codes.ids[i] ?? null)).join("")
+}
+
+/** Returns the id of the `<data>` element holding a code's original text */
+function getDataRef(data: Map<string, string>, text: string): string {
+  const ref = data.get(text) ?? `d${data.size + 1}`
+  data.set(text, ref)
+  return ref
+}
+
+/** Formats a part of a text as XLIFF 2.0 inline content */
+function formatPart20(
+  parts: MessagePart[],
+  index: number,
+  codes: InlineCodes,
+  data: Map<string, string>
+): string {
+  const part = parts[index]
+  const id = codes.ids[index] ?? null
+  if (!part || id === null) {
+    return escapeXml(part?.text ?? "")
+  }
+  if (part.kind === "close") {
+    return "</pc>"
+  }
+  const ref = getDataRef(data, part.text)
+  const closing = parts[codes.closing.get(index) ?? -1]
+  if (part.kind === "open" && closing) {
+    return `<pc id="${id}" dataRefStart="${ref}" dataRefEnd="${getDataRef(data, closing.text)}">`
+  }
+  return `<ph id="${id}" dataRef="${ref}"/>`
+}
+
+/** Formats a text as XLIFF 2.0 inline content */
+function formatText20(text: string, ids: Map<string, string>, data: Map<string, string>): string {
+  const parts = splitPlaceholders(text, { tags: true })
+  const codes = numberCodes(parts, ids)
+  return parts.map((_, i) => formatPart20(parts, i, codes, data)).join("")
+}
+
+/** Whether an entry has a reviewed translation in a form */
+function isTranslated(item: PoItem, form: number): boolean {
+  return (item.msgstr[form] ?? "") !== ""
+}
+
+/** Returns the source message of a plural form */
+function getFormSource(item: PoItem, form: number): string {
+  return form > 0 && item.msgid_plural !== null ? item.msgid_plural : item.msgid
+}
+
+/** Returns the forms of an entry: its msgstr indexes */
+function getForms(item: PoItem): number[] {
+  return item.msgid_plural === null ? [0] : item.msgstr.map((_, i) => i)
+}
+
+/** Returns the flags of an entry besides fuzzy */
+function getFlags(item: PoItem): string[] {
+  return Object.keys(item.flags).filter((flag) => flag !== "fuzzy" && item.flags[flag])
+}
+
+/** Returns the file and line of a reference; references with other syntax are kept as file */
+function splitReference(reference: string): [string, number | undefined] {
+  const { file, line } = parseReference(reference)
+  return `${file}${line === undefined ? "" : `:${line}`}` === reference
+    ? [file, line]
+    : [reference, undefined]
+}
+
+/** Indents lines */
+function indent(lines: string[], depth: number): string[] {
+  return lines.map((line) => " ".repeat(depth) + line)
+}
+
+/** Formats an element with text content */
+function formatElement(name: string, attributes: string, text: string): string {
+  return `<${name}${attributes}>${escapeXml(text)}</${name}>`
+}
+
+/** Returns the `translate` attribute of an entry */
+function getTranslateAttribute(item: PoItem): string {
+  return item.obsolete ? ' translate="no"' : ""
+}
+
+/** Returns the context groups and notes of an entry in XLIFF 1.2 */
+function formatMeta12(item: PoItem): string[] {
+  const contexts = [
+    ...(item.msgctxt === null ? [] : [[CONTEXT_MSGCTXT, item.msgctxt]]),
+    ...(getFlags(item).length > 0 ? [[CONTEXT_FLAGS, getFlags(item).join(",")]] : [])
+  ].map(([type = "", value = ""]) => formatElement("context", ` context-type="${type}"`, value))
+  const lines =
+    contexts.length > 0
+      ? [
+          '<context-group name="po-entry" purpose="information">',
+          ...indent(contexts, 2),
+          "</context-group>"
+        ]
+      : []
+  for (const reference of item.references) {
+    const [file, line] = splitReference(reference)
+    lines.push(
+      '<context-group name="po-reference" purpose="location">',
+      `  ${formatElement("context", ' context-type="sourcefile"', file)}`,
+      ...(line === undefined
+        ? []
+        : [`  ${formatElement("context", ' context-type="linenumber"', String(line))}`]),
+      "</context-group>"
+    )
+  }
+  return [
+    ...lines,
+    ...item.extractedComments.map((note) => formatElement("note", ' from="developer"', note)),
+    ...item.comments.map((note) => formatElement("note", ' from="translator"', note))
+  ]
+}
+
+/** Formats a translation unit of a form in XLIFF 1.2 */
+function formatUnit12(item: PoItem, form: number, id: string, meta: string[]): string[] {
+  const ids = new Map<string, string>()
+  const lines = [`<source>${formatText12(getFormSource(item, form), ids)}</source>`]
+  if (isTranslated(item, form)) {
+    const state = item.flags.fuzzy ? "needs-review-translation" : "translated"
+    lines.push(`<target state="${state}">${formatText12(item.msgstr[form] ?? "", ids)}</target>`)
+  }
+  return [
+    `<trans-unit id="${id}" xml:space="preserve"${getTranslateAttribute(item)}>`,
+    ...indent([...lines, ...meta], 2),
+    "</trans-unit>"
+  ]
+}
+
+/** Formats an entry in XLIFF 1.2 */
+function formatEntry12(item: PoItem, id: string): string[] {
+  if (item.msgid_plural === null) {
+    return formatUnit12(item, 0, id, formatMeta12(item))
+  }
+  const units = getForms(item).flatMap((form) => formatUnit12(item, form, `${id}[${form}]`, []))
+  return [
+    `<group id="${id}" restype="${PLURAL_GROUP_12}" xml:space="preserve"${getTranslateAttribute(item)}>`,
+    ...indent([...formatMeta12(item), ...units], 2),
+    "</group>"
+  ]
+}
+
+/** Returns the notes of an entry in XLIFF 2.0 */
+function formatNotes20(item: PoItem): string[] {
+  const notes = [
+    ...(item.msgctxt === null ? [] : [[CONTEXT_MSGCTXT, item.msgctxt]]),
+    ...(getFlags(item).length > 0 ? [[CONTEXT_FLAGS, getFlags(item).join(",")]] : []),
+    ...item.references.map((reference) => ["location", reference]),
+    ...item.extractedComments.map((note) => ["developer", note]),
+    ...item.comments.map((note) => ["translator", note])
+  ].map(([category = "", value = ""]) => formatElement("note", ` category="${category}"`, value))
+  return notes.length > 0 ? ["<notes>", ...indent(notes, 2), "</notes>"] : []
+}
+
+/** Returns the XLIFF 2.0 state of a form */
+function getState20(item: PoItem, form: number): string {
+  if (!isTranslated(item, form)) {
+    return "initial"
+  }
+  return item.flags.fuzzy ? "translated" : "final"
+}
+
+/** Formats a unit of a form in XLIFF 2.0 */
+function formatUnit20(item: PoItem, form: number, id: string, notes: string[]): string[] {
+  const ids = new Map<string, string>()
+  const data = new Map<string, string>()
+  const segment = [`<source>${formatText20(getFormSource(item, form), ids, data)}</source>`]
+  if (isTranslated(item, form)) {
+    segment.push(`<target>${formatText20(item.msgstr[form] ?? "", ids, data)}</target>`)
+  }
+  const originalData = [...data].map(([text, ref]) => formatElement("data", ` id="${ref}"`, text))
+  return [
+    `<unit id="${id}" xml:space="preserve"${getTranslateAttribute(item)}>`,
+    ...indent(notes, 2),
+    ...(originalData.length > 0
+      ? indent(["<originalData>", ...indent(originalData, 2), "</originalData>"], 2)
+      : []),
+    `  <segment state="${getState20(item, form)}">`,
+    ...indent(segment, 4),
+    "  </segment>",
+    "</unit>"
+  ]
+}
+
+/** Formats an entry in XLIFF 2.0 */
+function formatEntry20(item: PoItem, id: string): string[] {
+  if (item.msgid_plural === null) {
+    return formatUnit20(item, 0, id, formatNotes20(item))
+  }
+  const units = getForms(item).flatMap((form) => formatUnit20(item, form, `${id}-${form}`, []))
+  return [
+    `<group id="${id}" type="${PLURAL_GROUP_20}"${getTranslateAttribute(item)}>`,
+    ...indent([...formatNotes20(item), ...units], 2),
+    "</group>"
+  ]
+}
+
+/** Escaped attributes of a document */
+interface XliffDocument {
+  sourceLang: string
+  targetLang: string
+  original: string
+}
+
+/** Formats the root and file elements of an XLIFF 1.2 document around its entries */
+function formatDocument12(document: XliffDocument, entries: string[]): string[] {
+  const { sourceLang, targetLang, original } = document
+  const target = targetLang ? ` target-language="${targetLang}"` : ""
+  return [
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file original="${original}" source-language="${sourceLang}"${target} datatype="po">`,
+    "    <body>",
+    ...indent(entries, 6),
+    "    </body>",
+    "  </file>"
+  ]
+}
+
+/** Formats the root and file elements of an XLIFF 2.0 document around its entries */
+function formatDocument20(document: XliffDocument, entries: string[]): string[] {
+  const { sourceLang, targetLang, original } = document
+  const target = targetLang ? ` trgLang="${targetLang}"` : ""
+  return [
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${sourceLang}"${target}>`,
+    `  <file id="f1" original="${original}">`,
+    ...indent(entries, 4),
+    "  </file>"
+  ]
+}
+
+/**
+ * Converts a PO file to XLIFF 1.2 or 2.0, for translation vendors and CAT
+ * tools.
+ *
+ * Entries get sequential ids. msgctxt, flags, references, comments, fuzzy
+ * and obsolete entries and plural forms are mapped as described in the
+ * module documentation, so `xliffToPo` reads them back. ICU placeholders
+ * and tags become inline codes. The target language is the Language
+ * header.
+ *
+ * @example
+ * const xliff = poToXliff(parsePo(content), { version: "2.0", sourceLang: "en" })
+ */
+export function poToXliff(po: PoFile, options: PoToXliffOptions = {}): string {
+  const version = options.version ?? "1.2"
+  const format = version === "1.2" ? formatEntry12 : formatEntry20
+  const entries = po.items
+    .filter((item) => item.msgid !== "")
+    .flatMap((item, index) => format(item, String(index + 1)))
+  const document: XliffDocument = {
+    sourceLang: escapeXml(options.sourceLang ?? po.headers["X-Source-Language"] ?? "en", true),
+    targetLang: escapeXml(po.headers.Language ?? "", true),
+    original: escapeXml(options.original ?? "messages.po", true)
+  }
+  const lines =
+    version === "1.2" ? formatDocument12(document, entries) : formatDocument20(document, entries)
+  return ['<?xml version="1.0" encoding="UTF-8"?>', ...lines, "</xliff>", ""].join("\n")
+}
+
+/** Returns the original text of a `<data>` element */
+function getData(data: Map<string, string>, ref: string | undefined): string {
+  return ref === undefined ? "" : (data.get(ref) ?? "")
+}
+
+/** Returns the text of inline content, with codes replaced by their original text */
+function readInline(element: XmlElement, data: Map<string, string>): string {
+  return element.children
+    .map((child) => (typeof child === "string" ? child : readCode(child, data)))
+    .join("")
+}
+
+/** Returns the original text of an inline code */
+function readCode(element: XmlElement, data: Map<string, string>): string {
+  const { dataRef, dataRefStart, dataRefEnd, hex } = element.attributes
+  if (dataRef !== undefined) {
+    return getData(data, dataRef)
+  }
+  if (element.name === "pc") {
+    return getData(data, dataRefStart) + readInline(element, data) + getData(data, dataRefEnd)
+  }
+  if (element.name === "cp") {
+    return String.fromCodePoint(parseInt(hex ?? "", 16))
+  }
+  if (NATIVE_CODE_ELEMENTS.has(element.name)) {
+    // <sub> holds translatable text inside native code, not code itself
+    return element.children.filter((child) => typeof child === "string").join("")
+  }
+  return EMPTY_ELEMENTS.has(element.name) ? "" : readInline(element, data)
+}
+
+/** Returns the text of a child element's inline content, or null without one */
+function readChild(
+  element: XmlElement | undefined,
+  name: string,
+  data: Map<string, string>
+): string | null {
+  const child = element && getChildElement(element, name)
+  return child ? readInline(child, data) : null
+}
+
+/** Creates an entry for a unit or plural group */
+function createEntry(element: XmlElement, nplurals: number): PoItem {
+  const item = createItem({ nplurals })
+  item.obsolete = element.attributes.translate === "no"
+  return item
+}
+
+/** Sets a flag list of the x-po-flags context or note */
+function setFlags(item: PoItem, flags: string): void {
+  for (const flag of flags.split(",")) {
+    if (flag.trim()) {
+      item.flags[flag.trim()] = true
+    }
+  }
+}
+
+/** Reads the context groups and notes of an XLIFF 1.2 unit or group */
+function readMeta12(item: PoItem, element: XmlElement): void {
+  for (const group of getChildElements(element, "context-group")) {
+    const contexts = new Map(
+      getChildElements(group, "context").map((context) => [
+        context.attributes["context-type"],
+        getTextContent(context)
+      ])
+    )
+    const file = contexts.get("sourcefile")
+    if (file !== undefined) {
+      const line = contexts.get("linenumber")
+      item.references.push(line === undefined ? file : `${file}:${line}`)
+    }
+    item.msgctxt = contexts.get(CONTEXT_MSGCTXT) ?? item.msgctxt
+    setFlags(item, contexts.get(CONTEXT_FLAGS) ?? "")
+  }
+  for (const note of getChildElements(element, "note")) {
+    const list = note.attributes.from === "developer" ? item.extractedComments : item.comments
+    list.push(getTextContent(note))
+  }
+}
+
+/** Reads a form of an XLIFF 1.2 unit; returns its source */
+function readForm12(item: PoItem, unit: XmlElement, form: number): string {
+  const data = new Map<string, string>()
+  const target = getChildElement(unit, "target")
+  const translation = readChild(unit, "target", data) ?? ""
+  item.msgstr[form] = translation
+  const state = target?.attributes.state
+  if (translation && state !== undefined && !REVIEWED_STATES_12.has(state)) {
+    item.flags.fuzzy = true
+  }
+  return readChild(unit, "source", data) ?? ""
+}
+
+/** Reads the units of an XLIFF 1.2 file or group */
+function readUnits12(element: XmlElement, items: PoItem[], nplurals: number): void {
+  for (const child of getChildElements(element)) {
+    if (child.name === "trans-unit") {
+      const item = createEntry(child, nplurals)
+      item.msgstr = []
+      item.msgid = readForm12(item, child, 0)
+      readMeta12(item, child)
+      items.push(item)
+    } else if (child.name === "group" && child.attributes.restype === PLURAL_GROUP_12) {
+      items.push(readPlurals(child, nplurals, readForm12, readMeta12))
+    } else if (child.name === "group" || child.name === "body") {
+      readUnits12(child, items, nplurals)
+    }
+  }
+}
+
+/** Reads the notes of an XLIFF 2.0 unit or group */
+function readNotes20(item: PoItem, element: XmlElement): void {
+  const notes = getChildElement(element, "notes")
+  for (const note of notes ? getChildElements(notes, "note") : []) {
+    const text = getTextContent(note)
+    const { category } = note.attributes
+    if (category === CONTEXT_MSGCTXT) {
+      item.msgctxt = text
+    } else if (category === CONTEXT_FLAGS) {
+      setFlags(item, text)
+    } else if (category === "location") {
+      item.references.push(text)
+    } else {
+      const list = category === "developer" ? item.extractedComments : item.comments
+      list.push(text)
+    }
+  }
+}
+
+/** Reads a form of an XLIFF 2.0 unit; returns its source */
+function readForm20(item: PoItem, unit: XmlElement, form: number): string {
+  const originalData = getChildElement(unit, "originalData")
+  const data = new Map(
+    (originalData ? getChildElements(originalData, "data") : []).map((element) => [
+      element.attributes.id ?? "",
+      readInline(element, new Map())
+    ])
+  )
+  const segments = getChildElements(unit).filter(
+    (child) => child.name === "segment" || child.name === "ignorable"
+  )
+  let source = ""
+  let translation = ""
+  for (const segment of segments) {
+    source += readChild(segment, "source", data) ?? ""
+    translation += readChild(segment, "target", data) ?? ""
+    const state = segment.attributes.state
+    if (readChild(segment, "target", data) && state !== undefined && DRAFT_STATES_20.has(state)) {
+      item.flags.fuzzy = true
+    }
+  }
+  item.msgstr[form] = translation
+  return source
+}
+
+/** Reads the units of an XLIFF 2.0 file or group */
+function readUnits20(element: XmlElement, items: PoItem[], nplurals: number): void {
+  for (const child of getChildElements(element)) {
+    if (child.name === "unit") {
+      const item = createEntry(child, nplurals)
+      item.msgstr = []
+      item.msgid = readForm20(item, child, 0)
+      readNotes20(item, child)
+      items.push(item)
+    } else if (child.name === "group" && child.attributes.type === PLURAL_GROUP_20) {
+      items.push(readPlurals(child, nplurals, readForm20, readNotes20))
+    } else if (child.name === "group") {
+      readUnits20(child, items, nplurals)
+    }
+  }
+}
+
+/** Reads a plural group: one unit per form, msgid from the first, msgid_plural from the second */
+function readPlurals(
+  group: XmlElement,
+  nplurals: number,
+  readForm: (item: PoItem, unit: XmlElement, form: number) => string,
+  readMeta: (item: PoItem, element: XmlElement) => void
+): PoItem {
+  const item = createEntry(group, nplurals)
+  const units = getChildElements(group).filter(
+    (child) => child.name === "trans-unit" || child.name === "unit"
+  )
+  item.msgstr = []
+  units.forEach((unit, form) => {
+    const source = readForm(item, unit, form)
+    if (form === 0) {
+      item.msgid = source
+    } else if (form === 1) {
+      item.msgid_plural = source
+    }
+  })
+  item.msgid_plural ??= item.msgid
+  item.nplurals = Math.max(units.length, 1)
+  readMeta(item, group)
+  return item
+}
+
+/** Sets the headers of a file from the languages of the root (2.0) or first file (1.2) element */
+function setHeaders(
+  po: PoFile,
+  attributes: Record<string, string>,
+  is20: boolean,
+  options: XliffToPoOptions
+): void {
+  const sourceLang = is20 ? attributes.srcLang : attributes["source-language"]
+  const targetLang = (is20 ? attributes.trgLang : attributes["target-language"]) ?? ""
+  po.headers.Language = targetLang
+  if (sourceLang) {
+    po.headers["X-Source-Language"] = sourceLang
+  }
+  const pluralForms = options.pluralForms ?? (targetLang && getPluralFormsHeader(targetLang))
+  if (pluralForms) {
+    po.headers["Plural-Forms"] = pluralForms
+  }
+}
+
+/**
+ * Reads an XLIFF 1.2 or 2.0 document into a PO file. The version is taken
+ * from the document.
+ *
+ * Units of all `<file>` elements become entries; mappings written by
+ * `poToXliff` are read back, so XLIFF → PO → XLIFF is stable. Units of
+ * other tools keep their source and target, with inline codes replaced by
+ * their original text. A target in a state other than translated or final
+ * (1.2), or initial or translated (2.0), makes its entry fuzzy. The
+ * Language and X-Source-Language headers come from the first file.
+ *
+ * @throws Error if the document is not well-formed XLIFF
+ *
+ * @example
+ * const po = xliffToPo(fs.readFileSync("de.xlf", "utf8"))
+ */
+export function xliffToPo(xml: string, options: XliffToPoOptions = {}): PoFile {
+  const root = parseXml(xml)
+  if (root.name !== "xliff") {
+    throw new Error(`Not an XLIFF document: the root element is <${root.name}>`)
+  }
+  const is20 = (root.attributes.version ?? "").startsWith("2")
+  const files = getChildElements(root, "file")
+  const po = createPoFile()
+  setHeaders(po, is20 ? root.attributes : (files[0]?.attributes ?? {}), is20, options)
+  const nplurals = Number(parsePluralForms(po.headers["Plural-Forms"]).nplurals) || 2
+  const readUnits = is20 ? readUnits20 : readUnits12
+  for (const file of files) {
+    readUnits(file, po.items, nplurals)
+  }
+  return po
+}